@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  AdaptiveEngine,
+  MASTERED_STREAK,
+  MAX_LEVEL,
+  factAnswer,
+  factKey,
+  parseAdaptiveState,
+} from "./AdaptiveEngine";
+import { getDifficulty } from "./Difficulty";
+
+const times = (n: number, fn: () => void) => Array.from({ length: n }).forEach(fn);
+
+describe("AdaptiveEngine", () => {
+  it("treats both orders of a multiplication fact as one fact", () => {
+    expect(factKey({ kind: "multiplication", a: 8, b: 7 })).toBe("7 × 8");
+    expect(factKey({ kind: "division", a: 59, b: 8 })).toBe("59 ÷ 8");
+    expect(factAnswer({ kind: "division", a: 59, b: 8 })).toBe(7);
+  });
+
+  it("tracks accuracy and response time per fact", () => {
+    const engine = new AdaptiveEngine();
+    engine.recordAnswer({ kind: "multiplication", a: 7, b: 8 }, false, 6000);
+    engine.recordAnswer({ kind: "multiplication", a: 8, b: 7 }, false, 4000);
+    engine.recordAnswer({ kind: "multiplication", a: 3, b: 4 }, true, 1000);
+
+    const state = engine.getState();
+    expect(state.facts["7 × 8"]).toMatchObject({ attempts: 2, correct: 0, totalResponseMs: 10000, streak: 0 });
+    expect(engine.weakFacts().map(factKey)).toEqual(["7 × 8"]);
+  });
+
+  it("re-serves missed facts until they are answered correctly in a row", () => {
+    const engine = new AdaptiveEngine(undefined, () => 0);
+    const fact = { kind: "multiplication" as const, a: 7, b: 8 };
+    engine.recordAnswer(fact, false, 3000);
+    engine.recordAnswer({ kind: "multiplication", a: 2, b: 2 }, true, 1000);
+
+    expect(engine.nextReview("multiplication")).toEqual(fact);
+    // Not the same fact twice in a row
+    expect(engine.nextReview("multiplication")).toBeNull();
+    expect(engine.nextReview("division")).toBeNull();
+
+    times(MASTERED_STREAK, () => engine.recordAnswer(fact, true, 2000));
+    engine.recordAnswer({ kind: "multiplication", a: 2, b: 2 }, true, 1000);
+    expect(engine.nextReview("multiplication")).toBeNull();
+  });
+
+  it("only reviews some of the time", () => {
+    const engine = new AdaptiveEngine(undefined, () => 0.5);
+    engine.recordAnswer({ kind: "division", a: 56, b: 8 }, false, 3000);
+    engine.recordAnswer({ kind: "division", a: 4, b: 2 }, true, 3000);
+    expect(engine.nextReview("division")).toBeNull();
+  });
+
+  it("moves the level up after a quick accurate round and down after a poor one", () => {
+    const engine = new AdaptiveEngine();
+    times(5, () => engine.recordAnswer({ kind: "division", a: 12, b: 3 }, true, 2000));
+    expect(engine.finishRound("division")).toBe(1);
+    expect(engine.getLevel("division")).toBe(1);
+
+    times(4, () => engine.recordAnswer({ kind: "division", a: 12, b: 3 }, false, 2000));
+    expect(engine.finishRound("division")).toBe(-1);
+    expect(engine.getLevel("division")).toBe(0);
+
+    // Accurate but slow rounds, or very short rounds, leave the level alone
+    times(5, () => engine.recordAnswer({ kind: "division", a: 12, b: 3 }, true, 9000));
+    expect(engine.finishRound("division")).toBe(0);
+    times(2, () => engine.recordAnswer({ kind: "division", a: 12, b: 3 }, false, 1000));
+    expect(engine.finishRound("division")).toBe(0);
+    expect(engine.getLevel("division")).toBe(0);
+    expect(engine.getLevel("multiplication")).toBe(0);
+  });
+
+  it("widens or narrows the tier's operand ranges with the level", () => {
+    const standard = getDifficulty("standard");
+    const up = new AdaptiveEngine({ levels: { division: 2, multiplication: -3 }, facts: {} });
+    const tier = up.adjustTier(standard);
+    expect(tier.division.quotients).toEqual({ min: 1, max: 16 });
+    expect(tier.division.divisors).toEqual({ min: 2, max: 14 });
+    expect(tier.multiplication.left).toEqual({ min: 1, max: 6 });
+    expect(standard.division.quotients.max).toBe(12);
+  });
+
+  it("reads stored state defensively", () => {
+    const state = parseAdaptiveState({
+      levels: { division: 99, multiplication: "high" },
+      facts: {
+        a: { kind: "multiplication", a: 8, b: 7, attempts: 3, correct: 1, totalResponseMs: 900, streak: 1 },
+        b: { kind: "division", a: 4, b: 0 },
+        c: { kind: "subtraction", a: 1, b: 1 },
+      },
+    });
+    expect(state.levels).toEqual({ division: MAX_LEVEL, multiplication: 0 });
+    expect(Object.keys(state.facts)).toEqual(["7 × 8"]);
+    expect(parseAdaptiveState(null)).toEqual({ levels: { division: 0, multiplication: 0 }, facts: {} });
+  });
+});
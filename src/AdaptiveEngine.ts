@@ -0,0 +1,206 @@
+import { DifficultyTier, OperandRange } from './Difficulty';
+
+export type FactKind = 'division' | 'multiplication';
+
+// One math fact. Division is `a ÷ b` (a need not divide evenly, the answer is
+// the whole quotient); multiplication is `a × b`.
+export interface MathFact {
+    kind: FactKind;
+    a: number;
+    b: number;
+}
+
+export interface FactStats extends MathFact {
+    attempts: number;
+    correct: number;
+    totalResponseMs: number;
+    streak: number; // correct answers in a row since the last miss
+}
+
+// JSON-safe state kept on the player's profile between runs
+export interface AdaptiveState {
+    levels: Record<FactKind, number>;
+    facts: Record<string, FactStats>;
+}
+
+// Each level moves the top of every operand range by this much
+export const RANGE_STEP = 2;
+export const MIN_LEVEL = -3;
+export const MAX_LEVEL = 3;
+// A round this accurate and this quick moves the player up a level;
+// below LEVEL_DOWN_ACCURACY moves them down one
+const LEVEL_UP_ACCURACY = 0.9;
+const LEVEL_UP_MS = 4000;
+const LEVEL_DOWN_ACCURACY = 0.6;
+// Rounds shorter than this say too little to change the level
+const MIN_ROUND_ANSWERS = 3;
+// Share of problems that re-serve a missed fact, while there are any
+export const REVIEW_CHANCE = 0.3;
+// Correct answers in a row before a missed fact stops being reviewed
+export const MASTERED_STREAK = 2;
+const MAX_TRACKED_FACTS = 300;
+
+// "7 × 8" and "8 × 7" are the same fact
+export function factKey(fact: MathFact): string {
+    if (fact.kind === 'multiplication') {
+        return `${Math.min(fact.a, fact.b)} × ${Math.max(fact.a, fact.b)}`;
+    }
+    return `${fact.a} ÷ ${fact.b}`;
+}
+
+export function factAnswer(fact: MathFact): number {
+    return fact.kind === 'multiplication' ? fact.a * fact.b : Math.floor(fact.a / fact.b);
+}
+
+export function emptyAdaptiveState(): AdaptiveState {
+    return { levels: { division: 0, multiplication: 0 }, facts: {} };
+}
+
+// Rebuilds state read back from storage, dropping anything malformed
+export function parseAdaptiveState(data: any): AdaptiveState {
+    const state = emptyAdaptiveState();
+    if (!data || typeof data !== 'object') return state;
+    (['division', 'multiplication'] as FactKind[]).forEach(kind => {
+        const level = data.levels?.[kind];
+        if (typeof level === 'number') state.levels[kind] = Math.max(MIN_LEVEL, Math.min(MAX_LEVEL, Math.round(level)));
+    });
+    Object.values(data.facts && typeof data.facts === 'object' ? data.facts : {}).forEach((f: any) => {
+        if (!f || (f.kind !== 'division' && f.kind !== 'multiplication')) return;
+        if (typeof f.a !== 'number' || typeof f.b !== 'number' || (f.kind === 'division' && f.b === 0)) return;
+        const stats: FactStats = {
+            kind: f.kind, a: f.a, b: f.b,
+            attempts: Number(f.attempts) || 0,
+            correct: Number(f.correct) || 0,
+            totalResponseMs: Number(f.totalResponseMs) || 0,
+            streak: Number(f.streak) || 0,
+        };
+        state.facts[factKey(stats)] = stats;
+    });
+    return state;
+}
+
+// Moves the top of a range by `level` steps, never below min + 1
+export function shiftRange(range: OperandRange, level: number): OperandRange {
+    return { min: range.min, max: Math.max(range.min + 1, range.max + level * RANGE_STEP) };
+}
+
+// Tracks how a student does on each fact across days, widens or narrows the
+// operand ranges as they improve or struggle, and brings missed facts back
+// until they are answered correctly MASTERED_STREAK times in a row.
+export class AdaptiveEngine {
+    private state: AdaptiveState;
+    private random: () => number;
+    private round: Record<FactKind, { answers: number; correct: number; totalMs: number }>;
+    private lastServed: string | null = null;
+
+    constructor(state: AdaptiveState = emptyAdaptiveState(), random: () => number = Math.random) {
+        this.state = {
+            levels: { ...state.levels },
+            facts: Object.fromEntries(Object.entries(state.facts).map(([key, stats]) => [key, { ...stats }])),
+        };
+        this.random = random;
+        this.round = this.emptyRound();
+    }
+
+    public getState(): AdaptiveState {
+        return {
+            levels: { ...this.state.levels },
+            facts: Object.fromEntries(Object.entries(this.state.facts).map(([key, stats]) => [key, { ...stats }])),
+        };
+    }
+
+    public getLevel(kind: FactKind): number {
+        return this.state.levels[kind];
+    }
+
+    // The tier with its operand ranges moved to the player's current level
+    public adjustTier(tier: DifficultyTier): DifficultyTier {
+        const division = this.state.levels.division;
+        const multiplication = this.state.levels.multiplication;
+        return {
+            ...tier,
+            division: {
+                ...tier.division,
+                divisors: shiftRange(tier.division.divisors, division),
+                quotients: shiftRange(tier.division.quotients, division),
+            },
+            multiplication: {
+                left: shiftRange(tier.multiplication.left, multiplication),
+                right: shiftRange(tier.multiplication.right, multiplication),
+            },
+        };
+    }
+
+    // Missed facts still being practised, most missed first
+    public weakFacts(kind?: FactKind): FactStats[] {
+        return Object.values(this.state.facts)
+            .filter(f => (kind === undefined || f.kind === kind) && f.attempts > f.correct && f.streak < MASTERED_STREAK)
+            .sort((x, y) => (y.attempts - y.correct) - (x.attempts - x.correct));
+    }
+
+    // Returns a missed fact to ask again, or null for a fresh problem
+    public nextReview(kind: FactKind): MathFact | null {
+        const candidates = this.weakFacts(kind).filter(f => factKey(f) !== this.lastServed).slice(0, 5);
+        if (candidates.length === 0 || this.random() >= REVIEW_CHANCE) return null;
+        const pick = candidates[Math.floor(this.random() * candidates.length)];
+        this.lastServed = factKey(pick);
+        return { kind: pick.kind, a: pick.a, b: pick.b };
+    }
+
+    public recordAnswer(fact: MathFact, correct: boolean, responseMs: number): void {
+        const key = factKey(fact);
+        const stats = this.state.facts[key] ?? {
+            kind: fact.kind, a: fact.a, b: fact.b,
+            attempts: 0, correct: 0, totalResponseMs: 0, streak: 0,
+        };
+        stats.attempts++;
+        stats.totalResponseMs += Math.max(0, responseMs);
+        if (correct) {
+            stats.correct++;
+            stats.streak++;
+        } else {
+            stats.streak = 0;
+        }
+        this.state.facts[key] = stats;
+        this.lastServed = key;
+        this.pruneFacts();
+
+        const round = this.round[fact.kind];
+        round.answers++;
+        if (correct) round.correct++;
+        round.totalMs += Math.max(0, responseMs);
+    }
+
+    // Called when a minigame round ends; moves the level by at most one step
+    // and returns the move (1 up, -1 down, 0 unchanged)
+    public finishRound(kind: FactKind): number {
+        const round = this.round[kind];
+        const before = this.state.levels[kind];
+        if (round.answers >= MIN_ROUND_ANSWERS) {
+            const accuracy = round.correct / round.answers;
+            const averageMs = round.totalMs / round.answers;
+            let level = this.state.levels[kind];
+            if (accuracy >= LEVEL_UP_ACCURACY && averageMs <= LEVEL_UP_MS) level++;
+            else if (accuracy < LEVEL_DOWN_ACCURACY) level--;
+            this.state.levels[kind] = Math.max(MIN_LEVEL, Math.min(MAX_LEVEL, level));
+        }
+        this.round[kind] = { answers: 0, correct: 0, totalMs: 0 };
+        return this.state.levels[kind] - before;
+    }
+
+    private emptyRound(): Record<FactKind, { answers: number; correct: number; totalMs: number }> {
+        return {
+            division: { answers: 0, correct: 0, totalMs: 0 },
+            multiplication: { answers: 0, correct: 0, totalMs: 0 },
+        };
+    }
+
+    // Forgets mastered facts first so the profile stays small
+    private pruneFacts(): void {
+        const keys = Object.keys(this.state.facts);
+        if (keys.length <= MAX_TRACKED_FACTS) return;
+        const weak = new Set(this.weakFacts().map(factKey));
+        const removable = keys.filter(key => !weak.has(key));
+        removable.slice(0, keys.length - MAX_TRACKED_FACTS).forEach(key => delete this.state.facts[key]);
+    }
+}
@@ -446,6 +446,35 @@ describe('AnimationPlayer', () => {
             loader.restore();
         });
 
+        it('should resume from the frame it stopped on', async () => {
+            const onComplete = vi.fn();
+            const player = new AnimationPlayer(
+                layer,
+                ['img1.png', 'img2.png', 'img3.png'],
+                frameRate,
+                0, 0, 50, 50,
+                false,
+                onComplete
+            );
+
+            const loader = mockImageLoader();
+            await player.load();
+            player.start();
+            vi.advanceTimersByTime(frameTime);
+            player.stop();
+
+            player.resume();
+            expect(player.getIsPlaying()).toBe(true);
+            expect((player as any).currentFrameIndex).toBe(1);
+            vi.advanceTimersByTime(frameTime * 2);
+            expect(onComplete).toHaveBeenCalledTimes(1);
+
+            // Finished, so there is nothing left to resume
+            player.resume();
+            expect(player.getIsPlaying()).toBe(false);
+            loader.restore();
+        });
+
         it('should handle empty/null frames gracefully', async () => {
             const player = new AnimationPlayer(
                 layer, 
@@ -91,7 +91,18 @@ export class AnimationPlayer {
         this.currentFrameIndex = 0;
         this.layer.batchDraw();
         this.isPlaying = true;
+        this.playFrames();
+    }
+
+    // Carries on from the frame stop() left it on; a finished animation stays finished
+    resume(): void {
+        if (!this.isLoaded || !this.konvaImage || this.isPlaying) return;
+        if (this.currentFrameIndex >= this.frames.length) return;
+        this.isPlaying = true;
+        this.playFrames();
+    }
 
+    private playFrames(): void {
         this.intervalId = window.setInterval(() => {
             if (!this.isPlaying || !this.konvaImage) {
                 if (this.intervalId) clearInterval(this.intervalId);
@@ -0,0 +1,77 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+
+const players = vi.hoisted(() => ({
+  last: null as any,
+  loads: true,
+}));
+
+vi.mock("./AnimationPlayer", () => ({
+  AnimationPlayer: class {
+    start = vi.fn();
+    stop = vi.fn();
+    resume = vi.fn();
+    destroy = vi.fn();
+    onComplete: () => void;
+    constructor(_layer: unknown, _paths: string[], _fps: number, _x: number, _y: number, _w: number, _h: number, _loop: boolean, onComplete: () => void) {
+      this.onComplete = onComplete;
+      players.last = this;
+    }
+    load() {
+      return players.loads ? Promise.resolve() : Promise.reject(new Error("missing frames"));
+    }
+  },
+}));
+
+import { AnimationScreen } from "./AnimationScreen";
+
+const stage = { width: () => 800, height: () => 600 };
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("AnimationScreen", () => {
+  beforeEach(() => {
+    players.loads = true;
+  });
+
+  it("plays once mounted and finishes through onComplete", async () => {
+    const onComplete = vi.fn();
+    const screen = new AnimationScreen(stage as never, {} as never, ["1.png"], 2, onComplete);
+    expect(players.last.start).not.toHaveBeenCalled();
+
+    screen.mount();
+    await flush();
+    expect(players.last.start).toHaveBeenCalled();
+    players.last.onComplete();
+    expect(onComplete).toHaveBeenCalledTimes(1);
+
+    screen.unmount();
+    expect(players.last.destroy).toHaveBeenCalled();
+  });
+
+  it("stops and carries on when paused and resumed", async () => {
+    const screen = new AnimationScreen(stage as never, {} as never, ["1.png"], 2, vi.fn());
+    screen.mount();
+    screen.pause();
+    await flush();
+    // loaded while hidden: held on the first frame
+    expect(players.last.start).toHaveBeenCalled();
+    expect(players.last.stop).toHaveBeenCalledTimes(2);
+
+    screen.resume();
+    expect(players.last.resume).toHaveBeenCalled();
+  });
+
+  it("skips ahead when the frames fail to load, unless it is already gone", async () => {
+    players.loads = false;
+    const onComplete = vi.fn();
+    new AnimationScreen(stage as never, {} as never, ["1.png"], 2, onComplete).mount();
+    await flush();
+    expect(onComplete).toHaveBeenCalledTimes(1);
+
+    const gone = vi.fn();
+    const screen = new AnimationScreen(stage as never, {} as never, ["1.png"], 2, gone);
+    screen.mount();
+    screen.unmount();
+    await flush();
+    expect(gone).not.toHaveBeenCalled();
+  });
+});
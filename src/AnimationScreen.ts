@@ -0,0 +1,49 @@
+import Konva from 'konva';
+import { AnimationPlayer } from './AnimationPlayer';
+import { Screen } from './Screen';
+
+// A full-stage frame animation shown between phases. Frames that fail to
+// load skip straight to onComplete, unless the screen is gone by then.
+export class AnimationScreen implements Screen {
+    private player: AnimationPlayer;
+    private onComplete: () => void;
+    private mounted: boolean = false;
+    private paused: boolean = false;
+
+    constructor(stage: Konva.Stage, layer: Konva.Layer, imagePaths: string[], frameRate: number, onComplete: () => void) {
+        this.onComplete = onComplete;
+        this.player = new AnimationPlayer(
+            layer, imagePaths, frameRate, 0, 0, stage.width(), stage.height(), false,
+            () => this.onComplete()
+        );
+    }
+
+    public mount(): void {
+        this.mounted = true;
+        this.player.load().then(() => {
+            if (!this.mounted) return;
+            this.player.start();
+            if (this.paused) this.player.stop();
+        }).catch(() => {
+            if (this.mounted) this.onComplete();
+        });
+    }
+
+    // Sized to the stage it was mounted on; it is over in a few seconds
+    public resize(): void {}
+
+    public pause(): void {
+        this.paused = true;
+        this.player.stop();
+    }
+
+    public resume(): void {
+        this.paused = false;
+        this.player.resume();
+    }
+
+    public unmount(): void {
+        this.mounted = false;
+        this.player.destroy();
+    }
+}
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { AudioClip, AudioManager, DEFAULT_AUDIO_SETTINGS, SilentAudioManager, parseAudioSettings } from "./AudioManager";
+import { EventBus } from "./EventBus";
+
+// Silent audio that keeps its clips so their volumes can be checked
+class RecordingAudio extends SilentAudioManager {
+  clips = new Map<string, AudioClip & { pause: ReturnType<typeof vi.fn> }>();
+
+  protected createClip(file: string): AudioClip {
+    const clip = { ...super.createClip(file), pause: vi.fn() };
+    this.clips.set(file, clip);
+    return clip;
+  }
+}
+
+describe("AudioManager", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("holds music and effects until audio is unlocked", () => {
+    const audio = new SilentAudioManager();
+    audio.playMusic("story");
+    audio.playSfx("win");
+    expect(audio.played).toEqual([]);
+
+    audio.unlock();
+    audio.unlock();
+    expect(audio.played).toEqual(["sad_mus.mp3"]);
+    audio.playSfx("win");
+    expect(audio.played).toEqual(["sad_mus.mp3", "Win_sound.mp3"]);
+  });
+
+  it("crossfades from one track to the next", () => {
+    const audio = new RecordingAudio();
+    audio.unlock();
+    audio.playMusic("intro");
+    vi.advanceTimersByTime(1000);
+    const intro = audio.clips.get("login_page_mus.mp3")!;
+    expect(intro.loop).toBe(true);
+    expect(intro.volume).toBeCloseTo(0.5);
+
+    audio.playMusic("main");
+    vi.advanceTimersByTime(400);
+    const main = audio.clips.get("in_game_mus.mp3")!;
+    expect(intro.volume).toBeCloseTo(0.25);
+    expect(main.volume).toBeCloseTo(0.25);
+    expect(intro.pause).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(600);
+    expect(intro.pause).toHaveBeenCalled();
+    expect(main.volume).toBeCloseTo(0.5);
+
+    // asking for the playing track again does not restart it
+    audio.playMusic("main");
+    expect(audio.played.filter((file) => file === "in_game_mus.mp3")).toHaveLength(1);
+  });
+
+  it("sets volume and mute on each bus independently", () => {
+    const audio = new RecordingAudio();
+    audio.unlock();
+    audio.playMusic("baking");
+    vi.advanceTimersByTime(1000);
+    const music = audio.clips.get("baking_mus.mp3")!;
+
+    audio.setMuted("music", true);
+    expect(music.volume).toBe(0);
+    audio.setVolume("sfx", 0.3);
+    audio.playSfx("lose");
+    expect(audio.clips.get("Lose_sound.mp3")!.volume).toBeCloseTo(0.3);
+
+    audio.setMuted("music", false);
+    audio.setVolume("music", 2);
+    expect(music.volume).toBe(1);
+
+    audio.setMuted("sfx", true);
+    audio.playSfx("win");
+    expect(audio.played).not.toContain("Win_sound.mp3");
+    expect(audio.getSettings()).toEqual({
+      music: { volume: 1, muted: false },
+      sfx: { volume: 0.3, muted: true },
+    });
+  });
+
+  it("announces every volume and mute change on the event bus", () => {
+    const bus = new EventBus();
+    EventBus.setInstance(bus);
+    const changes = vi.fn();
+    bus.on("volumeChanged", changes);
+
+    const audio = new SilentAudioManager();
+    audio.setVolume("music", 0.7);
+    audio.setMuted("sfx", true);
+    audio.setVolume("music", Number.NaN); // ignored, so not announced
+
+    expect(changes.mock.calls).toEqual([
+      [{ bus: "music", volume: 0.7, muted: false }],
+      [{ bus: "sfx", volume: 1, muted: true }],
+    ]);
+  });
+
+  it("keeps settings between visits and repairs bad ones", () => {
+    const stored = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value),
+    });
+
+    const first = new AudioManager();
+    expect(first.getSettings()).toEqual(DEFAULT_AUDIO_SETTINGS);
+    first.setVolume("music", 0.2);
+    first.setMuted("sfx", true);
+
+    const second = new AudioManager();
+    expect(second.getVolume("music")).toBe(0.2);
+    expect(second.isMuted("sfx")).toBe(true);
+
+    expect(parseAudioSettings({ music: { volume: "loud", muted: 1 }, sfx: null })).toEqual(DEFAULT_AUDIO_SETTINGS);
+    expect(parseAudioSettings({ music: { volume: 7 } }).music.volume).toBe(1);
+  });
+});
@@ -0,0 +1,301 @@
+import { getAssetPath } from './utils';
+import { EventBus } from './EventBus';
+
+// Audio
+// -----
+// One service owns every sound in the game. Music and sound effects go
+// through separate buses, each with its own volume and mute, kept in
+// localStorage between visits. One music track plays at a time; switching
+// tracks crossfades the old one out and the new one in. Browsers refuse to
+// play anything before the first click or key press, so nothing sounds until
+// unlock(), which starts whichever track was asked for in the meantime.
+// Every volume or mute change goes out on the event bus as volumeChanged, so
+// each slider showing that bus can follow it.
+export type AudioBus = 'music' | 'sfx';
+export type MusicTrack = 'intro' | 'story' | 'main' | 'anim' | 'endday' | 'baking';
+export type SoundEffect =
+    | 'win' | 'lose'
+    | 'correct' | 'wrong' // answers in the minigames
+    | 'cash' // a purchase goes through
+    | 'timerWarning' // a minigame timer turns orange, then red
+    | 'dishClean'
+    | 'levelUp' // the adaptive level goes up after a round
+    | 'shuffle'
+    | 'click'; // any button
+
+export interface BusSettings {
+    volume: number; // 0–1
+    muted: boolean;
+}
+
+export type AudioSettings = Record<AudioBus, BusSettings>;
+
+// The part of an <audio> element the manager uses
+export interface AudioClip {
+    loop: boolean;
+    volume: number;
+    currentTime: number;
+    play(): Promise<void> | void;
+    pause(): void;
+}
+
+const AUDIO_SETTINGS_KEY = 'cookieTrailerTycoon.audio';
+const CROSSFADE_MS = 800;
+const FADE_STEP_MS = 50;
+
+const MUSIC_FILES: Record<MusicTrack, string> = {
+    intro: 'login_page_mus.mp3',
+    story: 'sad_mus.mp3',
+    main: 'in_game_mus.mp3',
+    anim: 'morning_mus.mp3',
+    endday: 'day_sum_mus.mp3',
+    baking: 'baking_mus.mp3',
+};
+
+const SFX_FILES: Record<SoundEffect, string> = {
+    win: 'Win_sound.mp3',
+    lose: 'Lose_sound.mp3',
+    correct: 'correct_sound.wav',
+    wrong: 'wrong_sound.wav',
+    cash: 'cash_sound.wav',
+    timerWarning: 'timer_sound.wav',
+    dishClean: 'dish_sound.wav',
+    levelUp: 'levelup_sound.wav',
+    shuffle: 'shuffle_sound.wav',
+    click: 'click_sound.wav',
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+    music: { volume: 0.5, muted: false },
+    sfx: { volume: 1, muted: false },
+};
+
+function clampVolume(volume: number): number {
+    return Math.max(0, Math.min(1, volume));
+}
+
+function parseBus(raw: any, fallback: BusSettings): BusSettings {
+    if (!raw || typeof raw !== 'object') return { ...fallback };
+    return {
+        volume: typeof raw.volume === 'number' && !Number.isNaN(raw.volume) ? clampVolume(raw.volume) : fallback.volume,
+        muted: typeof raw.muted === 'boolean' ? raw.muted : fallback.muted,
+    };
+}
+
+// Reads stored settings, falling back to the defaults field by field
+export function parseAudioSettings(raw: unknown): AudioSettings {
+    const parsed = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+    return {
+        music: parseBus(parsed.music, DEFAULT_AUDIO_SETTINGS.music),
+        sfx: parseBus(parsed.sfx, DEFAULT_AUDIO_SETTINGS.sfx),
+    };
+}
+
+function play(clip: AudioClip): void {
+    // jsdom and older browsers return nothing; autoplay refusals are ignored
+    const played = clip.play();
+    if (played) played.catch(() => {});
+}
+
+export class AudioManager {
+    private static instance: AudioManager | null = null;
+
+    private settings: AudioSettings;
+    private unlocked: boolean = false;
+    private currentTrack: MusicTrack | null = null;
+    private musicClips = new Map<MusicTrack, AudioClip>();
+    private sfxClips = new Map<SoundEffect, AudioClip>();
+    private fades = new Map<MusicTrack, number>(); // level of each track still sounding, 0–1
+    private fadeTimer: ReturnType<typeof setInterval> | null = null;
+
+    // storageKey null keeps the settings in memory only
+    constructor(private storageKey: string | null = AUDIO_SETTINGS_KEY) {
+        this.settings = this.read();
+    }
+
+    public static getInstance(): AudioManager {
+        if (!AudioManager.instance) {
+            AudioManager.instance = new AudioManager();
+        }
+        return AudioManager.instance;
+    }
+
+    // Replaces the shared manager, e.g. with a SilentAudioManager in tests
+    public static setInstance(manager: AudioManager): void {
+        AudioManager.instance = manager;
+    }
+
+    public unlock(): void {
+        if (this.unlocked) return;
+        this.unlocked = true;
+        this.startCurrentTrack();
+    }
+
+    public isUnlocked(): boolean {
+        return this.unlocked;
+    }
+
+    // Crossfades to the track; null fades the music out
+    public playMusic(track: MusicTrack | null): void {
+        if (track === this.currentTrack) return;
+        this.currentTrack = track;
+        if (this.unlocked) this.startCurrentTrack();
+    }
+
+    public getCurrentTrack(): MusicTrack | null {
+        return this.currentTrack;
+    }
+
+    public playSfx(effect: SoundEffect): void {
+        if (!this.unlocked || this.gain('sfx') === 0) return;
+        let clip = this.sfxClips.get(effect);
+        if (!clip) {
+            clip = this.createClip(SFX_FILES[effect]);
+            this.sfxClips.set(effect, clip);
+        }
+        clip.volume = this.gain('sfx');
+        clip.currentTime = 0;
+        play(clip);
+    }
+
+    public getSettings(): AudioSettings {
+        return { music: { ...this.settings.music }, sfx: { ...this.settings.sfx } };
+    }
+
+    public getVolume(bus: AudioBus): number {
+        return this.settings[bus].volume;
+    }
+
+    public setVolume(bus: AudioBus, volume: number): void {
+        if (typeof volume !== 'number' || Number.isNaN(volume)) return;
+        this.settings[bus].volume = clampVolume(volume);
+        this.applyVolume(bus);
+        this.write();
+        this.announce(bus);
+    }
+
+    public isMuted(bus: AudioBus): boolean {
+        return this.settings[bus].muted;
+    }
+
+    public setMuted(bus: AudioBus, muted: boolean): void {
+        this.settings[bus].muted = muted;
+        this.applyVolume(bus);
+        this.write();
+        this.announce(bus);
+    }
+
+    protected createClip(file: string): AudioClip {
+        return new Audio(getAssetPath(file));
+    }
+
+    // What the bus plays at right now: its volume, or silence when muted
+    private gain(bus: AudioBus): number {
+        return this.settings[bus].muted ? 0 : this.settings[bus].volume;
+    }
+
+    private musicClip(track: MusicTrack): AudioClip {
+        let clip = this.musicClips.get(track);
+        if (!clip) {
+            clip = this.createClip(MUSIC_FILES[track]);
+            clip.loop = true;
+            this.musicClips.set(track, clip);
+        }
+        return clip;
+    }
+
+    // Starts the current track silent unless it is still fading out, and
+    // lets the fade bring it up while everything else goes down
+    private startCurrentTrack(): void {
+        const track = this.currentTrack;
+        if (track !== null && !this.fades.has(track)) {
+            const clip = this.musicClip(track);
+            clip.volume = 0;
+            clip.currentTime = 0;
+            this.fades.set(track, 0);
+            play(clip);
+        }
+        if (this.fadeTimer === null && this.fades.size > 0) {
+            this.fadeTimer = setInterval(() => this.stepFades(), FADE_STEP_MS);
+        }
+    }
+
+    private stepFades(): void {
+        const step = FADE_STEP_MS / CROSSFADE_MS;
+        this.fades.forEach((level, track) => {
+            const target = track === this.currentTrack ? 1 : 0;
+            const next = target > level ? Math.min(target, level + step) : Math.max(target, level - step);
+            const clip = this.musicClip(track);
+            clip.volume = next * this.gain('music');
+            if (next === 0 && target === 0) {
+                clip.pause();
+                clip.currentTime = 0;
+                this.fades.delete(track);
+            } else {
+                this.fades.set(track, next);
+            }
+        });
+
+        const settled = Array.from(this.fades).every(([track, level]) => track === this.currentTrack && level === 1);
+        if (settled && this.fadeTimer !== null) {
+            clearInterval(this.fadeTimer);
+            this.fadeTimer = null;
+        }
+    }
+
+    private applyVolume(bus: AudioBus): void {
+        if (bus === 'music') {
+            this.fades.forEach((level, track) => {
+                this.musicClip(track).volume = level * this.gain('music');
+            });
+        } else {
+            this.sfxClips.forEach(clip => {
+                clip.volume = this.gain('sfx');
+            });
+        }
+    }
+
+    private announce(bus: AudioBus): void {
+        EventBus.getInstance().emit('volumeChanged', { bus, ...this.settings[bus] });
+    }
+
+    private read(): AudioSettings {
+        if (this.storageKey === null || typeof localStorage === 'undefined') return parseAudioSettings(null);
+        try {
+            const raw = localStorage.getItem(this.storageKey);
+            return parseAudioSettings(raw ? JSON.parse(raw) : null);
+        } catch (error) {
+            console.warn('Could not read audio settings, using defaults:', error);
+            return parseAudioSettings(null);
+        }
+    }
+
+    private write(): void {
+        if (this.storageKey === null || typeof localStorage === 'undefined') return;
+        try {
+            localStorage.setItem(this.storageKey, JSON.stringify(this.settings));
+        } catch (error) {
+            console.warn('Could not save audio settings:', error);
+        }
+    }
+}
+
+// Plays nothing. Its clips are inert and its settings stay in memory, so a
+// test can check what would have been heard without <audio> or localStorage.
+export class SilentAudioManager extends AudioManager {
+    public played: string[] = []; // files asked to play, in order
+
+    constructor() {
+        super(null);
+    }
+
+    protected createClip(file: string): AudioClip {
+        return {
+            loop: false,
+            volume: 0,
+            currentTime: 0,
+            play: () => { this.played.push(file); },
+            pause: () => {},
+        };
+    }
+}
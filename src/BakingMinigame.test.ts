@@ -1,5 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { BakingMinigame } from "./BakingMinigame";
+import { getDifficulty } from "./Difficulty";
+import { AdaptiveEngine } from "./AdaptiveEngine";
+import { AudioManager, SilentAudioManager } from "./AudioManager";
 
 class FakeStage {
   private readonly widthValue: number;
@@ -84,6 +87,7 @@ vi.mock("./AnimationPlayer", () => ({
     private readonly onComplete: () => void;
     readonly start = vi.fn();
     readonly stop = vi.fn();
+    readonly resume = vi.fn();
     readonly destroy = vi.fn();
     private entry: AnimationEntry;
 
@@ -147,6 +151,7 @@ vi.mock("./ui/InfoButton", () => ({
     ) {
       // noop
     }
+    destroy() {}
   },
 }));
 
@@ -347,6 +352,7 @@ describe("BakingMinigame", () => {
     const onComplete = vi.fn();
 
     const minigame = new BakingMinigame(stage as never, layer as never, 5, onComplete);
+    minigame.mount();
     const animation = animationState.instances[0];
     await animation.loadPromise?.catch(() => {});
     expect(consoleErrorSpy).toHaveBeenCalled();
@@ -385,9 +391,9 @@ describe("BakingMinigame", () => {
     expect(animationState.instances[0].destroy).toHaveBeenCalled();
 
     exitButtonState.lastCallback?.();
-    expect(window.location.href).toBe("/login.hmtl");
+    expect(window.location.href).toBe("/login.html");
 
-    minigame.cleanup();
+    minigame.unmount();
     expect(window.removeEventListener).toHaveBeenCalledWith(
       "keydown",
       expect.any(Function)
@@ -400,6 +406,7 @@ describe("BakingMinigame", () => {
     const onComplete = vi.fn();
 
     const minigame = new BakingMinigame(stage as never, layer as never, 9, onComplete);
+    minigame.mount();
     await Promise.resolve();
 
     const animation = animationState.instances[0];
@@ -472,6 +479,118 @@ describe("BakingMinigame", () => {
       false
     );
 
-    minigame.cleanup();
+    minigame.unmount();
+  });
+
+  it("uses the chosen tier's ranges, remainders and timer", async () => {
+    mathRandomSpy.mockReturnValue(0.5);
+    const minigame = new BakingMinigame(
+      new FakeStage(1024, 768) as never, new FakeLayer() as never, 9, vi.fn(), getDifficulty("challenge")
+    );
+    minigame.mount();
+    await Promise.resolve();
+    animationState.instances[0].triggerComplete();
+    const playRect = konvaState.rects.find((rect) => rect.config.fill === "#4CAF50");
+    konvaState.groups.find((group) => group.children.includes(playRect?.node as any))?.trigger("click tap", {});
+
+    const texts = konvaState.texts.map((text) => text.config.text);
+    expect(texts).toContain("Difficulty: Challenge");
+    expect(texts).toContain("Time: 9s");
+    // divisor 3 + 5, quotient 5 + 10, remainder 4
+    expect(texts).toContain("124 ÷ 8 = ? R 4");
+
+    keydownHandler!({ key: "1" });
+    keydownHandler!({ key: "5" });
+    keydownHandler!({ key: "Enter" });
+    expect(konvaState.texts.map((text) => text.config.text)).toContain("Tips Earned: $5");
+
+    minigame.unmount();
+  });
+
+  it("stops the countdown while paused", async () => {
+    const minigame = new BakingMinigame(new FakeStage(1024, 768) as never, new FakeLayer() as never, 9, vi.fn());
+    minigame.mount();
+    await Promise.resolve();
+    animationState.instances[0].triggerComplete();
+    const playRect = konvaState.rects.find((rect) => rect.config.fill === "#4CAF50");
+    konvaState.groups.find((group) => group.children.includes(playRect?.node as any))?.trigger("click tap", {});
+    const timer = () => konvaState.texts.find((text) => (text.config.text as string)?.startsWith("Time:"))?.config.text;
+
+    vi.advanceTimersByTime(2000);
+    expect(timer()).toBe("Time: 10s");
+    minigame.pause();
+    vi.advanceTimersByTime(5000);
+    expect(timer()).toBe("Time: 10s");
+    minigame.resume();
+    vi.advanceTimersByTime(1000);
+    expect(timer()).toBe("Time: 9s");
+
+    minigame.unmount();
+    vi.advanceTimersByTime(1000);
+    expect(timer()).toBe("Time: 9s");
+  });
+
+  it("records each answer with the adaptive engine and asks missed facts again", async () => {
+    const adaptive = new AdaptiveEngine(undefined, () => 0);
+    const minigame = new BakingMinigame(
+      new FakeStage(1024, 768) as never, new FakeLayer() as never, 9, vi.fn(), getDifficulty("standard"), adaptive
+    );
+    minigame.mount();
+    await Promise.resolve();
+    animationState.instances[0].triggerComplete();
+    const playRect = konvaState.rects.find((rect) => rect.config.fill === "#4CAF50");
+    konvaState.groups.find((group) => group.children.includes(playRect?.node as any))?.trigger("click tap", {});
+    const problem = () => konvaState.texts.find((text) => (text.config.text as string)?.includes("÷"))?.config.text;
+    expect(problem()).toBe("2 ÷ 2");
+
+    vi.advanceTimersByTime(3000);
+    keydownHandler!({ key: "9" });
+    keydownHandler!({ key: "Enter" });
+    expect(adaptive.getState().facts["2 ÷ 2"]).toMatchObject({ attempts: 1, correct: 0, totalResponseMs: 3000 });
+
+    // Reviews never repeat the fact just asked, so this is a fresh problem
+    // that happens to be the same fact while Math.random() stays at 0
+    vi.advanceTimersByTime(800);
+    expect(problem()).toBe("2 ÷ 2");
+    keydownHandler!({ key: "1" });
+    keydownHandler!({ key: "Enter" });
+    expect(adaptive.getState().facts["2 ÷ 2"]).toMatchObject({ attempts: 2, correct: 1, streak: 1 });
+
+    minigame.unmount();
+  });
+
+  it("plays sounds for answers, the timer warning and a level up", async () => {
+    const audio = new SilentAudioManager();
+    audio.unlock();
+    AudioManager.setInstance(audio);
+    const minigame = new BakingMinigame(
+      new FakeStage(1024, 768) as never, new FakeLayer() as never, 9, vi.fn(), getDifficulty("standard"),
+      new AdaptiveEngine(undefined, () => 0)
+    );
+    minigame.mount();
+    await Promise.resolve();
+    animationState.instances[0].triggerComplete();
+    const playRect = konvaState.rects.find((rect) => rect.config.fill === "#4CAF50");
+    konvaState.groups.find((group) => group.children.includes(playRect?.node as any))?.trigger("click tap", {});
+    const count = (file: string) => audio.played.filter((played) => played === file).length;
+
+    // nine quick right answers and one wrong one is accurate enough to level up
+    for (let i = 0; i < 9; i++) {
+      keydownHandler!({ key: "1" });
+      keydownHandler!({ key: "Enter" });
+      vi.advanceTimersByTime(800);
+    }
+    keydownHandler!({ key: "9" });
+    keydownHandler!({ key: "Enter" });
+    expect(count("correct_sound.wav")).toBe(9);
+    expect(count("wrong_sound.wav")).toBe(1);
+    // the 12 second timer turned red at 10 seconds
+    expect(count("timer_sound.wav")).toBe(1);
+    expect(count("levelup_sound.wav")).toBe(0);
+
+    vi.advanceTimersByTime(5000);
+    expect(count("levelup_sound.wav")).toBe(1);
+
+    minigame.unmount();
   });
 });
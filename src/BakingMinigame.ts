@@ -6,6 +6,15 @@ import { AnimationPlayer } from './AnimationPlayer';
 import { ExitButton } from './ui/ExitButton';
 import { InfoButton } from './ui/InfoButton';
 import { ShuffleButton } from './ui/ShuffleButton';
+import { gradeFor, scoreBatch } from './Quality';
+import { DifficultyTier, getDifficulty, timeLimitFor } from './Difficulty';
+import { AdaptiveEngine } from './AdaptiveEngine';
+import { AudioManager } from './AudioManager';
+import { factForProblem, generateProblem, Problem, problemForFact } from './ProblemGenerator';
+import { RandomSource } from './Random';
+import { MistakeLog } from './MistakeLog';
+import { EventBus } from './EventBus';
+import { Screen, ScreenResources, TimerId } from './Screen';
 
 interface Mistake {
     question: string;
@@ -13,14 +22,23 @@ interface Mistake {
     correctAnswer: number;
 }
 
-export class BakingMinigame {
+export class BakingMinigame implements Screen {
     private layer: Konva.Layer;
     private stage: Konva.Stage;
     private config = ConfigManager.getInstance().getConfig();
-
+    private audio = AudioManager.getInstance();
+    private difficulty: DifficultyTier;
+    private adaptive: AdaptiveEngine | null;
+    private random: RandomSource;
+    private measuringPenalty: number; // quality already lost measuring the ingredients
+    private mistakeLog: MistakeLog | null; // misses kept for the practice screen
+    private events = EventBus.getInstance(); // problems and answers go out for the teacher's report
+
+    private timeLimit: number;
     private timeRemaining: number;
 
-    private currentProblem!: { question: string; answer: number };
+    private currentProblem!: Problem;
+    private problemShownAt: number = 0;
     private correctAnswers: number = 0; 
     private totalProblems: number = 0; 
     private cookiesSold: number; 
@@ -40,7 +58,10 @@ export class BakingMinigame {
     
     private userInput: string = '';
 
-    private timerInterval: number | null = null;
+    private timerInterval: TimerId | null = null;
+    private timerPaused: boolean = false; // the countdown was running when the game was hidden
+    private mounted: boolean = false;
+    private resources = new ScreenResources();
     private onComplete: (result: MinigameResult, skipped: boolean) => void;
     private keyboardHandler: (e: KeyboardEvent) => void; 
 
@@ -50,22 +71,29 @@ export class BakingMinigame {
         stage: Konva.Stage,
         layer: Konva.Layer,
         cookiesSold: number, 
-        onComplete: (result: MinigameResult, skipped: boolean) => void
+        onComplete: (result: MinigameResult, skipped: boolean) => void,
+        difficulty?: DifficultyTier,
+        adaptive?: AdaptiveEngine,
+        random: RandomSource = Math.random,
+        measuringPenalty: number = 0,
+        mistakeLog?: MistakeLog
     ) {
         this.stage = stage;
         this.layer = layer;
         this.cookiesSold = cookiesSold; 
         this.onComplete = onComplete;
-        this.timeRemaining = this.config.bakingTime;
+        this.difficulty = difficulty ?? getDifficulty(this.config.difficulty);
+        this.adaptive = adaptive ?? null;
+        this.random = random;
+        this.measuringPenalty = measuringPenalty;
+        this.mistakeLog = mistakeLog ?? null;
+        this.timeLimit = timeLimitFor(this.difficulty, this.config.bakingTime);
+        this.timeRemaining = this.timeLimit;
         this.keyboardHandler = this.handleKeyPress.bind(this);
 
         this.minigameUIGroup = new Konva.Group({ visible: false, name: 'minigameUI' }); 
         this.choiceUIGroup = new Konva.Group({ visible: false, name: 'choiceUI' }); 
-        this.layer.add(this.minigameUIGroup);
-        this.layer.add(this.choiceUIGroup);
 
-        this.setupUI(); 
-        
         const IMAGE_PATHS = [
             getAssetPath('9.png'), getAssetPath('10.png'), getAssetPath('11.png'), 
             getAssetPath('12.png'), getAssetPath('13.png'), getAssetPath('14.png')
@@ -82,15 +110,42 @@ export class BakingMinigame {
                 this.showPlaySkipChoice();
             }
         );
-        
+    }
+
+    public mount(): void {
+        this.mounted = true;
+        this.layer.add(this.minigameUIGroup);
+        this.layer.add(this.choiceUIGroup);
+        this.setupUI();
+
         this.animationPlayer.load().then(() => {
-            this.animationPlayer.start();
+            if (this.mounted) this.animationPlayer.start();
         }).catch(error => {
             console.error("Animation failed to load, skipping to choice.", error);
-            this.showPlaySkipChoice(); 
+            if (this.mounted) this.showPlaySkipChoice();
         });
     }
 
+    // Laid out once for the stage size it was mounted at
+    public resize(): void {}
+
+    public pause(): void {
+        this.animationPlayer.stop();
+        if (this.timerInterval !== null) {
+            this.resources.clear(this.timerInterval);
+            this.timerInterval = null;
+            this.timerPaused = true;
+        }
+    }
+
+    public resume(): void {
+        this.animationPlayer.resume();
+        if (this.timerPaused) {
+            this.timerPaused = false;
+            this.startTimer();
+        }
+    }
+
     private setupUI(): void {
         const stageWidth = this.stage.width();
         const stageHeight = this.stage.height();
@@ -108,6 +163,17 @@ export class BakingMinigame {
         });
         this.minigameUIGroup.add(title);
 
+        const difficultyText = new Konva.Text({
+            x: stageWidth * 0.05,
+            y: stageHeight * 0.12,
+            text: `Difficulty: ${this.difficulty.name}`,
+            fontSize: Math.min(stageWidth * 0.016, 20),
+            fill: '#8e44ad',
+            fontStyle: 'bold',
+            fontFamily: 'Nunito'
+        });
+        this.minigameUIGroup.add(difficultyText);
+
         this.scoreText = new Konva.Text({
             x: stageWidth * 0.43,
             y: stageHeight * 0.12,
@@ -196,16 +262,16 @@ export class BakingMinigame {
         this.minigameUIGroup.add(instructions);
 
         new ExitButton(this.stage, this.layer, () => {
-            this.cleanup();
-            window.location.href = '/login.hmtl';
+            this.unmount();
+            window.location.href = '/login.html';
         });
 
         // --- UPDATED: Info text ---
-        new InfoButton(
+        this.resources.widget(new InfoButton(
             this.stage, 
             this.layer,
             'Solve as many division problems as you can within the time limit to earn bonus tips! \n\nType your answer and press ENTER. \n\nEach correct answer gives you $5 tip. \nGood luck!'
-        );
+        ));
 
         this.shuffleButton = new ShuffleButton(
             this.stage,
@@ -348,6 +414,7 @@ export class BakingMinigame {
 
         playButtonGroup.on('click tap', (evt) => {
             evt.cancelBubble = true; 
+            this.audio.playSfx('click');
             this.choiceUIGroup.visible(false); 
             this.showMinigameUI();           
         });
@@ -383,6 +450,7 @@ export class BakingMinigame {
 
         skipButtonGroup.on('click tap', (evt) => {
             evt.cancelBubble = true; 
+            this.audio.playSfx('click');
             this.choiceUIGroup.visible(false); 
             this.correctAnswers = 0;          
             this.endMinigame(true); 
@@ -413,17 +481,19 @@ export class BakingMinigame {
 
     private generateNewProblem(): void {
         if (!this.problemText) return; 
-        const divisor = Math.floor(Math.random() * 9) + 2;
-        const quotient = Math.floor(Math.random() * 12) + 1;
-        const dividend = divisor * quotient;
-        this.currentProblem = { question: `${dividend} ÷ ${divisor}`, answer: quotient };
-        this.problemText.text(this.currentProblem.question);
+        // Missed facts come back now and then; otherwise pick from the
+        // tier's ranges, moved to the player's level
+        const review = this.adaptive?.nextReview('division');
+        const tier = this.adaptive ? this.adaptive.adjustTier(this.difficulty) : this.difficulty;
+        this.currentProblem = review ? problemForFact(review) : generateProblem('division', tier, this.random);
+        this.problemShownAt = Date.now();
+        this.events.emit('problemShown', { minigame: 'baking', problem: this.currentProblem });
+        this.problemText.text(this.currentProblem.display);
         this.layer.draw();
     }
 
     private setupKeyboardInput(): void {
-        window.removeEventListener('keydown', this.keyboardHandler); 
-        window.addEventListener('keydown', this.keyboardHandler);
+        this.resources.listen('keydown', this.keyboardHandler);
     }
 
     private handleKeyPress(e: KeyboardEvent): void {
@@ -448,15 +518,21 @@ export class BakingMinigame {
         if (this.userInput === '' || !this.feedbackText) return;
         const userAnswer = parseInt(this.userInput);
         this.totalProblems++;
+        const fact = factForProblem(this.currentProblem);
+        if (fact) this.adaptive?.recordAnswer(fact, userAnswer === this.currentProblem.answer, Date.now() - this.problemShownAt);
+        this.events.emit('answerSubmitted', { minigame: 'baking', problem: this.currentProblem, correct: userAnswer === this.currentProblem.answer });
 
         if (userAnswer === this.currentProblem.answer) {
             this.correctAnswers++; 
             // --- UPDATED: Show +$5 ---
             this.showFeedback('Correct! +$5 Tip ✓', '#27ae60'); 
+            this.audio.playSfx('correct');
         } else {
             this.showFeedback('Wrong! ✗', '#e74c3c');
+            this.audio.playSfx('wrong');
+            this.mistakeLog?.record(this.currentProblem);
             this.mistakes.push({
-                question: this.currentProblem.question,
+                question: this.currentProblem.display,
                 userAnswer: this.userInput,
                 correctAnswer: this.currentProblem.answer
             });
@@ -465,7 +541,7 @@ export class BakingMinigame {
         this.updateScore();
         this.userInput = '';
         this.updateInputDisplay();
-        setTimeout(() => {
+        this.resources.timeout(() => {
             this.showFeedback('', 'transparent'); 
             this.generateNewProblem();
         }, 800);
@@ -487,12 +563,13 @@ export class BakingMinigame {
 
     private startTimer(): void {
         if (this.timerInterval !== null) return; 
-        this.timerInterval = window.setInterval(() => {
+        this.timerInterval = this.resources.interval(() => {
             this.timeRemaining--;
             if (this.timerText) { 
                 this.timerText.text(`Time: ${this.timeRemaining}s`);
                 if (this.timeRemaining <= 10) this.timerText.fill('#e74c3c');
                 else if (this.timeRemaining <= 30) this.timerText.fill('#f39c12');
+                if (this.timeRemaining === 30 || this.timeRemaining === 10) this.audio.playSfx('timerWarning');
                 this.layer.draw(); 
             }
             if (this.timeRemaining <= 0) {
@@ -537,7 +614,21 @@ export class BakingMinigame {
         });
         this.resultsUIGroup.add(scoreText);
 
-        let contentY = scoreText.y() + 50;
+        const quality = scoreBatch({
+            correctAnswers: this.correctAnswers,
+            totalProblems: this.totalProblems,
+            timeRemaining: 0
+        }, false, this.timeLimit, this.measuringPenalty);
+        const measuringNote = this.measuringPenalty > 0 ? `, -${this.measuringPenalty} measuring` : '';
+        const qualityText = new Konva.Text({
+            x: box.x(), y: scoreText.y() + 35,
+            width: boxWidth,
+            text: `Batch Quality: ${gradeFor(quality)} (${quality}/100${measuringNote})`,
+            fontSize: 16, fontFamily: 'Press Start 2P', fill: '#6A1B9A', align: 'center'
+        });
+        this.resultsUIGroup.add(qualityText);
+
+        let contentY = qualityText.y() + 45;
         
         if (this.mistakes.length === 0) {
             const perfectText = new Konva.Text({
@@ -597,6 +688,7 @@ export class BakingMinigame {
         btnGroup.add(btnRect, btnText);
 
         btnGroup.on('click', () => {
+            this.audio.playSfx('click');
             this.resultsUIGroup?.destroy();
             this.onComplete({
                 correctAnswers: this.correctAnswers,
@@ -623,14 +715,16 @@ export class BakingMinigame {
     }
 
     private endMinigame(skipped: boolean = false): void {
-        if (this.timerInterval !== null) clearInterval(this.timerInterval);
+        this.resources.clear(this.timerInterval);
         this.timerInterval = null;
+        this.timerPaused = false;
         
         if (this.animationPlayer) {
             this.animationPlayer.stop(); 
         }
 
-        window.removeEventListener('keydown', this.keyboardHandler);
+        this.resources.unlisten('keydown', this.keyboardHandler);
+        if (this.adaptive?.finishRound('division') === 1) this.audio.playSfx('levelUp');
         
         if (skipped) {
             const result: MinigameResult = {
@@ -638,7 +732,7 @@ export class BakingMinigame {
                 totalProblems: this.totalProblems,
                 timeRemaining: this.timeRemaining
             };
-            setTimeout(() => { 
+            this.resources.timeout(() => { 
                 if (this.onComplete) this.onComplete(result, skipped); 
             }, 100);
         } else {
@@ -646,14 +740,14 @@ export class BakingMinigame {
         }
     }
 
-    public cleanup(): void {
+    public unmount(): void {
+        this.mounted = false;
         if (this.animationPlayer) {
             this.animationPlayer.destroy();
         }
-        if (this.timerInterval !== null) clearInterval(this.timerInterval);
+        this.resources.dispose();
         this.timerInterval = null;
-        
-        window.removeEventListener('keydown', this.keyboardHandler);
+        this.timerPaused = false;
         this.choiceUIGroup.destroy(); 
         this.minigameUIGroup.destroy();
         if (this.resultsUIGroup) this.resultsUIGroup.destroy();
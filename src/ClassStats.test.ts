@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { accuracyOf, classStatsFor } from "./ClassStats";
+import type { PlayerProfile } from "./ProfileStore";
+import type { FactKind } from "./AdaptiveEngine";
+
+const fact = (kind: FactKind, a: number, b: number, attempts: number, correct: number) => ({
+  kind, a, b, attempts, correct, totalResponseMs: 0, streak: 0,
+});
+
+const profile = (username: string, overrides: Partial<PlayerProfile> = {}): PlayerProfile => ({
+  username,
+  createdAt: 0,
+  lastPlayedAt: 0,
+  bestScore: 0,
+  runHistory: [],
+  minigameHistory: [],
+  adaptive: { levels: { division: 0, multiplication: 0 }, facts: {} },
+  mistakes: [],
+  ...overrides,
+});
+
+describe("classStatsFor", () => {
+  it("adds up every student's facts and runs", () => {
+    const stats = classStatsFor([
+      profile("Ann", {
+        runHistory: [
+          { won: true, finalFunds: 1100, daysPlayed: 5, endedAt: 1 },
+          { won: false, finalFunds: -10, daysPlayed: 2, endedAt: 2 },
+        ],
+        adaptive: {
+          levels: { division: 0, multiplication: 0 },
+          facts: {
+            "7 × 8": fact("multiplication", 7, 8, 5, 2),
+            "56 ÷ 7": fact("division", 56, 7, 4, 3),
+          },
+        },
+      }),
+      profile("Ben", {
+        runHistory: [{ won: true, finalFunds: 1000, daysPlayed: 8, endedAt: 3 }],
+        adaptive: {
+          levels: { division: 0, multiplication: 0 },
+          facts: {
+            "7 × 8": fact("multiplication", 8, 7, 2, 1),
+            "6 × 9": fact("multiplication", 6, 9, 3, 3),
+          },
+        },
+      }),
+    ]);
+
+    expect(stats).toMatchObject({ students: 2, runs: 3, wins: 2, bankruptcies: 1, bankruptStudents: 1, averageDaysToWin: 6.5 });
+    expect(stats.skills).toEqual([
+      { skill: "division", correct: 3, attempts: 4 },
+      { skill: "multiplication", correct: 6, attempts: 10 },
+    ]);
+    // "7 × 8" and "8 × 7" are one fact; facts never missed are left out
+    expect(stats.mostMissed).toEqual([
+      { fact: "7 × 8", misses: 4, students: 2 },
+      { fact: "56 ÷ 7", misses: 1, students: 1 },
+    ]);
+  });
+
+  it("keeps only the most-missed facts", () => {
+    const facts = Object.fromEntries([2, 3, 4, 5].map((n) => [`${n} × 9`, fact("multiplication", n, 9, n, 0)]));
+    const stats = classStatsFor([profile("Ann", { adaptive: { levels: { division: 0, multiplication: 0 }, facts } })], 2);
+    expect(stats.mostMissed.map((m) => m.fact)).toEqual(["5 × 9", "4 × 9"]);
+  });
+
+  it("has nothing to average before anyone plays", () => {
+    const stats = classStatsFor([profile("Ann")]);
+    expect(stats.averageDaysToWin).toBeNull();
+    expect(stats.skills.map(accuracyOf)).toEqual([null, null]);
+    expect(stats.mostMissed).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { FactKind, factKey } from './AdaptiveEngine';
+import { PlayerProfile } from './ProfileStore';
+
+// Class-wide numbers for the teacher dashboard, from every profile on this
+// machine:
+//     accuracy by skill   right answers ÷ attempts over all tracked facts
+//     days to win         mean days played in runs that were won
+//     most-missed facts   attempts − right answers, summed over students
+//     bankruptcies        runs that ended in a loss
+export const MOST_MISSED_COUNT = 5;
+
+export interface SkillAccuracy {
+    skill: FactKind;
+    correct: number;
+    attempts: number;
+}
+
+export interface MissedFact {
+    fact: string; // "7 × 8"
+    misses: number;
+    students: number; // how many students missed it at least once
+}
+
+export interface ClassStats {
+    students: number;
+    runs: number;
+    wins: number;
+    bankruptcies: number;
+    bankruptStudents: number; // students with at least one lost run
+    averageDaysToWin: number | null; // null until someone wins
+    skills: SkillAccuracy[];
+    mostMissed: MissedFact[];
+}
+
+const SKILLS: FactKind[] = ['division', 'multiplication'];
+
+export function classStatsFor(profiles: PlayerProfile[], limit: number = MOST_MISSED_COUNT): ClassStats {
+    const runs = profiles.flatMap((p) => p.runHistory);
+    const won = runs.filter((run) => run.won);
+    const facts = profiles.flatMap((p) => Object.values(p.adaptive.facts));
+
+    const missed = new Map<string, MissedFact>();
+    profiles.forEach((profile) => {
+        Object.values(profile.adaptive.facts).forEach((stats) => {
+            const misses = stats.attempts - stats.correct;
+            if (misses <= 0) return;
+            const key = factKey(stats);
+            const entry = missed.get(key) ?? { fact: key, misses: 0, students: 0 };
+            entry.misses += misses;
+            entry.students++;
+            missed.set(key, entry);
+        });
+    });
+
+    return {
+        students: profiles.length,
+        runs: runs.length,
+        wins: won.length,
+        bankruptcies: runs.length - won.length,
+        bankruptStudents: profiles.filter((p) => p.runHistory.some((run) => !run.won)).length,
+        averageDaysToWin: won.length > 0 ? won.reduce((sum, run) => sum + run.daysPlayed, 0) / won.length : null,
+        skills: SKILLS.map((skill) => {
+            const ofSkill = facts.filter((f) => f.kind === skill);
+            return {
+                skill,
+                correct: ofSkill.reduce((sum, f) => sum + f.correct, 0),
+                attempts: ofSkill.reduce((sum, f) => sum + f.attempts, 0),
+            };
+        }),
+        mostMissed: [...missed.values()]
+            .sort((a, b) => b.misses - a.misses || b.students - a.students || a.fact.localeCompare(b.fact))
+            .slice(0, limit),
+    };
+}
+
+// Share of right answers, or null if the skill was never practiced
+export function accuracyOf(skill: SkillAccuracy): number | null {
+    return skill.attempts > 0 ? skill.correct / skill.attempts : null;
+}
@@ -1,5 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { CleaningMinigame } from "./CleaningMinigame";
+import { getDifficulty } from "./Difficulty";
+import { AudioManager, SilentAudioManager } from "./AudioManager";
 
 class FakeStage {
   private readonly widthValue: number;
@@ -92,6 +94,7 @@ vi.mock("./ui/InfoButton", () => ({
     ) {
       // noop
     }
+    destroy() {}
   },
 }));
 
@@ -288,6 +291,7 @@ describe("CleaningMinigame", () => {
     const onComplete = vi.fn();
 
     const minigame = new CleaningMinigame(stage as never, layer as never, 12, onComplete);
+    minigame.mount();
 
     const skipRect = konvaState.rects.find(
       (rect) => rect.config.fill === "#e74c3c"
@@ -314,7 +318,7 @@ describe("CleaningMinigame", () => {
       true
     );
 
-    minigame.cleanup();
+    minigame.unmount();
     expect(window.removeEventListener).toHaveBeenCalledWith(
       "keydown",
       expect.any(Function)
@@ -328,6 +332,7 @@ describe("CleaningMinigame", () => {
 
     randomQueue.push(...Array(10).fill(0));
     const minigame = new CleaningMinigame(stage as never, layer as never, 15, onComplete);
+    minigame.mount();
 
     const playRect = konvaState.rects.find(
       (rect) => rect.config.fill === "#4CAF50"
@@ -371,6 +376,73 @@ describe("CleaningMinigame", () => {
       false
     );
 
-    minigame.cleanup();
+    minigame.unmount();
+  });
+
+  it("shows the chosen tier and uses its factors and timer", () => {
+    randomQueue.push(0.99, 0.99);
+    const minigame = new CleaningMinigame(
+      new FakeStage(900, 700) as never, new FakeLayer() as never, 5, vi.fn(), getDifficulty("beginner")
+    );
+    minigame.mount();
+    const playRect = konvaState.rects.find((rect) => rect.config.fill === "#4CAF50");
+    konvaState.groups.find((group) => group.children.includes(playRect?.node as any))?.trigger("click tap", {});
+
+    const texts = konvaState.texts.map((text) => text.config.text);
+    expect(texts).toContain("Difficulty: Beginner");
+    // 15 seconds with half as much again, rounded
+    expect(texts).toContain("Time: 23s");
+    expect(texts).toContain("10 × 5");
+
+    minigame.unmount();
+  });
+
+  it("stops the clock and ignores answers while paused", () => {
+    randomQueue.push(...Array(4).fill(0));
+    const minigame = new CleaningMinigame(
+      new FakeStage(900, 700) as never, new FakeLayer() as never, 5, vi.fn(), getDifficulty("beginner")
+    );
+    minigame.mount();
+    const playRect = konvaState.rects.find((rect) => rect.config.fill === "#4CAF50");
+    konvaState.groups.find((group) => group.children.includes(playRect?.node as any))?.trigger("click tap", {});
+    const text = (prefix: string) =>
+      konvaState.texts.find((entry) => (entry.config.text as string)?.startsWith(prefix))?.config.text;
+
+    minigame.pause();
+    vi.advanceTimersByTime(5000);
+    keydownHandler!({ key: "1" });
+    keydownHandler!({ key: "Enter" });
+    expect(text("Time:")).toBe("Time: 23s");
+    expect(text("Dishes Cleaned")).toBe("Dishes Cleaned: 0 / 5");
+
+    minigame.resume();
+    vi.advanceTimersByTime(1000);
+    expect(text("Time:")).toBe("Time: 22s");
+
+    minigame.unmount();
+  });
+
+  it("plays a sound for each cleaned dish, each miss and the last ten seconds", () => {
+    const audio = new SilentAudioManager();
+    audio.unlock();
+    AudioManager.setInstance(audio);
+    randomQueue.push(...Array(10).fill(0));
+    const minigame = new CleaningMinigame(new FakeStage(900, 700) as never, new FakeLayer() as never, 5, vi.fn());
+    minigame.mount();
+    const playRect = konvaState.rects.find((rect) => rect.config.fill === "#4CAF50");
+    konvaState.groups.find((group) => group.children.includes(playRect?.node as any))?.trigger("click tap", {});
+
+    keydownHandler!({ key: "9" });
+    keydownHandler!({ key: "Enter" });
+    vi.advanceTimersByTime(800);
+    keydownHandler!({ key: "1" });
+    keydownHandler!({ key: "Enter" });
+    expect(audio.played).toEqual(["click_sound.wav", "wrong_sound.wav", "dish_sound.wav"]);
+
+    // 15 second timer: red at 10 seconds left
+    vi.advanceTimersByTime(4200);
+    expect(audio.played).toEqual(["click_sound.wav", "wrong_sound.wav", "dish_sound.wav", "timer_sound.wav"]);
+
+    minigame.unmount();
   });
 });
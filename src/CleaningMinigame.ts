@@ -4,6 +4,14 @@ import { ConfigManager } from './config';
 import { ExitButton } from './ui/ExitButton'; 
 import { InfoButton } from './ui/InfoButton';
 import { ShuffleButton } from './ui/ShuffleButton';
+import { DifficultyTier, getDifficulty, timeLimitFor } from './Difficulty';
+import { AdaptiveEngine } from './AdaptiveEngine';
+import { AudioManager } from './AudioManager';
+import { factForProblem, generateProblem, Problem, problemForFact } from './ProblemGenerator';
+import { RandomSource } from './Random';
+import { MistakeLog } from './MistakeLog';
+import { EventBus } from './EventBus';
+import { Screen, ScreenResources, TimerId } from './Screen';
 
 interface Mistake {
     question: string;
@@ -11,14 +19,21 @@ interface Mistake {
     correctAnswer: number;
 }
 
-export class CleaningMinigame {
+export class CleaningMinigame implements Screen {
     private layer: Konva.Layer;
     private stage: Konva.Stage;
     private config = ConfigManager.getInstance().getConfig();
+    private audio = AudioManager.getInstance();
+    private difficulty: DifficultyTier;
+    private adaptive: AdaptiveEngine | null;
+    private random: RandomSource;
+    private mistakeLog: MistakeLog | null; // misses kept for the practice screen
+    private events = EventBus.getInstance(); // problems and answers go out for the teacher's report
     
     private timeRemaining: number;
     
-    private currentProblem!: { question: string; answer: number };
+    private currentProblem!: Problem;
+    private problemShownAt: number = 0;
     private correctAnswers: number = 0;
     private totalProblems: number = 0;
 
@@ -38,7 +53,9 @@ export class CleaningMinigame {
     
     private userInput: string = '';
     
-    private timerInterval: number | null = null;
+    private timerInterval: TimerId | null = null;
+    private timerPaused: boolean = false; // the countdown was running when the game was hidden
+    private resources = new ScreenResources();
     private onComplete: (result: MinigameResult, skipped: boolean) => void; 
     private keyboardHandler: (e: KeyboardEvent) => void;
 
@@ -52,7 +69,11 @@ export class CleaningMinigame {
         stage: Konva.Stage, 
         layer: Konva.Layer,
         totalDishesToClean: number, 
-        onComplete: (result: MinigameResult, skipped: boolean) => void 
+        onComplete: (result: MinigameResult, skipped: boolean) => void,
+        difficulty?: DifficultyTier,
+        adaptive?: AdaptiveEngine,
+        random: RandomSource = Math.random,
+        mistakeLog?: MistakeLog
     ) {
         this.stage = stage;
         this.layer = layer;
@@ -61,12 +82,19 @@ export class CleaningMinigame {
         this.totalDishesToClean = this.TARGET_DISHES;
         
         this.onComplete = onComplete;
-        this.timeRemaining = this.config.cleaningTime;
+        this.difficulty = difficulty ?? getDifficulty(this.config.difficulty);
+        this.adaptive = adaptive ?? null;
+        this.random = random;
+        this.mistakeLog = mistakeLog ?? null;
+        this.timeRemaining = timeLimitFor(this.difficulty, this.config.cleaningTime);
         
         this.keyboardHandler = this.handleKeyPress.bind(this);
         
         this.minigameUIGroup = new Konva.Group({ visible: false, name: 'minigameUI' });
         this.choiceUIGroup = new Konva.Group({ visible: false, name: 'choiceUI' });
+    }
+
+    public mount(): void {
         this.layer.add(this.minigameUIGroup);
         this.layer.add(this.choiceUIGroup);
 
@@ -74,6 +102,24 @@ export class CleaningMinigame {
         this.showPlaySkipChoice();
     }
 
+    // Laid out once for the stage size it was mounted at
+    public resize(): void {}
+
+    public pause(): void {
+        if (this.timerInterval !== null) {
+            this.resources.clear(this.timerInterval);
+            this.timerInterval = null;
+            this.timerPaused = true;
+        }
+    }
+
+    public resume(): void {
+        if (this.timerPaused) {
+            this.timerPaused = false;
+            this.startTimer();
+        }
+    }
+
     private showPlaySkipChoice(): void {
         this.choiceUIGroup.destroyChildren();
         const stageWidth = this.stage.width();
@@ -176,6 +222,7 @@ export class CleaningMinigame {
 
         playButtonGroup.on('click tap', (evt) => {
             evt.cancelBubble = true; 
+            this.audio.playSfx('click');
             this.choiceUIGroup.visible(false); 
             this.showMinigameUI();           
         });
@@ -211,6 +258,7 @@ export class CleaningMinigame {
 
         skipButtonGroup.on('click tap', (evt) => {
             evt.cancelBubble = true; 
+            this.audio.playSfx('click');
             this.choiceUIGroup.visible(false); 
             this.correctAnswers = 0;          
             this.endMinigame(true); 
@@ -256,6 +304,17 @@ export class CleaningMinigame {
         });
         this.minigameUIGroup.add(title);
 
+        const difficultyText = new Konva.Text({
+            x: stageWidth * 0.05,
+            y: stageHeight * 0.12,
+            text: `Difficulty: ${this.difficulty.name}`,
+            fontSize: Math.min(stageWidth * 0.016, 20),
+            fill: '#8e44ad',
+            fontStyle: 'bold',
+            fontFamily: 'Nunito'
+        });
+        this.minigameUIGroup.add(difficultyText);
+
         this.scoreText = new Konva.Text({
             x: stageWidth * 0.43,
             y: stageHeight * 0.12,
@@ -344,15 +403,15 @@ export class CleaningMinigame {
         this.minigameUIGroup.add(instructions);
 
         new ExitButton(this.stage, this.layer, () => {
-            this.cleanup();
+            this.unmount();
             window.location.href = '/login.html'; 
         });
 
-        new InfoButton(
+        this.resources.widget(new InfoButton(
             this.stage, 
             this.layer,
             'Solve multiplication problems to clean dishes! \n\nType your answer and press ENTER. \n\nClean 5 dishes to satisfy your customers!'
-        );
+        ));
 
         this.shuffleButton = new ShuffleButton(
             this.stage,
@@ -376,21 +435,20 @@ export class CleaningMinigame {
 
     private generateNewProblem(): void {
         if (!this.problemText) return;
-        const num1 = Math.floor(Math.random() * 12) + 1; 
-        const num2 = Math.floor(Math.random() * 12) + 1; 
+        // Missed facts come back now and then; otherwise pick from the
+        // tier's ranges, moved to the player's level
+        const review = this.adaptive?.nextReview('multiplication');
+        const tier = this.adaptive ? this.adaptive.adjustTier(this.difficulty) : this.difficulty;
+        this.currentProblem = review ? problemForFact(review) : generateProblem('multiplication', tier, this.random);
+        this.problemShownAt = Date.now();
+        this.events.emit('problemShown', { minigame: 'cleaning', problem: this.currentProblem });
         
-        this.currentProblem = {
-            question: `${num1} × ${num2}`,
-            answer: num1 * num2
-        };
-        
-        this.problemText.text(this.currentProblem.question);
+        this.problemText.text(this.currentProblem.display);
         this.layer.draw();
     }
 
     private setupKeyboardInput(): void {
-        window.removeEventListener('keydown', this.keyboardHandler); 
-        window.addEventListener('keydown', this.keyboardHandler);
+        this.resources.listen('keydown', this.keyboardHandler);
     }
 
     private handleKeyPress(e: KeyboardEvent): void {
@@ -418,24 +476,30 @@ export class CleaningMinigame {
 
         const userAnswer = parseInt(this.userInput);
         this.totalProblems++;
+        const fact = factForProblem(this.currentProblem);
+        if (fact) this.adaptive?.recordAnswer(fact, userAnswer === this.currentProblem.answer, Date.now() - this.problemShownAt);
+        this.events.emit('answerSubmitted', { minigame: 'cleaning', problem: this.currentProblem, correct: userAnswer === this.currentProblem.answer });
 
         if (userAnswer === this.currentProblem.answer) {
             this.correctAnswers++;
             this.dishesCleaned++;
             this.showFeedback('Clean! +1 Dish ✓', '#27ae60');
+            this.audio.playSfx('dishClean');
             
             if (this.dishesCleaned >= this.totalDishesToClean) {
                 this.updateScore(); 
-                setTimeout(() => {
+                this.resources.timeout(() => {
                     this.endMinigame(false); 
                 }, 500);
                 return;
             }
         } else {
             this.showFeedback('Still Dirty! ✗', '#e74c3c');
+            this.audio.playSfx('wrong');
             // --- TRACK MISTAKE ---
+            this.mistakeLog?.record(this.currentProblem);
             this.mistakes.push({
-                question: this.currentProblem.question,
+                question: this.currentProblem.display,
                 userAnswer: this.userInput,
                 correctAnswer: this.currentProblem.answer
             });
@@ -445,7 +509,7 @@ export class CleaningMinigame {
         this.userInput = '';
         this.updateInputDisplay();
         
-        setTimeout(() => {
+        this.resources.timeout(() => {
             if (this.feedbackText) this.feedbackText.text('');
             this.generateNewProblem();
         }, 800);
@@ -466,7 +530,7 @@ export class CleaningMinigame {
 
     private startTimer(): void {
         if (this.timerInterval !== null) return;
-        this.timerInterval = window.setInterval(() => {
+        this.timerInterval = this.resources.interval(() => {
             this.timeRemaining--;
             if (this.timerText) {
                 this.timerText.text(`Time: ${this.timeRemaining}s`);
@@ -476,6 +540,9 @@ export class CleaningMinigame {
                 } else if (this.timeRemaining <= 30) {
                     this.timerText.fill('#f39c12');
                 }
+                if (this.timeRemaining === 30 || this.timeRemaining === 10) {
+                    this.audio.playSfx('timerWarning');
+                }
                 this.layer.draw();
             }
 
@@ -579,6 +646,7 @@ export class CleaningMinigame {
         btnGroup.add(btnRect, btnText);
 
         btnGroup.on('click', () => {
+            this.audio.playSfx('click');
             this.resultsUIGroup?.destroy();
             this.finishEndGame(false);
         });
@@ -618,12 +686,12 @@ export class CleaningMinigame {
     }
 
     private endMinigame(skipped: boolean = false): void {
-        if (this.timerInterval !== null) {
-            clearInterval(this.timerInterval);
-            this.timerInterval = null;
-        }
+        this.resources.clear(this.timerInterval);
+        this.timerInterval = null;
+        this.timerPaused = false;
 
-        window.removeEventListener('keydown', this.keyboardHandler);
+        this.resources.unlisten('keydown', this.keyboardHandler);
+        if (this.adaptive?.finishRound('multiplication') === 1) this.audio.playSfx('levelUp');
 
         if (skipped) {
             this.finishEndGame(true);
@@ -632,12 +700,10 @@ export class CleaningMinigame {
         }
     }
 
-    public cleanup(): void {
-        if (this.timerInterval !== null) {
-            clearInterval(this.timerInterval);
-            this.timerInterval = null;
-        }
-        window.removeEventListener('keydown', this.keyboardHandler);
+    public unmount(): void {
+        this.resources.dispose();
+        this.timerInterval = null;
+        this.timerPaused = false;
         this.minigameUIGroup.destroy();
         this.choiceUIGroup.destroy();
         if (this.resultsUIGroup) this.resultsUIGroup.destroy();
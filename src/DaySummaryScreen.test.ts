@@ -45,15 +45,14 @@ const konvaState = vi.hoisted(() => ({
 
 const exitButtonState = vi.hoisted(() => ({ destroy: vi.fn(), lastCallback: null as (() => void) | null }));
 
-vi.stubGlobal(
-  "Image",
-  class {
-    onload: (() => void) | null = null;
-    set src(_: string) {
-      this.onload?.();
-    }
+class FakeImageElement {
+  onload: (() => void) | null = null;
+  set src(_: string) {
+    this.onload?.();
   }
-);
+}
+
+vi.stubGlobal("Image", FakeImageElement);
 
 vi.mock("./ui/ExitButton", () => ({
   ExitButton: class {
@@ -77,6 +76,7 @@ vi.mock("./ui/InfoButton", () => ({
       _stage: unknown,
       _layer: unknown
     ) {}
+    destroy() {}
   },
 }));
 
@@ -177,6 +177,7 @@ describe("DaySummaryScreen", () => {
     konvaState.texts.length = 0;
     exitButtonState.destroy.mockClear();
     exitButtonState.lastCallback = null;
+    vi.stubGlobal("Image", FakeImageElement);
     vi.stubGlobal("window", {
       location: { href: "about:blank" },
       Image: (globalThis as any).Image,
@@ -195,7 +196,7 @@ describe("DaySummaryScreen", () => {
     const layer = new FakeLayer();
     const onContinue = vi.fn();
 
-    new DaySummaryScreen(stage as never, layer as never, 3, 500, 200, 1300, 75, onContinue);
+    new DaySummaryScreen(stage as never, layer as never, 3, 500, 200, 1300, 75, onContinue).mount();
 
     const buttonGroup = konvaState.groups.find((group) =>
       group.handlers.has("click tap")
@@ -222,4 +223,88 @@ describe("DaySummaryScreen", () => {
     exitButtonState.lastCallback?.();
     expect(window.location.href).toBe("/login.html");
   });
+
+  it("lists how each customer was served", () => {
+    new DaySummaryScreen(new FakeStage(1000, 800) as never, new FakeLayer() as never, 2, 40, 10, 530, 0, vi.fn(), {
+      fulfillment: [
+        { customerNum: 1, recipeId: "sugar", ordered: 3, delivered: 3, status: "served", revenue: 24 },
+        { customerNum: 2, recipeId: "sugar", ordered: 3, delivered: 2, status: "partial", revenue: 16 },
+        { customerNum: 3, recipeId: "chocolate-chip", ordered: 1, delivered: 0, status: "turned_away", revenue: 0 },
+      ],
+    }).mount();
+
+    const texts = konvaState.texts.map((entry) => entry.config.text);
+    expect(texts).toContain("1. SUGAR 3/3");
+    expect(texts).toContain("2. SUGAR 2/3");
+    expect(texts).toContain("3. CHOC CHIP 0/1");
+    expect(texts).toContain("PARTIAL");
+    expect(texts).toContain("TURNED AWAY");
+    expect(texts).toContain("Unhappy customers: 2 (reputation -0.07)");
+  });
+
+  it("shows spoiled stock as a loss without counting it twice", () => {
+    new DaySummaryScreen(new FakeStage(1000, 800) as never, new FakeLayer() as never, 2, 40, 10, 530, 0, vi.fn(), {
+      spoilage: [
+        { name: "Butter", quantity: 6, value: 1.5 },
+        { name: "Chocolate", quantity: 1, value: 3 },
+      ],
+    }).mount();
+
+    const texts = konvaState.texts.map((entry) => entry.config.text);
+    expect(texts).toContain("Spoilage (6 Butter, 1 Chocolate): -$4.50");
+    expect(texts).toContain("Combined Profit & Loss: +$30.00");
+  });
+
+  it("reports what the oven baked and what carries over", () => {
+    new DaySummaryScreen(new FakeStage(1000, 800) as never, new FakeLayer() as never, 2, 40, 10, 530, 0, vi.fn(), {
+      production: { baked: 18, capacity: 20, leftover: 3, stale: 2, quality: 84 },
+    }).mount();
+
+    const texts = konvaState.texts.map((entry) => entry.config.text);
+    expect(texts).toContain("Oven: baked 18/20, 3 left for tomorrow, 2 stale thrown out");
+    expect(texts).toContain("Cookie Quality: B (84/100)");
+  });
+
+  it("shows how the day's price changed the number of cookies ordered", () => {
+    new DaySummaryScreen(new FakeStage(1000, 800) as never, new FakeLayer() as never, 2, 40, 10, 530, 0, vi.fn(), {
+      pricing: { priceRatio: 1.2, ordered: 19 },
+    }).mount();
+
+    const texts = konvaState.texts.map((entry) => entry.config.text);
+    expect(texts).toContain("Price +20%: 19 cookies ordered (about 25 at list price)");
+  });
+
+  it("opens the practice screen when offered", () => {
+    const onPractice = vi.fn();
+    new DaySummaryScreen(new FakeStage(1000, 800) as never, new FakeLayer() as never, 2, 40, 10, 530, 0, vi.fn(), {}, onPractice).mount();
+
+    const practiceText = konvaState.texts.find((entry) => entry.config.text === "PRACTICE");
+    expect(practiceText).toBeTruthy();
+    const practiceGroup = konvaState.groups.filter((group) => group.handlers.has("click tap"))[1];
+    practiceGroup.handlers.get("click tap")!();
+    expect(onPractice).toHaveBeenCalled();
+  });
+
+  it("downloads the teacher's report without leaving the summary", () => {
+    const onContinue = vi.fn();
+    const onDownloadReport = vi.fn();
+    new DaySummaryScreen(new FakeStage(1000, 800) as never, new FakeLayer() as never, 2, 40, 10, 530, 0, onContinue, {}, undefined, onDownloadReport).mount();
+
+    expect(konvaState.texts.some((entry) => entry.config.text === "DOWNLOAD\nCSV")).toBe(true);
+    expect(konvaState.texts.some((entry) => entry.config.text === "DOWNLOAD\nJSON")).toBe(true);
+    const [csvGroup, jsonGroup] = konvaState.groups.filter((group) => group.handlers.has("click tap")).slice(1, 3);
+    csvGroup.handlers.get("click tap")!();
+    jsonGroup.handlers.get("click tap")!();
+    expect(onDownloadReport.mock.calls).toEqual([["csv"], ["json"]]);
+    expect(onContinue).not.toHaveBeenCalled();
+  });
+
+  it("shows the run's seed so the same days can be replayed", () => {
+    new DaySummaryScreen(new FakeStage(1000, 800) as never, new FakeLayer() as never, 2, 40, 10, 530, 0, vi.fn(), {
+      seed: 8675309,
+    }).mount();
+
+    const texts = konvaState.texts.map((entry) => entry.config.text);
+    expect(texts).toContain("Seed: 8675309 (replay with ?seed=8675309)");
+  });
 });
@@ -1,10 +1,34 @@
 import Konva from 'konva';
+import { AudioManager } from './AudioManager';
 import { ExitButton } from './ui/ExitButton';
 import { InfoButton } from './ui/InfoButton';
+import { ReportButton } from './ui/ReportButton';
 import { SavingsTracker } from './ui/SavingsTracker';
 import { getAssetPath } from './utils';
-
-export class DaySummaryScreen {
+import { CatalogManager } from './catalog';
+import { CustomerFulfillment, FulfillmentStatus, PARTIAL_ORDER_PENALTY, TURNED_AWAY_PENALTY } from './Fulfillment';
+import { SpoiledStock } from './Inventory';
+import { gradeFor } from './Quality';
+import { describePriceChange, estimateListDemand } from './Demand';
+import { ReportFormat } from './ProgressReport';
+import { Screen, ScreenResources } from './Screen';
+
+// Optional extras shown under the day's totals
+export interface DaySummaryDetails {
+    fulfillment?: CustomerFulfillment[];
+    spoilage?: SpoiledStock[];
+    production?: { baked: number, capacity: number, leftover: number, stale: number, quality?: number | null };
+    pricing?: { priceRatio: number, ordered: number };
+    seed?: number; // run seed, so a teacher can hand the same days to a whole class
+}
+
+const STATUS_LABELS: Record<FulfillmentStatus, { text: string, fill: string }> = {
+    served: { text: 'SERVED', fill: '#006400' },
+    partial: { text: 'PARTIAL', fill: '#CC7000' },
+    turned_away: { text: 'TURNED AWAY', fill: '#8B0000' },
+};
+
+export class DaySummaryScreen implements Screen {
     private layer: Konva.Layer;
     private stage: Konva.Stage;
     private onContinue: () => void;
@@ -13,12 +37,15 @@ export class DaySummaryScreen {
     private dayExpenses: number;
     private currentFunds: number;
     private dayTips: number;
+    private details: DaySummaryDetails;
+    private onPractice: (() => void) | undefined;
+    private onDownloadReport: ((format: ReportFormat) => void) | undefined;
     
-    // 1. Add active flag to prevent ghost resizes
-    private isActive: boolean = true;
-    private resizeHandler: (() => void) | null = null;
+    // Active while mounted, to prevent ghost resizes
+    private isActive: boolean = false;
   
-    private savingsTracker!: SavingsTracker;
+    private savingsTracker: SavingsTracker | null = null; // follows funds until unmount
+    private resources = new ScreenResources();
 
     constructor(
         stage: Konva.Stage,
@@ -28,7 +55,10 @@ export class DaySummaryScreen {
         dayExpenses: number,
         currentFunds: number,
         dayTips: number,
-        onContinue: () => void
+        onContinue: () => void,
+        details: DaySummaryDetails = {},
+        onPractice: (() => void) | undefined = undefined,
+        onDownloadReport: ((format: ReportFormat) => void) | undefined = undefined
     ) {
         this.stage = stage;
         this.layer = layer;
@@ -38,33 +68,26 @@ export class DaySummaryScreen {
         this.currentFunds = currentFunds;
         this.dayTips = dayTips;
         this.onContinue = onContinue;
-        
-        // Ensure we mark it active on creation
-        this.isActive = true;
+        this.details = details;
+        this.onPractice = onPractice;
+        this.onDownloadReport = onDownloadReport;
+    }
 
+    public mount(): void {
+        this.isActive = true;
         this.setupUI();
-        this.setupResizeHandler();
     }
 
-    private setupResizeHandler(): void {
-        this.resizeHandler = () => {
-            // 2. Guard Clause: If this screen isn't active, STOP.
-            if (!this.isActive) return;
-
-            const container = this.stage.container();
-            const containerWidth = container.offsetWidth;
-            const containerHeight = container.offsetHeight;
-
-            this.stage.width(containerWidth);
-            this.stage.height(containerHeight);
-
-            this.layer.destroyChildren();
-            this.setupUI();
-        };
-
-        window.addEventListener('resize', this.resizeHandler);
+    // Redraws at the new stage size
+    public resize(): void {
+        if (!this.isActive) return;
+        this.layer.destroyChildren();
+        this.setupUI();
     }
 
+    public pause(): void {}
+    public resume(): void {}
+
     private setupUI(): void {
         // Double check active state before drawing
         if (!this.isActive) return;
@@ -76,16 +99,18 @@ export class DaySummaryScreen {
             if (!this.isActive) return; // Guard in case async load finishes after cleanup
             this.createReceiptGroup(stageWidth, stageHeight);
             this.createContinueButton(stageWidth, stageHeight);
+            this.createPracticeButton(stageWidth, stageHeight);
+            this.createReportButton(stageWidth, stageHeight);
         });
 
         // Exit Button
         new ExitButton(this.stage, this.layer, () => {
-            this.cleanup();
+            this.unmount();
             window.location.href = '/login.html';
         });
 
         // Info Button
-        new InfoButton(this.stage, this.layer);
+        this.resources.widget(new InfoButton(this.stage, this.layer));
     }
 
     private loadOwlImage(stageWidth: number, stageHeight: number, onLoad: () => void): void {
@@ -193,6 +218,24 @@ export class DaySummaryScreen {
             receiptGroup.add(expensesText);
             currentY += LINE_ADVANCE * 1.5;
 
+            // Spoiled stock was paid for when it was bought, so it is shown
+            // as a loss but not subtracted from the profit again
+            const spoilage = this.details.spoilage ?? [];
+            if (spoilage.length > 0) {
+                const wasted = spoilage.reduce((sum, s) => sum + s.value, 0);
+                const spoilageText = new Konva.Text({
+                    x: receiptWidth * 0.1,
+                    y: currentY,
+                    width: receiptWidth * 0.8,
+                    text: `Spoilage (${spoilage.map(s => `${s.quantity} ${s.name}`).join(', ')}): -$${wasted.toFixed(2)}`,
+                    fontSize: BASE_FONT_SIZE * 0.85,
+                    fill: '#B22222',
+                    fontFamily: FONT_FAMILY,
+                });
+                receiptGroup.add(spoilageText);
+                currentY += LINE_ADVANCE * 1.5;
+            }
+
             const netChange = this.daySales + this.dayTips - this.dayExpenses; 
             const netChangeColor = netChange >= 0 ? '#006400' : '#8B0000';
             const netChangeText = new Konva.Text({
@@ -219,12 +262,146 @@ export class DaySummaryScreen {
                 fontStyle: 'bold'
             });
             receiptGroup.add(fundsText);
+            currentY += LINE_ADVANCE * 1.5;
+
+            // Compare the cookies ordered with what the demand curve
+            // predicts customers would have wanted at the list price
+            const pricing = this.details.pricing;
+            if (pricing) {
+                const atList = estimateListDemand(pricing.ordered, pricing.priceRatio);
+                const text = pricing.priceRatio === 1
+                    ? `Price: list price, ${pricing.ordered} cookies ordered`
+                    : `Price ${describePriceChange(pricing.priceRatio)}: ${pricing.ordered} cookies ordered (about ${atList} at list price)`;
+                receiptGroup.add(new Konva.Text({
+                    x: receiptWidth * 0.1,
+                    y: currentY,
+                    width: receiptWidth * 0.8,
+                    text,
+                    fontSize: BASE_FONT_SIZE * 0.85,
+                    fill: '#555',
+                    fontFamily: FONT_FAMILY,
+                }));
+                currentY += LINE_ADVANCE * 1.5;
+            }
+
+            const production = this.details.production;
+            if (production) {
+                const staleNote = production.stale > 0 ? `, ${production.stale} stale thrown out` : '';
+                receiptGroup.add(new Konva.Text({
+                    x: receiptWidth * 0.1,
+                    y: currentY,
+                    width: receiptWidth * 0.8,
+                    text: `Oven: baked ${production.baked}/${production.capacity}, ${production.leftover} left for tomorrow${staleNote}`,
+                    fontSize: BASE_FONT_SIZE * 0.85,
+                    fill: '#555',
+                    fontFamily: FONT_FAMILY,
+                }));
+                currentY += LINE_ADVANCE * 1.5;
+
+                if (typeof production.quality === 'number') {
+                    receiptGroup.add(new Konva.Text({
+                        x: receiptWidth * 0.1,
+                        y: currentY,
+                        width: receiptWidth * 0.8,
+                        text: `Cookie Quality: ${gradeFor(production.quality)} (${production.quality}/100)`,
+                        fontSize: BASE_FONT_SIZE,
+                        fill: '#6A1B9A',
+                        fontFamily: FONT_FAMILY,
+                        fontStyle: 'bold'
+                    }));
+                    currentY += LINE_ADVANCE * 1.5;
+                }
+            }
+
+            if (this.details.seed !== undefined) {
+                receiptGroup.add(new Konva.Text({
+                    x: receiptWidth * 0.1,
+                    y: currentY,
+                    width: receiptWidth * 0.8,
+                    text: `Seed: ${this.details.seed} (replay with ?seed=${this.details.seed})`,
+                    fontSize: BASE_FONT_SIZE * 0.75,
+                    fill: '#777',
+                    fontFamily: FONT_FAMILY,
+                }));
+                currentY += LINE_ADVANCE * 1.2;
+            }
+
+            this.addFulfillmentLines(receiptGroup, receiptWidth, currentY, LINE_ADVANCE, BASE_FONT_SIZE * 0.85, FONT_FAMILY);
             this.layer.add(receiptGroup);
             this.layer.draw();
         };
         imageObj.src = getAssetPath('end-receipt.png')
     }
 
+    // One line per customer, e.g. "3. SUGAR 2/3  PARTIAL"
+    private addFulfillmentLines(
+        receiptGroup: Konva.Group,
+        receiptWidth: number,
+        startY: number,
+        lineAdvance: number,
+        fontSize: number,
+        fontFamily: string
+    ): void {
+        const customers = this.details.fulfillment ?? [];
+        if (customers.length === 0) return;
+
+        const catalog = CatalogManager.getInstance();
+        let currentY = startY;
+
+        receiptGroup.add(new Konva.Text({
+            x: receiptWidth * 0.1,
+            y: currentY,
+            width: receiptWidth * 0.8,
+            text: 'CUSTOMERS',
+            fontSize,
+            fill: 'black',
+            fontFamily,
+            fontStyle: 'bold'
+        }));
+        currentY += lineAdvance;
+
+        customers.forEach((customer) => {
+            const recipe = catalog.getRecipe(customer.recipeId);
+            const status = STATUS_LABELS[customer.status];
+            receiptGroup.add(new Konva.Text({
+                x: receiptWidth * 0.1,
+                y: currentY,
+                width: receiptWidth * 0.5,
+                text: `${customer.customerNum}. ${recipe ? recipe.shortName : customer.recipeId} ${customer.delivered}/${customer.ordered}`,
+                fontSize,
+                fill: 'black',
+                fontFamily
+            }));
+            receiptGroup.add(new Konva.Text({
+                x: receiptWidth * 0.6,
+                y: currentY,
+                width: receiptWidth * 0.3,
+                text: status.text,
+                fontSize,
+                fill: status.fill,
+                fontFamily,
+                fontStyle: 'bold',
+                align: 'right'
+            }));
+            currentY += lineAdvance;
+        });
+
+        const partial = customers.filter(c => c.status === 'partial').length;
+        const turnedAway = customers.filter(c => c.status === 'turned_away').length;
+        if (partial + turnedAway > 0) {
+            const lost = partial * PARTIAL_ORDER_PENALTY + turnedAway * TURNED_AWAY_PENALTY;
+            receiptGroup.add(new Konva.Text({
+                x: receiptWidth * 0.1,
+                y: currentY,
+                width: receiptWidth * 0.8,
+                text: `Unhappy customers: ${partial + turnedAway} (reputation -${lost.toFixed(2)})`,
+                fontSize,
+                fill: '#8B0000',
+                fontFamily
+            }));
+        }
+    }
+
     private createContinueButton(stageWidth: number, stageHeight: number): void {
         const buttonWidth = Math.min(stageWidth * 0.25, 300);
         const buttonHeight = Math.min(stageHeight * 0.08, 60);
@@ -273,8 +450,9 @@ export class DaySummaryScreen {
         buttonGroup.add(text);
 
         buttonGroup.on('click tap', () => {
+            AudioManager.getInstance().playSfx('click');
             // 3. IMPORTANT: Cleanup this screen before moving on!
-            this.cleanup(); 
+            this.unmount(); 
             this.onContinue();
         });
         
@@ -292,28 +470,109 @@ export class DaySummaryScreen {
         this.layer.add(buttonGroup);
         //Exit Button
         const exitButton = new ExitButton(this.stage, this.layer, () => {
-            this.cleanup();
+            this.unmount();
             window.location.href = '/login.html'; //go to login page
         });
 
         //Info Button
-        const infoButton = new InfoButton(this.stage, this.layer);
+        this.resources.widget(new InfoButton(this.stage, this.layer));
         
         // Add savings tracker
+        this.savingsTracker?.destroy();
         this.savingsTracker = new SavingsTracker(this.layer, this.stage);
         this.savingsTracker.update(this.currentFunds);
 
         this.layer.draw();
     }
 
-    public cleanup(): void {
-        // 4. Mark inactive immediately
-        this.isActive = false;
+    // Opens the mistake review; sits beside CONTINUE
+    private createPracticeButton(stageWidth: number, stageHeight: number): void {
+        const onPractice = this.onPractice;
+        if (!onPractice) return;
 
-        if (this.resizeHandler) {
-            window.removeEventListener('resize', this.resizeHandler);
-            this.resizeHandler = null;
-        }
+        const continueWidth = Math.min(stageWidth * 0.25, 300);
+        const buttonWidth = continueWidth * 0.6;
+        const buttonHeight = Math.min(stageHeight * 0.08, 60);
+
+        const buttonGroup = new Konva.Group({
+            x: (stageWidth + continueWidth) / 2 + stageWidth * 0.02,
+            y: (stageHeight * 0.15) + (stageHeight * 0.7) + (stageHeight * 0.02)
+        });
+
+        const rect = new Konva.Rect({
+            width: buttonWidth,
+            height: buttonHeight,
+            fill: '#3498db',
+            cornerRadius: 10,
+            shadowColor: 'black',
+            shadowBlur: 5,
+            shadowOpacity: 0.4,
+            shadowOffsetX: 2,
+            shadowOffsetY: 2
+        });
+
+        const text = new Konva.Text({
+            width: buttonWidth,
+            height: buttonHeight,
+            text: 'PRACTICE',
+            fontSize: Math.min(stageWidth * 0.014, 16),
+            fontFamily: "Press Start 2P",
+            fill: 'white',
+            align: 'center',
+            verticalAlign: 'middle',
+            listening: false
+        });
+
+        buttonGroup.add(rect);
+        buttonGroup.add(text);
+
+        buttonGroup.on('click tap', () => {
+            AudioManager.getInstance().playSfx('click');
+            this.unmount();
+            onPractice();
+        });
+        buttonGroup.on('mouseenter', () => {
+            this.stage.container().style.cursor = 'pointer';
+            rect.fill('#5dade2');
+            this.layer.batchDraw();
+        });
+        buttonGroup.on('mouseleave', () => {
+            this.stage.container().style.cursor = 'default';
+            rect.fill('#3498db');
+            this.layer.batchDraw();
+        });
+
+        this.layer.add(buttonGroup);
+        this.layer.draw();
+    }
+
+    // Teacher's progress report, CSV then JSON outward from CONTINUE;
+    // mirrors PRACTICE on the other side
+    private createReportButton(stageWidth: number, stageHeight: number): void {
+        const onDownloadReport = this.onDownloadReport;
+        if (!onDownloadReport) return;
+
+        const continueWidth = Math.min(stageWidth * 0.25, 300);
+        const buttonWidth = continueWidth * 0.6;
+        const gap = stageWidth * 0.01;
+        const formats: ReportFormat[] = ['csv', 'json'];
+        formats.forEach((format, i) => {
+            new ReportButton(
+                this.stage, this.layer, onDownloadReport, format,
+                (stageWidth - continueWidth) / 2 - stageWidth * 0.02 - buttonWidth - i * (buttonWidth + gap),
+                (stageHeight * 0.15) + (stageHeight * 0.7) + (stageHeight * 0.02),
+                buttonWidth,
+                Math.min(stageHeight * 0.08, 60)
+            );
+        });
+    }
+
+    public unmount(): void {
+        // Mark inactive immediately
+        this.isActive = false;
+        this.savingsTracker?.destroy();
+        this.savingsTracker = null;
+        this.resources.dispose();
         this.layer.destroyChildren();
     }
 }
\ No newline at end of file
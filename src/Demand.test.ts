@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import {
+  clampPriceRatio,
+  cookiesWanted,
+  demandMultiplier,
+  describePriceChange,
+  estimateListDemand,
+  todayPrice,
+} from "./Demand";
+
+describe("demand curve", () => {
+  it("leaves demand unchanged at the list price", () => {
+    expect(demandMultiplier(1)).toBe(1);
+    expect(cookiesWanted(4.6, 1)).toBe(4);
+  });
+
+  it("loses proportionally more cookies than the price rises", () => {
+    // (1.2)^-1.5 is about 0.76
+    expect(demandMultiplier(1.2)).toBeCloseTo(0.761, 3);
+    expect(cookiesWanted(5, 1.2)).toBe(3);
+    expect(cookiesWanted(5, 0.8)).toBe(6);
+  });
+
+  it("always sells at least one cookie per customer", () => {
+    expect(cookiesWanted(0.5, 1.5)).toBe(1);
+    expect(cookiesWanted(-1, 1)).toBe(1);
+  });
+
+  it("estimates what would have sold at the list price", () => {
+    expect(estimateListDemand(19, 1.2)).toBe(25);
+    expect(estimateListDemand(10, 1)).toBe(10);
+  });
+});
+
+describe("price ratios", () => {
+  it("snaps to 5% steps between half and one and a half times the list price", () => {
+    expect(clampPriceRatio(1.12)).toBeCloseTo(1.1);
+    expect(clampPriceRatio(0.2)).toBe(0.5);
+    expect(clampPriceRatio(3)).toBe(1.5);
+  });
+
+  it("prices cookies to the cent and describes the change", () => {
+    expect(todayPrice(15, 1.15)).toBe(17.25);
+    expect(describePriceChange(1.2)).toBe("+20%");
+    expect(describePriceChange(0.85)).toBe("-15%");
+    expect(describePriceChange(1)).toBe("list price");
+  });
+});
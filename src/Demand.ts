@@ -0,0 +1,47 @@
+// Demand curve
+// -----------
+// Each customer's order starts from reputation as before:
+//     base = reputation * 4 + noise (noise between -2 and +1)
+// and is then scaled by how today's price compares with the list price:
+//     cookies = max(1, floor(base * (price / listPrice) ^ -PRICE_ELASTICITY))
+// With an elasticity above 1, raising the price by 10% loses a bit more than
+// 10% of the cookies, so higher prices pay off only while ingredients are
+// expensive compared with the sale price.
+export const PRICE_ELASTICITY = 1.5;
+
+// The player picks today's price as a percentage of the list price
+export const PRICE_RATIO_STEP = 0.05;
+export const MIN_PRICE_RATIO = 0.5;
+export const MAX_PRICE_RATIO = 1.5;
+
+export function clampPriceRatio(ratio: number): number {
+    const steps = Math.round(ratio / PRICE_RATIO_STEP);
+    return Math.min(MAX_PRICE_RATIO, Math.max(MIN_PRICE_RATIO, steps * PRICE_RATIO_STEP));
+}
+
+// Share of the usual demand that shows up at this price ratio
+export function demandMultiplier(priceRatio: number): number {
+    if (!(priceRatio > 0)) return 1;
+    return Math.pow(priceRatio, -PRICE_ELASTICITY);
+}
+
+export function cookiesWanted(baseDemand: number, priceRatio: number): number {
+    return Math.max(1, Math.floor(baseDemand * demandMultiplier(priceRatio)));
+}
+
+// Today's price for a cookie, to the cent
+export function todayPrice(listPrice: number, priceRatio: number): number {
+    return Math.round(listPrice * priceRatio * 100) / 100;
+}
+
+// Rough number of cookies that would have been ordered at the list price
+export function estimateListDemand(ordered: number, priceRatio: number): number {
+    return Math.round(ordered / demandMultiplier(priceRatio));
+}
+
+// "+20%", "-15%" or "list price"
+export function describePriceChange(priceRatio: number): string {
+    const percent = Math.round((priceRatio - 1) * 100);
+    if (percent === 0) return 'list price';
+    return `${percent > 0 ? '+' : ''}${percent}%`;
+}
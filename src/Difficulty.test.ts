@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { DIFFICULTY_TIERS, getDifficulty, parseDifficulty, pickOperand, timeLimitFor } from "./Difficulty";
+
+describe("difficulty tiers", () => {
+  it("parses tier ids and names in any case", () => {
+    expect(parseDifficulty("beginner")).toBe("beginner");
+    expect(parseDifficulty(" Challenge ")).toBe("challenge");
+    expect(parseDifficulty("STANDARD")).toBe("standard");
+    expect(parseDifficulty("impossible")).toBeNull();
+    expect(parseDifficulty(3)).toBeNull();
+  });
+
+  it("falls back to Standard for unknown ids", () => {
+    expect(getDifficulty("challenge").name).toBe("Challenge");
+    expect(getDifficulty("nope" as never).id).toBe("standard");
+  });
+
+  it("keeps the original minigame ranges on Standard", () => {
+    const standard = getDifficulty("standard");
+    expect(standard.division).toEqual({ divisors: { min: 2, max: 10 }, quotients: { min: 1, max: 12 }, remainders: false });
+    expect(standard.multiplication).toEqual({ left: { min: 1, max: 12 }, right: { min: 1, max: 12 } });
+    expect(timeLimitFor(standard, 60)).toBe(60);
+  });
+
+  it("gives easier tiers more time and harder tiers less", () => {
+    expect(timeLimitFor(getDifficulty("beginner"), 45)).toBe(68);
+    expect(timeLimitFor(getDifficulty("challenge"), 45)).toBe(34);
+    expect(timeLimitFor(getDifficulty("challenge"), 0)).toBe(1);
+  });
+
+  it("only allows remainders and two-digit factors on Challenge", () => {
+    const [beginner, standard, challenge] = DIFFICULTY_TIERS;
+    expect(beginner.division.remainders || standard.division.remainders).toBe(false);
+    expect(challenge.division.remainders).toBe(true);
+    expect(challenge.multiplication.left.min).toBeGreaterThanOrEqual(10);
+  });
+
+  it("picks operands from both ends of a range", () => {
+    expect(pickOperand({ min: 3, max: 12 }, () => 0)).toBe(3);
+    expect(pickOperand({ min: 3, max: 12 }, () => 0.9999)).toBe(12);
+  });
+});
@@ -0,0 +1,71 @@
+import { DifficultyId, PriceRange } from './types';
+
+// Smallest and largest operand a tier may use, both inclusive
+export type OperandRange = PriceRange;
+
+export interface DifficultyTier {
+    id: DifficultyId;
+    name: string;
+    division: {
+        divisors: OperandRange;
+        quotients: OperandRange;
+        // When true, dividends need not split evenly and the remainder is shown
+        remainders: boolean;
+    };
+    multiplication: {
+        left: OperandRange;
+        right: OperandRange;
+    };
+    // Multiplies BAKING_TIME and CLEANING_TIME from the config
+    timeScale: number;
+}
+
+export const DIFFICULTY_TIERS: DifficultyTier[] = [
+    {
+        id: 'beginner',
+        name: 'Beginner',
+        division: { divisors: { min: 2, max: 5 }, quotients: { min: 1, max: 10 }, remainders: false },
+        multiplication: { left: { min: 1, max: 10 }, right: { min: 1, max: 5 } },
+        timeScale: 1.5,
+    },
+    {
+        // The ranges the minigames always used before tiers existed
+        id: 'standard',
+        name: 'Standard',
+        division: { divisors: { min: 2, max: 10 }, quotients: { min: 1, max: 12 }, remainders: false },
+        multiplication: { left: { min: 1, max: 12 }, right: { min: 1, max: 12 } },
+        timeScale: 1,
+    },
+    {
+        // Two-digit quotients and factors, and division that does not come out even
+        id: 'challenge',
+        name: 'Challenge',
+        division: { divisors: { min: 3, max: 12 }, quotients: { min: 5, max: 25 }, remainders: true },
+        multiplication: { left: { min: 11, max: 25 }, right: { min: 2, max: 12 } },
+        timeScale: 0.75,
+    },
+];
+
+export const DEFAULT_DIFFICULTY: DifficultyId = 'standard';
+
+// Accepts a tier id or name in any case ("Challenge", "BEGINNER");
+// returns null for anything else
+export function parseDifficulty(value: unknown): DifficultyId | null {
+    if (typeof value !== 'string') return null;
+    const wanted = value.trim().toLowerCase();
+    const tier = DIFFICULTY_TIERS.find(t => t.id === wanted || t.name.toLowerCase() === wanted);
+    return tier ? tier.id : null;
+}
+
+export function getDifficulty(id: DifficultyId): DifficultyTier {
+    return DIFFICULTY_TIERS.find(t => t.id === id) ?? getDifficulty(DEFAULT_DIFFICULTY);
+}
+
+// Minigame timer for a tier, in whole seconds
+export function timeLimitFor(tier: DifficultyTier, baseSeconds: number): number {
+    return Math.max(1, Math.round(baseSeconds * tier.timeScale));
+}
+
+export function pickOperand(range: OperandRange, random: () => number = Math.random): number {
+    return range.min + Math.floor(random() * (range.max - range.min + 1));
+}
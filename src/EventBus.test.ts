@@ -0,0 +1,71 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { EventBus } from "./EventBus";
+import { GamePhase } from "./types";
+
+describe("EventBus", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("delivers each event to its own subscribers, in order", () => {
+    const bus = new EventBus();
+    const calls: string[] = [];
+    bus.on("fundsChanged", ({ funds }) => calls.push(`first ${funds}`));
+    bus.on("fundsChanged", ({ change }) => calls.push(`second ${change}`));
+    bus.on("phaseChanged", () => calls.push("phase"));
+
+    bus.emit("fundsChanged", { funds: 120, change: -30 });
+    expect(calls).toEqual(["first 120", "second -30"]);
+
+    bus.emit("phaseChanged", { from: GamePhase.LOGIN, to: GamePhase.STORYLINE });
+    expect(calls).toEqual(["first 120", "second -30", "phase"]);
+  });
+
+  it("unsubscribes through the returned function or off", () => {
+    const bus = new EventBus();
+    const handler = vi.fn();
+    const unsubscribe = bus.on("volumeChanged", handler);
+    bus.on("volumeChanged", handler); // still one subscription
+    expect(bus.listenerCount("volumeChanged")).toBe(1);
+
+    unsubscribe();
+    bus.emit("volumeChanged", { bus: "music", volume: 0.2, muted: false });
+    expect(handler).not.toHaveBeenCalled();
+
+    bus.on("volumeChanged", handler);
+    bus.off("volumeChanged", handler);
+    bus.off("phaseChanged", vi.fn()); // nothing subscribed: ignored
+    bus.emit("volumeChanged", { bus: "sfx", volume: 1, muted: true });
+    expect(handler).not.toHaveBeenCalled();
+
+    bus.on("fundsChanged", handler);
+    bus.clear();
+    expect(bus.listenerCount("fundsChanged")).toBe(0);
+  });
+
+  it("keeps going when a handler throws or unsubscribes mid-emit", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const bus = new EventBus();
+    const later = vi.fn();
+    const once = bus.on("fundsChanged", () => once());
+    bus.on("fundsChanged", () => {
+      throw new Error("broken screen");
+    });
+    bus.on("fundsChanged", later);
+
+    bus.emit("fundsChanged", { funds: 10, change: 10 });
+    expect(later).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalled();
+    expect(bus.listenerCount("fundsChanged")).toBe(2);
+  });
+
+  it("shares one bus until it is replaced", () => {
+    const shared = EventBus.getInstance();
+    expect(EventBus.getInstance()).toBe(shared);
+
+    const fresh = new EventBus();
+    EventBus.setInstance(fresh);
+    expect(EventBus.getInstance()).toBe(fresh);
+    EventBus.setInstance(shared);
+  });
+});
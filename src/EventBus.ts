@@ -0,0 +1,81 @@
+import { GamePhase } from './types';
+import { AudioBus } from './AudioManager';
+import { MinigameName } from './ProgressReport';
+import { Problem } from './ProblemGenerator';
+
+// Event bus
+// ---------
+// Parts of the game that need to hear about each other talk through one
+// typed bus instead of window globals or callbacks passed down constructors:
+//     phaseChanged      GameManager, after every move to a new phase; autosaves
+//     fundsChanged      GameManager, whenever money comes in or goes out
+//     problemShown      a minigame puts a new problem on screen
+//     answerSubmitted   a minigame checks an answer
+//     volumeChanged     the AudioManager, when a bus's volume or mute changes
+// Handlers run synchronously, in the order they subscribed. Screens subscribe
+// through ScreenResources.subscribe, so unmount unsubscribes them.
+export interface GameEvents {
+    phaseChanged: { from: GamePhase; to: GamePhase };
+    fundsChanged: { funds: number; change: number };
+    problemShown: { minigame: MinigameName; problem: Problem };
+    answerSubmitted: { minigame: MinigameName; problem: Problem; correct: boolean };
+    volumeChanged: { bus: AudioBus; volume: number; muted: boolean };
+}
+
+export type GameEventName = keyof GameEvents;
+export type GameEventHandler<K extends GameEventName> = (payload: GameEvents[K]) => void;
+
+type HandlerMap = { [K in GameEventName]?: GameEventHandler<K>[] };
+
+export class EventBus {
+    private static instance: EventBus | null = null;
+
+    private handlers: HandlerMap = {};
+
+    public static getInstance(): EventBus {
+        if (!EventBus.instance) {
+            EventBus.instance = new EventBus();
+        }
+        return EventBus.instance;
+    }
+
+    // Replaces the shared bus, e.g. with a fresh one in tests
+    public static setInstance(bus: EventBus): void {
+        EventBus.instance = bus;
+    }
+
+    // Returns the matching unsubscribe; subscribing the same handler twice
+    // keeps a single one
+    public on<K extends GameEventName>(event: K, handler: GameEventHandler<K>): () => void {
+        const handlers: GameEventHandler<K>[] = this.handlers[event] ?? [];
+        if (!handlers.includes(handler)) handlers.push(handler);
+        this.handlers[event] = handlers as HandlerMap[K];
+        return () => this.off(event, handler);
+    }
+
+    public off<K extends GameEventName>(event: K, handler: GameEventHandler<K>): void {
+        const handlers: GameEventHandler<K>[] | undefined = this.handlers[event];
+        if (!handlers) return;
+        this.handlers[event] = handlers.filter((h) => h !== handler) as HandlerMap[K];
+    }
+
+    // A handler that throws is reported and does not stop the others
+    public emit<K extends GameEventName>(event: K, payload: GameEvents[K]): void {
+        const handlers: GameEventHandler<K>[] = this.handlers[event] ?? [];
+        handlers.slice().forEach((handler) => {
+            try {
+                handler(payload);
+            } catch (error) {
+                console.error(`Error in ${event} handler:`, error);
+            }
+        });
+    }
+
+    public listenerCount(event: GameEventName): number {
+        return this.handlers[event]?.length ?? 0;
+    }
+
+    public clear(): void {
+        this.handlers = {};
+    }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { fulfillOrders, PARTIAL_ORDER_PENALTY, TURNED_AWAY_PENALTY } from "./Fulfillment";
+import { Bread } from "./types";
+
+// Fresh sugar cookies (sale price $8) baked on day 1
+const sugarStock = (count: number): Bread[] => [{ recipeId: "sugar", quantity: count, quality: 100, bakedDay: 1 }];
+
+describe("fulfillOrders", () => {
+  it("serves every customer in full when there are enough cookies", () => {
+    const result = fulfillOrders(
+      [
+        { customerNum: 1, cookieCount: 2, recipeId: "sugar" },
+        { customerNum: 2, cookieCount: 3, recipeId: "sugar" },
+      ],
+      sugarStock(5)
+    );
+
+    expect(result.customers.map((c) => c.status)).toEqual(["served", "served"]);
+    expect(result.cookiesSold).toBe(5);
+    expect(result.revenue).toBe(5 * 8);
+    expect(result.reputationChange).toBe(0);
+    expect(result.stock).toEqual([]);
+  });
+
+  it("leaves the last customer partially served when one cookie short", () => {
+    const result = fulfillOrders(
+      [
+        { customerNum: 2, cookieCount: 3, recipeId: "sugar" },
+        { customerNum: 1, cookieCount: 2, recipeId: "sugar" },
+      ],
+      sugarStock(4)
+    );
+
+    expect(result.customers[0]).toMatchObject({ customerNum: 1, delivered: 2, status: "served" });
+    expect(result.customers[1]).toMatchObject({ customerNum: 2, delivered: 2, ordered: 3, status: "partial", revenue: 16 });
+    expect(result.reputationChange).toBeCloseTo(-PARTIAL_ORDER_PENALTY);
+  });
+
+  it("turns away customers whose flavor is not on the shelf", () => {
+    const stock = sugarStock(1);
+    const result = fulfillOrders(
+      [
+        { customerNum: 1, cookieCount: 1, recipeId: "chocolate-chip" },
+        { customerNum: 2, cookieCount: 1, recipeId: "sugar" },
+        { customerNum: 3, cookieCount: 1, recipeId: "no-such-cookie" },
+      ],
+      stock
+    );
+
+    expect(result.customers.map((c) => c.status)).toEqual(["turned_away", "served", "turned_away"]);
+    expect(result.reputationChange).toBeCloseTo(-2 * TURNED_AWAY_PENALTY);
+    // the caller's stock is not modified
+    expect(stock[0].quantity).toBe(1);
+  });
+
+  it("sells carried-over cookies first at a price reduced by their quality", () => {
+    const result = fulfillOrders(
+      [{ customerNum: 1, cookieCount: 3, recipeId: "sugar" }],
+      [
+        { recipeId: "sugar", quantity: 5, quality: 100, bakedDay: 2 },
+        { recipeId: "sugar", quantity: 2, quality: 75, bakedDay: 1 },
+      ]
+    );
+
+    expect(result.revenue).toBe(2 * 6 + 8);
+    expect(result.stock).toEqual([{ recipeId: "sugar", quantity: 4, quality: 100, bakedDay: 2 }]);
+  });
+
+  it("charges today's price instead of the list price", () => {
+    const result = fulfillOrders([{ customerNum: 1, cookieCount: 2, recipeId: "sugar" }], sugarStock(2), 1.25);
+    expect(result.revenue).toBe(2 * 10);
+  });
+});
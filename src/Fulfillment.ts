@@ -0,0 +1,79 @@
+import { CatalogManager } from './catalog';
+import { priceAtQuality } from './Oven';
+import { todayPrice } from './Demand';
+import { Bread, CustomerOrder } from './types';
+
+// Reputation lost for each customer who leaves without their full order
+export const PARTIAL_ORDER_PENALTY = 0.02;
+export const TURNED_AWAY_PENALTY = 0.05;
+
+export type FulfillmentStatus = 'served' | 'partial' | 'turned_away';
+
+export interface CustomerFulfillment {
+    customerNum: number;
+    recipeId: string;
+    ordered: number;
+    delivered: number;
+    status: FulfillmentStatus;
+    revenue: number;
+}
+
+export interface FulfillmentResult {
+    customers: CustomerFulfillment[];
+    cookiesSold: number;
+    revenue: number;
+    reputationChange: number; // always <= 0
+    stock: Bread[]; // cookies left on the shelf afterwards
+}
+
+// Serves customers in line order. Each one gets as many cookies of their
+// flavor as are on the shelf, so running short by a single cookie leaves
+// the last customer in line partially served. The oldest cookies go first
+// and sell at today's price reduced by their quality.
+export function fulfillOrders(orders: CustomerOrder[], stock: Bread[], priceRatio: number = 1): FulfillmentResult {
+    const catalog = CatalogManager.getInstance();
+    const remaining = stock.map(b => ({ ...b })).sort((a, b) => a.bakedDay - b.bakedDay);
+    const customers: CustomerFulfillment[] = [];
+    let cookiesSold = 0;
+    let revenue = 0;
+    let reputationChange = 0;
+
+    [...orders].sort((a, b) => a.customerNum - b.customerNum).forEach((order) => {
+        const recipe = catalog.getRecipe(order.recipeId);
+        let delivered = 0;
+        let customerRevenue = 0;
+
+        if (recipe) {
+            for (const bread of remaining) {
+                if (delivered >= order.cookieCount) break;
+                if (bread.recipeId !== recipe.id) continue;
+                const taken = Math.min(bread.quantity, order.cookieCount - delivered);
+                bread.quantity -= taken;
+                delivered += taken;
+                customerRevenue += taken * priceAtQuality(todayPrice(catalog.getSalePrice(recipe), priceRatio), bread.quality);
+            }
+        }
+
+        let status: FulfillmentStatus = 'served';
+        if (delivered === 0) {
+            status = 'turned_away';
+            reputationChange -= TURNED_AWAY_PENALTY;
+        } else if (delivered < order.cookieCount) {
+            status = 'partial';
+            reputationChange -= PARTIAL_ORDER_PENALTY;
+        }
+
+        customers.push({
+            customerNum: order.customerNum,
+            recipeId: order.recipeId,
+            ordered: order.cookieCount,
+            delivered,
+            status,
+            revenue: customerRevenue,
+        });
+        cookiesSold += delivered;
+        revenue += customerRevenue;
+    });
+
+    return { customers, cookiesSold, revenue, reputationChange, stock: remaining.filter(b => b.quantity > 0) };
+}
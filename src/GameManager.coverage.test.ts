@@ -1,5 +1,6 @@
 // @vitest-environment jsdom
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Problem } from "./ProblemGenerator";
 
 function createKonvaMock() {
   class Base {
@@ -102,8 +103,23 @@ function createKonvaMock() {
 const lastShopping: {
   onPurchaseComplete?: Function;
   onViewRecipe?: Function;
+  discount?: number;
+  hint?: { cost: number; paid: ReadonlySet<string>; onHint: (ingredient: string) => void };
 } = {};
 
+const lastWordProblems: {
+  problems?: any[];
+  onComplete?: Function;
+} = {};
+
+const lastPractice: {
+  mistakeLog?: any;
+  onDone?: Function;
+} = {};
+
+// Latest instance of each no-op screen, by module name
+const lastScreens: Record<string, any> = {};
+
 function setupMocks(options: { animResolves?: boolean; backgroundFails?: boolean } = {}) {
   // Audio stub
   class FakeAudio {
@@ -148,17 +164,32 @@ function setupMocks(options: { animResolves?: boolean; backgroundFails?: boolean
           bakingTime: 0,
           cleaningTime: 0,
           maxBreadCapacity: 20,
+          ovenUpgradeCost: 50,
           divisionProblems: 0,
           multiplicationProblems: 0,
+          measuringProblems: 0,
           cookiePrice: 10,
+          difficulty: "standard",
+          seed: null,
         }),
       }),
     },
   }));
 
+  // Every screen mock goes through the same mount/unmount lifecycle
+  class FakeScreen {
+    mount = vi.fn();
+    resize = vi.fn();
+    pause = vi.fn();
+    resume = vi.fn();
+    unmount = vi.fn();
+  }
+
   vi.doMock("./AnimationPlayer", () => ({
     AnimationPlayer: class {
       start = vi.fn();
+      stop = vi.fn();
+      resume = vi.fn();
       destroy = vi.fn();
       load() {
         return options.animResolves === false ? Promise.reject("fail") : Promise.resolve();
@@ -167,37 +198,82 @@ function setupMocks(options: { animResolves?: boolean; backgroundFails?: boolean
   }));
 
   vi.doMock("./BakingMinigame", () => ({
-    BakingMinigame: class {
+    BakingMinigame: class extends FakeScreen {
       cb: any;
-      cleanup = vi.fn();
       constructor(_s: any, _l: any, _c: number, cb: any) {
+        super();
         this.cb = cb;
       }
     },
   }));
 
+  vi.doMock("./MeasuringMinigame", () => ({
+    MeasuringMinigame: class extends FakeScreen {
+      cb: any;
+      mistakeLog: any;
+      constructor(_s: any, _l: any, _r: any, cb: any, _random: any, mistakeLog: any) {
+        super();
+        this.cb = cb;
+        this.mistakeLog = mistakeLog;
+      }
+    },
+  }));
+
+  vi.doMock("./WordProblemScreen", () => ({
+    WordProblemScreen: class extends FakeScreen {
+      constructor(_s: any, _l: any, problems: any[], onComplete: any) {
+        super();
+        lastWordProblems.problems = problems;
+        lastWordProblems.onComplete = onComplete;
+      }
+    },
+  }));
+
+  vi.doMock("./PracticeScreen", () => ({
+    PracticeScreen: class extends FakeScreen {
+      constructor(_s: any, _l: any, mistakeLog: any, onDone: any) {
+        super();
+        lastPractice.mistakeLog = mistakeLog;
+        lastPractice.onDone = onDone;
+      }
+    },
+  }));
+
+  vi.doMock("./TeacherDashboardScreen", () => ({
+    TeacherDashboardScreen: class extends FakeScreen {
+      args: any[];
+      constructor(...args: any[]) {
+        super();
+        this.args = args;
+        lastScreens.TeacherDashboardScreen = this;
+      }
+    },
+  }));
+
   vi.doMock("./CleaningMinigame", () => ({
-    CleaningMinigame: class {
+    CleaningMinigame: class extends FakeScreen {
       cb: any;
-      cleanup = vi.fn();
       constructor(_s: any, _l: any, _d: number, cb: any) {
+        super();
         this.cb = cb;
       }
     },
   }));
 
   // Simple no-op screens
-  ["HowToPlayScreen", "StoryScreen", "OrderScreen", "RecipeBookScreen", "DaySummaryScreen", "VictoryScreen", "LoseScreen", "LoginScreen"].forEach(
+  ["HowToPlayScreen", "StoryScreen", "PricingScreen", "OrderScreen", "RecipeBookScreen", "DaySummaryScreen", "VictoryScreen", "LoseScreen", "LoginScreen"].forEach(
     (mod) => {
       vi.doMock(`./${mod}`, () => ({
-        [mod]: class {
-          volumeChangeCallback?: (v: number) => void;
+        [mod]: class extends FakeScreen {
           constructor(...args: any[]) {
+            super();
             // capture callbacks if present
             const last = args[args.length - 1];
             if (typeof last === "function") {
               (this as any).cb = last;
             }
+            (this as any).args = args;
+            lastScreens[mod] = this;
           }
           setVolume(_v: number) {}
         },
@@ -206,8 +282,7 @@ function setupMocks(options: { animResolves?: boolean; backgroundFails?: boolean
   );
 
   vi.doMock("./ShoppingScreen", () => ({
-    ShoppingScreen: class {
-      cleanup = vi.fn();
+    ShoppingScreen: class extends FakeScreen {
       constructor(
         _s: any,
         _l: any,
@@ -216,10 +291,14 @@ function setupMocks(options: { animResolves?: boolean; backgroundFails?: boolean
         _demand: number,
         _orders: any,
         onPurchaseComplete: any,
-        onViewRecipe: any
+        onViewRecipe: any,
+        ...rest: any[]
       ) {
+        super();
         lastShopping.onPurchaseComplete = onPurchaseComplete;
         lastShopping.onViewRecipe = onViewRecipe;
+        lastShopping.discount = rest[4];
+        lastShopping.hint = rest[5];
       }
       getIngredientValues() {
         return new Map([["Flour", "5"]]);
@@ -249,21 +328,22 @@ describe("GameManager coverage", () => {
   it("covers primary flows and calculations", async () => {
     setupMocks();
     const { GameManager } = await import("./GameManager");
+    const { GamePhase } = await import("./types");
     const gm: any = new GameManager(makeContainer());
-    gm.audioUnlocked = true;
+    gm.audio.unlock();
 
     // Music switch cases
-    gm.currentPhase = 0; // LOGIN
+    gm.phases.reset(0); // LOGIN
     gm.updateBackgroundMusic();
-    gm.currentPhase = 6; // SHOPPING
+    gm.phases.reset(6); // SHOPPING
     gm.updateBackgroundMusic();
-    gm.currentPhase = 11; // VICTORY
+    gm.phases.reset(11); // VICTORY
     gm.updateBackgroundMusic();
 
     gm.handleResize(makeContainer());
 
     // Shopping phase and callbacks
-    gm.renderShoppingPhase();
+    gm.createShoppingScreen();
     const purchase = new Map([
       ["Flour", 3],
       ["Sugar", 1],
@@ -271,7 +351,9 @@ describe("GameManager coverage", () => {
       ["Chocolate", 1],
       ["Baking Soda", 2],
     ]);
+    gm.phases.reset(GamePhase.SHOPPING);
     lastShopping.onPurchaseComplete?.(purchase, 10);
+    gm.phases.reset(GamePhase.SHOPPING);
     lastShopping.onViewRecipe?.();
 
     // Baking calculations
@@ -283,30 +365,29 @@ describe("GameManager coverage", () => {
       ["Baking Soda", 2],
     ]);
     gm.player.currentDayDemand = 2;
-    gm.renderBakingPhase();
+    const baking = gm.createBakingScreen();
     // trigger baking completion through the captured callback
-    (gm as any).currentBakingMinigameInstance.cb({ correctAnswers: 2 }, false);
+    gm.phases.reset(GamePhase.BAKING);
+    baking.cb({ correctAnswers: 2 }, false);
 
     // Cleaning completion paths
-    gm.renderCleaningPhase();
-    const cleaningCb =
-      (gm as any).currentCleaningMinigame?.cb ??
-      vi.fn();
-    (gm as any).currentCleaningMinigame = { cb: cleaningCb };
+    const cleaningCb = gm.createCleaningScreen().cb;
+    gm.phases.reset(GamePhase.CLEANING);
     cleaningCb({ correctAnswers: 0 }, true);
+    gm.phases.reset(GamePhase.CLEANING);
     cleaningCb({ correctAnswers: 5 }, false);
 
     // Summary outcome branches
     gm.player.funds = 200;
-    gm.renderDaySummaryPhase();
+    gm.createDaySummaryScreen();
     gm.player.funds = -10;
     gm.player.ingredients.clear();
     expect(gm.checkBankruptcy()).toBe(true);
-    gm.renderGameOverPhase();
+    expect(gm.screens.show(GamePhase.GAME_OVER)).toBeNull();
 
     // Victory/defeat screens
-    gm.renderVictoryPhase();
-    gm.renderLosePhase();
+    gm.createVictoryScreen();
+    gm.createLoseScreen();
 
     gm.player.ingredients = new Map([
       ["Flour", 3],
@@ -317,27 +398,38 @@ describe("GameManager coverage", () => {
     ]);
     expect(gm.calculateMaxCookies()).toBeGreaterThanOrEqual(0);
     expect(gm.canMakeCookies()).toBe(true);
+    gm.phases.reset(GamePhase.DEFEAT);
     gm.resetGame();
   });
 
   it("covers animation failures and background load error", async () => {
     setupMocks({ animResolves: false, backgroundFails: true });
     const { GameManager } = await import("./GameManager");
+    const { GamePhase } = await import("./types");
     const gm: any = new GameManager(makeContainer());
-    gm.audioUnlocked = true;
-
-    // Animation load rejections
-    await gm.renderPostBakingAnimation();
-    await gm.renderNewDayAnimation();
-
-    // Cleanup with active references
-    gm.currentBakingMinigameInstance = { cleanup: vi.fn() };
-    gm.currentCleaningMinigame = { cleanup: vi.fn() };
-    gm.postBakingAnimation = { destroy: vi.fn() };
-    gm.newDayAnimation = { destroy: vi.fn() };
+    gm.audio.unlock();
+
+    // Animation load rejections skip ahead through the phase table
+    gm.phases.reset(GamePhase.POST_BAKING_ANIMATION);
+    gm.screens.show(GamePhase.POST_BAKING_ANIMATION);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(gm.currentPhase).toBe(GamePhase.CLEANING);
+    expect(gm.phases.getPreviousPhase()).toBe(GamePhase.POST_BAKING_ANIMATION);
+    // a late failure once the animation is gone changes nothing
+    const late = gm.createNewDayAnimation();
+    late.mount();
+    late.unmount();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(gm.currentPhase).toBe(GamePhase.CLEANING);
+
+    // Cleanup unmounts the current screen and keeps the background
+    const cleaning = gm.screens.getCurrent();
     gm.backgroundImage = new (await import("konva")).default.Image({ image: new Image() });
     gm.layer.add(gm.backgroundImage);
     gm.cleanupCurrentPhase();
+    expect(cleaning.unmount).toHaveBeenCalled();
+    expect(gm.screens.getCurrent()).toBeNull();
+    expect(gm.layer.getChildren()).toEqual([gm.backgroundImage]);
 
     // Bankruptcy false branch
     gm.player.ingredients.set("Flour", 100);
@@ -345,6 +437,35 @@ describe("GameManager coverage", () => {
     expect(gm.checkBankruptcy()).toBe(false);
   });
 
+  it("unmounts each screen before the next and passes resizes and tab switches on", async () => {
+    setupMocks();
+    const { GameManager } = await import("./GameManager");
+    const { GamePhase } = await import("./types");
+    const gm: any = new GameManager(makeContainer());
+
+    gm.phases.reset(GamePhase.PRICING);
+    gm.renderCurrentPhase();
+    const pricing = gm.screens.getCurrent();
+    expect(pricing.mount).toHaveBeenCalledTimes(1);
+    lastScreens.PricingScreen.cb(1.2);
+    expect(gm.currentPhase).toBe(GamePhase.ORDER);
+    expect(pricing.unmount).toHaveBeenCalledTimes(1);
+
+    const order = gm.screens.getCurrent();
+    const container = document.createElement("div") as HTMLDivElement;
+    Object.defineProperty(container, "offsetWidth", { value: 640 });
+    Object.defineProperty(container, "offsetHeight", { value: 480 });
+    gm.handleResize(container);
+    expect(order.resize).toHaveBeenCalledWith(640, 480);
+
+    const hidden = vi.spyOn(document, "hidden", "get").mockReturnValue(true);
+    document.dispatchEvent(new Event("visibilitychange"));
+    expect(order.pause).toHaveBeenCalled();
+    hidden.mockReturnValue(false);
+    document.dispatchEvent(new Event("visibilitychange"));
+    expect(order.resume).toHaveBeenCalled();
+  });
+
   it("exercises renderCurrentPhase branches and music gating", async () => {
     setupMocks();
     const { GameManager } = await import("./GameManager");
@@ -354,17 +475,17 @@ describe("GameManager coverage", () => {
 
     // unlock audio via event listeners
     window.dispatchEvent(new Event("pointerdown"));
-    expect(gm.audioUnlocked).toBe(true);
+    expect(gm.audio.isUnlocked()).toBe(true);
 
-    // cover playBGM null path and unknown phase music
-    gm.playBGM?.(null);
-    gm.currentPhase = -1 as any;
+    // no music for an unknown phase
+    gm.phases.reset(-1 as any);
     gm.updateBackgroundMusic();
+    expect(gm.audio.getCurrentTrack()).toBeNull();
 
     // add background image then render an in-game phase that should keep it
     gm.backgroundImage = new konva.Image();
     gm.layer.add(gm.backgroundImage);
-    gm.currentPhase = GamePhase.ORDER;
+    gm.phases.reset(GamePhase.ORDER);
     gm.renderCurrentPhase();
 
     // cover remaining phase switch cases
@@ -383,20 +504,25 @@ describe("GameManager coverage", () => {
       GamePhase.GAME_OVER,
     ];
     phases.forEach((phase) => {
-      gm.currentPhase = phase;
+      gm.phases.reset(phase);
       gm.renderCurrentPhase();
     });
 
-    // shopping path where cookies cannot be made -> cleaning alert path
-    vi.stubGlobal("alert", vi.fn());
+    // shopping path where cookies cannot be made -> straight to cleaning;
+    // the shopping screen has already listed what fell short
+    const alertSpy = vi.fn();
+    vi.stubGlobal("alert", alertSpy);
     gm.player.ingredients.clear();
     gm.player.funds = 0;
-    gm.renderShoppingPhase();
+    gm.phases.reset(GamePhase.SHOPPING);
+    gm.createShoppingScreen();
     lastShopping.onPurchaseComplete?.(new Map(), 0);
+    expect(alertSpy).not.toHaveBeenCalled();
+    expect(gm.currentPhase).toBe(GamePhase.CLEANING);
 
     // baking when no ingredients results in zero dishes
     gm.player.currentDayDemand = 1;
-    gm.renderBakingPhase();
+    gm.createBakingScreen();
     expect(gm.player.dishesToClean).toBe(0);
 
     // cleanup resize with background present
@@ -408,4 +534,422 @@ describe("GameManager coverage", () => {
     gm.handleResize(container);
     expect(gm.layer.batchDraw).toHaveBeenCalled();
   });
+
+  it("bakes each ordered flavor with its own recipe and sale price", async () => {
+    setupMocks();
+    const { GameManager } = await import("./GameManager");
+    const gm: any = new GameManager(makeContainer());
+
+    gm.customerOrders = [
+      { customerNum: 1, cookieCount: 2, recipeId: "sugar" },
+      { customerNum: 2, cookieCount: 1, recipeId: "chocolate-chip" },
+      { customerNum: 3, cookieCount: 1, recipeId: "sugar" },
+    ];
+    gm.player.currentDayDemand = 4;
+    // Enough for 3 sugar cookies (2 flour, 4 butter, 2 sugar, 1 soda each),
+    // but no chocolate for the chocolate chip order
+    gm.player.ingredients = new Map([
+      ["Flour", 6],
+      ["Butter", 12],
+      ["Sugar", 6],
+      ["Chocolate", 0],
+      ["Baking Soda", 3],
+    ]);
+    gm.player.funds = 0;
+
+    expect(gm.canMakeCookies()).toBe(true);
+    const baking = gm.createBakingScreen();
+    expect(gm.player.dishesToClean).toBe(3);
+    // nothing is sold until the batch has been graded
+    expect(gm.daySales).toBe(0);
+
+    // skipping the minigame gives a 70% batch
+    baking.cb({ correctAnswers: 0, totalProblems: 0, timeRemaining: 0 }, true);
+    expect(gm.daySales).toBeCloseTo(3 * 8 * 0.7);
+    expect(gm.dayProduction.quality).toBe(70);
+    expect(gm.player.ingredients.get("Flour")).toBe(0);
+    expect(gm.player.ingredients.get("Butter")).toBe(0);
+    expect(gm.dayFulfillment.map((c: any) => c.status)).toEqual(["served", "turned_away", "served"]);
+    // -0.05 for the customer turned away, -0.01 for a below-average batch
+    expect(gm.player.reputation).toBeCloseTo(0.94);
+  });
+
+  it("offers the word-problem quiz once a day and applies its discount", async () => {
+    setupMocks();
+    const { GameManager } = await import("./GameManager");
+    const { GamePhase } = await import("./types");
+    const gm: any = new GameManager(makeContainer());
+
+    gm.customerOrders = [
+      { customerNum: 1, cookieCount: 2, recipeId: "sugar" },
+      { customerNum: 2, cookieCount: 3, recipeId: "sugar" },
+    ];
+    gm.player.currentDay = 1;
+    gm.market.rollDay(1, () => 0);
+    expect(gm.wordProblemDiscount).toBeNull();
+
+    gm.phases.reset(GamePhase.WORD_PROBLEMS);
+    gm.renderCurrentPhase();
+    expect(lastWordProblems.problems).toHaveLength(3);
+
+    lastWordProblems.onComplete?.({ correctAnswers: 2, totalProblems: 3, timeRemaining: 0 }, false);
+    expect(gm.wordProblemDiscount).toBe(0.1);
+    expect(gm.currentPhase).toBe(GamePhase.SHOPPING);
+    expect(lastShopping.discount).toBe(0.1);
+
+    // A shopping hint is paid from the day's funds
+    const funds = gm.player.funds;
+    expect(lastShopping.hint?.cost).toBe(0.5);
+    lastShopping.hint?.onHint("Flour");
+    expect(gm.player.funds).toBeCloseTo(funds - 0.5);
+    expect(gm.dayExpenses).toBeCloseTo(0.5);
+
+    // and stays paid for when the shop is rebuilt after the recipe book
+    gm.goTo(GamePhase.RECIPE_BOOK);
+    gm.goTo(GamePhase.SHOPPING);
+    expect(lastShopping.hint?.paid.has("Flour")).toBe(true);
+    expect(gm.dayExpenses).toBeCloseTo(0.5);
+
+    // Bought batches are valued at the discounted price
+    lastShopping.onPurchaseComplete?.(new Map([["Flour", 2]]), 0.72);
+    const flour = gm.player.ingredientBatches.find((b: any) => b.name === "Flour");
+    expect(flour.unitCost).toBeCloseTo(gm.market.getPrice("Flour") * 0.9);
+  });
+
+  it("keeps minigame misses on the profile and reviews them from the day summary", async () => {
+    setupMocks();
+    const { GameManager } = await import("./GameManager");
+    const { GamePhase } = await import("./types");
+    const gm: any = new GameManager(makeContainer());
+    gm.selectProfile("Practice Tester");
+
+    gm.customerOrders = [{ customerNum: 1, cookieCount: 1, recipeId: "sugar" }];
+    const measuring = gm.createMeasuringScreen();
+    measuring.mistakeLog.record({
+      operands: [6, 1.5], operator: "×", answer: 9, display: "1½ batches: 6 tbsp Butter → ? tbsp", skill: "measuring",
+    });
+    measuring.cb({ correctAnswers: 4, totalProblems: 5, timeRemaining: 0 }, false);
+    expect(gm.profileStore.getMistakeLog("Practice Tester").map((m: any) => m.question)).toEqual([
+      "1½ batches: 6 tbsp Butter → ? tbsp",
+    ]);
+
+    gm.phases.reset(GamePhase.DAY_SUMMARY);
+    gm.renderCurrentPhase();
+    lastScreens.DaySummaryScreen.args[9](); // PRACTICE
+    expect(gm.currentPhase).toBe(GamePhase.PRACTICE);
+    expect(lastPractice.mistakeLog.due()).toHaveLength(1);
+
+    // answers given in practice are saved when the player goes back
+    lastPractice.mistakeLog.review("1½ batches: 6 tbsp Butter → ? tbsp", true);
+    lastPractice.onDone?.();
+    expect(gm.currentPhase).toBe(GamePhase.DAY_SUMMARY);
+    expect(gm.profileStore.getMistakeLog("Practice Tester")[0].box).toBe(1);
+  });
+
+  it("plays phase music and end-of-game sounds through the AudioManager", async () => {
+    setupMocks();
+    const { AudioManager, SilentAudioManager } = await import("./AudioManager");
+    const audio = new SilentAudioManager();
+    AudioManager.setInstance(audio);
+    const { GameManager } = await import("./GameManager");
+    const { GamePhase } = await import("./types");
+    const gm: any = new GameManager(makeContainer());
+
+    // nothing sounds until the first key press, which starts the held track
+    gm.phases.reset(GamePhase.BAKING);
+    gm.updateBackgroundMusic();
+    expect(audio.getCurrentTrack()).toBe("baking");
+    expect(audio.played).toEqual([]);
+    window.dispatchEvent(new Event("keydown"));
+    expect(audio.played).toEqual(["baking_mus.mp3"]);
+
+    gm.createVictoryScreen();
+    gm.createVictoryScreen();
+    gm.createLoseScreen();
+    expect(audio.played.slice(1)).toEqual(["Win_sound.mp3", "Lose_sound.mp3"]);
+  });
+
+  it("announces phase changes and every change to the funds on the event bus", async () => {
+    setupMocks();
+    const { EventBus } = await import("./EventBus");
+    const { GameManager } = await import("./GameManager");
+    const { GamePhase } = await import("./types");
+    const { HINT_COST } = await import("./ShoppingList");
+    const gm: any = new GameManager(makeContainer());
+    const phases = vi.fn();
+    const funds = vi.fn();
+    EventBus.getInstance().on("phaseChanged", phases);
+    EventBus.getInstance().on("fundsChanged", funds);
+
+    gm.goTo(GamePhase.TEACHER_DASHBOARD);
+    expect(phases).toHaveBeenCalledWith({ from: GamePhase.LOGIN, to: GamePhase.TEACHER_DASHBOARD });
+
+    gm.player.funds = 100;
+    gm.payForHint("Flour");
+    gm.upgradeOven();
+    expect(funds.mock.calls.map(([event]) => event)).toEqual([
+      { funds: 100 - HINT_COST, change: -HINT_COST },
+      { funds: 100 - HINT_COST - gm.config.ovenUpgradeCost, change: -gm.config.ovenUpgradeCost },
+    ]);
+    expect(gm.player.funds).toBe(100 - HINT_COST - gm.config.ovenUpgradeCost);
+  });
+
+  it("opens the teacher dashboard from the login screen with every profile", async () => {
+    setupMocks();
+    const { GameManager } = await import("./GameManager");
+    const { GamePhase } = await import("./types");
+    const gm: any = new GameManager(makeContainer());
+    gm.profileStore.ensureProfile("Ann");
+    gm.profileStore.ensureProfile("Ben");
+
+    gm.phases.reset(GamePhase.LOGIN);
+    gm.renderCurrentPhase();
+    lastScreens.LoginScreen.args[3].onTeacher();
+    expect(gm.currentPhase).toBe(GamePhase.TEACHER_DASHBOARD);
+    const [, , profiles, password, onBack] = lastScreens.TeacherDashboardScreen.args;
+    expect(profiles.map((p: any) => p.username)).toEqual(expect.arrayContaining(["Ann", "Ben"]));
+    expect(profiles).toHaveLength(gm.profileStore.listProfiles().length);
+    expect(password).toBe(gm.config.teacherPassword);
+
+    onBack();
+    expect(gm.currentPhase).toBe(GamePhase.LOGIN);
+  });
+
+  it("builds the teacher's report from the day and downloads it as CSV and JSON", async () => {
+    setupMocks();
+    const { GameManager } = await import("./GameManager");
+    const { GamePhase } = await import("./types");
+    const gm: any = new GameManager(makeContainer());
+    gm.selectProfile("Report Tester");
+    gm.player.currentDay = 2;
+    gm.customerOrders = [{ customerNum: 1, cookieCount: 2, recipeId: "sugar" }];
+    gm.player.ingredients = new Map();
+
+    gm.phases.reset(GamePhase.SHOPPING);
+    gm.createShoppingScreen();
+    lastShopping.onPurchaseComplete?.(new Map([["Flour", 1], ["Chocolate", 2]]), 5);
+    const shopping = gm.report.getDays()[0].shopping;
+    expect(shopping.find((line: any) => line.ingredient === "Flour")).toEqual({ ingredient: "Flour", needed: 4, bought: 1 });
+    expect(shopping.find((line: any) => line.ingredient === "Chocolate")).toEqual({ ingredient: "Chocolate", needed: 0, bought: 2 });
+
+    gm.phases.reset(GamePhase.MEASURING);
+    const measuring = gm.createMeasuringScreen();
+    const problem: Problem = { operands: [2, 2], operator: "×", answer: 4, display: "2 batches: 2 tbsp Butter → ? tbsp", skill: "measuring" };
+    const events = (await import("./EventBus")).EventBus.getInstance();
+    events.emit("problemShown", { minigame: "measuring", problem });
+    events.emit("answerSubmitted", { minigame: "measuring", problem, correct: false });
+    measuring.cb({ correctAnswers: 0, totalProblems: 1, timeRemaining: 0 }, false);
+    expect(gm.report.getDays()[0].minigames[0]).toMatchObject({
+      minigame: "measuring",
+      correctAnswers: 0,
+      totalProblems: 1,
+      problems: [{ question: "2 batches: 2 tbsp Butter → ? tbsp", skill: "measuring", correct: false }],
+    });
+
+    gm.player.currentDay = 3;
+    gm.daySales = 20;
+    gm.dayTips = 5;
+    gm.phases.reset(GamePhase.DAY_SUMMARY);
+    gm.renderCurrentPhase();
+    expect(gm.report.getDays()[0]).toMatchObject({ day: 2, sales: 20, tips: 5, endingFunds: gm.player.funds });
+    // and the report is kept with the saved run
+    expect(gm.getSnapshot().report).toEqual(gm.report.getDays());
+
+    const createObjectURL = vi.fn(() => "blob:report");
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+    vi.useFakeTimers();
+    lastScreens.DaySummaryScreen.args[10]("csv"); // DOWNLOAD CSV
+    lastScreens.DaySummaryScreen.args[10]("json"); // DOWNLOAD JSON
+    expect(click).toHaveBeenCalledTimes(2);
+    const files = (createObjectURL.mock.calls as any[]).map(([blob]) => blob.type);
+    expect(files).toEqual(["text/csv", "application/json"]);
+    // each link outlives its click, so the download can still read it
+    expect(revokeObjectURL).not.toHaveBeenCalled();
+    vi.runAllTimers();
+    expect(revokeObjectURL).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+
+    gm.phases.reset(GamePhase.VICTORY);
+    gm.renderCurrentPhase();
+    expect(typeof lastScreens.VictoryScreen.args[2].onDownloadReport).toBe("function");
+  });
+
+  it("measures the most-ordered flavor and takes mistakes off the batch", async () => {
+    setupMocks();
+    const { GameManager } = await import("./GameManager");
+    const { GamePhase } = await import("./types");
+    const gm: any = new GameManager(makeContainer());
+
+    gm.customerOrders = [
+      { customerNum: 1, cookieCount: 1, recipeId: "chocolate-chip" },
+      { customerNum: 2, cookieCount: 2, recipeId: "sugar" },
+    ];
+    gm.player.ingredients = new Map([
+      ["Flour", 6],
+      ["Butter", 12],
+      ["Sugar", 6],
+      ["Baking Soda", 3],
+    ]);
+
+    gm.createShoppingScreen();
+    lastShopping.onPurchaseComplete?.(new Map(), 0);
+    expect(gm.currentPhase).toBe(GamePhase.MEASURING);
+    const measuring = gm.screens.getCurrent();
+    expect(measuring.mount).toHaveBeenCalled();
+
+    // 3 of 5 right costs 6 quality points
+    measuring.cb({ correctAnswers: 3, totalProblems: 5, timeRemaining: 0 }, false);
+    expect(gm.measuringPenalty).toBe(6);
+    expect(gm.currentPhase).toBe(GamePhase.BAKING);
+
+    gm.screens.getCurrent().cb({ correctAnswers: 0, totalProblems: 0, timeRemaining: 0 }, true);
+    expect(gm.dayProduction.quality).toBe(64);
+  });
+
+  it("throws out spoiled batches when the day changes", async () => {
+    setupMocks();
+    const { GameManager } = await import("./GameManager");
+    const gm: any = new GameManager(makeContainer());
+
+    // Butter keeps for 2 days, flour for 10. Two tbsp of butter were used on day 1.
+    gm.player.currentDay = 1;
+    gm.player.ingredients = new Map([
+      ["Flour", 4],
+      ["Butter", 6],
+    ]);
+    gm.player.ingredientBatches = [
+      { name: "Butter", quantity: 8, purchasedDay: 1, unitCost: 0.25 },
+      { name: "Flour", quantity: 4, purchasedDay: 1, unitCost: 0.5 },
+    ];
+
+    gm.player.currentDay = 2;
+    gm.spoilIngredients();
+    expect(gm.daySpoilage).toEqual([]);
+    expect(gm.getPantryFreshness().get("Butter")).toEqual({ quantity: 6, daysLeft: 0, expiringQuantity: 6 });
+
+    gm.player.currentDay = 3;
+    gm.spoilIngredients();
+    expect(gm.daySpoilage).toEqual([{ name: "Butter", quantity: 6, value: 1.5 }]);
+    expect(gm.player.ingredients.get("Butter")).toBe(0);
+    expect(gm.player.ingredients.get("Flour")).toBe(4);
+    expect(gm.player.ingredientBatches).toEqual([{ name: "Flour", quantity: 4, purchasedDay: 1, unitCost: 0.5 }]);
+  });
+
+  it("caps baking at the oven capacity and bakes no more than was ordered", async () => {
+    setupMocks();
+    const { GameManager } = await import("./GameManager");
+    const gm: any = new GameManager(makeContainer());
+
+    gm.player.currentDay = 1;
+    gm.player.maxBreadCapacity = 4;
+    gm.customerOrders = [
+      { customerNum: 1, cookieCount: 2, recipeId: "sugar" },
+      { customerNum: 2, cookieCount: 3, recipeId: "sugar" },
+    ];
+    // Enough for 5 sugar cookies, but the oven only fits 4
+    gm.player.ingredients = new Map([
+      ["Flour", 10],
+      ["Butter", 20],
+      ["Sugar", 10],
+      ["Baking Soda", 5],
+    ]);
+
+    expect(gm.serveCustomers()).toBe(4);
+    expect(gm.dayFulfillment.map((c: any) => c.status)).toEqual(["served", "partial"]);
+    expect(gm.player.dishesToClean).toBe(4);
+    expect(gm.player.ingredients.get("Baking Soda")).toBe(1);
+
+    // A bigger oven still bakes just the one cookie ordered next day
+    gm.player.funds = 100;
+    gm.upgradeOven();
+    expect(gm.player.maxBreadCapacity).toBe(9);
+    expect(gm.player.funds).toBe(100 - gm.config.ovenUpgradeCost);
+
+    gm.player.currentDay = 2;
+    gm.player.ingredients = new Map([
+      ["Flour", 4],
+      ["Butter", 8],
+      ["Sugar", 4],
+      ["Baking Soda", 2],
+    ]);
+    gm.customerOrders = [{ customerNum: 1, cookieCount: 1, recipeId: "sugar" }];
+    gm.serveCustomers();
+    expect(gm.player.breadInventory).toEqual([]);
+    expect(gm.player.ingredients.get("Baking Soda")).toBe(1);
+
+    // Cookies left on the shelf lose quality overnight
+    gm.player.breadInventory = [{ recipeId: "sugar", quantity: 1, quality: 100, bakedDay: 2 }];
+
+    gm.player.currentDay = 3;
+    gm.ageCookies();
+    expect(gm.player.breadInventory[0].quality).toBe(75);
+    expect(gm.checkBankruptcy()).toBe(false);
+  });
+
+  it("saves progress on phase transitions and restores a snapshot", async () => {
+    setupMocks();
+    localStorage.clear();
+    const { EventBus } = await import("./EventBus");
+    const { GameManager } = await import("./GameManager");
+    const { GamePhase } = await import("./types");
+    const gm: any = new GameManager(makeContainer());
+    gm.selectProfile("Tester");
+
+    gm.player.funds = 42;
+    gm.player.ingredients.set("Flour", 7);
+    gm.phases.reset(GamePhase.SHOPPING);
+    gm.goTo(GamePhase.RECIPE_BOOK);
+
+    const saved = gm.saveManager.load();
+    expect(saved.phase).toBe(GamePhase.RECIPE_BOOK);
+    expect(saved.player.ingredients.get("Flour")).toBe(7);
+
+    // a second game on its own bus, so the first one's autosave stays out
+    EventBus.setInstance(new EventBus());
+    const fresh: any = new GameManager(makeContainer());
+    fresh.selectProfile("Tester");
+    fresh.restoreSnapshot(saved);
+    expect(fresh.currentPhase).toBe(GamePhase.RECIPE_BOOK);
+    expect(fresh.player.funds).toBe(42);
+
+    // finishing the run discards the save
+    fresh.player.funds = 0;
+    fresh.player.currentDay = 4;
+    fresh.player.ingredients = new Map();
+    fresh.player.breadInventory = [];
+    fresh.phases.reset(GamePhase.DAY_SUMMARY);
+    fresh.goTo(GamePhase.DEFEAT);
+    expect(fresh.saveManager.load()).toBeNull();
+    expect(fresh.profileStore.getProfile("Tester").runHistory).toMatchObject([{ won: false, finalFunds: 0, daysPlayed: 3 }]);
+    expect(lastScreens.LoseScreen.args[2].totalDaysPlayed).toBe(3); // the end screen agrees with the history
+  });
+
+  it("resumes into the shop with the day's totals so far", async () => {
+    setupMocks();
+    localStorage.clear();
+    const { GameManager } = await import("./GameManager");
+    const { GamePhase } = await import("./types");
+    const gm: any = new GameManager(makeContainer());
+    gm.selectProfile("Tester");
+
+    gm.phases.reset(GamePhase.RECIPE_BOOK);
+    gm.wordProblemDiscount = 0;
+    gm.dayExpenses = 12;
+    gm.goTo(GamePhase.SHOPPING);
+    expect(gm.dayExpenses).toBe(12);
+    const saved = gm.saveManager.load();
+
+    gm.dayExpenses = 0;
+    gm.phases.reset(GamePhase.LOGIN);
+    gm.restoreSnapshot(saved);
+    expect(gm.currentPhase).toBe(GamePhase.SHOPPING);
+    expect(gm.dayExpenses).toBe(12);
+
+    // the day's first trip in, after the quiz, starts the totals over
+    gm.phases.reset(GamePhase.WORD_PROBLEMS);
+    gm.goTo(GamePhase.SHOPPING);
+    expect(gm.dayExpenses).toBe(0);
+  });
 });
@@ -1,19 +1,43 @@
 import Konva from 'konva';
-import { GamePhase, PlayerState, MinigameResult } from './types';
+import { GamePhase, PlayerState, MinigameResult, CustomerOrder, Recipe, DifficultyId } from './types';
 import { ConfigManager } from './config';
+import { CatalogManager } from './catalog';
 import { BakingMinigame } from './BakingMinigame';
 import { CleaningMinigame } from './CleaningMinigame';
+import { MeasuringMinigame } from './MeasuringMinigame';
+import { WordProblemScreen } from './WordProblemScreen';
+import { discountFor, wordProblemsForOrders } from './WordProblems';
+import { HINT_COST, needsForOrders } from './ShoppingList';
 import { HowToPlayScreen } from './HowToPlayScreen';
 import { OrderScreen } from './OrderScreen';
 import { ShoppingScreen } from './ShoppingScreen';
 import { DaySummaryScreen } from './DaySummaryScreen';
 import { LoginScreen } from './LoginScreen';
 import { RecipeBookScreen } from './RecipeBookScreen';
-import { AnimationPlayer } from './AnimationPlayer';
+import { AnimationScreen } from './AnimationScreen';
 import { StoryScreen } from './StoryScreen';
 import { VictoryScreen } from './VictoryScreen';
 import { LoseScreen } from './LoseScreen';
-import { VolumeSlider } from './ui/VolumeSlider';
+import { PracticeScreen } from './PracticeScreen';
+import { TeacherDashboardScreen } from './TeacherDashboardScreen';
+import { MistakeLog } from './MistakeLog';
+import { AnswerRecorder, downloadReport, MinigameName, ReportFormat, RunReport, shoppingLines } from './ProgressReport';
+import { AudioManager, MusicTrack } from './AudioManager';
+import { EventBus } from './EventBus';
+import { SaveManager, GameSnapshot, isResumablePhase } from './SaveManager';
+import { PhaseMachine } from './PhaseMachine';
+import { Screen } from './Screen';
+import { ScreenRegistry } from './ScreenRegistry';
+import { ProfileStore } from './ProfileStore';
+import { IngredientMarket } from './Market';
+import { CustomerFulfillment, fulfillOrders } from './Fulfillment';
+import { ageStock, bakeForOrders, countStock, DayProduction, FRESH_QUALITY, gradeBatch, maxCookiesFor, OVEN_UPGRADE_STEP } from './Oven';
+import { measuringPenalty, reputationChangeFor, scoreBatch } from './Quality';
+import { PricingScreen } from './PricingScreen';
+import { getDifficulty, timeLimitFor } from './Difficulty';
+import { AdaptiveEngine } from './AdaptiveEngine';
+import { randomSeed, SeededRandom } from './Random';
+import { addBatch, getFreshness, reconcileBatches, removeSpoiled, SpoiledStock, totalsFromBatches } from './Inventory';
 import { getAssetPath } from './utils';
 
 
@@ -22,84 +46,59 @@ export class GameManager {
 
   private stage: Konva.Stage;
   private layer: Konva.Layer;
-  private currentPhase: GamePhase;
-  private previousPhase: GamePhase;
   private player: PlayerState;
   private config = ConfigManager.getInstance().getConfig();
-
-  // Minigame & Animation Instances
-  private currentBakingMinigameInstance: BakingMinigame | null = null;
-  private currentCleaningMinigame: CleaningMinigame | null = null;
-  private postBakingAnimation: AnimationPlayer | null = null;
-  private newDayAnimation: AnimationPlayer | null = null;
+  private phases = new PhaseMachine({
+    canMakeCookies: () => this.canMakeCookies(),
+    quizOffered: () => this.wordProblemDiscount !== null,
+    hasWon: () => this.player.funds >= this.config.winThreshold,
+    isBankrupt: () => this.checkBankruptcy(),
+  });
+
+  private screens = new ScreenRegistry(); // the screen each phase shows, and the one up now
   private savedShoppingInputs: Map<string, string> | undefined; 
   
   private backgroundImage: Konva.Image | null = null;
   private daySales: number = 0;
   private dayExpenses: number = 0;
   private dayTips: number = 0;
-  private customerOrders: Array<{customerNum: number, cookieCount: number}> = [];
-
-  // Audio - Wrapped in try/catch or checked for existence for test safety
-  private winSound = new Audio(getAssetPath('Win_sound.mp3'));
-  private loseSound = new Audio(getAssetPath('Lose_sound.mp3'));
-  private bgmIntro = new Audio(getAssetPath('login_page_mus.mp3'));   
-  private bgmStory = new Audio(getAssetPath('sad_mus.mp3'));         
-  private bgmMain  = new Audio(getAssetPath('in_game_mus.mp3')); 
-  private bgmAnim  = new Audio(getAssetPath('morning_mus.mp3'));
-  private bgmEndDay  = new Audio(getAssetPath('day_sum_mus.mp3'));  
-  private bgmbaking  = new Audio(getAssetPath('baking_mus.mp3'));
-
-  private audioUnlocked = false;
+  private dayHints = new Set<string>(); // ingredients whose shopping hint is paid for today
+  private customerOrders: CustomerOrder[] = [];
+  private dayFulfillment: CustomerFulfillment[] = []; // how each of today's customers was served
+  private daySpoilage: SpoiledStock[] = []; // ingredients thrown out overnight
+  private dayProduction: DayProduction = { baked: 0, stale: 0, quality: null };
+  private priceRatio: number = 1; // today's price compared with the list price
+  private measuringPenalty: number = 0; // quality points today's batch lost while measuring
+  private wordProblemDiscount: number | null = null; // quiz discount on today's ingredients; null until the quiz is offered
+  private difficulty: DifficultyId = this.config.difficulty; // minigame tier for this run
+  private random = new SeededRandom(this.config.seed ?? randomSeed()); // orders, prices and problems for this run
+  private report = new RunReport(); // what the student did each day, for the teacher
+  private roundAnswers = new AnswerRecorder(); // every answer in the minigame being played
+  private profileStore = new ProfileStore();
+  private saveManager: SaveManager | null = null; // set once a profile is chosen
+
+  private audio = AudioManager.getInstance();
+  private events = EventBus.getInstance();
   private winPlayedOnce = false;
-  
-  private volumeSlider?: VolumeSlider;
-  private bgmVolume: number = 0.5;
-
-
-  // Game Logic Constants
-  private cookieRecipe: Map<string, number> = new Map([
-    ['Flour', 3],
-    ['Sugar', 1],
-    ['Butter', 8],
-    ['Chocolate', 1],
-    ['Baking Soda', 2],
-  ]);
-
-  private ingredientPrices: Map<string, number> = new Map([
-    ['Flour', 0.5],
-    ['Sugar', 0.75],
-    ['Butter', 0.25],
-    ['Chocolate', 3],
-    ['Baking Soda', 0.5],
-  ]);
 
-  constructor(container: HTMLDivElement) {
-    // Configure Audio loops
-    [this.bgmIntro, this.bgmStory, this.bgmMain, this.bgmAnim, this.bgmEndDay, this.bgmbaking].forEach(a => {
-        if(a) { a.loop = true; a.volume = 0.4; }
-    });
-    (window as any).getGlobalBgmVolume = () => this.bgmVolume;
-    (window as any).setGlobalBgmVolume = (v: number) => this.setBgmVolume(v);
 
+  // Game Logic Constants (defined in public/catalog.json)
+  private catalog = CatalogManager.getInstance();
+  private ingredientPrices: Map<string, number> = this.catalog.getBasePrices();
+
+  // Today's prices, generated from config ranges around ingredientPrices
+  private market: IngredientMarket;
+
+  constructor(container: HTMLDivElement) {
+    // Browsers only allow sound after the player's first click or key press
     const unlockAudio = () => {
-      if (this.audioUnlocked) return;
-      this.audioUnlocked = true;
-      this.updateBackgroundMusic();
+      this.audio.unlock();
       window.removeEventListener('pointerdown', unlockAudio);
       window.removeEventListener('keydown', unlockAudio);
     };
     window.addEventListener('pointerdown', unlockAudio);
     window.addEventListener('keydown', unlockAudio);
 
-    window.addEventListener('bgm-volume-change', (e: Event) => {
-    const v = (e as CustomEvent<number>).detail;
-    this.setBgmVolume(v);
-    });
-    
-  // Optional: make sure audio starts with current bgmVolume
-  this.setBgmVolume(this.bgmVolume);
-
     this.stage = new Konva.Stage({
       container,
       width: container.offsetWidth,
@@ -108,13 +107,11 @@ export class GameManager {
     this.layer = new Konva.Layer();
     this.stage.add(this.layer);
     
-    this.currentPhase = GamePhase.LOGIN;
-    this.previousPhase = GamePhase.LOGIN;
-
     this.player = {
       username: '',
       funds: this.config.startingFunds,
       ingredients: new Map(),
+      ingredientBatches: [],
       breadInventory: [],
       maxBreadCapacity: this.config.maxBreadCapacity,
       currentDay: 1,
@@ -123,23 +120,67 @@ export class GameManager {
       currentDayDemand: 0,
     };
 
+    this.market = this.createMarket();
+
+    // Reset day tracking vars on the day's first way into the shop, which is
+    // always through the quiz. Back from the recipe book (an oven upgrade may
+    // already have been paid for today) or resumed from a save, they stay.
+    this.phases.onEnter(GamePhase.SHOPPING, ({ from }) => {
+      if (from === GamePhase.WORD_PROBLEMS) this.resetDayTotals();
+    });
+
+    // The minigames announce each problem and answer; they go in the report
+    // with the round they belong to
+    this.events.on('problemShown', () => this.roundAnswers.start());
+    this.events.on('answerSubmitted', ({ problem, correct }) => this.roundAnswers.record(problem, correct));
+
+    // Each move to a new phase is saved for the profile to resume from
+    this.events.on('phaseChanged', () => this.persistProgress());
+
+    this.registerScreens();
+
     window.addEventListener('resize', () => this.handleResize(container));
+    document.addEventListener('visibilitychange', () => this.handleVisibilityChange());
     this.loadBackground();
   }
   
+  private get currentPhase(): GamePhase {
+    return this.phases.getPhase();
+  }
+
+  // Moves along the phase table, announces the move and shows the new phase
+  private goTo(phase: GamePhase): void {
+    const from = this.currentPhase;
+    this.phases.transition(phase);
+    this.events.emit('phaseChanged', { from, to: phase });
+    this.renderCurrentPhase();
+  }
+
+  // Every change to the player's money goes through here and out on the bus
+  private changeFunds(change: number): void {
+    this.player.funds += change;
+    this.events.emit('fundsChanged', { funds: this.player.funds, change });
+  }
+
   // --- Exposed for Testing ---
   // The test "should correctly calculate the cost of one cookie" uses this.
-  private getCostOfOneCookie(): number {
+  private getCostOfOneCookie(recipe: Recipe = this.catalog.getDefaultRecipe()): number {
     let cost = 0;
-    this.cookieRecipe.forEach((needed, ingredient) => {
-      const price = this.ingredientPrices.get(ingredient) || 0;
+    Object.entries(recipe.ingredients).forEach(([ingredient, needed]) => {
+      const price = this.market.getPrice(ingredient);
       cost += needed * price;
     });
-    // Calculation: (3*0.5) + (1*0.75) + (8*0.25) + (1*3) + (2*0.5)
+    // At default catalog prices: (3*0.5) + (1*0.75) + (8*0.25) + (1*3) + (2*0.5)
     // = 1.5 + 0.75 + 2.0 + 3.0 + 1.0 = 8.25
     return cost;
   }
 
+  private createMarket(): IngredientMarket {
+    const market = new IngredientMarket(this.ingredientPrices, this.config.ingredientPriceRanges);
+    market.rollDay(this.player.currentDay, this.random.stream(this.player.currentDay, 'prices'));
+    return market;
+  }
+
   private handleResize(container: HTMLDivElement): void {
     this.stage.width(container.offsetWidth);
     this.stage.height(container.offsetHeight);
@@ -149,9 +190,16 @@ export class GameManager {
     }
     // FIXED: Do NOT call renderCurrentPhase() here. 
     // Calling it destroys the current screen state (resets forms, timers, etc.)
-    // Instead, just redraw the layer to update positions if needed.
+    // The screen lays itself out again instead.
+    this.screens.resize(this.stage.width(), this.stage.height());
     this.layer.batchDraw();
   }
+
+  // Timers and animations stand still while the tab is hidden
+  private handleVisibilityChange(): void {
+    if (document.hidden) this.screens.pause();
+    else this.screens.resume();
+  }
   
   private loadBackground(): void {
     const imageObj = new Image();
@@ -173,86 +221,40 @@ export class GameManager {
     imageObj.src = getAssetPath('background1.jpg');
   }
 
-  private playBGM(track: 'intro' | 'story' | 'main' | 'anim' | 'endday' | 'baking' | null): void {
-    [this.bgmIntro, this.bgmStory, this.bgmMain, this.bgmAnim, this.bgmEndDay, this.bgmbaking].forEach(a => {
-        if(a) { a.pause(); a.currentTime = 0; }
-    });
-
-    if (!this.audioUnlocked || track === null) return;
-
-    const tracks = {
-        intro: this.bgmIntro,
-        story: this.bgmStory,
-        main: this.bgmMain,
-        anim: this.bgmAnim,
-        endday: this.bgmEndDay,
-        baking: this.bgmbaking
-    };
-
-    tracks[track]?.play().catch(() => {});
-  }
-
-  private setBgmVolume(v: number): void {
-    this.bgmVolume = v;
-
-    const bgms = [
-      this.bgmIntro,
-      this.bgmStory,
-      this.bgmMain,
-      this.bgmAnim,
-      this.bgmEndDay,
-      this.bgmbaking,
-    ];
-
-    bgms.forEach(a => {
-      if (a) a.volume = v;
-    });
+  // Crossfades to the phase's track; the AudioManager holds it until the
+  // player unlocks audio
+  private updateBackgroundMusic(): void {
+    this.audio.playMusic(this.musicForPhase(this.currentPhase));
   }
 
-
-  private updateBackgroundMusic(): void {
-    if (!this.audioUnlocked) return;
-    switch (this.currentPhase) {
+  private musicForPhase(phase: GamePhase): MusicTrack | null {
+    switch (phase) {
         case GamePhase.LOGIN:
-        case GamePhase.HOW_TO_PLAY: this.playBGM('intro'); break;
-        case GamePhase.STORYLINE: this.playBGM('story'); break;
+        case GamePhase.TEACHER_DASHBOARD:
+        case GamePhase.HOW_TO_PLAY: return 'intro';
+        case GamePhase.STORYLINE: return 'story';
         case GamePhase.POST_BAKING_ANIMATION:
-        case GamePhase.NEW_DAY_ANIMATION: this.playBGM('anim'); break;
+        case GamePhase.NEW_DAY_ANIMATION: return 'anim';
+        case GamePhase.PRICING:
         case GamePhase.ORDER:
+        case GamePhase.WORD_PROBLEMS:
         case GamePhase.RECIPE_BOOK:
         case GamePhase.SHOPPING:
-        case GamePhase.CLEANING: this.playBGM('main'); break;
-        case GamePhase.DAY_SUMMARY: this.playBGM('endday'); break;
-        case GamePhase.BAKING: this.playBGM('baking'); break;
-        default: this.playBGM(null); break;
+        case GamePhase.MEASURING:
+        case GamePhase.CLEANING: return 'main';
+        case GamePhase.DAY_SUMMARY: return 'endday';
+        case GamePhase.PRACTICE: return 'main';
+        case GamePhase.BAKING: return 'baking';
+        default: return null;
     }
   }
 
   private cleanupCurrentPhase(): void {
-    // Cleanup minigames
-    if (this.currentBakingMinigameInstance) {
-        this.currentBakingMinigameInstance.cleanup();
-        this.currentBakingMinigameInstance = null;
-    }
-    if (this.currentCleaningMinigame) {
-      try {
-        this.currentCleaningMinigame.cleanup();
-      } catch (e) { console.warn('Error cleaning cleaning minigame:', e); }
-      this.currentCleaningMinigame = null;
-    }
-    // Cleanup animations
-    if (this.postBakingAnimation) {
-      try {
-        this.postBakingAnimation.destroy();
-      } catch (e) { console.warn('Error destroying postBakingAnimation:', e); }
-      this.postBakingAnimation = null;
-    }
-    if (this.newDayAnimation) {
-      try {
-        this.newDayAnimation.destroy();
-      } catch (e) { console.warn('Error destroying newDayAnimation:', e); }
-      this.newDayAnimation = null;
-    }
+    // The screen stops its own listeners and timers; whatever it drew that
+    // is still on the layer is swept up below
+    try {
+      this.screens.unmount();
+    } catch (e) { console.warn('Error unmounting screen:', e); }
 
     const children = this.layer.getChildren().slice(); 
     children.forEach(child => {
@@ -296,172 +298,249 @@ export class GameManager {
       }
     }
 
-    switch (this.currentPhase) {
-      case GamePhase.LOGIN:
-        new LoginScreen(this.stage, this.layer, (username) => {
-          this.player.username = username;
-          this.previousPhase = this.currentPhase;
-          this.currentPhase = GamePhase.STORYLINE;
-          this.renderCurrentPhase();
-        });
-        break;
-      case GamePhase.STORYLINE:
-        new StoryScreen(this.stage, this.layer, () => {
-            this.previousPhase = this.currentPhase;
-            this.currentPhase = GamePhase.HOW_TO_PLAY;
-            this.renderCurrentPhase();
-        });
-        break;
-      case GamePhase.HOW_TO_PLAY:
-        const screen = new HowToPlayScreen(
-          this.stage,
-          this.layer,
-          () => {
-            this.previousPhase = this.currentPhase;
-            this.currentPhase = GamePhase.ORDER;
-            this.renderCurrentPhase();
-          }
-        );
-
-        // set initial volume and callback, AFTER construction
-        screen.setVolume(this.bgmVolume);
-
-        screen.volumeChangeCallback = (v: number) => {
-        this.setBgmVolume(v);
-        };
-        break;
-      case GamePhase.ORDER:
-        new OrderScreen(
-          this.stage,
-          this.layer,
-          this.player.currentDay,
-          this.player.reputation,
-          (totalDemand, orders) => {
-            this.player.currentDayDemand = totalDemand;
-            // Store a shallow copy of orders for safety
-            this.customerOrders = orders.map((o) => ({ ...o }));
-
-            this.previousPhase = this.currentPhase;
-            this.currentPhase = GamePhase.RECIPE_BOOK;
-            this.renderCurrentPhase();
-          },
-        );
-        break;
-      case GamePhase.RECIPE_BOOK:
-        new RecipeBookScreen(this.stage, this.layer, this.player.ingredients, () => {
-          this.previousPhase = this.currentPhase;
-          this.currentPhase = GamePhase.SHOPPING;
-          this.renderCurrentPhase();
-        });
-        break;
-      case GamePhase.SHOPPING:
-        this.renderShoppingPhase();
-        break;
-      case GamePhase.BAKING:
-        this.renderBakingPhase();
-        break;
-      case GamePhase.POST_BAKING_ANIMATION:
-        this.renderPostBakingAnimation();
-        break;
-      case GamePhase.CLEANING:
-        this.renderCleaningPhase();
-        break;
-      case GamePhase.DAY_SUMMARY:
-        this.renderDaySummaryPhase();
-        break;
-      case GamePhase.NEW_DAY_ANIMATION:
-        this.renderNewDayAnimation();
-        break;
-      case GamePhase.VICTORY:
-        this.renderVictoryPhase();
-        break;
-      case GamePhase.DEFEAT:
-        this.renderLosePhase();
-        break;
-      case GamePhase.GAME_OVER:
-        this.renderGameOverPhase(); // Fallback
-        break;
+    this.screens.show(this.currentPhase);
+  }
+
+  // Which screen each phase shows; GAME_OVER has none
+  private registerScreens(): void {
+    this.screens.register(GamePhase.LOGIN, () => this.createLoginScreen());
+    this.screens.register(GamePhase.STORYLINE, () => new StoryScreen(this.stage, this.layer, () => this.goTo(GamePhase.HOW_TO_PLAY)));
+    this.screens.register(GamePhase.HOW_TO_PLAY, () => this.createHowToPlayScreen());
+    this.screens.register(GamePhase.PRICING, () => new PricingScreen(this.stage, this.layer, this.priceRatio, (priceRatio) => {
+      this.priceRatio = priceRatio;
+      this.goTo(GamePhase.ORDER);
+    }));
+    this.screens.register(GamePhase.ORDER, () => this.createOrderScreen());
+    this.screens.register(GamePhase.RECIPE_BOOK, () => new RecipeBookScreen(this.stage, this.layer, this.player.ingredients, () => {
+      this.goTo(this.phases.next([GamePhase.WORD_PROBLEMS, GamePhase.SHOPPING]));
+    }, this.customerOrders, this.getPantryFreshness()));
+    this.screens.register(GamePhase.WORD_PROBLEMS, () => this.createWordProblemScreen());
+    this.screens.register(GamePhase.SHOPPING, () => this.createShoppingScreen());
+    this.screens.register(GamePhase.MEASURING, () => this.createMeasuringScreen());
+    this.screens.register(GamePhase.BAKING, () => this.createBakingScreen());
+    this.screens.register(GamePhase.POST_BAKING_ANIMATION, () => this.createPostBakingAnimation());
+    this.screens.register(GamePhase.CLEANING, () => this.createCleaningScreen());
+    this.screens.register(GamePhase.DAY_SUMMARY, () => this.createDaySummaryScreen());
+    this.screens.register(GamePhase.NEW_DAY_ANIMATION, () => this.createNewDayAnimation());
+    this.screens.register(GamePhase.VICTORY, () => this.createVictoryScreen());
+    this.screens.register(GamePhase.DEFEAT, () => this.createLoseScreen());
+    this.screens.register(GamePhase.PRACTICE, () => this.createPracticeScreen());
+    this.screens.register(GamePhase.TEACHER_DASHBOARD, () => this.createTeacherDashboard());
+  }
+
+  private createLoginScreen(): Screen {
+    return new LoginScreen(this.stage, this.layer, (username) => {
+      this.selectProfile(username);
+      this.goTo(GamePhase.STORYLINE);
+    }, {
+      profiles: this.profileStore.listProfiles().map((profile) => ({
+        username: profile.username,
+        bestScore: profile.bestScore,
+        savedDay: this.profileStore.getSaveManager(profile.username).load()?.player.currentDay ?? null,
+      })),
+      onContinue: (username) => {
+        this.selectProfile(username);
+        const savedGame = this.saveManager?.load();
+        if (savedGame) this.restoreSnapshot(savedGame);
+      },
+      onDeleteProfile: (username) => this.profileStore.deleteProfile(username),
+      onPractice: (username) => {
+        this.selectProfile(username);
+        this.goTo(GamePhase.PRACTICE);
+      },
+      onTeacher: () => this.goTo(GamePhase.TEACHER_DASHBOARD),
+    });
+  }
+
+  private createHowToPlayScreen(): Screen {
+    return new HowToPlayScreen(
+      this.stage,
+      this.layer,
+      (difficulty) => {
+        this.difficulty = difficulty;
+        this.goTo(GamePhase.PRICING);
+      },
+      this.difficulty
+    );
+  }
+
+  private createOrderScreen(): Screen {
+    this.market.rollDay(this.player.currentDay, this.random.stream(this.player.currentDay, 'prices'));
+    return new OrderScreen(
+      this.stage,
+      this.layer,
+      this.player.currentDay,
+      this.player.reputation,
+      (totalDemand, orders) => {
+        this.player.currentDayDemand = totalDemand;
+        // Store a shallow copy of orders for safety
+        this.customerOrders = orders.map((o) => ({ ...o }));
+        this.wordProblemDiscount = null;
+
+        this.goTo(GamePhase.RECIPE_BOOK);
+      },
+      this.priceRatio,
+      this.random.stream(this.player.currentDay, 'orders')
+    );
+  }
+
+  private createWordProblemScreen(): Screen | null {
+    const problems = wordProblemsForOrders(
+      this.customerOrders, this.catalog.getRecipes(), this.catalog.getIngredients(),
+      undefined, this.random.stream(this.player.currentDay, 'wordProblems')
+    );
+    const goShopping = (discount: number) => {
+      this.wordProblemDiscount = discount;
+      this.goTo(GamePhase.SHOPPING);
+    };
+    if (problems.length === 0) {
+      goShopping(0);
+      return null;
     }
+
+    this.roundAnswers = new AnswerRecorder();
+    return new WordProblemScreen(this.stage, this.layer, problems, (result, skipped) => {
+      this.recordRound('wordProblems', result, skipped);
+      goShopping(discountFor(result, skipped));
+    });
   }
 
-  private renderShoppingPhase(): void {
-    // Reset day tracking vars
+  private resetDayTotals(): void {
     this.daySales = 0;
     this.dayExpenses = 0;
     this.dayTips = 0;
-    
+    this.dayFulfillment = [];
+    this.daySpoilage = [];
+    this.dayProduction = { baked: 0, stale: 0, quality: null };
+    this.measuringPenalty = 0;
+    this.dayHints = new Set();
+  }
+
+  private createShoppingScreen(): Screen {
+    const discount = this.wordProblemDiscount ?? 0;
     const shoppingScreen = new ShoppingScreen(
       this.stage, this.layer,
       this.player.funds, this.player.currentDay, this.player.currentDayDemand,
       this.customerOrders,
       (purchases, totalCost) => {
         this.savedShoppingInputs = undefined;
-        this.player.funds -= totalCost;
+        this.recordShopping(purchases);
+        this.changeFunds(-totalCost);
         this.dayExpenses += totalCost;
         purchases.forEach((qty, name) => {
           const current = this.player.ingredients.get(name) || 0;
           this.player.ingredients.set(name, current + qty);
+          addBatch(this.player.ingredientBatches, name, qty, this.player.currentDay, this.market.getPrice(name) * (1 - discount));
         });
-        this.previousPhase = this.currentPhase;
-        if (this.canMakeCookies()) this.currentPhase = GamePhase.BAKING;
-        else {
-            alert("You don't have enough ingredients! Go wash dishes.");
-            this.currentPhase = GamePhase.CLEANING;
-        }
-        this.renderCurrentPhase();
+        // The shopping screen already showed what fell short
+        const next = this.phases.next([GamePhase.MEASURING, GamePhase.CLEANING]);
+        if (next === GamePhase.CLEANING) this.serveCustomers(); // everyone is turned away
+        this.goTo(next);
       },
       () => {
         this.savedShoppingInputs = shoppingScreen.getIngredientValues();
-        this.previousPhase = this.currentPhase;
-        this.currentPhase = GamePhase.RECIPE_BOOK;
-        this.renderCurrentPhase();
+        this.goTo(GamePhase.RECIPE_BOOK);
       },
-      this.savedShoppingInputs
+      this.savedShoppingInputs,
+      { today: this.market.getPrices(), yesterday: this.market.getPreviousPrices() },
+      this.getPantryFreshness(),
+      {
+        capacity: this.player.maxBreadCapacity,
+        onShelf: countStock(this.player.breadInventory),
+        upgradeCost: this.config.ovenUpgradeCost,
+        onUpgrade: () => this.upgradeOven(),
+      },
+      discount,
+      { cost: HINT_COST, paid: this.dayHints, onHint: (ingredient) => this.payForHint(ingredient) }
     );
+    return shoppingScreen;
   }
 
-  private renderBakingPhase(): void {
-    const maxCookies = this.calculateMaxCookies();
-    const cookiesSold = Math.min(maxCookies, this.player.currentDayDemand);
+  private upgradeOven(): void {
+    this.changeFunds(-this.config.ovenUpgradeCost);
+    this.dayExpenses += this.config.ovenUpgradeCost;
+    this.player.maxBreadCapacity += OVEN_UPGRADE_STEP;
+  }
 
-    if (cookiesSold > 0) {
-      this.cookieRecipe.forEach((needed, ingredient) => {
-        const totalNeeded = needed * cookiesSold;
-        const current = this.player.ingredients.get(ingredient) || 0;
-        this.player.ingredients.set(ingredient, current - totalNeeded);
-      });
-      const revenue = cookiesSold * this.config.cookiePrice;
-      this.player.funds += revenue;
-      this.daySales = revenue;
-      this.player.dishesToClean = cookiesSold;
-    } else {
-        this.player.dishesToClean = 0;
-    }
+  private payForHint(ingredient: string): void {
+    this.dayHints.add(ingredient);
+    this.changeFunds(-HINT_COST);
+    this.dayExpenses += HINT_COST;
+  }
 
-    this.currentBakingMinigameInstance = new BakingMinigame(
-      this.stage, this.layer, cookiesSold,
+  // Measuring out the most-ordered flavor before it goes in the oven
+  private createMeasuringScreen(): Screen {
+    const ordered = this.getOrderedCounts();
+    const recipe = Array.from(ordered.keys())
+      .map((id) => this.catalog.getRecipe(id))
+      .filter((r): r is Recipe => r !== null)
+      .sort((a, b) => (ordered.get(b.id) ?? 0) - (ordered.get(a.id) ?? 0))[0] ?? this.catalog.getDefaultRecipe();
+
+    const mistakeLog = new MistakeLog(this.profileStore.getMistakeLog(this.player.username));
+    this.roundAnswers = new AnswerRecorder();
+    return new MeasuringMinigame(
+      this.stage, this.layer, recipe,
       (result, skipped) => {
-        this.currentBakingMinigameInstance = null;
+        this.profileStore.saveMistakeLog(this.player.username, mistakeLog.getMistakes());
+        this.recordRound('measuring', result, skipped);
+        this.measuringPenalty = measuringPenalty(result, skipped);
+
+        this.goTo(GamePhase.BAKING);
+      },
+      this.random.stream(this.player.currentDay, 'measuring'),
+      mistakeLog
+    );
+  }
+
+  private createBakingScreen(): Screen {
+    const baked = this.bakeCookies();
+    const difficulty = getDifficulty(this.difficulty);
+    const random = this.random.stream(this.player.currentDay, 'baking');
+    const adaptive = new AdaptiveEngine(this.profileStore.getAdaptiveState(this.player.username), random);
+    const mistakeLog = new MistakeLog(this.profileStore.getMistakeLog(this.player.username));
+    this.roundAnswers = new AnswerRecorder();
+
+    return new BakingMinigame(
+      this.stage, this.layer, baked,
+      (result, skipped) => {
+        this.profileStore.saveAdaptiveState(this.player.username, adaptive.getState());
+        this.profileStore.saveMistakeLog(this.player.username, mistakeLog.getMistakes());
+        this.recordRound('baking', result, skipped);
         // --- UPDATED: $5 per correct answer ---
         const tip = result.correctAnswers * 5; 
-        this.player.funds += tip;
+        this.changeFunds(tip);
         this.dayTips += tip;
-        this.previousPhase = GamePhase.BAKING;
-        this.currentPhase = GamePhase.POST_BAKING_ANIMATION;
-        this.renderCurrentPhase();
-      }
+
+        // How well the round went decides how good today's batch is
+        const quality = scoreBatch(result, skipped, timeLimitFor(difficulty, this.config.bakingTime), this.measuringPenalty);
+        this.sellCookies(quality);
+        if (baked > 0) this.player.reputation += reputationChangeFor(quality);
+
+        this.goTo(GamePhase.POST_BAKING_ANIMATION);
+      },
+      difficulty,
+      adaptive,
+      random,
+      this.measuringPenalty,
+      mistakeLog
     );
   }
 
-  private renderCleaningPhase(): void {
-    this.currentCleaningMinigame = new CleaningMinigame(
+  private createCleaningScreen(): Screen {
+    const random = this.random.stream(this.player.currentDay, 'cleaning');
+    const adaptive = new AdaptiveEngine(this.profileStore.getAdaptiveState(this.player.username), random);
+    const mistakeLog = new MistakeLog(this.profileStore.getMistakeLog(this.player.username));
+    this.roundAnswers = new AnswerRecorder();
+    return new CleaningMinigame(
       this.stage, this.layer, this.player.dishesToClean,
       (result, skipped) => {
-        this.currentCleaningMinigame = null;
+        this.profileStore.saveAdaptiveState(this.player.username, adaptive.getState());
+        this.profileStore.saveMistakeLog(this.player.username, mistakeLog.getMistakes());
+        this.recordRound('cleaning', result, skipped);
         if (skipped) {
             this.player.reputation -= 0.2;
             const fine = 50;
-            this.player.funds -= fine;
+            this.changeFunds(-fine);
             this.dayExpenses += fine;
         } else {
             this.player.reputation += 0.05;
@@ -469,58 +548,132 @@ export class GameManager {
             const leftover = this.player.dishesToClean - result.correctAnswers;
             if(leftover > 0) {
                 const fine = leftover * 10;
-                this.player.funds -= fine;
+                this.changeFunds(-fine);
                 this.dayExpenses += fine;
             }
         }
         this.player.reputation = Math.max(0.2, Math.min(this.player.reputation, 1.5));
         this.player.currentDay++;
-        this.previousPhase = GamePhase.CLEANING;
-        this.currentPhase = GamePhase.DAY_SUMMARY;
-        this.renderCurrentPhase();
-      }
+        this.spoilIngredients();
+        this.ageCookies();
+        this.goTo(GamePhase.DAY_SUMMARY);
+      },
+      getDifficulty(this.difficulty),
+      adaptive,
+      random,
+      mistakeLog
+    );
+  }
+
+  // A finished minigame round goes in the profile's history and the run's report
+  private recordRound(minigame: MinigameName, result: MinigameResult, skipped: boolean): void {
+    this.profileStore.recordMinigame(this.player.username, {
+      minigame,
+      day: this.player.currentDay,
+      correctAnswers: result.correctAnswers,
+      totalProblems: result.totalProblems,
+      skipped,
+    });
+    this.report.recordMinigame(this.player.currentDay, {
+      minigame,
+      correctAnswers: result.correctAnswers,
+      totalProblems: result.totalProblems,
+      skipped,
+      problems: this.roundAnswers.getAttempts(),
+    });
+  }
+
+  // What was bought against what today's orders still needed
+  private recordShopping(purchases: Map<string, number>): void {
+    const needs = needsForOrders(this.customerOrders, this.catalog.getRecipes(), this.catalog.getIngredients(), this.player.ingredients);
+    this.report.recordShopping(
+      this.player.currentDay,
+      shoppingLines(new Map(needs.map((need) => [need.name, need.toBuy])), purchases)
     );
   }
 
-  private renderDaySummaryPhase(): void {
-    new DaySummaryScreen(
+  private downloadReport(format: ReportFormat): void {
+    downloadReport(this.report.build(this.player.username, this.random.getSeed()), format);
+  }
+
+  private createDaySummaryScreen(): Screen {
+    this.report.recordTotals(this.player.currentDay - 1, this.daySales, this.dayExpenses, this.dayTips, this.player.funds);
+    return new DaySummaryScreen(
       this.stage, this.layer,
       this.player.currentDay - 1,
       this.daySales, this.dayExpenses, this.player.funds, this.dayTips,
-      () => {
-        this.previousPhase = this.currentPhase;
-        if (this.player.funds >= this.config.winThreshold) {
-            this.currentPhase = GamePhase.VICTORY;
-        } else if (this.checkBankruptcy()) {
-            this.currentPhase = GamePhase.DEFEAT;
-        } else {
-            this.currentPhase = GamePhase.NEW_DAY_ANIMATION;
-        }
-        this.renderCurrentPhase();
-      }
+      () => this.goTo(this.phases.next([GamePhase.VICTORY, GamePhase.DEFEAT, GamePhase.NEW_DAY_ANIMATION])),
+      {
+        fulfillment: this.dayFulfillment,
+        spoilage: this.daySpoilage,
+        production: {
+          ...this.dayProduction,
+          capacity: this.player.maxBreadCapacity,
+          leftover: countStock(this.player.breadInventory),
+        },
+        pricing: {
+          priceRatio: this.priceRatio,
+          ordered: this.customerOrders.reduce((sum, order) => sum + order.cookieCount, 0),
+        },
+        seed: this.random.getSeed(),
+      },
+      () => this.goTo(GamePhase.PRACTICE),
+      (format) => this.downloadReport(format)
     );
   }
 
-  private renderVictoryPhase(): void {
+  // Mistake review; goes back to whichever screen opened it
+  private createPracticeScreen(): Screen {
+    const returnTo = this.phases.getPreviousPhase();
+    const mistakeLog = new MistakeLog(this.profileStore.getMistakeLog(this.player.username));
+    return new PracticeScreen(this.stage, this.layer, mistakeLog, () => {
+      this.profileStore.saveMistakeLog(this.player.username, mistakeLog.getMistakes());
+      this.goTo(returnTo);
+    });
+  }
+
+  // Class overview for the teacher; always goes back to the login screen
+  private createTeacherDashboard(): Screen {
+    return new TeacherDashboardScreen(
+      this.stage, this.layer, this.profileStore.listProfiles(), this.config.teacherPassword,
+      () => this.goTo(GamePhase.LOGIN)
+    );
+  }
+
+  private createVictoryScreen(): Screen {
+    // The day counter already moved past the last day
+    const daysPlayed = this.player.currentDay - 1;
+    this.profileStore.recordRun(this.player.username, {
+      won: true,
+      finalFunds: this.player.funds,
+      daysPlayed,
+    });
     if (!this.winPlayedOnce) {
-        this.winSound.currentTime = 0;
-        this.winSound.play().catch(()=>{});
+        this.audio.playSfx('win');
         this.winPlayedOnce = true;
     }
-    new VictoryScreen(this.stage, this.layer, {
+    return new VictoryScreen(this.stage, this.layer, {
       cashBalance: this.player.funds,
-      totalDaysPlayed: this.player.currentDay,
+      totalDaysPlayed: daysPlayed,
       onReturnHome: () => this.resetGame(),
+      onDownloadReport: (format) => this.downloadReport(format),
     });
   }
 
-  private renderLosePhase(): void {
-    this.loseSound.currentTime = 0;
-    this.loseSound.play().catch(() => {});
-    new LoseScreen(this.stage, this.layer, {
+  private createLoseScreen(): Screen {
+    // The day counter already moved past the last day
+    const daysPlayed = this.player.currentDay - 1;
+    this.profileStore.recordRun(this.player.username, {
+      won: false,
+      finalFunds: this.player.funds,
+      daysPlayed,
+    });
+    this.audio.playSfx('lose');
+    return new LoseScreen(this.stage, this.layer, {
       cashBalance: this.player.funds,
-      totalDaysPlayed: this.player.currentDay,
+      totalDaysPlayed: daysPlayed,
       onReturnHome: () => this.resetGame(),
+      onDownloadReport: (format) => this.downloadReport(format),
     });
   }
 
@@ -529,6 +682,7 @@ export class GameManager {
       username: this.player.username,
       funds: this.config.startingFunds,
       ingredients: new Map(),
+      ingredientBatches: [],
       breadInventory: [],
       maxBreadCapacity: this.config.maxBreadCapacity,
       currentDay: 1,
@@ -540,66 +694,190 @@ export class GameManager {
     this.dayExpenses = 0;
     this.dayTips = 0;
     this.customerOrders = [];
-    this.currentPhase = GamePhase.LOGIN;
-    this.renderCurrentPhase();
+    this.dayFulfillment = [];
+    this.daySpoilage = [];
+    this.dayProduction = { baked: 0, stale: 0, quality: null };
+    this.priceRatio = 1;
+    this.measuringPenalty = 0;
+    this.wordProblemDiscount = null;
+    this.difficulty = this.config.difficulty;
+    this.random = new SeededRandom(this.config.seed ?? randomSeed());
+    this.report = new RunReport();
+    this.market = this.createMarket();
+    this.goTo(GamePhase.LOGIN);
+  }
+
+  // --- Profiles / Save / Resume ---
+  private selectProfile(username: string): void {
+    const profile = this.profileStore.ensureProfile(username);
+    this.player.username = profile.username;
+    this.saveManager = this.profileStore.getSaveManager(profile.username);
+  }
+
+  private getSnapshot(): GameSnapshot {
+    return {
+      phase: this.currentPhase,
+      player: this.player,
+      customerOrders: this.customerOrders,
+      daySales: this.daySales,
+      dayExpenses: this.dayExpenses,
+      dayTips: this.dayTips,
+      fulfillment: this.dayFulfillment,
+      spoilage: this.daySpoilage,
+      production: this.dayProduction,
+      priceRatio: this.priceRatio,
+      measuringPenalty: this.measuringPenalty,
+      wordProblemDiscount: this.wordProblemDiscount,
+      difficulty: this.difficulty,
+      seed: this.random.getSeed(),
+      market: this.market.serialize(),
+      report: this.report.getDays(),
+    };
+  }
+
+  // Runs on every phaseChanged. The snapshot is taken before the new
+  // phase renders, so resuming replays that phase's entry logic exactly once.
+  private persistProgress(): void {
+    if (!this.saveManager) return;
+    if (isResumablePhase(this.currentPhase)) {
+      this.saveManager.save(this.getSnapshot());
+    } else if (this.currentPhase === GamePhase.VICTORY || this.currentPhase === GamePhase.DEFEAT || this.currentPhase === GamePhase.GAME_OVER) {
+      this.saveManager.clear();
+    }
+  }
+
+  private restoreSnapshot(snapshot: GameSnapshot): void {
+    this.player = snapshot.player;
+    this.customerOrders = snapshot.customerOrders.map((o) => ({ ...o }));
+    this.daySales = snapshot.daySales;
+    this.dayExpenses = snapshot.dayExpenses;
+    this.dayTips = snapshot.dayTips;
+    this.dayFulfillment = snapshot.fulfillment.map((c) => ({ ...c }));
+    this.daySpoilage = snapshot.spoilage.map((s) => ({ ...s }));
+    this.dayProduction = { ...snapshot.production };
+    this.priceRatio = snapshot.priceRatio;
+    this.measuringPenalty = snapshot.measuringPenalty;
+    this.wordProblemDiscount = snapshot.wordProblemDiscount;
+    this.difficulty = snapshot.difficulty;
+    this.random = new SeededRandom(snapshot.seed);
+    this.report = new RunReport(snapshot.report);
+    this.market = this.createMarket();
+    if (snapshot.market) this.market.restore(snapshot.market);
+    this.savedShoppingInputs = undefined;
+    localStorage.setItem('username', this.player.username);
+    this.goTo(snapshot.phase);
   }
 
   // --- Animation Helpers ---
-  private renderPostBakingAnimation(): void {
+  private createPostBakingAnimation(): Screen {
     const PATHS = Array.from({length: 12}, (_, i) => getAssetPath(`${20 + i}.png`));
-    this.postBakingAnimation = new AnimationPlayer(
-        this.layer, PATHS, 4, 0, 0, this.stage.width(), this.stage.height(), false,
-        () => {
-            this.previousPhase = GamePhase.POST_BAKING_ANIMATION;
-            this.currentPhase = GamePhase.CLEANING;
-            this.renderCurrentPhase();
-        }
-    );
-    this.postBakingAnimation.load().then(() => this.postBakingAnimation?.start()).catch(() => {
-        this.currentPhase = GamePhase.CLEANING;
-        this.renderCurrentPhase();
-    });
+    return new AnimationScreen(this.stage, this.layer, PATHS, 4, () => this.goTo(GamePhase.CLEANING));
   }
 
-  private renderNewDayAnimation(): void {
+  private createNewDayAnimation(): Screen {
      const PATHS = Array.from({length: 12}, (_, i) => getAssetPath(`${33 + i}.png`));
      // Add duplicate frames for pause effect
      PATHS.push(getAssetPath('44.png'), getAssetPath('44.png'), getAssetPath('44.png'));
      
-     this.newDayAnimation = new AnimationPlayer(
-        this.layer, PATHS, 2, 0, 0, this.stage.width(), this.stage.height(), false,
-        () => {
-            this.previousPhase = GamePhase.NEW_DAY_ANIMATION;
-            this.currentPhase = GamePhase.ORDER;
-            this.renderCurrentPhase();
-        }
-     );
-     this.newDayAnimation.load().then(() => this.newDayAnimation?.start()).catch(() => {
-        this.currentPhase = GamePhase.ORDER;
-        this.renderCurrentPhase();
-    });
+     return new AnimationScreen(this.stage, this.layer, PATHS, 2, () => this.goTo(GamePhase.PRICING));
   }
 
   // --- Helpers ---
-  private calculateMaxCookies(): number {
-    let maxCookies = Infinity;
-    this.cookieRecipe.forEach((needed, ingredient) => {
-      const has = this.player.ingredients.get(ingredient) || 0;
-      const canMake = Math.floor(has / needed);
-      if (canMake < maxCookies) maxCookies = canMake;
+  // Bakes and sells in one go, for days without a baking minigame
+  private serveCustomers(quality: number = FRESH_QUALITY): number {
+    this.bakeCookies();
+    return this.sellCookies(quality);
+  }
+
+  // Bakes up to the oven's capacity onto the shelf and returns how many
+  // cookies went in. Only those leave dirty dishes.
+  private bakeCookies(): number {
+    const bake = bakeForOrders(
+      this.customerOrders, this.player.breadInventory, this.player.ingredients,
+      this.player.maxBreadCapacity, this.player.currentDay
+    );
+    this.player.ingredients = bake.pantry;
+    this.player.ingredientBatches = reconcileBatches(this.player.ingredientBatches, this.player.ingredients, this.player.currentDay);
+    this.player.breadInventory = bake.stock;
+    this.player.dishesToClean = bake.baked;
+    this.dayProduction = { ...this.dayProduction, baked: bake.baked };
+    return bake.baked;
+  }
+
+  // Grades today's batch, serves today's customers one by one from the
+  // shelf, books the sales and reputation hit, and returns the number of
+  // cookies sold. Unsold cookies stay on the shelf for tomorrow.
+  private sellCookies(quality: number): number {
+    const stock = gradeBatch(this.player.breadInventory, this.player.currentDay, quality);
+    if (this.dayProduction.baked > 0) this.dayProduction = { ...this.dayProduction, quality };
+
+    const fulfillment = fulfillOrders(this.customerOrders, stock, this.priceRatio);
+    this.player.breadInventory = fulfillment.stock;
+    this.dayFulfillment = fulfillment.customers;
+    this.player.reputation = Math.max(0.2, this.player.reputation + fulfillment.reputationChange);
+
+    this.changeFunds(fulfillment.revenue);
+    this.daySales = fulfillment.revenue;
+    return fulfillment.cookiesSold;
+  }
+
+  private calculateMaxCookies(recipe: Recipe = this.catalog.getDefaultRecipe()): number {
+    return maxCookiesFor(recipe, this.player.ingredients);
+  }
+
+  // Throws out batches that went off overnight. Runs once the day counter
+  // has moved on; the loss is reported on that day's summary.
+  private spoilIngredients(): void {
+    const day = this.player.currentDay;
+    const current = reconcileBatches(this.player.ingredientBatches, this.player.ingredients, day);
+    const { batches, spoiled } = removeSpoiled(current, day);
+    const totals = totalsFromBatches(batches);
+    this.player.ingredientBatches = batches;
+    this.player.ingredients.forEach((_qty, name) => this.player.ingredients.set(name, totals.get(name) || 0));
+    this.daySpoilage = spoiled;
+  }
+
+  // Carried-over cookies lose quality overnight; stale ones are thrown out
+  private ageCookies(): void {
+    const { stock, stale } = ageStock(this.player.breadInventory);
+    this.player.breadInventory = stock;
+    this.dayProduction = { ...this.dayProduction, stale };
+  }
+
+  private getPantryFreshness() {
+    const batches = reconcileBatches(this.player.ingredientBatches, this.player.ingredients, this.player.currentDay);
+    return getFreshness(batches, this.player.currentDay);
+  }
+
+  // Cookies ordered today per recipe id, in catalog order
+  private getOrderedCounts(): Map<string, number> {
+    const counts = new Map<string, number>();
+    this.catalog.getRecipes().forEach((recipe) => {
+      const ordered = this.customerOrders
+        .filter((order) => order.recipeId === recipe.id)
+        .reduce((sum, order) => sum + order.cookieCount, 0);
+      if (ordered > 0) counts.set(recipe.id, ordered);
     });
-    return maxCookies === Infinity ? 0 : maxCookies;
+    return counts;
   }
 
+  // True if at least one cookie of a flavor ordered today (or of any flavor,
+  // before orders are taken) is on the shelf or can be baked from the pantry
   private canMakeCookies(): boolean {
-    return this.calculateMaxCookies() > 0;
+    const ordered = this.getOrderedCounts();
+    const recipes = this.catalog.getRecipes().filter((recipe) => ordered.size === 0 || ordered.has(recipe.id));
+    return recipes.some((recipe) =>
+      countStock(this.player.breadInventory, recipe.id) > 0 || this.calculateMaxCookies(recipe) > 0);
   }
 
+  // Bankrupt when there is nothing on the shelf and no flavor can be baked
+  // from the pantry or bought with the funds left
   private checkBankruptcy(): boolean {
-    if (this.canMakeCookies()) return false;
-    if (this.player.funds >= this.getCostOfOneCookie()) return false;
+    const recipes = this.catalog.getRecipes();
+    if (countStock(this.player.breadInventory) > 0) return false;
+    if (recipes.some((recipe) => this.calculateMaxCookies(recipe) > 0)) return false;
+    const cheapest = Math.min(...recipes.map((recipe) => this.getCostOfOneCookie(recipe)));
+    if (this.player.funds >= cheapest) return false;
     return true;
   }
-  
-  private renderGameOverPhase(): void { /* Fallback implementation if needed */ }
 }
\ No newline at end of file
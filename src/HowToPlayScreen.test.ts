@@ -143,7 +143,8 @@ describe("HowToPlayScreen", () => {
 
   it("renders without tips, applies global volume callback, and respects setVolume clamp", async () => {
     fetchMock.mockResolvedValueOnce({ text: async () => "Only instructions" }); // no tips header triggers else branch
-    const screen: any = new HowToPlayScreen(stage as any, layer as any, vi.fn()); // create screen
+    const screen: any = new HowToPlayScreen(stage as any, layer as any, vi.fn());
+    screen.mount(); // create screen
     await Promise.resolve(); // let fetch resolve
 
     screen.setVolume(2); // clamp through public setter (also hits guard when slider exists)
@@ -158,6 +159,7 @@ describe("HowToPlayScreen", () => {
 
     const startCb = vi.fn();
     const screen = new HowToPlayScreen(stage as any, layer as any, startCb);
+    screen.mount();
     await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
 
     // title + modal + tips content + button (+ mocked exit button trigger)
@@ -180,31 +182,56 @@ describe("HowToPlayScreen", () => {
 
     // Exit button is the other group
     lastExitCb?.();
-    screen.cleanup();
+    screen.unmount();
   });
 
   it("handles fetch failure gracefully and cleanup stops resize handling", async () => {
     fetchMock.mockRejectedValueOnce(new Error("fail"));
     const screen = new HowToPlayScreen(stage as any, layer as any, vi.fn());
+    screen.mount();
 
     await Promise.resolve();
     expect(console.error).toHaveBeenCalled();
 
     // trigger resize logic
-    screen["handleResize"]?.();
+    screen.resize();
     expect(layer.destroyChildren).toHaveBeenCalledTimes(1);
 
-    screen.cleanup();
-    screen["handleResize"]?.(); // no-op when inactive
+    screen.unmount();
+    screen.resize(); // no-op when inactive
     expect(layer.destroyChildren).toHaveBeenCalled();
   });
 
+  it("starts the run on the difficulty tier the player picks", async () => {
+    fetchMock.mockResolvedValueOnce({ text: async () => "Only text" });
+    const startCb = vi.fn();
+    new HowToPlayScreen(stage as any, layer as any, startCb, "beginner").mount();
+    await Promise.resolve();
+
+    const groupWithText = (label: string) =>
+      layer.getChildren().find(
+        (c: any) => c instanceof KonvaModule.Group && (c as any).findOne("Text")?.text() === label
+      ) as any;
+    const beginner = groupWithText("BEGINNER");
+    const challenge = groupWithText("CHALLENGE");
+    expect(beginner.findOne("Rect").fill()).toBe("#8e44ad");
+    expect(challenge.findOne("Rect").fill()).toBe("white");
+
+    challenge.fire("click");
+    expect(challenge.findOne("Rect").fill()).toBe("#8e44ad");
+    expect(beginner.findOne("Rect").fill()).toBe("white");
+
+    groupWithText("START GAME").fire("click");
+    expect(startCb).toHaveBeenCalledWith("challenge");
+  });
+
   it("debounces resize and recreates UI", async () => {
     fetchMock.mockResolvedValueOnce({ text: async () => "Only text" });
     const screen = new HowToPlayScreen(stage as any, layer as any, vi.fn());
+    screen.mount();
     await Promise.resolve();
 
-    screen["handleResize"]?.();
+    screen.resize();
     expect(layer.destroyChildren).toHaveBeenCalled();
     expect(rafSpy).toHaveBeenCalled();
   });
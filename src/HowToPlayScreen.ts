@@ -1,19 +1,24 @@
 import Konva from 'konva';
 import { ExitButton } from './ui/ExitButton';
 import { VolumeButton } from './ui/VolumeButton';
+import { AudioManager } from './AudioManager';
+import { ConfigManager } from './config';
+import { DIFFICULTY_TIERS } from './Difficulty';
+import { DifficultyId } from './types';
+import { Screen } from './Screen';
 
 
-export class HowToPlayScreen {
+export class HowToPlayScreen implements Screen {
     private layer: Konva.Layer;
     private stage: Konva.Stage;
-    private onStartGame: () => void;
+    private onStartGame: (difficulty: DifficultyId) => void;
+    private difficulty: DifficultyId; // tier picked for this run
     private animationFrameId: number | null = null;
     private currentRenderId: number = 0;
-    private isActive: boolean = true; 
+    private isActive: boolean = false; 
 
     private volumeButton?: VolumeButton;
     public volume: number = 0.5;  // current value (0–1)
-    public volumeChangeCallback?: (v: number) => void;
     public setVolume(v: number): void {
     this.volume = Math.max(0, Math.min(1, v));
     if (this.volumeButton) {
@@ -21,19 +26,24 @@ export class HowToPlayScreen {
     }
   }
 
-    constructor(stage: Konva.Stage, layer: Konva.Layer, onStartGame: () => void) {
+    constructor(
+        stage: Konva.Stage,
+        layer: Konva.Layer,
+        onStartGame: (difficulty: DifficultyId) => void,
+        difficulty: DifficultyId = ConfigManager.getInstance().getConfig().difficulty
+    ) {
         this.stage = stage;
         this.layer = layer;
         this.onStartGame = onStartGame;
-        
-        this.handleResize = this.handleResize.bind(this);
-        
+        this.difficulty = difficulty;
+    }
+
+    public mount(): void {
+        this.isActive = true;
         this.setupUI();
-        window.addEventListener('resize', this.handleResize);
-        
     }
 
-    private handleResize = (): void => {
+    public resize(): void {
         if (!this.isActive) return;
 
         if (this.animationFrameId) {
@@ -45,7 +55,11 @@ export class HowToPlayScreen {
             this.layer.destroyChildren();
             this.setupUI();
         });
-    };
+    }
+
+    // Nothing here is timed
+    public pause(): void {}
+    public resume(): void {}
 
     private setupUI(): void {
         if (!this.isActive) return;
@@ -110,20 +124,11 @@ export class HowToPlayScreen {
         this.loadInstructions(stageWidth, stageHeight, modalY, modalH, myRenderId);
 
         this.createStartButton(stageWidth, stageHeight, modalY, modalH);
+        this.createDifficultyButtons(stageWidth, stageHeight, modalY, modalH);
 
 
-        const getGlobalBgmVolume = (window as any).getGlobalBgmVolume;
-        const setGlobalBgmVolume = (window as any).setGlobalBgmVolume;
-
-        let initialVolume = 0.2;
-        if (typeof getGlobalBgmVolume === 'function') {
-            const v = getGlobalBgmVolume();
-            if (typeof v === 'number' && !Number.isNaN(v)) {
-                initialVolume = Math.max(0, Math.min(1, v));
-            }
-        }
-
         // keep local field in sync
+        const initialVolume = AudioManager.getInstance().getVolume('music');
         this.volume = initialVolume;
 
         this.volumeButton = new VolumeButton(
@@ -133,7 +138,7 @@ export class HowToPlayScreen {
         );
         
         new ExitButton(this.stage, this.layer, () => {
-            this.cleanup();
+            this.unmount();
             window.location.href = '/login.html';
         });
 
@@ -315,8 +320,9 @@ export class HowToPlayScreen {
         buttonGroup.add(text);
 
         buttonGroup.on('click', () => {
-            this.cleanup();
-            this.onStartGame();
+            AudioManager.getInstance().playSfx('click');
+            this.unmount();
+            this.onStartGame(this.difficulty);
         });
 
         buttonGroup.on('mouseenter', () => {
@@ -333,7 +339,67 @@ export class HowToPlayScreen {
         this.layer.add(buttonGroup);
     }
 
-    public cleanup(): void {
+    // One button per tier in a row above START GAME; the picked tier is filled in
+    private createDifficultyButtons(stageWidth: number, stageHeight: number, modalY: number, modalH: number): void {
+        const buttonWidth = Math.min(stageWidth * 0.13, 160);
+        const buttonHeight = Math.min(stageHeight * 0.05, 36);
+        const gap = buttonWidth * 0.15;
+        const rowWidth = DIFFICULTY_TIERS.length * buttonWidth + (DIFFICULTY_TIERS.length - 1) * gap;
+        const startButtonHeight = Math.min(stageHeight * 0.08, 60);
+        const rowY = (modalY + modalH) - startButtonHeight - 30 - buttonHeight - 15;
+        let x = (stageWidth - rowWidth) / 2;
+
+        const buttons: Array<{ id: DifficultyId, rect: Konva.Rect, text: Konva.Text }> = [];
+        const paint = () => {
+            buttons.forEach(({ id, rect, text }) => {
+                const selected = id === this.difficulty;
+                rect.fill(selected ? '#8e44ad' : 'white');
+                text.fill(selected ? 'white' : '#8e44ad');
+            });
+            this.layer.draw();
+        };
+
+        DIFFICULTY_TIERS.forEach(tier => {
+            const group = new Konva.Group({ x, y: rowY });
+            const rect = new Konva.Rect({
+                width: buttonWidth,
+                height: buttonHeight,
+                stroke: '#8e44ad',
+                strokeWidth: 2,
+                cornerRadius: 8
+            });
+            const text = new Konva.Text({
+                width: buttonWidth,
+                height: buttonHeight,
+                text: tier.name.toUpperCase(),
+                fontSize: Math.min(stageWidth * 0.012, 14),
+                fontFamily: 'Press Start 2P',
+                align: 'center',
+                verticalAlign: 'middle'
+            });
+            group.add(rect);
+            group.add(text);
+            buttons.push({ id: tier.id, rect, text });
+
+            group.on('click', () => {
+                AudioManager.getInstance().playSfx('click');
+                this.difficulty = tier.id;
+                paint();
+            });
+            group.on('mouseenter', () => {
+                this.stage.container().style.cursor = 'pointer';
+            });
+            group.on('mouseleave', () => {
+                this.stage.container().style.cursor = 'default';
+            });
+
+            this.layer.add(group);
+            x += buttonWidth + gap;
+        });
+        paint();
+    }
+
+    public unmount(): void {
         this.isActive = false;
 
         if (this.animationFrameId) {
@@ -344,8 +410,6 @@ export class HowToPlayScreen {
             this.volumeButton.destroy();
         }
 
-        window.removeEventListener('resize', this.handleResize);
-        
         this.layer.destroyChildren(); 
     }
 }
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  addBatch,
+  describeFreshness,
+  getFreshness,
+  reconcileBatches,
+  removeSpoiled,
+  totalsFromBatches,
+} from "./Inventory";
+import { IngredientBatch } from "./types";
+
+// Butter keeps for 2 days and flour for 10 in the default catalog
+const batches = (): IngredientBatch[] => [
+  { name: "Butter", quantity: 8, purchasedDay: 2, unitCost: 0.25 },
+  { name: "Butter", quantity: 4, purchasedDay: 1, unitCost: 0.3 },
+  { name: "Flour", quantity: 6, purchasedDay: 1, unitCost: 0.5 },
+];
+
+describe("ingredient batches", () => {
+  it("adds batches and totals them per ingredient", () => {
+    const list = batches();
+    addBatch(list, "Flour", 3, 2, 0.45);
+    addBatch(list, "Sugar", 0, 2, 0.75);
+
+    expect(list).toHaveLength(4);
+    expect(totalsFromBatches(list)).toEqual(new Map([["Butter", 12], ["Flour", 9]]));
+  });
+
+  it("uses the oldest stock first when reconciling with the pantry", () => {
+    const result = reconcileBatches(batches(), new Map([["Butter", 6], ["Flour", 6]]), 2);
+
+    expect(result).toEqual([
+      { name: "Flour", quantity: 6, purchasedDay: 1, unitCost: 0.5 },
+      { name: "Butter", quantity: 6, purchasedDay: 2, unitCost: 0.25 },
+    ]);
+  });
+
+  it("treats stock without a batch as bought today at the catalog price", () => {
+    const result = reconcileBatches([], new Map([["Sugar", 2]]), 5);
+    expect(result).toEqual([{ name: "Sugar", quantity: 2, purchasedDay: 5, unitCost: 0.75 }]);
+  });
+
+  it("does not change the batches it was given", () => {
+    const original = batches();
+    reconcileBatches(original, new Map(), 2);
+    expect(original).toEqual(batches());
+  });
+});
+
+describe("spoilage", () => {
+  it("removes batches that are past their shelf life and values the loss", () => {
+    const { batches: kept, spoiled } = removeSpoiled(batches(), 3);
+
+    expect(kept.map((b) => [b.name, b.purchasedDay])).toEqual([
+      ["Butter", 2],
+      ["Flour", 1],
+    ]);
+    expect(spoiled).toEqual([{ name: "Butter", quantity: 4, value: 4 * 0.3 }]);
+  });
+
+  it("keeps everything while it is still fresh", () => {
+    expect(removeSpoiled(batches(), 2).spoiled).toEqual([]);
+  });
+
+  it("reports how soon each ingredient expires", () => {
+    const freshness = getFreshness(batches(), 2);
+
+    expect(freshness.get("Butter")).toEqual({ quantity: 12, daysLeft: 0, expiringQuantity: 4 });
+    expect(freshness.get("Flour")).toEqual({ quantity: 6, daysLeft: 8, expiringQuantity: 0 });
+    expect(describeFreshness(freshness.get("Butter"))).toBe("4 spoil tonight");
+    expect(describeFreshness(freshness.get("Flour"))).toBe("fresh 8d");
+    expect(describeFreshness(undefined)).toBe("");
+  });
+});
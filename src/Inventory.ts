@@ -0,0 +1,106 @@
+import { CatalogManager } from './catalog';
+import { IngredientBatch } from './types';
+
+// Stock that will be thrown out within this many days counts as "expiring soon"
+export const EXPIRING_SOON_DAYS = 1;
+
+export interface SpoiledStock {
+    name: string;
+    quantity: number;
+    value: number; // what the spoiled units cost when bought
+}
+
+export interface Freshness {
+    quantity: number;         // total on hand
+    daysLeft: number;         // full days before the oldest batch spoils (0 = spoils tonight)
+    expiringQuantity: number; // units spoiling within EXPIRING_SOON_DAYS
+}
+
+function shelfLife(name: string): number {
+    return CatalogManager.getInstance().getIngredient(name)?.shelfLifeDays ?? Infinity;
+}
+
+// Days of use left for a batch: 1 means it is still usable today only
+function daysLeft(batch: IngredientBatch, currentDay: number): number {
+    return batch.purchasedDay + shelfLife(batch.name) - currentDay;
+}
+
+export function addBatch(batches: IngredientBatch[], name: string, quantity: number, day: number, unitCost: number): void {
+    if (quantity <= 0) return;
+    batches.push({ name, quantity, purchasedDay: day, unitCost });
+}
+
+export function totalsFromBatches(batches: IngredientBatch[]): Map<string, number> {
+    const totals = new Map<string, number>();
+    batches.forEach(b => totals.set(b.name, (totals.get(b.name) || 0) + b.quantity));
+    return totals;
+}
+
+// Brings the batches in line with the ingredient totals after stock was used
+// or added elsewhere. Used stock comes out of the oldest batches first;
+// stock without a batch is treated as bought today.
+export function reconcileBatches(batches: IngredientBatch[], totals: Map<string, number>, day: number): IngredientBatch[] {
+    const result = batches.map(b => ({ ...b })).sort((a, b) => a.purchasedDay - b.purchasedDay);
+    const batchTotals = totalsFromBatches(result);
+    const names = new Set([...totals.keys(), ...batchTotals.keys()]);
+
+    names.forEach(name => {
+        const target = Math.max(0, totals.get(name) || 0);
+        let excess = (batchTotals.get(name) || 0) - target;
+        if (excess < 0) {
+            const price = CatalogManager.getInstance().getIngredient(name)?.price ?? 0;
+            addBatch(result, name, -excess, day, price);
+            return;
+        }
+        for (const batch of result) {
+            if (excess <= 0) break;
+            if (batch.name !== name) continue;
+            const used = Math.min(batch.quantity, excess);
+            batch.quantity -= used;
+            excess -= used;
+        }
+    });
+
+    return result.filter(b => b.quantity > 0);
+}
+
+// Removes every batch that has gone off by the start of `day`
+export function removeSpoiled(batches: IngredientBatch[], day: number): { batches: IngredientBatch[], spoiled: SpoiledStock[] } {
+    const kept: IngredientBatch[] = [];
+    const spoiledByName = new Map<string, SpoiledStock>();
+
+    batches.forEach(batch => {
+        if (daysLeft(batch, day) > 0) {
+            kept.push(batch);
+            return;
+        }
+        const entry = spoiledByName.get(batch.name) ?? { name: batch.name, quantity: 0, value: 0 };
+        entry.quantity += batch.quantity;
+        entry.value += batch.quantity * batch.unitCost;
+        spoiledByName.set(batch.name, entry);
+    });
+
+    return { batches: kept, spoiled: Array.from(spoiledByName.values()) };
+}
+
+// Short label such as "spoils tonight" or "fresh 3d" for screens that list stock
+export function describeFreshness(freshness: Freshness | undefined): string {
+    if (!freshness || freshness.quantity <= 0) return '';
+    if (freshness.expiringQuantity > 0) {
+        return freshness.daysLeft <= 0 ? `${freshness.expiringQuantity} spoil tonight` : `${freshness.expiringQuantity} spoil soon`;
+    }
+    return Number.isFinite(freshness.daysLeft) ? `fresh ${freshness.daysLeft}d` : 'fresh';
+}
+
+export function getFreshness(batches: IngredientBatch[], day: number): Map<string, Freshness> {
+    const freshness = new Map<string, Freshness>();
+    batches.forEach(batch => {
+        const left = daysLeft(batch, day) - 1;
+        const entry = freshness.get(batch.name) ?? { quantity: 0, daysLeft: Infinity, expiringQuantity: 0 };
+        entry.quantity += batch.quantity;
+        entry.daysLeft = Math.min(entry.daysLeft, left);
+        if (left < EXPIRING_SOON_DAYS) entry.expiringQuantity += batch.quantity;
+        freshness.set(batch.name, entry);
+    });
+    return freshness;
+}
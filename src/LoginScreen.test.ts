@@ -175,6 +175,7 @@ describe("LoginScreen basic flow", () => {
 
   it("creates UI, handles typing and cleanup", () => {
     const screen = new LoginScreen(stage as any, layer as any, onLogin);
+    screen.mount();
 
     // focus input and type
     (screen as any).inputBox.fire("click");
@@ -188,12 +189,13 @@ describe("LoginScreen basic flow", () => {
     window.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter" }));
     (screen as any).cursor?.fire?.("click");
 
-    screen.cleanup();
+    screen.unmount();
     expect(layer.draw).toHaveBeenCalled();
   });
 
   it("validates empty input on enter and start button", () => {
     const screen = new LoginScreen(stage as any, layer as any, onLogin);
+    screen.mount();
     const alertSpy = vi.spyOn(window, "alert").mockImplementation(() => {});
 
     (screen as any).inputBox.fire("click");
@@ -211,12 +213,13 @@ describe("LoginScreen basic flow", () => {
 
   it("restores input state after resize", () => {
     const screen = new LoginScreen(stage as any, layer as any, onLogin);
+    screen.mount();
     (screen as any).focusInput();
     window.dispatchEvent(new KeyboardEvent("keydown", { key: "A" }));
 
     // simulate resize flow
     const destroySpy = vi.spyOn(layer, "destroyChildren");
-    (screen as any).handleResize();
+    screen.resize();
     expect(destroySpy).toHaveBeenCalled();
 
     // cursor should be visible again after resize and focus
@@ -225,6 +228,7 @@ describe("LoginScreen basic flow", () => {
 
   it("hovering start button changes cursor and clicking logs in", () => {
     const screen = new LoginScreen(stage as any, layer as any, onLogin);
+    screen.mount();
     const button = layer.children.find((c: any) =>
       c.children?.some((child: any) => child.config?.text === "START GAME")
     );
@@ -239,4 +243,147 @@ describe("LoginScreen basic flow", () => {
     button?.fire("click");
     expect(onLogin).toHaveBeenCalledWith("Tester");
   });
+
+  it("lists profiles, selects one with a saved run and continues it", () => {
+    const onContinue = vi.fn();
+    new LoginScreen(stage as any, layer as any, onLogin, {
+      profiles: [
+        { username: "Tester", bestScore: 250, savedDay: 4 },
+        { username: "Other", bestScore: 0, savedDay: null },
+      ],
+      onContinue,
+      onDeleteProfile: vi.fn(),
+    }).mount();
+    const findContinue = () =>
+      layer.children.find((c: any) =>
+        c.children?.some((child: any) => String(child.config?.text).startsWith("CONTINUE"))
+      );
+    expect(findContinue()).toBeUndefined();
+
+    // panel -> [background, title, row, row]; row -> [rect, name, best, delete]
+    const panel = layer.children.find((c: any) =>
+      c.children?.some((child: any) => child.config?.text === "PLAYERS")
+    );
+    const testerRow = panel.children[2];
+    expect(testerRow.children[1].config.text).toBe("Tester (DAY 4)");
+    testerRow.children[0].fire("click");
+
+    const sign = findContinue();
+    expect(sign).toBeTruthy();
+    expect(sign.children[1].config.text).toContain("TESTER - DAY 4");
+    sign.fire("click");
+    expect(onContinue).toHaveBeenCalledWith("Tester");
+    expect(onLogin).not.toHaveBeenCalled();
+  });
+
+  it("pages through more profiles than fit in the list", () => {
+    const profiles = Array.from({ length: 8 }, (_, i) => ({ username: `Player${i + 1}`, bestScore: 0, savedDay: null }));
+    new LoginScreen(stage as any, layer as any, onLogin, {
+      profiles,
+      onContinue: vi.fn(),
+      onDeleteProfile: vi.fn(),
+    }).mount();
+    const findPanel = () => [...layer.children].reverse().find((c: any) => // the latest render
+      c.children?.some((child: any) => child.config?.text === "PLAYERS")
+    );
+    const names = () => findPanel().children.filter((c: any) => c.children?.length === 4).map((row: any) => row.children[1].config.text);
+    const pager = () => findPanel().children.find((c: any) => c.config?.name === "profilePager");
+
+    expect(names()).toEqual(["Player1", "Player2", "Player3", "Player4", "Player5", "Player6"]);
+    const [prev, page, next] = pager().children;
+    expect(page.config.text).toBe("1/2");
+    expect(prev.handlers.has("click")).toBe(false); // nothing before the first page
+
+    next.fire("click");
+    expect(names()).toEqual(["Player7", "Player8"]);
+    expect(pager().children[1].config.text).toBe("2/2");
+    expect(pager().children[2].handlers.has("click")).toBe(false);
+
+    // a profile picked on a later page stays selected
+    findPanel().children[2].children[0].fire("click");
+    expect(names()).toEqual(["Player7", "Player8"]);
+
+    pager().children[0].fire("click");
+    expect(names()[0]).toBe("Player1");
+  });
+
+  it("keeps the list to one page when the profiles fit", () => {
+    new LoginScreen(stage as any, layer as any, onLogin, {
+      profiles: [{ username: "Tester", bestScore: 0, savedDay: null }],
+      onContinue: vi.fn(),
+      onDeleteProfile: vi.fn(),
+    }).mount();
+    const panel = layer.children.find((c: any) =>
+      c.children?.some((child: any) => child.config?.text === "PLAYERS")
+    );
+    expect(panel.children.some((c: any) => c.config?.name === "profilePager")).toBe(false);
+  });
+
+  it("offers mistake practice for the selected profile", () => {
+    const onPractice = vi.fn();
+    new LoginScreen(stage as any, layer as any, onLogin, {
+      profiles: [{ username: "Tester", bestScore: 0, savedDay: null }],
+      onContinue: vi.fn(),
+      onDeleteProfile: vi.fn(),
+      onPractice,
+    }).mount();
+    const findPractice = () =>
+      layer.children.find((c: any) => c.children?.some((child: any) => child.config?.text === "PRACTICE MISTAKES"));
+    expect(findPractice()).toBeUndefined();
+
+    const panel = layer.children.find((c: any) =>
+      c.children?.some((child: any) => child.config?.text === "PLAYERS")
+    );
+    panel.children[2].children[0].fire("click");
+    findPractice().fire("click");
+    expect(onPractice).toHaveBeenCalledWith("Tester");
+    expect(onLogin).not.toHaveBeenCalled();
+  });
+
+  it("opens the teacher dashboard from its corner sign", () => {
+    const onTeacher = vi.fn();
+    new LoginScreen(stage as any, layer as any, onLogin, {
+      profiles: [],
+      onContinue: vi.fn(),
+      onDeleteProfile: vi.fn(),
+      onTeacher,
+    }).mount();
+    const teacher = layer.children.find((c: any) => c.children?.some((child: any) => child.config?.text === "TEACHER"));
+    teacher.fire("click");
+    expect(onTeacher).toHaveBeenCalledTimes(1);
+    expect(onLogin).not.toHaveBeenCalled();
+  });
+
+  it("deletes a profile after confirmation", () => {
+    const onDeleteProfile = vi.fn();
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+    new LoginScreen(stage as any, layer as any, onLogin, {
+      profiles: [{ username: "Tester", bestScore: 0, savedDay: null }],
+      onContinue: vi.fn(),
+      onDeleteProfile,
+    }).mount();
+    const panel = layer.children.find((c: any) =>
+      c.children?.some((child: any) => child.config?.text === "PLAYERS")
+    );
+    panel.children[2].children[3].fire("click");
+    expect(onDeleteProfile).toHaveBeenCalledWith("Tester");
+  });
+
+  it("falls back a page when the last profile on it is deleted", () => {
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+    const profiles = Array.from({ length: 7 }, (_, i) => ({ username: `Player${i + 1}`, bestScore: 0, savedDay: null }));
+    new LoginScreen(stage as any, layer as any, onLogin, {
+      profiles,
+      onContinue: vi.fn(),
+      onDeleteProfile: vi.fn(),
+    }).mount();
+    const findPanel = () => [...layer.children].reverse().find((c: any) => // the latest render
+      c.children?.some((child: any) => child.config?.text === "PLAYERS")
+    );
+    findPanel().children.find((c: any) => c.config?.name === "profilePager").children[2].fire("click");
+    findPanel().children[2].children[3].fire("click"); // delete Player7
+
+    expect(findPanel().children[2].children[1].config.text).toBe("Player1");
+    expect(findPanel().children.some((c: any) => c.config?.name === "profilePager")).toBe(false);
+  });
 });
@@ -1,11 +1,30 @@
 import Konva from 'konva';
 import { VolumeButton } from './ui/VolumeButton';
+import { AudioManager } from './AudioManager';
 import { getAssetPath } from './utils';
+import { Screen, ScreenResources, TimerId } from './Screen';
 
-export class LoginScreen {
+export interface LoginProfileEntry {
+    username: string;
+    bestScore: number;
+    savedDay: number | null; // day of the saved run, if there is one
+}
+
+interface LoginScreenOptions {
+    profiles: LoginProfileEntry[];
+    onContinue: (username: string) => void;
+    onDeleteProfile: (username: string) => void;
+    onPractice?: (username: string) => void; // mistake review for an existing profile
+    onTeacher?: () => void; // class dashboard, behind the teacher password
+}
+
+const MAX_PROFILE_ROWS = 6; // per page of the profile list
+
+export class LoginScreen implements Screen {
     private layer: Konva.Layer;
     private stage: Konva.Stage;
     private onLogin: (username: string) => void;
+    private opts?: LoginScreenOptions;
     private volumeButton?: VolumeButton;
     public volume: number = 0.5;
 
@@ -17,58 +36,52 @@ export class LoginScreen {
     }
     
     private username: string = '';
+    private profilePage: number = 0;
     private inputFocused: boolean = false;
 
     private inputText!: Konva.Text;
     private cursor!: Konva.Rect;
-    private cursorInterval: number | null = null;
+    private cursorInterval: TimerId | null = null;
     private keyboardHandler: (e: KeyboardEvent) => void;
-    private resizeHandler: () => void; // Store reference for cleanup
+    private resources = new ScreenResources();
     private animationFrameId: number | null = null; // For smooth resizing
 
     private inputBox!: Konva.Rect;
     private loginBackground: Konva.Image | null = null;
 
-    constructor(stage: Konva.Stage, layer: Konva.Layer, onLogin: (username: string) => void) {
+    constructor(stage: Konva.Stage, layer: Konva.Layer, onLogin: (username: string) => void, opts?: LoginScreenOptions) {
         this.stage = stage;
         this.layer = layer;
         this.onLogin = onLogin;
+        this.opts = opts;
 
         this.keyboardHandler = this.handleKeyPress.bind(this);
-        
-        this.resizeHandler = this.handleResize.bind(this);
+    }
 
+    public mount(): void {
         this.setupUI();
-        
-        window.addEventListener('resize', this.resizeHandler);
     }
 
-    private handleResize(): void {
+    public resize(): void {
         if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
 
         this.animationFrameId = requestAnimationFrame(() => {
-            if (this.cursorInterval) clearInterval(this.cursorInterval);
+            this.resources.clear(this.cursorInterval);
             
             this.layer.destroyChildren();
             this.setupUI(); 
         });
     }
 
+    // Nothing here counts down; the cursor may keep blinking
+    public pause(): void {}
+    public resume(): void {}
+
     private setupUI(): void {
         const stageWidth = this.stage.width();
         const stageHeight = this.stage.height();
 
-        const getGlobalBgmVolume = (window as any).getGlobalBgmVolume;
-        const setGlobalBgmVolume = (window as any).setGlobalBgmVolume;
-
-        let initialVolume = 0.2;
-        if (typeof getGlobalBgmVolume === 'function') {
-        const v = getGlobalBgmVolume();
-        if (typeof v === 'number' && !Number.isNaN(v)) {
-            initialVolume = Math.max(0, Math.min(1, v));
-        }
-        }
-
+        const initialVolume = AudioManager.getInstance().getVolume('music');
         this.volume = initialVolume;
 
         this.volumeButton = new VolumeButton(
@@ -193,20 +206,31 @@ export class LoginScreen {
         // FIX 6: If we were focused before resize, restart the blinking
         if (this.inputFocused) {
             this.startBlinking();
-            // Ensure event listener is attached (it might be duplicate but that's safe in addEventListener)
-            window.addEventListener('keydown', this.keyboardHandler);
+            this.resources.listen('keydown', this.keyboardHandler);
         }
 
         // START BUTTON
         this.createStartButton(stageWidth, stageHeight);
 
+        // PROFILE LIST + CONTINUE BUTTON
+        if (this.opts && this.opts.profiles.length > 0) {
+            this.createProfileList(stageWidth, stageHeight);
+        }
+        if (this.getSelectedSave()) {
+            this.createContinueButton(stageWidth, stageHeight);
+        }
+        if (this.getSelectedProfile()) {
+            this.createPracticeButton(stageWidth, stageHeight);
+        }
+        this.createTeacherButton(stageWidth, stageHeight);
+
         this.layer.draw();
     }
 
     private startBlinking(): void {
-        if (this.cursorInterval) clearInterval(this.cursorInterval);
+        this.resources.clear(this.cursorInterval);
         
-        this.cursorInterval = window.setInterval(() => {
+        this.cursorInterval = this.resources.interval(() => {
             this.cursor.visible(!this.cursor.visible());
             this.layer.batchDraw();
         }, 500);
@@ -221,7 +245,7 @@ export class LoginScreen {
 
             this.startBlinking();
 
-            window.addEventListener('keydown', this.keyboardHandler);
+            this.resources.listen('keydown', this.keyboardHandler);
             this.layer.draw();
         }
     }
@@ -238,6 +262,8 @@ export class LoginScreen {
             return;
         }
 
+        const selectedBefore = this.getSelectedSave();
+
         if (e.key === 'Backspace') {
             this.username = this.username.slice(0, -1);
         } else if (e.key.length === 1 && this.username.length < 20) {
@@ -246,6 +272,11 @@ export class LoginScreen {
             }
         }
 
+        // Typing an existing player's name highlights them and offers their saved run
+        if (this.opts && this.getSelectedSave() !== selectedBefore) {
+            this.refreshUI();
+            return;
+        }
         this.updateInputDisplay();
     }
 
@@ -320,6 +351,7 @@ export class LoginScreen {
         signGroup.add(text);
 
         signGroup.on('click', () => {
+            AudioManager.getInstance().playSfx('click');
             if (this.username.trim() === '') {
                 alert('Please enter a name!');
                 return;
@@ -346,17 +378,414 @@ export class LoginScreen {
         this.layer.add(signGroup);
     }
 
+    // The profile matching the name currently typed or selected, if any
+    private getSelectedProfile(): LoginProfileEntry | null {
+        if (!this.opts) return null;
+        const name = this.username.trim().toLowerCase();
+        if (name === '') return null;
+        return this.opts.profiles.find(p => p.username.toLowerCase() === name) ?? null;
+    }
+
+    // The saved run belonging to the name currently typed or selected, if any
+    private getSelectedSave(): LoginProfileEntry | null {
+        const entry = this.getSelectedProfile();
+        return entry && entry.savedDay !== null ? entry : null;
+    }
+
+    private refreshUI(): void {
+        this.resources.clear(this.cursorInterval);
+        this.layer.destroyChildren();
+        this.setupUI();
+    }
+
+    private createProfileList(stageWidth: number, stageHeight: number): void {
+        if (!this.opts) return;
+        const opts = this.opts;
+
+        const panelWidth = Math.min(stageWidth * 0.22, 280);
+        const rowHeight = 36;
+        // Deleting the last profile on a page falls back a page
+        const pageCount = Math.ceil(opts.profiles.length / MAX_PROFILE_ROWS);
+        this.profilePage = Math.max(0, Math.min(this.profilePage, pageCount - 1));
+        const firstRow = this.profilePage * MAX_PROFILE_ROWS;
+        const rows = opts.profiles.slice(firstRow, firstRow + MAX_PROFILE_ROWS);
+        // Paged lists keep a full page's height so the arrows stay put
+        const listHeight = (pageCount > 1 ? MAX_PROFILE_ROWS : rows.length) * (rowHeight + 6);
+        const pagerHeight = pageCount > 1 ? 30 : 0;
+
+        const panel = new Konva.Group({
+            x: stageWidth * 0.04,
+            y: stageHeight * 0.4,
+        });
+
+        panel.add(new Konva.Rect({
+            width: panelWidth,
+            height: 40 + listHeight + pagerHeight,
+            fill: 'rgba(0,0,0,0.45)',
+            cornerRadius: 10,
+        }));
+
+        panel.add(new Konva.Text({
+            width: panelWidth,
+            y: 12,
+            text: 'PLAYERS',
+            fontFamily: 'Press Start 2P',
+            fontSize: 14,
+            fill: '#ffffff',
+            align: 'center',
+            listening: false
+        }));
+
+        rows.forEach((profile, index) => {
+            const selected = profile.username.toLowerCase() === this.username.trim().toLowerCase();
+            const row = new Konva.Group({
+                x: 8,
+                y: 40 + index * (rowHeight + 6),
+            });
+
+            const rowRect = new Konva.Rect({
+                width: panelWidth - 16,
+                height: rowHeight,
+                fill: selected ? '#f1c40f' : '#ffffff',
+                cornerRadius: 6,
+            });
+
+            const label = profile.savedDay !== null
+                ? `${profile.username} (DAY ${profile.savedDay})`
+                : profile.username;
+            const nameText = new Konva.Text({
+                x: 8,
+                y: 4,
+                width: panelWidth - 60,
+                text: label,
+                fontFamily: 'Press Start 2P',
+                fontSize: 10,
+                fill: 'black',
+                wrap: 'none',
+                ellipsis: true,
+                listening: false
+            });
+
+            const bestText = new Konva.Text({
+                x: 8,
+                y: 20,
+                width: panelWidth - 60,
+                text: `BEST $${profile.bestScore.toFixed(0)}`,
+                fontFamily: 'Press Start 2P',
+                fontSize: 8,
+                fill: '#555555',
+                listening: false
+            });
+
+            row.add(rowRect, nameText, bestText);
+
+            rowRect.on('click', () => {
+                AudioManager.getInstance().playSfx('click');
+                this.username = profile.username;
+                this.refreshUI();
+            });
+            rowRect.on('mouseenter', () => {
+                this.stage.container().style.cursor = 'pointer';
+            });
+            rowRect.on('mouseleave', () => {
+                this.stage.container().style.cursor = 'default';
+            });
+
+            // Delete button
+            const deleteGroup = new Konva.Group({
+                x: panelWidth - 16 - 18,
+                y: rowHeight / 2,
+            });
+            const deleteCircle = new Konva.Circle({
+                radius: 11,
+                fill: '#e74c3c',
+            });
+            const deleteX = new Konva.Text({
+                text: 'X',
+                fontSize: 10,
+                fontFamily: 'Press Start 2P',
+                fill: 'white',
+                offsetX: 5,
+                offsetY: 5,
+                listening: false
+            });
+            deleteGroup.add(deleteCircle, deleteX);
+
+            deleteGroup.on('click', () => {
+                AudioManager.getInstance().playSfx('click');
+                if (!window.confirm(`Delete ${profile.username} and all of their progress?`)) return;
+                if (this.username.trim().toLowerCase() === profile.username.toLowerCase()) {
+                    this.username = '';
+                }
+                opts.profiles = opts.profiles.filter(p => p !== profile);
+                opts.onDeleteProfile(profile.username);
+                this.refreshUI();
+            });
+            deleteGroup.on('mouseenter', () => {
+                this.stage.container().style.cursor = 'pointer';
+                deleteCircle.fill('#c0392b');
+                this.layer.batchDraw();
+            });
+            deleteGroup.on('mouseleave', () => {
+                this.stage.container().style.cursor = 'default';
+                deleteCircle.fill('#e74c3c');
+                this.layer.batchDraw();
+            });
+
+            row.add(deleteGroup);
+            panel.add(row);
+        });
+
+        if (pageCount > 1) {
+            panel.add(this.createProfilePager(panelWidth, 40 + listHeight, pageCount));
+        }
+
+        this.layer.add(panel);
+    }
+
+    // "<  2/3  >" under the profile rows
+    private createProfilePager(panelWidth: number, y: number, pageCount: number): Konva.Group {
+        const pager = new Konva.Group({ y, name: 'profilePager' });
+
+        const arrow = (text: string, x: number, page: number) => {
+            const enabled = page >= 0 && page < pageCount;
+            const arrowText = new Konva.Text({
+                x,
+                width: 30,
+                text,
+                fontFamily: 'Press Start 2P',
+                fontSize: 14,
+                fill: enabled ? '#ffffff' : '#777777',
+                align: 'center',
+            });
+            if (enabled) {
+                arrowText.on('click', () => {
+                    AudioManager.getInstance().playSfx('click');
+                    this.profilePage = page;
+                    this.refreshUI();
+                });
+                arrowText.on('mouseenter', () => {
+                    this.stage.container().style.cursor = 'pointer';
+                });
+                arrowText.on('mouseleave', () => {
+                    this.stage.container().style.cursor = 'default';
+                });
+            }
+            return arrowText;
+        };
+
+        pager.add(
+            arrow('<', 8, this.profilePage - 1),
+            new Konva.Text({
+                width: panelWidth,
+                y: 2,
+                text: `${this.profilePage + 1}/${pageCount}`,
+                fontFamily: 'Press Start 2P',
+                fontSize: 10,
+                fill: '#ffffff',
+                align: 'center',
+                listening: false
+            }),
+            arrow('>', panelWidth - 38, this.profilePage + 1)
+        );
+        return pager;
+    }
+
+    private createContinueButton(stageWidth: number, stageHeight: number): void {
+        const saved = this.getSelectedSave();
+        if (!this.opts || !saved) return;
+        const opts = this.opts;
+
+        const width = Math.min(stageWidth * 0.25, 300);
+        const height = 50;
+
+        // Hangs on the start sign's post, just below the main board
+        const signGroup = new Konva.Group({
+            x: (stageWidth - width) / 2,
+            y: stageHeight * 0.62 + 60 + 25,
+        });
+
+        const board = new Konva.Rect({
+            width,
+            height,
+            fill: '#4CAF50',
+            cornerRadius: 6,
+            shadowBlur: 8,
+            shadowColor: '#2e7d32',
+            shadowOffsetY: 3,
+            shadowOpacity: 0.6
+        });
+
+        const text = new Konva.Text({
+            width,
+            height,
+            text: `CONTINUE\n${saved.username.toUpperCase()} - DAY ${saved.savedDay}`,
+            fontFamily: 'Press Start 2P',
+            fontSize: Math.min(stageWidth * 0.012, 14),
+            fill: 'white',
+            align: 'center',
+            verticalAlign: 'middle',
+            lineHeight: 1.4,
+            listening: false
+        });
+
+        signGroup.add(board);
+        signGroup.add(text);
+
+        signGroup.on('click', () => {
+            AudioManager.getInstance().playSfx('click');
+            localStorage.setItem('username', saved.username);
+            this.unmount();
+            opts.onContinue(saved.username);
+        });
+
+        signGroup.on('mouseenter', () => {
+            this.stage.container().style.cursor = 'pointer';
+            board.fill('#45a049');
+            this.layer.batchDraw();
+        });
+
+        signGroup.on('mouseleave', () => {
+            this.stage.container().style.cursor = 'default';
+            board.fill('#4CAF50');
+            this.layer.batchDraw();
+        });
+
+        this.layer.add(signGroup);
+    }
+
+    // Practice sign for the selected profile, below CONTINUE when there is one
+    private createPracticeButton(stageWidth: number, stageHeight: number): void {
+        const profile = this.getSelectedProfile();
+        const onPractice = this.opts?.onPractice;
+        if (!profile || !onPractice) return;
+
+        const width = Math.min(stageWidth * 0.25, 300);
+        const height = 36;
+        const continueOffset = this.getSelectedSave() ? 60 : 0;
+
+        const signGroup = new Konva.Group({
+            x: (stageWidth - width) / 2,
+            y: stageHeight * 0.62 + 60 + 25 + continueOffset,
+        });
+
+        const board = new Konva.Rect({
+            width,
+            height,
+            fill: '#3498db',
+            cornerRadius: 6,
+            shadowBlur: 8,
+            shadowColor: '#1f618d',
+            shadowOffsetY: 3,
+            shadowOpacity: 0.6
+        });
+
+        const text = new Konva.Text({
+            width,
+            height,
+            text: 'PRACTICE MISTAKES',
+            fontFamily: 'Press Start 2P',
+            fontSize: Math.min(stageWidth * 0.011, 12),
+            fill: 'white',
+            align: 'center',
+            verticalAlign: 'middle',
+            listening: false
+        });
+
+        signGroup.add(board);
+        signGroup.add(text);
+
+        signGroup.on('click', () => {
+            AudioManager.getInstance().playSfx('click');
+            localStorage.setItem('username', profile.username);
+            this.unmount();
+            onPractice(profile.username);
+        });
+
+        signGroup.on('mouseenter', () => {
+            this.stage.container().style.cursor = 'pointer';
+            board.fill('#5dade2');
+            this.layer.batchDraw();
+        });
+
+        signGroup.on('mouseleave', () => {
+            this.stage.container().style.cursor = 'default';
+            board.fill('#3498db');
+            this.layer.batchDraw();
+        });
+
+        this.layer.add(signGroup);
+    }
+
+    // Small sign in the bottom-right corner for the teacher dashboard
+    private createTeacherButton(stageWidth: number, stageHeight: number): void {
+        const onTeacher = this.opts?.onTeacher;
+        if (!onTeacher) return;
+
+        const width = Math.min(stageWidth * 0.14, 160);
+        const height = 32;
+
+        const signGroup = new Konva.Group({
+            x: stageWidth - width - stageWidth * 0.03,
+            y: stageHeight - height - stageHeight * 0.04,
+        });
+
+        const board = new Konva.Rect({
+            width,
+            height,
+            fill: '#8e44ad',
+            cornerRadius: 6,
+            shadowBlur: 8,
+            shadowColor: '#5b2c6f',
+            shadowOffsetY: 3,
+            shadowOpacity: 0.6
+        });
+
+        const text = new Konva.Text({
+            width,
+            height,
+            text: 'TEACHER',
+            fontFamily: 'Press Start 2P',
+            fontSize: Math.min(stageWidth * 0.011, 12),
+            fill: 'white',
+            align: 'center',
+            verticalAlign: 'middle',
+            listening: false
+        });
+
+        signGroup.add(board);
+        signGroup.add(text);
+
+        signGroup.on('click', () => {
+            AudioManager.getInstance().playSfx('click');
+            this.unmount();
+            onTeacher();
+        });
+
+        signGroup.on('mouseenter', () => {
+            this.stage.container().style.cursor = 'pointer';
+            board.fill('#9b59b6');
+            this.layer.batchDraw();
+        });
+
+        signGroup.on('mouseleave', () => {
+            this.stage.container().style.cursor = 'default';
+            board.fill('#8e44ad');
+            this.layer.batchDraw();
+        });
+
+        this.layer.add(signGroup);
+    }
+
     private finishLogin(): void {
         localStorage.setItem('username', this.username.trim());
-        this.cleanup();
+        this.unmount();
         this.onLogin(this.username.trim());
     }
 
-    public cleanup(): void {
-        if (this.cursorInterval) clearInterval(this.cursorInterval);
-        
-        window.removeEventListener('keydown', this.keyboardHandler);
-        window.removeEventListener('resize', this.resizeHandler); // Important!
+    public unmount(): void {
+        this.resources.dispose();
+        this.cursorInterval = null;
 
         if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
         
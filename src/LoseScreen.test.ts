@@ -102,12 +102,17 @@ describe("LoseScreen", () => {
     onReturn = vi.fn();
   });
 
-  it("creates UI and triggers callbacks", () => {
+  it("creates UI and triggers callbacks", async () => {
+    const { AudioManager, SilentAudioManager } = await import("./AudioManager");
+    const audio = new SilentAudioManager();
+    audio.unlock();
+    AudioManager.setInstance(audio);
     const screen = new LoseScreen(stage as any, layer as any, {
       totalDaysPlayed: 2,
       cashBalance: 1000,
       onReturnHome: onReturn,
     });
+    screen.mount();
 
     const button = layer
       .getChildren()
@@ -120,6 +125,19 @@ describe("LoseScreen", () => {
     clickEvent && button?.handlers.get(clickEvent)?.();
 
     expect(onReturn).toHaveBeenCalledTimes(1);
+    expect(audio.played).toEqual(["click_sound.wav"]);
     expect(layer.draw).toHaveBeenCalled();
   });
+
+  it("offers the teacher's report only when it can be downloaded", () => {
+    new LoseScreen(stage as any, layer as any, { totalDaysPlayed: 2, cashBalance: 1000, onReturnHome: onReturn }).mount();
+    const findReports = () => layer.getChildren().filter((c: any) => c.config?.name === "reportButton");
+    expect(findReports()).toHaveLength(0);
+
+    const onDownloadReport = vi.fn();
+    new LoseScreen(stage as any, layer as any, { totalDaysPlayed: 2, cashBalance: 1000, onReturnHome: onReturn, onDownloadReport }).mount();
+    findReports().forEach((button: any) => button.handlers.get("click tap")?.());
+    expect(onDownloadReport.mock.calls).toEqual([["csv"], ["json"]]);
+    expect(onReturn).not.toHaveBeenCalled();
+  });
 });
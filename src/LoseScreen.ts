@@ -1,23 +1,42 @@
 import Konva from "konva";
+import { AudioManager } from "./AudioManager";
+import { ReportButton } from "./ui/ReportButton";
+import { ReportFormat } from "./ProgressReport";
+import { Screen } from "./Screen";
 
 interface LoseScreenOptions {
   cashBalance: number;
   totalDaysPlayed: number;
   onReturnHome: () => void; 
+  onDownloadReport?: (format: ReportFormat) => void; // teacher's progress report for the run
 }
 
-export class LoseScreen {
+export class LoseScreen implements Screen {
   private stage: Konva.Stage;
   private layer: Konva.Layer;
   private opts: LoseScreenOptions;
+  private mounted = false;
 
   constructor(stage: Konva.Stage, layer: Konva.Layer, opts: LoseScreenOptions) {
     this.stage = stage;
     this.layer = layer;
     this.opts = opts;
+  }
+
+  public mount(): void {
+    this.mounted = true;
     this.setupUI();
   }
 
+  // Laid out once for the stage size it was mounted at
+  public resize(): void {}
+  public pause(): void {}
+  public resume(): void {}
+
+  public unmount(): void {
+    this.mounted = false;
+  }
+
   private setupUI(): void {
     this.layer.destroyChildren();
 
@@ -26,6 +45,7 @@ export class LoseScreen {
 
     const imageObj = new Image();
     imageObj.onload = () => {
+      if (!this.mounted) return;
       const bg = new Konva.Image({
         x: 0,
         y: 0,
@@ -106,6 +126,7 @@ export class LoseScreen {
     returnGroup.add(returnText);
 
     returnGroup.on("click tap", () => {
+      AudioManager.getInstance().playSfx("click");
       this.opts.onReturnHome();
     });
 
@@ -122,6 +143,21 @@ export class LoseScreen {
     });
 
     this.layer.add(returnGroup);
+
+    const onDownloadReport = this.opts.onDownloadReport;
+    if (onDownloadReport) {
+      // CSV and JSON side by side, together as wide as the button above
+      const gap = stageWidth * 0.01;
+      const reportWidth = (buttonWidth - gap) / 2;
+      const formats: ReportFormat[] = ["csv", "json"];
+      formats.forEach((format, i) => {
+        new ReportButton(
+          this.stage, this.layer, onDownloadReport, format,
+          (stageWidth - buttonWidth) / 2 + i * (reportWidth + gap), stageHeight * 0.72 + buttonHeight + stageHeight * 0.03,
+          reportWidth, buttonHeight * 0.7
+        );
+      });
+    }
     this.layer.draw();
   }
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { IngredientMarket, priceRangeKey } from "./Market";
+
+const basePrices = new Map([
+  ["Flour", 0.5],
+  ["Baking Soda", 0.5],
+  ["Chocolate", 3],
+]);
+
+// Returns each value in turn, repeating the last one
+const sequence = (...values: number[]) => {
+  let i = 0;
+  return () => values[Math.min(i++, values.length - 1)];
+};
+
+describe("IngredientMarket", () => {
+  it("maps ingredient names to config keys", () => {
+    expect(priceRangeKey("Baking Soda")).toBe("BAKING_SODA");
+    expect(priceRangeKey("Flour")).toBe("FLOUR");
+  });
+
+  it("generates prices inside each configured range, rounded to $0.05", () => {
+    const market = new IngredientMarket(
+      basePrices,
+      { FLOUR: { min: 0.4, max: 0.6 }, BAKING_SODA: { min: 1, max: 2 } },
+      sequence(0, 0.99)
+    );
+    market.rollDay(1);
+
+    expect(market.getPrice("Flour")).toBe(0.4);
+    expect(market.getPrice("Baking Soda")).toBe(2);
+    // No range configured for chocolate, so the base price is used
+    expect(market.getPrice("Chocolate")).toBe(3);
+  });
+
+  it("falls back to base prices when ranges are missing or invalid", () => {
+    const market = new IngredientMarket(basePrices, {
+      FLOUR: { min: 0, max: 0 },
+      BAKING_SODA: { min: 2, max: 1 },
+    });
+    market.rollDay(1);
+    expect(market.getPrices()).toEqual(basePrices);
+
+    const noConfig = new IngredientMarket(basePrices, undefined);
+    noConfig.rollDay(1);
+    expect(noConfig.getPrice("Flour")).toBe(0.5);
+  });
+
+  it("keeps the same prices when a day is rolled again", () => {
+    const market = new IngredientMarket(basePrices, { FLOUR: { min: 0.4, max: 0.6 } }, sequence(0, 0.99));
+    market.rollDay(1);
+    market.rollDay(1);
+    expect(market.getPrice("Flour")).toBe(0.4);
+  });
+
+  it("draws a new day's prices from the stream it is given", () => {
+    const market = new IngredientMarket(basePrices, { FLOUR: { min: 0.4, max: 0.6 } }, sequence(0));
+    market.rollDay(1, sequence(0.99));
+    expect(market.getPrice("Flour")).toBe(0.6);
+    market.rollDay(2);
+    expect(market.getPrice("Flour")).toBe(0.4);
+  });
+
+  it("compares today's prices with yesterday's", () => {
+    const market = new IngredientMarket(
+      basePrices,
+      { FLOUR: { min: 0.4, max: 0.6 }, BAKING_SODA: { min: 0.4, max: 0.6 } },
+      sequence(0, 0.99, 0.99, 0.99)
+    );
+    market.rollDay(1);
+    expect(market.getTrend("Flour")).toBe("same");
+
+    market.rollDay(2);
+    expect(market.getPreviousPrices().get("Flour")).toBe(0.4);
+    expect(market.getTrend("Flour")).toBe("up");
+    expect(market.getTrend("Baking Soda")).toBe("same");
+    expect(market.getTrend("Chocolate")).toBe("same");
+  });
+
+  it("restores serialized state", () => {
+    const market = new IngredientMarket(basePrices, { FLOUR: { min: 0.4, max: 0.6 } }, sequence(0.99, 0));
+    market.rollDay(1);
+    market.rollDay(2);
+
+    const restored = new IngredientMarket(basePrices, { FLOUR: { min: 0.4, max: 0.6 } });
+    restored.restore(JSON.parse(JSON.stringify(market.serialize())));
+    expect(restored.getDay()).toBe(2);
+    expect(restored.getPrice("Flour")).toBe(0.4);
+    expect(restored.getTrend("Flour")).toBe("down");
+  });
+});
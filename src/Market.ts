@@ -0,0 +1,106 @@
+import { PriceRange } from './types';
+
+// Prices are rounded to the nearest nickel so students compare clean amounts
+const NICKELS_PER_DOLLAR = 20;
+const PRICE_STEP = 1 / NICKELS_PER_DOLLAR;
+
+export type PriceTrend = 'up' | 'down' | 'same';
+
+// JSON-safe market state stored alongside a saved run
+export interface MarketState {
+    day: number;
+    prices: Array<[string, number]>;
+    previousPrices: Array<[string, number]>;
+}
+
+// "Baking Soda" -> "BAKING_SODA", matching the keys in debug_mode.txt
+export function priceRangeKey(ingredient: string): string {
+    return ingredient.trim().toUpperCase().replace(/\s+/g, '_');
+}
+
+function roundPrice(price: number): number {
+    return Math.round(price * NICKELS_PER_DOLLAR) / NICKELS_PER_DOLLAR;
+}
+
+export class IngredientMarket {
+    private basePrices: Map<string, number>;
+    private ranges: Record<string, PriceRange>;
+    private random: () => number;
+
+    private day: number = 0;
+    private prices: Map<string, number> = new Map();
+    private previousPrices: Map<string, number> = new Map();
+
+    constructor(
+        basePrices: Map<string, number>,
+        ranges: Record<string, PriceRange> | undefined,
+        random: () => number = Math.random
+    ) {
+        this.basePrices = new Map(basePrices);
+        this.ranges = ranges ?? {};
+        this.random = random;
+    }
+
+    // Generates the prices for a new day. Rolling the same day twice keeps
+    // today's prices, so re-rendering a screen does not reshuffle the market.
+    // A seeded run passes that day's random stream.
+    public rollDay(day: number, random: () => number = this.random): void {
+        if (day === this.day && this.prices.size > 0) return;
+
+        this.previousPrices = new Map(this.prices);
+        this.prices = new Map();
+        this.basePrices.forEach((basePrice, ingredient) => {
+            this.prices.set(ingredient, this.generatePrice(ingredient, basePrice, random));
+        });
+        this.day = day;
+    }
+
+    public getDay(): number {
+        return this.day;
+    }
+
+    public getPrice(ingredient: string): number {
+        return this.prices.get(ingredient) ?? this.basePrices.get(ingredient) ?? 0;
+    }
+
+    public getPrices(): Map<string, number> {
+        return new Map(this.prices.size > 0 ? this.prices : this.basePrices);
+    }
+
+    public getPreviousPrices(): Map<string, number> {
+        return new Map(this.previousPrices);
+    }
+
+    // No trend on the first day, since there is nothing to compare against
+    public getTrend(ingredient: string): PriceTrend {
+        const before = this.previousPrices.get(ingredient);
+        if (before === undefined) return 'same';
+        const now = this.getPrice(ingredient);
+        if (Math.abs(now - before) < PRICE_STEP / 2) return 'same';
+        return now > before ? 'up' : 'down';
+    }
+
+    public serialize(): MarketState {
+        return {
+            day: this.day,
+            prices: Array.from(this.prices.entries()),
+            previousPrices: Array.from(this.previousPrices.entries()),
+        };
+    }
+
+    public restore(state: MarketState): void {
+        this.day = state.day;
+        this.prices = new Map(state.prices);
+        this.previousPrices = new Map(state.previousPrices);
+    }
+
+    // A missing or nonsensical range (max <= 0 or min > max) falls back to the base price
+    private generatePrice(ingredient: string, basePrice: number, random: () => number): number {
+        const range = this.ranges[priceRangeKey(ingredient)];
+        if (!range || !(range.max > 0) || !(range.min >= 0) || range.min > range.max) {
+            return basePrice;
+        }
+        const price = range.min + random() * (range.max - range.min);
+        return Math.max(PRICE_STEP, roundPrice(price));
+    }
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { convertAmount, formatAmount, measuringOptionsFor, parseAmount, sameAmount, unitLabel } from "./Measuring";
+import { CatalogManager } from "./catalog";
+
+describe("Measuring", () => {
+  it("converts between tsp, tbsp and cups", () => {
+    expect(convertAmount(2, "tbsp", "tsp")).toBe(6);
+    expect(convertAmount(9, "tsp", "tbsp")).toBe(3);
+    expect(convertAmount(0.5, "cup", "tbsp")).toBe(8);
+    expect(convertAmount(1, "cup", "tsp")).toBe(48);
+  });
+
+  it("writes amounts with fraction glyphs and the right unit", () => {
+    expect(formatAmount(1.5)).toBe("1½");
+    expect(formatAmount(0.25)).toBe("¼");
+    expect(formatAmount(3)).toBe("3");
+    expect(formatAmount(0.3)).toBe("0.3");
+    expect(unitLabel(1, "cup")).toBe("cup");
+    expect(unitLabel(1.5, "cup")).toBe("cups");
+    expect(unitLabel(4, "tbsp")).toBe("tbsp");
+  });
+
+  it("reads decimals, fractions and mixed numbers", () => {
+    expect(parseAmount("1.5")).toBe(1.5);
+    expect(parseAmount(" 3/2 ")).toBe(1.5);
+    expect(parseAmount("1 1/2")).toBe(1.5);
+    expect(parseAmount("1½")).toBe(1.5);
+    expect(parseAmount(".75")).toBe(0.75);
+    expect(parseAmount("1/0")).toBeNull();
+    expect(parseAmount("1/")).toBeNull();
+    expect(parseAmount("")).toBeNull();
+    expect(sameAmount(1 / 3, 0.333)).toBe(true);
+  });
+
+  it("lists the recipe's ingredients with their catalog units", () => {
+    const catalog = CatalogManager.getInstance();
+    const options = measuringOptionsFor(catalog.getRecipe("sugar")!, catalog.getIngredients());
+    expect(options.ingredients.map((i) => `${i.quantity} ${i.unitPlural} ${i.name}`)).toEqual([
+      "2 cups Flour",
+      "4 tbsp Butter",
+      "2 cups Sugar",
+      "1 tsp Baking Soda",
+    ]);
+  });
+});
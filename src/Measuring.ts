@@ -0,0 +1,95 @@
+import { IngredientDefinition, Recipe } from './types';
+
+// Kitchen measures
+// ----------------
+// The catalog measures ingredients in cups, tbsp and tsp:
+//     3 tsp = 1 tbsp, 16 tbsp = 1 cup
+// The measuring minigame asks players to scale the day's recipe by
+// fractional batch sizes and to convert between these units.
+export type KitchenUnit = 'tsp' | 'tbsp' | 'cup';
+
+export const TSP_PER_TBSP = 3;
+export const TBSP_PER_CUP = 16;
+
+const TSP_IN: Record<KitchenUnit, number> = {
+    tsp: 1,
+    tbsp: TSP_PER_TBSP,
+    cup: TSP_PER_TBSP * TBSP_PER_CUP,
+};
+
+// Batch sizes the recipe is scaled by
+export const BATCH_SIZES = [0.5, 1.5, 2, 2.5];
+
+// Answers this close to the right amount count as correct
+const AMOUNT_TOLERANCE = 0.01;
+
+const FRACTION_GLYPHS: Array<[number, string]> = [
+    [0.25, '¼'],
+    [0.5, '½'],
+    [0.75, '¾'],
+];
+
+export interface MeasuredIngredient {
+    name: string;
+    quantity: number; // amount in one batch of the recipe
+    unit: string;
+    unitPlural: string;
+}
+
+export interface MeasuringOptions {
+    ingredients: MeasuredIngredient[];
+    batches: number[];
+}
+
+export function isKitchenUnit(unit: string): unit is KitchenUnit {
+    return unit === 'tsp' || unit === 'tbsp' || unit === 'cup';
+}
+
+export function convertAmount(amount: number, from: KitchenUnit, to: KitchenUnit): number {
+    return (amount * TSP_IN[from]) / TSP_IN[to];
+}
+
+// 1.5 -> "1½", 0.25 -> "¼", 3 -> "3"; other decimals are shown as they are
+export function formatAmount(value: number): string {
+    const whole = Math.floor(value);
+    const glyph = FRACTION_GLYPHS.find(([fraction]) => Math.abs(value - whole - fraction) < AMOUNT_TOLERANCE);
+    if (glyph) return whole > 0 ? `${whole}${glyph[1]}` : glyph[1];
+    return `${Math.round(value * 100) / 100}`;
+}
+
+// "cup" or "cups" depending on the amount; tsp and tbsp never change
+export function unitLabel(amount: number, unit: string, unitPlural: string = unit === 'cup' ? 'cups' : unit): string {
+    return amount > 1 ? unitPlural : unit;
+}
+
+// Reads a typed amount: "1.5", "3/2", "1 1/2", "½" or "1½". Returns null
+// when the text is not an amount.
+export function parseAmount(text: string): number | null {
+    const cleaned = FRACTION_GLYPHS
+        .reduce((result, [fraction, glyph]) => result.replace(glyph, ` ${fraction * 4}/4`), text)
+        .trim();
+    const match = cleaned.match(/^(?:(\d+)\s+)?(\d+)\/(\d+)$/);
+    if (match) {
+        const [, whole, numerator, denominator] = match;
+        if (Number(denominator) === 0) return null;
+        return Number(whole ?? 0) + Number(numerator) / Number(denominator);
+    }
+    return /^\d*\.?\d+$/.test(cleaned) ? Number(cleaned) : null;
+}
+
+export function sameAmount(a: number, b: number): boolean {
+    return Math.abs(a - b) < AMOUNT_TOLERANCE;
+}
+
+// The recipe's ingredients with their catalog units, for scaling problems
+export function measuringOptionsFor(recipe: Recipe, definitions: IngredientDefinition[]): MeasuringOptions {
+    const ingredients = definitions
+        .filter((definition) => (recipe.ingredients[definition.name] ?? 0) > 0)
+        .map((definition) => ({
+            name: definition.name,
+            quantity: recipe.ingredients[definition.name],
+            unit: definition.unit,
+            unitPlural: definition.unitPlural,
+        }));
+    return { ingredients, batches: BATCH_SIZES };
+}
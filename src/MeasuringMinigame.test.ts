@@ -0,0 +1,324 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MeasuringMinigame } from "./MeasuringMinigame";
+import { CatalogManager } from "./catalog";
+
+class FakeStage {
+  private readonly widthValue: number;
+  private readonly heightValue: number;
+  private readonly containerElement = { style: { cursor: "default" } };
+
+  constructor(widthValue: number, heightValue: number) {
+    this.widthValue = widthValue;
+    this.heightValue = heightValue;
+  }
+
+  width() {
+    return this.widthValue;
+  }
+
+  height() {
+    return this.heightValue;
+  }
+
+  container() {
+    return this.containerElement;
+  }
+}
+
+class FakeLayer {
+  readonly addedNodes: unknown[] = [];
+  readonly draw = vi.fn();
+  readonly batchDraw = vi.fn();
+
+  add(node: unknown) {
+    this.addedNodes.push(node);
+  }
+}
+
+type RectEntry = {
+  node: any;
+  config: Record<string, unknown>;
+  fillHistory: string[];
+  trigger: (event: string, evt?: { cancelBubble?: boolean }) => void;
+};
+
+const konvaState = vi.hoisted(() => ({
+  groups: [] as Array<{
+    config: Record<string, unknown>;
+    visible: () => boolean;
+    trigger: (event: string, evt?: { cancelBubble?: boolean }) => void;
+    handlers: Map<string, (evt?: { cancelBubble?: boolean }) => void>;
+    children: unknown[];
+  }>,
+  rects: [] as RectEntry[],
+  texts: [] as Array<{ config: Record<string, unknown> }>,
+}));
+
+vi.mock("./config", () => ({
+  ConfigManager: {
+    getInstance: () => ({
+      getConfig: () => ({
+        measuringProblems: 2,
+      }),
+    }),
+  },
+}));
+
+const exitButtonState = vi.hoisted(() => ({ lastCallback: null as (() => void) | null }));
+
+vi.mock("./ui/ExitButton", () => ({
+  ExitButton: class {
+    constructor(
+      _stage: unknown,
+      _layer: unknown,
+      callback: () => void
+    ) {
+      exitButtonState.lastCallback = callback;
+    }
+
+    destroy() {
+      // noop
+    }
+  },
+}));
+
+vi.mock("./ui/InfoButton", () => ({
+  InfoButton: class {
+    constructor(
+      _stage: unknown,
+      _layer: unknown,
+      _message: string
+    ) {
+      // noop
+    }
+    destroy() {}
+  },
+}));
+
+vi.mock("konva", () => {
+  type Handler = (evt?: { cancelBubble?: boolean }) => void;
+
+  class FakeNode {
+    config: Record<string, unknown>;
+    constructor(config?: Record<string, unknown>) {
+      this.config = { ...(config ?? {}) };
+    }
+  }
+
+  class FakeGroup extends FakeNode {
+    private visibleState: boolean;
+    children: unknown[] = [];
+    private handlers = new Map<string, Handler>();
+
+    constructor(config?: Record<string, unknown>) {
+      super(config);
+      this.visibleState = (config?.visible as boolean) ?? true;
+      konvaState.groups.push({
+        config: this.config,
+        visible: () => this.visible(),
+        trigger: (event: string, evt?: { cancelBubble?: boolean }) => this.trigger(event, evt),
+        handlers: this.handlers,
+        children: this.children,
+      });
+    }
+
+    add(...children: unknown[]) {
+      this.children.push(...children);
+      return this;
+    }
+
+    visible(value?: boolean) {
+      if (typeof value === "boolean") {
+        this.visibleState = value;
+      }
+      return this.visibleState;
+    }
+
+    destroyChildren() {
+      this.children = [];
+    }
+
+    destroy() {
+      this.config.destroyed = true;
+    }
+    moveToTop() {}
+
+    on(event: string, handler: Handler) {
+      this.handlers.set(event, handler);
+    }
+
+    trigger(event: string, evt?: { cancelBubble?: boolean }) {
+      const handler = this.handlers.get(event);
+      handler?.(evt);
+    }
+  }
+
+  class FakeRect extends FakeNode {
+    private handlers = new Map<string, Handler>();
+    fillHistory: string[] = [];
+    x(val?: number) {
+      if (typeof val === "number") this.config.x = val;
+      return (this.config.x as number) ?? 0;
+    }
+    y(val?: number) {
+      if (typeof val === "number") this.config.y = val;
+      return (this.config.y as number) ?? 0;
+    }
+
+    constructor(config?: Record<string, unknown>) {
+      super(config);
+      konvaState.rects.push({
+        node: this,
+        config: this.config,
+        fillHistory: this.fillHistory,
+        trigger: (event: string, evt?: { cancelBubble?: boolean }) =>
+          this.trigger(event, evt),
+      });
+    }
+
+    fill(color: string) {
+      this.fillHistory.push(color);
+      this.config.fill = color;
+    }
+
+    on(event: string, handler: Handler) {
+      this.handlers.set(event, handler);
+    }
+
+    trigger(event: string, evt: { cancelBubble?: boolean } = {}) {
+      const handler = this.handlers.get(event);
+      handler?.(evt);
+    }
+  }
+
+  class FakeCircle extends FakeNode {}
+  class FakeLine extends FakeNode {}
+
+  class FakeText extends FakeNode {
+    constructor(config?: Record<string, unknown>) {
+      super(config);
+      konvaState.texts.push({ config: this.config });
+    }
+
+    width() {
+      return (this.config.width as number) ?? 10;
+    }
+
+    text(value: string) {
+      this.config.text = value;
+    }
+
+    fill(color: string) {
+      this.config.fill = color;
+    }
+
+    y() {
+      return (this.config.y as number) ?? 0;
+    }
+
+    height() {
+      return (this.config.height as number) ?? 10;
+    }
+
+    offsetX(value: number) {
+      this.config.offsetX = value;
+    }
+
+    offsetY(value: number) {
+      this.config.offsetY = value;
+    }
+  }
+
+  return {
+    default: {
+      Group: FakeGroup,
+      Rect: FakeRect,
+      Circle: FakeCircle,
+      Line: FakeLine,
+      Text: FakeText,
+    },
+  };
+});
+
+describe("MeasuringMinigame", () => {
+  let keydownHandler: ((evt: Partial<KeyboardEvent>) => void) | null;
+  const recipe = CatalogManager.getInstance().getDefaultRecipe();
+
+  const clickButton = (fill: string) => {
+    const rect = [...konvaState.rects].reverse().find((entry) => entry.config.fill === fill);
+    konvaState.groups.find((group) => group.children.includes(rect?.node as any))?.trigger("click tap", {});
+  };
+
+  const type = (answer: string) => {
+    [...answer, "Enter"].forEach((key) => keydownHandler!({ key }));
+    vi.advanceTimersByTime(800);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    konvaState.groups.length = 0;
+    konvaState.rects.length = 0;
+    konvaState.texts.length = 0;
+    keydownHandler = null;
+
+    vi.stubGlobal("window", {
+      location: { href: "" },
+      addEventListener: vi.fn((event: string, handler: (evt: any) => void) => {
+        if (event === "keydown") keydownHandler = handler;
+      }),
+      removeEventListener: vi.fn((event: string, handler: (evt: any) => void) => {
+        if (event === "keydown" && keydownHandler === handler) {
+          keydownHandler = null;
+        }
+      }),
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("lets players skip measuring", () => {
+    const onComplete = vi.fn();
+    new MeasuringMinigame(new FakeStage(800, 600) as never, new FakeLayer() as never, recipe, onComplete, () => 0).mount();
+
+    clickButton("#e74c3c");
+    vi.advanceTimersByTime(100);
+    expect(onComplete).toHaveBeenCalledWith({ correctAnswers: 0, totalProblems: 0, timeRemaining: 0 }, true);
+  });
+
+  it("scales the recipe, accepts fractions and reports the score", () => {
+    const onComplete = vi.fn();
+    const minigame = new MeasuringMinigame(
+      new FakeStage(900, 700) as never, new FakeLayer() as never, recipe, onComplete, () => 0
+    );
+    minigame.mount();
+    clickButton("#4CAF50");
+
+    const texts = () => konvaState.texts.map((text) => text.config.text);
+    expect(texts()).toContain("½ batch: 3 cups Flour → ? cups");
+    expect(texts()).toContain("Amount 1 of 2");
+
+    type("1 1/2");
+    expect(texts()).toContain("Amount 2 of 2");
+    type("2");
+
+    expect(texts()).toContain("Measured Right: 1/2");
+    expect(texts()).toContain("Batch Quality: -8");
+    expect(texts()).toContain("½ batch: 3 cups Flour → 1½ cups (Your answer: 2)");
+
+    clickButton("#4CAF50");
+    expect(onComplete).toHaveBeenCalledWith({ correctAnswers: 1, totalProblems: 2, timeRemaining: 0 }, false);
+    minigame.unmount();
+    expect(keydownHandler).toBeNull();
+  });
+
+  it("ignores answers that are not amounts", () => {
+    new MeasuringMinigame(new FakeStage(900, 700) as never, new FakeLayer() as never, recipe, vi.fn(), () => 0).mount();
+    clickButton("#4CAF50");
+
+    type("1/");
+    expect(konvaState.texts.map((text) => text.config.text)).toContain("Amount 1 of 2");
+  });
+});
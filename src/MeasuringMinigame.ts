@@ -0,0 +1,472 @@
+import Konva from 'konva';
+import { AudioManager } from './AudioManager';
+import { MinigameResult, Recipe } from './types';
+import { ConfigManager } from './config';
+import { CatalogManager } from './catalog';
+import { ExitButton } from './ui/ExitButton';
+import { InfoButton } from './ui/InfoButton';
+import { measuringPenalty } from './Quality';
+import { formatAmount, measuringOptionsFor, MeasuringOptions, parseAmount, sameAmount } from './Measuring';
+import { measuringProblem, Problem } from './ProblemGenerator';
+import { RandomSource } from './Random';
+import { MistakeLog } from './MistakeLog';
+import { EventBus } from './EventBus';
+import { Screen, ScreenResources } from './Screen';
+
+interface Mistake {
+    question: string;
+    userAnswer: string;
+    correctAnswer: number;
+}
+
+// Measuring out today's recipe before it goes in the oven: a fixed number of
+// scaling and unit conversion problems, no timer. Every amount measured wrong
+// takes points off the batch's quality, see measuringPenalty in Quality.ts.
+export class MeasuringMinigame implements Screen {
+    private layer: Konva.Layer;
+    private stage: Konva.Stage;
+    private config = ConfigManager.getInstance().getConfig();
+    private recipe: Recipe;
+    private options: MeasuringOptions;
+    private random: RandomSource;
+    private mistakeLog: MistakeLog | null; // misses kept for the practice screen
+    private events = EventBus.getInstance(); // problems and answers go out for the teacher's report
+
+    private currentProblem!: Problem;
+    private correctAnswers: number = 0;
+    private totalProblems: number = 0;
+    private problemCount: number;
+
+    private mistakes: Mistake[] = [];
+
+    private minigameUIGroup: Konva.Group;
+    private choiceUIGroup: Konva.Group;
+    private resultsUIGroup: Konva.Group | null = null;
+
+    private progressText!: Konva.Text;
+    private problemText!: Konva.Text;
+    private feedbackText!: Konva.Text;
+    private inputText!: Konva.Text;
+
+    private userInput: string = '';
+    private waitingForNext = false;
+
+    private onComplete: (result: MinigameResult, skipped: boolean) => void;
+    private keyboardHandler: (e: KeyboardEvent) => void;
+    private resources = new ScreenResources();
+
+    constructor(
+        stage: Konva.Stage,
+        layer: Konva.Layer,
+        recipe: Recipe,
+        onComplete: (result: MinigameResult, skipped: boolean) => void,
+        random: RandomSource = Math.random,
+        mistakeLog?: MistakeLog
+    ) {
+        this.stage = stage;
+        this.layer = layer;
+        this.recipe = recipe;
+        this.onComplete = onComplete;
+        this.random = random;
+        this.mistakeLog = mistakeLog ?? null;
+        this.options = measuringOptionsFor(recipe, CatalogManager.getInstance().getIngredients());
+        this.problemCount = Math.max(1, this.config.measuringProblems);
+        this.keyboardHandler = this.handleKeyPress.bind(this);
+
+        this.minigameUIGroup = new Konva.Group({ visible: false, name: 'minigameUI' });
+        this.choiceUIGroup = new Konva.Group({ visible: false, name: 'choiceUI' });
+    }
+
+    public mount(): void {
+        this.layer.add(this.minigameUIGroup);
+        this.layer.add(this.choiceUIGroup);
+        this.showPlaySkipChoice();
+    }
+
+    // Laid out once for the stage size it was mounted at; untimed
+    public resize(): void {}
+    public pause(): void {}
+    public resume(): void {}
+
+    private createButton(
+        label: string, x: number, y: number, width: number, height: number,
+        fill: string, hoverFill: string, onClick: () => void
+    ): Konva.Group {
+        const group = new Konva.Group({ x, y });
+        const rect = new Konva.Rect({
+            width, height, fill, cornerRadius: 10,
+            shadowColor: 'black', shadowBlur: 5, shadowOpacity: 0.2, shadowOffset: { x: 2, y: 2 }
+        });
+        const text = new Konva.Text({
+            width, height, text: label,
+            fontSize: Math.min(this.stage.width() * 0.08, 20),
+            fill: 'white', align: 'center', verticalAlign: 'middle',
+            fontFamily: '"Press Start 2P"', listening: false
+        });
+        group.add(rect, text);
+
+        group.on('click tap', (evt) => {
+            evt.cancelBubble = true;
+            AudioManager.getInstance().playSfx('click');
+            onClick();
+        });
+        group.on('mouseenter', () => {
+            this.stage.container().style.cursor = 'pointer';
+            rect.fill(hoverFill);
+            this.layer.batchDraw();
+        });
+        group.on('mouseleave', () => {
+            this.stage.container().style.cursor = 'default';
+            rect.fill(fill);
+            this.layer.batchDraw();
+        });
+        return group;
+    }
+
+    private showPlaySkipChoice(): void {
+        this.choiceUIGroup.destroyChildren();
+        const stageWidth = this.stage.width();
+        const stageHeight = this.stage.height();
+
+        const modalWidth = stageWidth * 0.7;
+        const modalHeight = stageHeight * 0.7;
+        const modalX = (stageWidth - modalWidth) / 2;
+        const modalY = (stageHeight - modalHeight) / 2;
+
+        const modalBg = new Konva.Rect({
+            x: modalX, y: modalY, width: modalWidth, height: modalHeight,
+            fill: '#FFFFFF',
+            cornerRadius: 15,
+            stroke: '#da5552',
+            strokeWidth: 4,
+            shadowColor: 'black', shadowBlur: 10, shadowOpacity: 0.3, shadowOffset: { x: 3, y: 3 }
+        });
+        this.choiceUIGroup.add(modalBg);
+
+        const titleText = new Konva.Text({
+            x: modalX, y: modalY + modalHeight * 0.1, width: modalWidth,
+            text: 'MEASURE IT OUT!',
+            fontSize: Math.min(stageWidth * 0.035, 36),
+            fontFamily: '"Press Start 2P"',
+            fill: '#F39C12',
+            align: 'center',
+            stroke: '#da5552',
+            strokeWidth: 2,
+            shadowColor: 'black', shadowBlur: 2, shadowOffset: { x: 1, y: 1 }
+        });
+        this.choiceUIGroup.add(titleText);
+
+        const explainText = new Konva.Text({
+            x: modalX + modalWidth * 0.1,
+            y: titleText.y() + titleText.height() + modalHeight * 0.08,
+            width: modalWidth * 0.8,
+            text: [
+                `Measure the ingredients for ${this.recipe.name}: ${this.problemCount} amounts to get right.`,
+                'Remember: 3 tsp = 1 tbsp and 16 tbsp = 1 cup.',
+                'Every amount measured wrong lowers the quality of today\'s batch. Skipping means eyeballing it!'
+            ].join('\n\n'),
+            fontSize: Math.min(stageWidth * 0.022, 24),
+            fill: '#333',
+            align: 'center',
+            lineHeight: 1.6,
+            fontFamily: '"Nunito"',
+            fontStyle: 'bold'
+        });
+        this.choiceUIGroup.add(explainText);
+
+        const buttonWidth = modalWidth * 0.2;
+        const buttonHeight = modalHeight * 0.15;
+        const buttonGap = modalWidth * 0.2;
+        const buttonY = modalY + modalHeight - buttonHeight - 40;
+        const modalCenterX = modalX + (modalWidth / 2);
+
+        this.choiceUIGroup.add(this.createButton(
+            'PLAY', modalCenterX - buttonWidth - (buttonGap / 2), buttonY, buttonWidth, buttonHeight,
+            '#4CAF50', '#45a049',
+            () => {
+                this.choiceUIGroup.visible(false);
+                this.showMinigameUI();
+            }
+        ));
+        this.choiceUIGroup.add(this.createButton(
+            'SKIP', modalCenterX + (buttonGap / 2), buttonY, buttonWidth, buttonHeight,
+            '#e74c3c', '#c0392b',
+            () => {
+                this.choiceUIGroup.visible(false);
+                this.endMinigame(true);
+            }
+        ));
+
+        this.choiceUIGroup.visible(true);
+        this.layer.batchDraw();
+    }
+
+    private showMinigameUI(): void {
+        this.minigameUIGroup.visible(true);
+        this.setupUI();
+        this.generateNewProblem();
+        this.resources.listen('keydown', this.keyboardHandler);
+        this.layer.batchDraw();
+    }
+
+    private setupUI(): void {
+        const stageWidth = this.stage.width();
+        const stageHeight = this.stage.height();
+
+        const title = new Konva.Text({
+            x: 0,
+            y: stageHeight * 0.05,
+            width: stageWidth,
+            text: 'Measuring Minigame - Get the Amounts Right!',
+            fontSize: Math.min(stageWidth * 0.025, 24),
+            fill: '#2c3e50',
+            fontStyle: 'bold',
+            fontFamily: 'Press Start 2P',
+            align: 'center'
+        });
+        this.minigameUIGroup.add(title);
+
+        this.progressText = new Konva.Text({
+            x: 0,
+            y: stageHeight * 0.12,
+            width: stageWidth,
+            text: '',
+            fontSize: Math.min(stageWidth * 0.02, 24),
+            fill: '#34495e',
+            align: 'center',
+            fontFamily: 'Nunito'
+        });
+        this.minigameUIGroup.add(this.progressText);
+
+        this.problemText = new Konva.Text({
+            x: 0,
+            y: stageHeight * 0.3,
+            width: stageWidth,
+            text: '',
+            fontSize: Math.min(stageWidth * 0.036, 44),
+            fill: '#2c3e50',
+            fontStyle: 'bold',
+            align: 'center',
+            fontFamily: 'Nunito'
+        });
+        this.minigameUIGroup.add(this.problemText);
+
+        const inputBoxY = stageHeight * 0.45;
+        const inputBoxHeight = stageHeight * 0.08;
+
+        const inputBox = new Konva.Rect({
+            x: stageWidth * 0.35,
+            y: inputBoxY,
+            width: stageWidth * 0.3,
+            height: inputBoxHeight,
+            fill: '#ecf0f1',
+            stroke: '#3498db',
+            strokeWidth: 3,
+            cornerRadius: 5
+        });
+        this.minigameUIGroup.add(inputBox);
+
+        this.inputText = new Konva.Text({
+            x: stageWidth * 0.35,
+            y: inputBoxY + (inputBoxHeight * 0.2),
+            text: '',
+            fontSize: Math.min(stageWidth * 0.036, 44),
+            fill: '#2c3e50',
+            width: stageWidth * 0.3,
+            align: 'center'
+        });
+        this.minigameUIGroup.add(this.inputText);
+
+        this.feedbackText = new Konva.Text({
+            x: 0,
+            y: inputBoxY + inputBoxHeight + 30,
+            width: stageWidth,
+            text: '',
+            fontSize: Math.min(stageWidth * 0.028, 34),
+            fontFamily: 'Nunito',
+            fill: '#27ae60',
+            align: 'center'
+        });
+        this.minigameUIGroup.add(this.feedbackText);
+
+        const instructions = new Konva.Text({
+            x: 0,
+            y: stageHeight * 0.75,
+            width: stageWidth,
+            text: 'Type the amount (like 1.5 or 1 1/2) and press ENTER',
+            fontSize: Math.min(stageWidth * 0.018, 22),
+            fill: '#7f8c8d',
+            align: 'center',
+            fontFamily: 'Nunito'
+        });
+        this.minigameUIGroup.add(instructions);
+
+        new ExitButton(this.stage, this.layer, () => {
+            this.unmount();
+            window.location.href = '/login.html';
+        });
+
+        this.resources.widget(new InfoButton(
+            this.stage,
+            this.layer,
+            'Scale the recipe for the batch size shown, or convert between units.\n\n3 tsp = 1 tbsp\n16 tbsp = 1 cup\n\nYou can type fractions like 1/2 or 1 1/2, or decimals like 1.5.'
+        ));
+    }
+
+    private generateNewProblem(): void {
+        this.currentProblem = measuringProblem(this.options, this.random);
+        this.events.emit('problemShown', { minigame: 'measuring', problem: this.currentProblem });
+        this.problemText.text(this.currentProblem.display);
+        this.progressText.text(`Amount ${this.totalProblems + 1} of ${this.problemCount}`);
+        this.layer.draw();
+    }
+
+    private handleKeyPress(e: KeyboardEvent): void {
+        if (!this.minigameUIGroup.visible() || this.waitingForNext || this.resultsUIGroup) return;
+        if (e.key === 'Enter') this.checkAnswer();
+        else if (e.key === 'Backspace') {
+            this.userInput = this.userInput.slice(0, -1);
+            this.updateInputDisplay();
+        } else if (/^[0-9./ ]$/.test(e.key) && this.userInput.length < 8) {
+            this.userInput += e.key;
+            this.updateInputDisplay();
+        }
+    }
+
+    private updateInputDisplay(): void {
+        this.inputText.text(this.userInput);
+        this.layer.draw();
+    }
+
+    private checkAnswer(): void {
+        const userAnswer = parseAmount(this.userInput);
+        if (userAnswer === null) return;
+        this.totalProblems++;
+        const correct = sameAmount(userAnswer, this.currentProblem.answer);
+        this.events.emit('answerSubmitted', { minigame: 'measuring', problem: this.currentProblem, correct });
+
+        if (correct) {
+            this.correctAnswers++;
+            this.showFeedback('Measured right! ✓', '#27ae60');
+        } else {
+            this.showFeedback(`Not quite: ${formatAmount(this.currentProblem.answer)} ✗`, '#e74c3c');
+            this.mistakeLog?.record(this.currentProblem);
+            this.mistakes.push({
+                question: this.currentProblem.display,
+                userAnswer: this.userInput.trim(),
+                correctAnswer: this.currentProblem.answer
+            });
+        }
+
+        this.userInput = '';
+        this.updateInputDisplay();
+        this.waitingForNext = true;
+        this.resources.timeout(() => {
+            this.waitingForNext = false;
+            this.showFeedback('', 'transparent');
+            if (this.totalProblems >= this.problemCount) this.endMinigame(false);
+            else this.generateNewProblem();
+        }, 800);
+    }
+
+    private showFeedback(message: string, color: string): void {
+        this.feedbackText.text(message);
+        this.feedbackText.fill(color);
+        this.layer.draw();
+    }
+
+    private getResult(): MinigameResult {
+        return {
+            correctAnswers: this.correctAnswers,
+            totalProblems: this.totalProblems,
+            timeRemaining: 0
+        };
+    }
+
+    private showResultsPopup(): void {
+        const stageWidth = this.stage.width();
+        const stageHeight = this.stage.height();
+
+        this.resultsUIGroup = new Konva.Group();
+
+        const overlay = new Konva.Rect({
+            width: stageWidth, height: stageHeight, fill: 'black', opacity: 0.5
+        });
+        const boxWidth = Math.min(600, stageWidth * 0.9);
+        const boxHeight = Math.min(500, stageHeight * 0.8);
+        const box = new Konva.Rect({
+            x: (stageWidth - boxWidth) / 2, y: (stageHeight - boxHeight) / 2,
+            width: boxWidth, height: boxHeight,
+            fill: 'white', cornerRadius: 15, stroke: '#333', strokeWidth: 2
+        });
+        this.resultsUIGroup.add(overlay, box);
+
+        const headerText = new Konva.Text({
+            x: box.x(), y: box.y() + 20,
+            width: boxWidth,
+            text: 'ALL MEASURED!',
+            fontSize: 30, fontFamily: 'Press Start 2P', fill: '#E67E22', align: 'center'
+        });
+        this.resultsUIGroup.add(headerText);
+
+        const scoreText = new Konva.Text({
+            x: box.x(), y: headerText.y() + 50,
+            width: boxWidth,
+            text: `Measured Right: ${this.correctAnswers}/${this.totalProblems}`,
+            fontSize: 20, fontFamily: 'Press Start 2P', fill: '#333', align: 'center'
+        });
+        this.resultsUIGroup.add(scoreText);
+
+        const penalty = measuringPenalty(this.getResult(), false);
+        const penaltyText = new Konva.Text({
+            x: box.x(), y: scoreText.y() + 35,
+            width: boxWidth,
+            text: penalty > 0 ? `Batch Quality: -${penalty}` : 'Batch Quality: no penalty',
+            fontSize: 16, fontFamily: 'Press Start 2P', fill: '#6A1B9A', align: 'center'
+        });
+        this.resultsUIGroup.add(penaltyText);
+
+        let contentY = penaltyText.y() + 45;
+        this.mistakes.slice(0, 5).forEach(m => {
+            const item = new Konva.Text({
+                x: box.x(), y: contentY,
+                width: boxWidth,
+                text: `${m.question.replace('?', formatAmount(m.correctAnswer))} (Your answer: ${m.userAnswer})`,
+                fontSize: 16, fill: '#333', align: 'center', fontFamily: 'Nunito'
+            });
+            this.resultsUIGroup!.add(item);
+            contentY += 25;
+        });
+
+        const btnWidth = 150;
+        const btnHeight = 50;
+        this.resultsUIGroup.add(this.createButton(
+            'CONTINUE', box.x() + (boxWidth - btnWidth) / 2, box.y() + boxHeight - 80, btnWidth, btnHeight,
+            '#4CAF50', '#45a049',
+            () => {
+                this.resultsUIGroup?.destroy();
+                this.onComplete(this.getResult(), false);
+            }
+        ));
+
+        this.layer.add(this.resultsUIGroup);
+        this.resultsUIGroup.moveToTop();
+        this.layer.draw();
+    }
+
+    private endMinigame(skipped: boolean): void {
+        this.resources.unlisten('keydown', this.keyboardHandler);
+        if (skipped) {
+            this.resources.timeout(() => this.onComplete({ correctAnswers: 0, totalProblems: 0, timeRemaining: 0 }, true), 100);
+        } else {
+            this.showResultsPopup();
+        }
+    }
+
+    public unmount(): void {
+        this.resources.dispose();
+        this.choiceUIGroup.destroy();
+        this.minigameUIGroup.destroy();
+        if (this.resultsUIGroup) this.resultsUIGroup.destroy();
+    }
+}
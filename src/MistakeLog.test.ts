@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { describeDue, MistakeLog, parseMistakeLog, REVIEW_INTERVAL_DAYS } from "./MistakeLog";
+import type { Problem } from "./ProblemGenerator";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const problem = (display: string, answer: number): Problem => ({
+  operands: [],
+  operator: "×",
+  answer,
+  display,
+  skill: "multiplication",
+});
+
+describe("MistakeLog", () => {
+  it("keeps one entry per question and restarts it when missed again", () => {
+    let now = 1000;
+    const log = new MistakeLog([], () => now);
+    log.record(problem("7 × 8", 56));
+    log.review("7 × 8", true);
+    now += 5000;
+    log.record(problem("7 × 8", 56));
+
+    expect(log.getMistakes()).toEqual([
+      { question: "7 × 8", answer: 56, skill: "multiplication", box: 0, dueAt: now, misses: 2, lastMissedAt: now },
+    ]);
+  });
+
+  it("spaces reviews out and drops a problem once it is learned", () => {
+    let now = 0;
+    const log = new MistakeLog([], () => now);
+    log.record(problem("56 ÷ 8", 7));
+
+    REVIEW_INTERVAL_DAYS.slice(1).forEach((days, box) => {
+      expect(log.due()).toHaveLength(1);
+      log.review("56 ÷ 8", true);
+      expect(log.getMistakes()[0]).toMatchObject({ box: box + 1, dueAt: now + days * DAY_MS });
+      expect(log.due()).toHaveLength(0);
+      now += days * DAY_MS;
+    });
+
+    log.review("56 ÷ 8", true);
+    expect(log.getMistakes()).toEqual([]);
+    expect(log.nextDueAt()).toBeNull();
+  });
+
+  it("sends a wrong review back to the first box", () => {
+    let now = 0;
+    const log = new MistakeLog([], () => now);
+    log.record(problem("6 × 7", 42));
+    log.review("6 × 7", true);
+    now = 2 * DAY_MS;
+    log.review("6 × 7", false);
+    expect(log.getMistakes()[0]).toMatchObject({ box: 0, dueAt: now, misses: 2 });
+  });
+
+  it("serves the least known problems first", () => {
+    const now = 10 * DAY_MS;
+    const log = new MistakeLog(
+      [
+        { question: "a", answer: 1, skill: "addition", box: 2, dueAt: 0, misses: 1, lastMissedAt: 0 },
+        { question: "b", answer: 2, skill: "addition", box: 0, dueAt: 5, misses: 1, lastMissedAt: 0 },
+        { question: "c", answer: 3, skill: "addition", box: 1, dueAt: now + 1, misses: 1, lastMissedAt: 0 },
+      ],
+      () => now
+    );
+    expect(log.due().map((m) => m.question)).toEqual(["b", "a"]);
+    expect(log.due(1).map((m) => m.question)).toEqual(["b"]);
+    expect(log.nextDueAt()).toBe(0);
+  });
+
+  it("reads back a stored log, dropping anything malformed", () => {
+    expect(parseMistakeLog(undefined)).toEqual([]);
+    expect(
+      parseMistakeLog([
+        { question: "7 × 8", answer: 56, skill: "multiplication", box: 9, dueAt: 5 },
+        { question: "no answer", skill: "addition" },
+        null,
+      ])
+    ).toEqual([
+      { question: "7 × 8", answer: 56, skill: "multiplication", box: 3, dueAt: 5, misses: 1, lastMissedAt: 0 },
+    ]);
+  });
+
+  it("describes when a review is due", () => {
+    expect(describeDue(0, 10)).toBe("now");
+    expect(describeDue(DAY_MS, 0)).toBe("tomorrow");
+    expect(describeDue(3 * DAY_MS - 5, 0)).toBe("in 3 days");
+  });
+});
@@ -0,0 +1,129 @@
+import { Problem, Skill } from './ProblemGenerator';
+
+// Mistake log
+// -----------
+// Problems a student got wrong in the minigames are kept on their profile
+// and asked again on the practice screen, Leitner style:
+//     a miss puts the problem in box 0, due straight away
+//     a right answer moves it up a box, due REVIEW_INTERVAL_DAYS[box] later
+//     a right answer in the last box means it is learned, and it is dropped
+export const REVIEW_INTERVAL_DAYS = [0, 1, 3, 7];
+export const PRACTICE_ROUND_SIZE = 10;
+const MAX_LOGGED_MISTAKES = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LoggedMistake {
+    question: string; // the problem as the player saw it
+    answer: number;
+    skill: Skill;
+    box: number;
+    dueAt: number;
+    misses: number;
+    lastMissedAt: number;
+}
+
+// Rebuilds a log read back from storage, dropping anything malformed
+export function parseMistakeLog(data: any): LoggedMistake[] {
+    if (!Array.isArray(data)) return [];
+    return data
+        .filter((m: any) => m && typeof m.question === 'string' && typeof m.answer === 'number' && typeof m.skill === 'string')
+        .map((m: any) => ({
+            question: m.question,
+            answer: m.answer,
+            skill: m.skill,
+            box: Math.max(0, Math.min(REVIEW_INTERVAL_DAYS.length - 1, Math.round(Number(m.box) || 0))),
+            dueAt: Number(m.dueAt) || 0,
+            misses: Number(m.misses) || 1,
+            lastMissedAt: Number(m.lastMissedAt) || 0,
+        }));
+}
+
+export class MistakeLog {
+    private mistakes: LoggedMistake[];
+    private now: () => number;
+
+    constructor(mistakes: LoggedMistake[] = [], now: () => number = Date.now) {
+        this.mistakes = mistakes.map((m) => ({ ...m }));
+        this.now = now;
+    }
+
+    public getMistakes(): LoggedMistake[] {
+        return this.mistakes.map((m) => ({ ...m }));
+    }
+
+    // A miss in a minigame; the same question missed again starts over
+    public record(problem: Problem): void {
+        const now = this.now();
+        const existing = this.mistakes.find((m) => m.question === problem.display);
+        if (existing) {
+            existing.box = 0;
+            existing.dueAt = now;
+            existing.misses++;
+            existing.lastMissedAt = now;
+            return;
+        }
+        this.mistakes.push({
+            question: problem.display,
+            answer: problem.answer,
+            skill: problem.skill,
+            box: 0,
+            dueAt: now,
+            misses: 1,
+            lastMissedAt: now,
+        });
+        // Forgets the oldest misses first so the profile stays small
+        if (this.mistakes.length > MAX_LOGGED_MISTAKES) {
+            this.mistakes.sort((a, b) => a.lastMissedAt - b.lastMissedAt);
+            this.mistakes.splice(0, this.mistakes.length - MAX_LOGGED_MISTAKES);
+        }
+    }
+
+    // Problems due for review, lowest box (least known) first
+    public due(limit: number = PRACTICE_ROUND_SIZE): LoggedMistake[] {
+        const now = this.now();
+        return this.mistakes
+            .filter((m) => m.dueAt <= now)
+            .sort((a, b) => a.box - b.box || a.dueAt - b.dueAt)
+            .slice(0, limit)
+            .map((m) => ({ ...m }));
+    }
+
+    // When the next problem comes due, or null if the log is empty
+    public nextDueAt(): number | null {
+        if (this.mistakes.length === 0) return null;
+        return Math.min(...this.mistakes.map((m) => m.dueAt));
+    }
+
+    // "tomorrow", "in 3 days"..., or null if the log is empty
+    public describeNextDue(): string | null {
+        const next = this.nextDueAt();
+        return next === null ? null : describeDue(next, this.now());
+    }
+
+    public review(question: string, correct: boolean): void {
+        const index = this.mistakes.findIndex((m) => m.question === question);
+        if (index < 0) return;
+        const mistake = this.mistakes[index];
+        const now = this.now();
+        if (!correct) {
+            mistake.box = 0;
+            mistake.dueAt = now;
+            mistake.misses++;
+            mistake.lastMissedAt = now;
+            return;
+        }
+        if (mistake.box >= REVIEW_INTERVAL_DAYS.length - 1) {
+            this.mistakes.splice(index, 1);
+            return;
+        }
+        mistake.box++;
+        mistake.dueAt = now + REVIEW_INTERVAL_DAYS[mistake.box] * DAY_MS;
+    }
+}
+
+// "now", "tomorrow" or "in 3 days", for the practice screen
+export function describeDue(dueAt: number, now: number = Date.now()): string {
+    const days = Math.ceil((dueAt - now) / DAY_MS);
+    if (days <= 0) return 'now';
+    return days === 1 ? 'tomorrow' : `in ${days} days`;
+}
@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { OrderScreen } from "./OrderScreen";
+import { SeededRandom } from "./Random";
 
 class FakeStage {
   private readonly widthValue: number;
@@ -67,7 +68,9 @@ vi.mock("./ui/ExitButton", () => ({
 }));
 
 vi.mock("./ui/InfoButton", () => ({
-  InfoButton: class {},
+  InfoButton: class {
+    destroy() {}
+  },
 }));
 
 vi.mock("konva", () => {
@@ -78,6 +81,7 @@ vi.mock("konva", () => {
     constructor(config?: Record<string, unknown>) {
       this.config = { ...(config ?? {}) };
     }
+    destroy() {}
   }
 
   class FakeGroup extends FakeNode {
@@ -171,7 +175,7 @@ describe("OrderScreen", () => {
     const layer = new FakeLayer();
     const onContinue = vi.fn();
 
-    new OrderScreen(stage as never, layer as never, 2, 1.2, onContinue);
+    new OrderScreen(stage as never, layer as never, 2, 1.2, onContinue).mount();
 
     const texts = konvaState.texts.map((entry) => entry.config.text);
     expect(texts).toContain("DAY 2");
@@ -192,4 +196,53 @@ describe("OrderScreen", () => {
     expect(hoverRect.fillHistory).toContain("#45a049");
     expect(hoverRect.fillHistory).toContain("#4CAF50");
   });
+
+  it("gives every customer a flavor from the catalog and lists it on the receipt", () => {
+    // Two customers at this reputation; each rolls a cookie count, then a flavor
+    randomValues.push(0.5, 0.9, 0.5, 0.1);
+    const onContinue = vi.fn();
+
+    new OrderScreen(new FakeStage(1200, 800) as never, new FakeLayer() as never, 1, 0.2, onContinue).mount();
+
+    const buttonGroup = konvaState.groups.find((group) => group.handlers.has("click"));
+    buttonGroup!.handlers.get("click")!();
+    const orders = onContinue.mock.calls[0][1];
+    expect(orders).toHaveLength(2);
+    expect(orders[0].recipeId).toBe("double-chocolate");
+    expect(orders[1].recipeId).toBe("chocolate-chip");
+
+    const texts = konvaState.texts.map((entry) => entry.config.text);
+    expect(texts).toContain(`${orders[0].cookieCount} DBL CHOC`);
+    expect(texts).toContain(`${orders[1].cookieCount} CHOC CHIP`);
+  });
+
+  it("orders more cookies when the price is low and fewer when it is high", () => {
+    // Math.random() stays at 0, so each of the 7 customers starts from 1.0 * 4 - 2 = 2 cookies
+    const demandAt = (priceRatio: number) => {
+      konvaState.groups.length = 0;
+      const onContinue = vi.fn();
+      new OrderScreen(new FakeStage(1200, 800) as never, new FakeLayer() as never, 1, 1.0, onContinue, priceRatio).mount();
+      konvaState.groups.find((group) => group.handlers.has("click"))!.handlers.get("click")!();
+      return onContinue.mock.calls[0][0];
+    };
+
+    expect(demandAt(1)).toBe(7 * 2);
+    expect(demandAt(0.5)).toBe(7 * 5);
+    expect(demandAt(1.5)).toBe(7 * 1);
+  });
+
+  it("generates the same orders for the same seed and day", () => {
+    const ordersFor = (seed: number, day: number) => {
+      konvaState.groups.length = 0;
+      const onContinue = vi.fn();
+      const random = new SeededRandom(seed).stream(day, "orders");
+      new OrderScreen(new FakeStage(1200, 800) as never, new FakeLayer() as never, day, 1.0, onContinue, 1, random).mount();
+      konvaState.groups.find((group) => group.handlers.has("click"))!.handlers.get("click")!();
+      return onContinue.mock.calls[0][1];
+    };
+
+    expect(ordersFor(31, 1)).toEqual(ordersFor(31, 1));
+    expect(ordersFor(31, 1)).not.toEqual(ordersFor(31, 2));
+    expect(mathRandomSpy).not.toHaveBeenCalled();
+  });
 });
@@ -1,34 +1,54 @@
 import Konva from 'konva';
+import { AudioManager } from './AudioManager';
 import { ExitButton } from './ui/ExitButton';
 import { InfoButton } from './ui/InfoButton';
 import { getAssetPath } from './utils';
+import { CatalogManager } from './catalog';
+import { CustomerOrder } from './types';
+import { cookiesWanted } from './Demand';
+import { RandomSource } from './Random';
+import { Screen, ScreenResources } from './Screen';
 
-export class OrderScreen {
+export class OrderScreen implements Screen {
     private layer: Konva.Layer;
     private stage: Konva.Stage;
-    private onContinue: (totalDemand: number, customerOrders: Array<{customerNum: number, cookieCount: number}>) => void;
+    private onContinue: (totalDemand: number, customerOrders: CustomerOrder[]) => void;
     private currentDay: number;
     private reputation: number; 
+    private priceRatio: number; // today's price compared with the list price
+    private random: RandomSource; // today's order stream on a seeded run
     private totalDemand: number = 0;
-    private customerOrders: Array<{customerNum: number, cookieCount: number}> = [];
+    private customerOrders: CustomerOrder[] = [];
     private rootGroup: Konva.Group | null = null;
+    private resources = new ScreenResources();
 
     constructor(
         stage: Konva.Stage, 
         layer: Konva.Layer, 
         currentDay: number, 
         reputation: number, 
-        onContinue: (totalDemand: number, customerOrders: Array<{customerNum: number, cookieCount: number}>) => void
+        onContinue: (totalDemand: number, customerOrders: CustomerOrder[]) => void,
+        priceRatio: number = 1,
+        random: RandomSource = Math.random
     ) {
         this.stage = stage;
         this.layer = layer;
         this.currentDay = currentDay;
         this.reputation = reputation; 
         this.onContinue = onContinue;
+        this.priceRatio = priceRatio;
+        this.random = random;
+    }
 
+    public mount(): void {
         this.setupUI();
     }
 
+    // Laid out once for the stage size it was mounted at
+    public resize(): void {}
+    public pause(): void {}
+    public resume(): void {}
+
     private setupUI(): void {
         const stageWidth = this.stage.width();
         const stageHeight = this.stage.height();
@@ -46,10 +66,10 @@ export class OrderScreen {
 
         // Exit & Info buttons
         new ExitButton(this.stage, this.layer, () => {
-            this.cleanup();
+            this.unmount();
             window.location.href = '/login.html';
         });
-        new InfoButton(this.stage, this.layer);
+        this.resources.widget(new InfoButton(this.stage, this.layer));
         
 
         this.layer.batchDraw(); 
@@ -123,6 +143,7 @@ export class OrderScreen {
             const rawNumCustomers = 1 + Math.floor(this.reputation * (MAX_CUSTOMER_LINES - 1));
             const numCustomers = Math.min(MAX_CUSTOMER_LINES, Math.max(1, rawNumCustomers));
 
+            const recipes = CatalogManager.getInstance().getRecipes();
             const fontSize = Math.min(stageWidth * 0.013, 15);
             const LEFT_PADDING = 10;
             //RIGHT_PADDING unused
@@ -130,10 +151,13 @@ export class OrderScreen {
             for (let i = 1; i <= numCustomers; i++) {
                 // updated calculation for cookieCount for each customer, decreased base cookie number based of reputation
                 // scale cookie demand based from reputation + add some variation between -2 and +1 cookies
-                const cookieCount = Math.max(1, Math.floor((this.reputation * 4) + (Math.random() * 3 - 2)));
+                // then scale it by today's price, see the demand curve in Demand.ts
+                const cookieCount = cookiesWanted((this.reputation * 4) + (this.random() * 3 - 2), this.priceRatio);
                 this.totalDemand += cookieCount;
 
-                this.customerOrders.push({ customerNum: i, cookieCount });
+                // Each customer wants a single flavor
+                const recipe = recipes[Math.floor(this.random() * recipes.length)];
+                this.customerOrders.push({ customerNum: i, cookieCount, recipeId: recipe.id });
 
                 // Customer name (left)
                 const customerName = new Konva.Text({
@@ -148,12 +172,12 @@ export class OrderScreen {
                 });
                 receiptGroup.add(customerName);
 
-                // Cookie count (right)
+                // Cookie count and flavor (right)
                 const cookieCountText = new Konva.Text({
                     x: receiptWidth * 0.525 + LEFT_PADDING,
                     y: currentY,
                     width: receiptWidth * 0.35,
-                    text: `${cookieCount} COOKIES`,
+                    text: `${cookieCount} ${recipe.shortName}`,
                     fontSize,
                     fontFamily: 'Doto',
                     fill: 'black',
@@ -226,6 +250,7 @@ export class OrderScreen {
 
         let clicked = false;
         buttonGroup.on('click', () => {
+            AudioManager.getInstance().playSfx('click');
             if (clicked) return;
             clicked = true;
             rect.fill('#2e7d32');
@@ -248,7 +273,8 @@ export class OrderScreen {
         else this.layer.add(buttonGroup);
     }
 
-    public cleanup(): void {
+    public unmount(): void {
+        this.resources.dispose();
         if (this.rootGroup) {
             this.rootGroup.remove();
             this.rootGroup = null;
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { ageStock, bakeForOrders, countStock, gradeBatch, maxCookiesFor, priceAtQuality } from "./Oven";
+import { CatalogManager } from "./catalog";
+import { Bread } from "./types";
+
+// Exactly enough for `count` sugar cookies (2 flour, 4 butter, 2 sugar, 1 soda each)
+const sugarPantry = (count: number) =>
+  new Map([
+    ["Flour", 2 * count],
+    ["Butter", 4 * count],
+    ["Sugar", 2 * count],
+    ["Baking Soda", count],
+  ]);
+
+describe("bakeForOrders", () => {
+  it("bakes only what the line ordered and keeps the rest of the pantry", () => {
+    const result = bakeForOrders([{ customerNum: 1, cookieCount: 3, recipeId: "sugar" }], [], sugarPantry(5), 20, 2);
+
+    expect(result.baked).toBe(3);
+    expect(result.stock).toEqual([{ recipeId: "sugar", quantity: 3, quality: 100, bakedDay: 2 }]);
+    expect(result.pantry.get("Flour")).toBe(4);
+  });
+
+  it("stops at the oven capacity", () => {
+    const result = bakeForOrders(
+      [
+        { customerNum: 1, cookieCount: 4, recipeId: "sugar" },
+        { customerNum: 2, cookieCount: 4, recipeId: "sugar" },
+      ],
+      [],
+      sugarPantry(10),
+      6,
+      1
+    );
+
+    expect(result.baked).toBe(6);
+    expect(result.pantry.get("Baking Soda")).toBe(4);
+  });
+
+  it("uses carried-over cookies before baking more", () => {
+    const carried: Bread[] = [{ recipeId: "sugar", quantity: 2, quality: 75, bakedDay: 1 }];
+    const result = bakeForOrders([{ customerNum: 1, cookieCount: 3, recipeId: "sugar" }], carried, sugarPantry(1), 20, 2);
+
+    expect(result.baked).toBe(1);
+    expect(countStock(result.stock, "sugar")).toBe(3);
+    // the caller's stock is not modified
+    expect(carried).toHaveLength(1);
+  });
+
+  it("computes how many cookies a pantry can make", () => {
+    const recipe = CatalogManager.getInstance().getRecipe("sugar")!;
+    expect(maxCookiesFor(recipe, sugarPantry(3))).toBe(3);
+    expect(maxCookiesFor(recipe, new Map())).toBe(0);
+  });
+});
+
+describe("ageStock", () => {
+  it("lowers quality each night and throws out stale cookies", () => {
+    const stock: Bread[] = [
+      { recipeId: "sugar", quantity: 3, quality: 100, bakedDay: 3 },
+      { recipeId: "double-chocolate", quantity: 2, quality: 80, bakedDay: 3 },
+    ];
+
+    const nextDay = ageStock(stock);
+    expect(nextDay.stock.map((b) => b.quality)).toEqual([75, 55]);
+    expect(nextDay.stale).toBe(0);
+
+    const later = ageStock(nextDay.stock);
+    expect(later.stock).toEqual([{ recipeId: "sugar", quantity: 3, quality: 50, bakedDay: 3 }]);
+    expect(later.stale).toBe(2);
+  });
+
+  it("grades only the batch baked on the given day", () => {
+    const stock: Bread[] = [
+      { recipeId: "sugar", quantity: 1, quality: 75, bakedDay: 1 },
+      { recipeId: "sugar", quantity: 4, quality: 100, bakedDay: 2 },
+    ];
+    expect(gradeBatch(stock, 2, 85).map((b) => b.quality)).toEqual([75, 85]);
+    expect(stock[1].quality).toBe(100);
+  });
+
+  it("prices cookies by quality, to the cent", () => {
+    expect(priceAtQuality(15, 75)).toBe(11.25);
+    expect(priceAtQuality(8, 50)).toBe(4);
+  });
+});
@@ -0,0 +1,111 @@
+import { CatalogManager } from './catalog';
+import { Bread, CustomerOrder, Recipe } from './types';
+
+// Cookies leave the oven at full quality and lose some every night
+export const FRESH_QUALITY = 100;
+export const QUALITY_LOSS_PER_NIGHT = 25;
+// Below this quality a cookie is too stale to sell and is thrown out
+export const MIN_SELLABLE_QUALITY = 50;
+// Cookies per day added to the oven by each upgrade
+export const OVEN_UPGRADE_STEP = 5;
+
+// What the oven did today, for the day summary
+export interface DayProduction {
+    baked: number;
+    stale: number; // unsold cookies thrown out overnight
+    quality: number | null; // today's batch, see Quality.ts; null until graded
+}
+
+export interface BakeResult {
+    stock: Bread[];               // carried-over cookies plus today's batch
+    pantry: Map<string, number>;  // ingredients left after baking
+    baked: number;                // cookies that went through the oven today
+}
+
+// How many cookies of a recipe the pantry can still make
+export function maxCookiesFor(recipe: Recipe, pantry: Map<string, number>): number {
+    let maxCookies = Infinity;
+    Object.entries(recipe.ingredients).forEach(([ingredient, needed]) => {
+        const canMake = Math.floor((pantry.get(ingredient) || 0) / needed);
+        if (canMake < maxCookies) maxCookies = canMake;
+    });
+    return maxCookies === Infinity ? 0 : maxCookies;
+}
+
+// Sale price of one cookie once it has lost some quality, to the cent
+export function priceAtQuality(salePrice: number, quality: number): number {
+    return Math.round(salePrice * quality) / FRESH_QUALITY;
+}
+
+export function countStock(stock: Bread[], recipeId?: string): number {
+    return stock
+        .filter(b => recipeId === undefined || b.recipeId === recipeId)
+        .reduce((sum, b) => sum + b.quantity, 0);
+}
+
+// Sets the quality of the cookies baked on `day` once the batch is graded
+export function gradeBatch(stock: Bread[], day: number, quality: number): Bread[] {
+    return stock.map(b => (b.bakedDay === day ? { ...b, quality } : { ...b }));
+}
+
+// Bakes what today's line still needs once carried-over cookies are used,
+// customer by customer, until the oven is full or an ingredient runs out.
+// Nothing is baked beyond the orders; the rest of the pantry is kept.
+export function bakeForOrders(
+    orders: CustomerOrder[],
+    stock: Bread[],
+    pantry: Map<string, number>,
+    capacity: number,
+    day: number
+): BakeResult {
+    const catalog = CatalogManager.getInstance();
+    const remaining = new Map(pantry);
+    const onShelf = new Map<string, number>();
+    stock.forEach(b => onShelf.set(b.recipeId, (onShelf.get(b.recipeId) || 0) + b.quantity));
+    const bakedByRecipe = new Map<string, number>();
+    let space = Math.max(0, Math.floor(capacity));
+
+    const bake = (recipe: Recipe, count: number): number => {
+        const made = Math.min(count, space, maxCookiesFor(recipe, remaining));
+        if (made <= 0) return 0;
+        Object.entries(recipe.ingredients).forEach(([ingredient, needed]) => {
+            remaining.set(ingredient, (remaining.get(ingredient) || 0) - needed * made);
+        });
+        bakedByRecipe.set(recipe.id, (bakedByRecipe.get(recipe.id) || 0) + made);
+        space -= made;
+        return made;
+    };
+
+    [...orders].sort((a, b) => a.customerNum - b.customerNum).forEach(order => {
+        const recipe = catalog.getRecipe(order.recipeId);
+        if (!recipe) return;
+        const fromShelf = Math.min(order.cookieCount, onShelf.get(recipe.id) || 0);
+        onShelf.set(recipe.id, (onShelf.get(recipe.id) || 0) - fromShelf);
+        bake(recipe, order.cookieCount - fromShelf);
+    });
+
+    const fresh: Bread[] = Array.from(bakedByRecipe.entries()).map(([recipeId, quantity]) => ({
+        recipeId,
+        quantity,
+        quality: FRESH_QUALITY,
+        bakedDay: day,
+    }));
+    const baked = fresh.reduce((sum, b) => sum + b.quantity, 0);
+    return { stock: [...stock.map(b => ({ ...b })), ...fresh], pantry: remaining, baked };
+}
+
+// Takes one night's worth of quality off every cookie and drops the ones
+// that are no longer sellable. Returns how many were thrown out.
+export function ageStock(stock: Bread[]): { stock: Bread[], stale: number } {
+    const kept: Bread[] = [];
+    let stale = 0;
+    stock.forEach(b => {
+        const quality = b.quality - QUALITY_LOSS_PER_NIGHT;
+        if (quality < MIN_SELLABLE_QUALITY) {
+            stale += b.quantity;
+        } else if (b.quantity > 0) {
+            kept.push({ ...b, quality });
+        }
+    });
+    return { stock: kept, stale };
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from "vitest";
+import { HISTORY_LIMIT, PHASE_TRANSITIONS, PhaseGuards, PhaseMachine } from "./PhaseMachine";
+import { GamePhase } from "./types";
+
+const guards = (overrides: Partial<PhaseGuards> = {}): PhaseGuards => ({
+  canMakeCookies: () => true,
+  quizOffered: () => false,
+  hasWon: () => false,
+  isBankrupt: () => false,
+  ...overrides,
+});
+
+describe("PhaseMachine", () => {
+  it("walks a whole day and keeps the history of moves", () => {
+    const machine = new PhaseMachine(guards());
+    const day = [
+      GamePhase.STORYLINE, GamePhase.HOW_TO_PLAY, GamePhase.PRICING, GamePhase.ORDER, GamePhase.RECIPE_BOOK,
+      GamePhase.WORD_PROBLEMS, GamePhase.SHOPPING, GamePhase.MEASURING, GamePhase.BAKING,
+      GamePhase.POST_BAKING_ANIMATION, GamePhase.CLEANING, GamePhase.DAY_SUMMARY, GamePhase.NEW_DAY_ANIMATION,
+      GamePhase.PRICING,
+    ];
+    day.forEach((phase) => machine.transition(phase));
+
+    expect(machine.getPhase()).toBe(GamePhase.PRICING);
+    expect(machine.getPreviousPhase()).toBe(GamePhase.NEW_DAY_ANIMATION);
+    expect(machine.getHistory()).toHaveLength(day.length);
+    expect(machine.getHistory()[0]).toEqual({ from: GamePhase.LOGIN, to: GamePhase.STORYLINE });
+  });
+
+  it("refuses moves that are not in the table or that a guard rules out", () => {
+    const machine = new PhaseMachine(guards({ canMakeCookies: () => false }), GamePhase.SHOPPING);
+    expect(() => machine.transition(GamePhase.VICTORY)).toThrow(/Illegal phase transition: SHOPPING → VICTORY/);
+    expect(() => machine.transition(GamePhase.MEASURING)).toThrow(/refused by its guard/);
+    expect(machine.getPhase()).toBe(GamePhase.SHOPPING);
+    expect(machine.getHistory()).toEqual([]);
+  });
+
+  it("lets the guards pick the branch", () => {
+    let funds = 500;
+    let pantry = true;
+    const machine = new PhaseMachine(guards({
+      canMakeCookies: () => pantry,
+      quizOffered: () => true,
+      hasWon: () => funds >= 1000,
+      isBankrupt: () => funds < 0,
+    }), GamePhase.RECIPE_BOOK);
+
+    expect(machine.next([GamePhase.WORD_PROBLEMS, GamePhase.SHOPPING])).toBe(GamePhase.SHOPPING);
+    machine.transition(GamePhase.SHOPPING);
+    pantry = false;
+    expect(machine.next([GamePhase.MEASURING, GamePhase.CLEANING])).toBe(GamePhase.CLEANING);
+
+    machine.reset(GamePhase.DAY_SUMMARY);
+    const outcome = [GamePhase.VICTORY, GamePhase.DEFEAT, GamePhase.NEW_DAY_ANIMATION];
+    expect(machine.next(outcome)).toBe(GamePhase.NEW_DAY_ANIMATION);
+    funds = -1;
+    expect(machine.next(outcome)).toBe(GamePhase.DEFEAT);
+    funds = 1000;
+    expect(machine.next(outcome)).toBe(GamePhase.VICTORY);
+    expect(() => machine.next([GamePhase.BAKING])).toThrow(/No way from DAY_SUMMARY/);
+  });
+
+  it("runs exit hooks before and entry hooks after the move", () => {
+    const machine = new PhaseMachine(guards(), GamePhase.WORD_PROBLEMS);
+    const calls: string[] = [];
+    machine.onExit(GamePhase.WORD_PROBLEMS, () => calls.push(`exit ${GamePhase[machine.getPhase()]}`));
+    machine.onEnter(GamePhase.SHOPPING, ({ from }) => calls.push(`enter from ${GamePhase[from]}`));
+    const unrelated = vi.fn();
+    machine.onEnter(GamePhase.MEASURING, unrelated);
+
+    machine.transition(GamePhase.SHOPPING);
+    expect(calls).toEqual(["exit WORD_PROBLEMS", "enter from WORD_PROBLEMS"]);
+    expect(unrelated).not.toHaveBeenCalled();
+  });
+
+  it("only keeps the most recent moves", () => {
+    const machine = new PhaseMachine(guards({ quizOffered: () => true }), GamePhase.SHOPPING);
+    for (let i = 0; i < HISTORY_LIMIT; i++) {
+      machine.transition(GamePhase.RECIPE_BOOK);
+      machine.transition(GamePhase.SHOPPING);
+    }
+    expect(machine.getHistory()).toHaveLength(HISTORY_LIMIT);
+  });
+
+  it("can resume every saved phase from the login screen and leave every other phase", () => {
+    const fromLogin = PHASE_TRANSITIONS.filter((edge) => edge.from === GamePhase.LOGIN).map((edge) => edge.to);
+    expect(fromLogin).toEqual(expect.arrayContaining([GamePhase.PRICING, GamePhase.SHOPPING, GamePhase.DAY_SUMMARY]));
+    expect(fromLogin).not.toContain(GamePhase.VICTORY);
+
+    const stuck = Object.values(GamePhase)
+      .filter((phase): phase is GamePhase => typeof phase === "number")
+      .filter((phase) => !PHASE_TRANSITIONS.some((edge) => edge.from === phase));
+    expect(stuck).toEqual([]);
+  });
+});
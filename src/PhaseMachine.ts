@@ -0,0 +1,149 @@
+import { GamePhase } from './types';
+import { isResumablePhase } from './SaveManager';
+
+// Phase state machine
+// -------------------
+// Every move from one screen to the next goes through one table of allowed
+// edges. An edge may carry a guard, checked against the running game, so the
+// table also decides which way a branch goes:
+//     shopping → measuring    only with enough in the pantry for a cookie
+//     shopping → cleaning     otherwise; the customers are turned away
+//     day summary → victory / defeat / next day, by funds and bankruptcy
+// A move that is not in the table, or whose guard says no, throws.
+export const HISTORY_LIMIT = 50;
+
+// Questions the guards ask about the game; answered by GameManager
+export interface PhaseGuards {
+    canMakeCookies(): boolean;
+    quizOffered(): boolean; // today's word problems were already offered
+    hasWon(): boolean;
+    isBankrupt(): boolean;
+}
+
+export interface PhaseEdge {
+    from: GamePhase;
+    to: GamePhase;
+    guard?: (guards: PhaseGuards) => boolean;
+}
+
+export interface PhaseTransition {
+    from: GamePhase;
+    to: GamePhase;
+}
+
+export type PhaseHook = (transition: PhaseTransition) => void;
+
+const ALL_PHASES = Object.values(GamePhase).filter((phase): phase is GamePhase => typeof phase === 'number');
+
+const endOfDay = (guards: PhaseGuards) => !guards.hasWon() && !guards.isBankrupt();
+
+export const PHASE_TRANSITIONS: PhaseEdge[] = [
+    { from: GamePhase.LOGIN, to: GamePhase.STORYLINE },
+    { from: GamePhase.LOGIN, to: GamePhase.PRACTICE },
+    { from: GamePhase.LOGIN, to: GamePhase.TEACHER_DASHBOARD },
+    // "Continue" picks a saved run back up where it was left
+    ...ALL_PHASES.filter(isResumablePhase).map((to) => ({ from: GamePhase.LOGIN, to })),
+    { from: GamePhase.STORYLINE, to: GamePhase.HOW_TO_PLAY },
+    { from: GamePhase.HOW_TO_PLAY, to: GamePhase.PRICING },
+    { from: GamePhase.PRICING, to: GamePhase.ORDER },
+    { from: GamePhase.ORDER, to: GamePhase.RECIPE_BOOK },
+    // The quiz is offered once a day, on the way to the first shop
+    { from: GamePhase.RECIPE_BOOK, to: GamePhase.WORD_PROBLEMS, guard: (g) => !g.quizOffered() },
+    { from: GamePhase.RECIPE_BOOK, to: GamePhase.SHOPPING, guard: (g) => g.quizOffered() },
+    { from: GamePhase.WORD_PROBLEMS, to: GamePhase.SHOPPING },
+    { from: GamePhase.SHOPPING, to: GamePhase.RECIPE_BOOK },
+    { from: GamePhase.SHOPPING, to: GamePhase.MEASURING, guard: (g) => g.canMakeCookies() },
+    { from: GamePhase.SHOPPING, to: GamePhase.CLEANING, guard: (g) => !g.canMakeCookies() },
+    { from: GamePhase.MEASURING, to: GamePhase.BAKING },
+    { from: GamePhase.BAKING, to: GamePhase.POST_BAKING_ANIMATION },
+    { from: GamePhase.POST_BAKING_ANIMATION, to: GamePhase.CLEANING },
+    { from: GamePhase.CLEANING, to: GamePhase.DAY_SUMMARY },
+    { from: GamePhase.DAY_SUMMARY, to: GamePhase.VICTORY, guard: (g) => g.hasWon() },
+    { from: GamePhase.DAY_SUMMARY, to: GamePhase.DEFEAT, guard: (g) => !g.hasWon() && g.isBankrupt() },
+    { from: GamePhase.DAY_SUMMARY, to: GamePhase.NEW_DAY_ANIMATION, guard: endOfDay },
+    { from: GamePhase.DAY_SUMMARY, to: GamePhase.PRACTICE },
+    { from: GamePhase.PRACTICE, to: GamePhase.DAY_SUMMARY },
+    { from: GamePhase.PRACTICE, to: GamePhase.LOGIN },
+    { from: GamePhase.NEW_DAY_ANIMATION, to: GamePhase.PRICING },
+    { from: GamePhase.TEACHER_DASHBOARD, to: GamePhase.LOGIN },
+    { from: GamePhase.VICTORY, to: GamePhase.LOGIN },
+    { from: GamePhase.DEFEAT, to: GamePhase.LOGIN },
+    { from: GamePhase.GAME_OVER, to: GamePhase.LOGIN },
+];
+
+export class PhaseMachine {
+    private phase: GamePhase;
+    private history: PhaseTransition[] = [];
+    private guards: PhaseGuards;
+    private edges: PhaseEdge[];
+    private enterHooks = new Map<GamePhase, PhaseHook[]>();
+    private exitHooks = new Map<GamePhase, PhaseHook[]>();
+
+    constructor(guards: PhaseGuards, initial: GamePhase = GamePhase.LOGIN, edges: PhaseEdge[] = PHASE_TRANSITIONS) {
+        this.guards = guards;
+        this.phase = initial;
+        this.edges = edges;
+    }
+
+    public getPhase(): GamePhase {
+        return this.phase;
+    }
+
+    // Where the last transition came from; the current phase if there was none
+    public getPreviousPhase(): GamePhase {
+        return this.history.length > 0 ? this.history[this.history.length - 1].from : this.phase;
+    }
+
+    // Oldest first, up to the last HISTORY_LIMIT transitions
+    public getHistory(): PhaseTransition[] {
+        return this.history.map((t) => ({ ...t }));
+    }
+
+    public can(to: GamePhase): boolean {
+        return this.edgesTo(to).some((edge) => !edge.guard || edge.guard(this.guards));
+    }
+
+    // The first of the candidates the table allows from here
+    public next(candidates: GamePhase[]): GamePhase {
+        const to = candidates.find((phase) => this.can(phase));
+        if (to === undefined) {
+            throw new Error(`No way from ${GamePhase[this.phase]} to any of ${candidates.map((p) => GamePhase[p]).join(', ')}`);
+        }
+        return to;
+    }
+
+    public transition(to: GamePhase): void {
+        if (this.edgesTo(to).length === 0) {
+            throw new Error(`Illegal phase transition: ${GamePhase[this.phase]} → ${GamePhase[to]}`);
+        }
+        if (!this.can(to)) {
+            throw new Error(`Phase transition refused by its guard: ${GamePhase[this.phase]} → ${GamePhase[to]}`);
+        }
+
+        const transition = { from: this.phase, to };
+        this.exitHooks.get(transition.from)?.forEach((hook) => hook(transition));
+        this.phase = to;
+        this.history.push(transition);
+        if (this.history.length > HISTORY_LIMIT) this.history.shift();
+        this.enterHooks.get(to)?.forEach((hook) => hook(transition));
+    }
+
+    // Jumps straight to a phase and forgets the history, skipping the table
+    // and the hooks
+    public reset(phase: GamePhase): void {
+        this.phase = phase;
+        this.history = [];
+    }
+
+    public onEnter(phase: GamePhase, hook: PhaseHook): void {
+        this.enterHooks.set(phase, [...(this.enterHooks.get(phase) ?? []), hook]);
+    }
+
+    public onExit(phase: GamePhase, hook: PhaseHook): void {
+        this.exitHooks.set(phase, [...(this.exitHooks.get(phase) ?? []), hook]);
+    }
+
+    private edgesTo(to: GamePhase): PhaseEdge[] {
+        return this.edges.filter((edge) => edge.from === this.phase && edge.to === to);
+    }
+}
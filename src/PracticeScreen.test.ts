@@ -0,0 +1,305 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PracticeScreen } from "./PracticeScreen";
+import { MistakeLog } from "./MistakeLog";
+
+class FakeStage {
+  private readonly widthValue: number;
+  private readonly heightValue: number;
+  private readonly containerElement = { style: { cursor: "default" } };
+
+  constructor(widthValue: number, heightValue: number) {
+    this.widthValue = widthValue;
+    this.heightValue = heightValue;
+  }
+
+  width() {
+    return this.widthValue;
+  }
+
+  height() {
+    return this.heightValue;
+  }
+
+  container() {
+    return this.containerElement;
+  }
+}
+
+class FakeLayer {
+  readonly addedNodes: unknown[] = [];
+  readonly draw = vi.fn();
+  readonly batchDraw = vi.fn();
+
+  add(node: unknown) {
+    this.addedNodes.push(node);
+  }
+}
+
+type RectEntry = {
+  node: any;
+  config: Record<string, unknown>;
+  fillHistory: string[];
+  trigger: (event: string, evt?: { cancelBubble?: boolean }) => void;
+};
+
+const konvaState = vi.hoisted(() => ({
+  groups: [] as Array<{
+    config: Record<string, unknown>;
+    visible: () => boolean;
+    trigger: (event: string, evt?: { cancelBubble?: boolean }) => void;
+    handlers: Map<string, (evt?: { cancelBubble?: boolean }) => void>;
+    children: unknown[];
+  }>,
+  rects: [] as RectEntry[],
+  texts: [] as Array<{ config: Record<string, unknown> }>,
+}));
+
+vi.mock("./ui/InfoButton", () => ({
+  InfoButton: class {
+    constructor(
+      _stage: unknown,
+      _layer: unknown,
+      _message: string
+    ) {
+      // noop
+    }
+    destroy() {}
+  },
+}));
+
+vi.mock("konva", () => {
+  type Handler = (evt?: { cancelBubble?: boolean }) => void;
+
+  class FakeNode {
+    config: Record<string, unknown>;
+    constructor(config?: Record<string, unknown>) {
+      this.config = { ...(config ?? {}) };
+    }
+  }
+
+  class FakeGroup extends FakeNode {
+    private visibleState: boolean;
+    children: unknown[] = [];
+    private handlers = new Map<string, Handler>();
+
+    constructor(config?: Record<string, unknown>) {
+      super(config);
+      this.visibleState = (config?.visible as boolean) ?? true;
+      konvaState.groups.push({
+        config: this.config,
+        visible: () => this.visible(),
+        trigger: (event: string, evt?: { cancelBubble?: boolean }) => this.trigger(event, evt),
+        handlers: this.handlers,
+        children: this.children,
+      });
+    }
+
+    add(...children: unknown[]) {
+      this.children.push(...children);
+      return this;
+    }
+
+    visible(value?: boolean) {
+      if (typeof value === "boolean") {
+        this.visibleState = value;
+      }
+      return this.visibleState;
+    }
+
+    destroyChildren() {
+      this.children = [];
+    }
+
+    destroy() {
+      this.config.destroyed = true;
+    }
+    moveToTop() {}
+
+    on(event: string, handler: Handler) {
+      this.handlers.set(event, handler);
+    }
+
+    trigger(event: string, evt?: { cancelBubble?: boolean }) {
+      const handler = this.handlers.get(event);
+      handler?.(evt);
+    }
+  }
+
+  class FakeRect extends FakeNode {
+    private handlers = new Map<string, Handler>();
+    fillHistory: string[] = [];
+    x(val?: number) {
+      if (typeof val === "number") this.config.x = val;
+      return (this.config.x as number) ?? 0;
+    }
+    y(val?: number) {
+      if (typeof val === "number") this.config.y = val;
+      return (this.config.y as number) ?? 0;
+    }
+
+    constructor(config?: Record<string, unknown>) {
+      super(config);
+      konvaState.rects.push({
+        node: this,
+        config: this.config,
+        fillHistory: this.fillHistory,
+        trigger: (event: string, evt?: { cancelBubble?: boolean }) =>
+          this.trigger(event, evt),
+      });
+    }
+
+    fill(color: string) {
+      this.fillHistory.push(color);
+      this.config.fill = color;
+    }
+
+    on(event: string, handler: Handler) {
+      this.handlers.set(event, handler);
+    }
+
+    trigger(event: string, evt: { cancelBubble?: boolean } = {}) {
+      const handler = this.handlers.get(event);
+      handler?.(evt);
+    }
+  }
+
+  class FakeCircle extends FakeNode {}
+  class FakeLine extends FakeNode {}
+
+  class FakeText extends FakeNode {
+    constructor(config?: Record<string, unknown>) {
+      super(config);
+      konvaState.texts.push({ config: this.config });
+    }
+
+    width() {
+      return (this.config.width as number) ?? 10;
+    }
+
+    text(value: string) {
+      this.config.text = value;
+    }
+
+    fill(color: string) {
+      this.config.fill = color;
+    }
+
+    y() {
+      return (this.config.y as number) ?? 0;
+    }
+
+    height() {
+      return (this.config.height as number) ?? 10;
+    }
+
+    offsetX(value: number) {
+      this.config.offsetX = value;
+    }
+
+    offsetY(value: number) {
+      this.config.offsetY = value;
+    }
+  }
+
+  return {
+    default: {
+      Group: FakeGroup,
+      Rect: FakeRect,
+      Circle: FakeCircle,
+      Line: FakeLine,
+      Text: FakeText,
+    },
+  };
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const missed = (display: string, answer: number) => ({ operands: [], operator: "×" as const, answer, display, skill: "multiplication" as const });
+
+describe("PracticeScreen", () => {
+  let keydownHandler: ((evt: Partial<KeyboardEvent>) => void) | null;
+  let now: number;
+
+  const clickButton = (fill: string) => {
+    const rect = [...konvaState.rects].reverse().find((entry) => entry.config.fill === fill);
+    konvaState.groups.find((group) => group.children.includes(rect?.node as any))?.trigger("click tap", {});
+  };
+
+  const type = (answer: string) => {
+    [...answer, "Enter"].forEach((key) => keydownHandler!({ key }));
+    vi.advanceTimersByTime(1200);
+  };
+
+  const texts = () => konvaState.texts.map((text) => text.config.text);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    konvaState.groups.length = 0;
+    konvaState.rects.length = 0;
+    konvaState.texts.length = 0;
+    keydownHandler = null;
+    now = 1_000_000;
+
+    vi.stubGlobal("window", {
+      addEventListener: vi.fn((event: string, handler: (evt: any) => void) => {
+        if (event === "keydown") keydownHandler = handler;
+      }),
+      removeEventListener: vi.fn((event: string, handler: (evt: any) => void) => {
+        if (event === "keydown" && keydownHandler === handler) {
+          keydownHandler = null;
+        }
+      }),
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("says when there is nothing to practice", () => {
+    const onDone = vi.fn();
+    new PracticeScreen(new FakeStage(800, 600) as never, new FakeLayer() as never, new MistakeLog([], () => now), onDone).mount();
+
+    expect(texts()).toContain("No mistakes to practice yet.\n\nProblems you miss while playing will show up here.");
+    clickButton("#e74c3c");
+    expect(onDone).toHaveBeenCalled();
+  });
+
+  it("re-asks missed problems and moves them through the schedule", () => {
+    const log = new MistakeLog([], () => now);
+    log.record(missed("7 × 8", 56));
+    log.record(missed("1½ batches: 6 tbsp Butter → ? tbsp", 9));
+    const onDone = vi.fn();
+    new PracticeScreen(new FakeStage(900, 700) as never, new FakeLayer() as never, log, onDone).mount();
+
+    expect(texts()).toContain("Question 1 of 2");
+    expect(texts()).toContain("7 × 8");
+    type("56");
+    expect(texts()).toContain("Question 2 of 2");
+    type("8");
+
+    expect(texts()).toContain("1 of 2 right\n\n2 problems still on your list.");
+    // the missed one is due again straight away, the right one tomorrow
+    expect(log.due().map((m) => m.question)).toEqual(["1½ batches: 6 tbsp Butter → ? tbsp"]);
+    expect(log.getMistakes().find((m) => m.question === "7 × 8")?.dueAt).toBe(now + DAY_MS);
+
+    clickButton("#4CAF50");
+    expect(texts()).toContain("Question 1 of 1");
+    type("9");
+    expect(texts()).toContain("1 of 1 right\n\n2 problems still on your list.");
+
+    clickButton("#e74c3c");
+    expect(onDone).toHaveBeenCalled();
+    expect(keydownHandler).toBeNull();
+  });
+
+  it("shows when the next review is due", () => {
+    const log = new MistakeLog([], () => now);
+    log.record(missed("6 × 7", 42));
+    log.review("6 × 7", true);
+    log.review("6 × 7", true);
+    new PracticeScreen(new FakeStage(800, 600) as never, new FakeLayer() as never, log, vi.fn()).mount();
+
+    expect(texts()).toContain("Nothing to review right now.\n\nNext review: in 3 days.");
+  });
+});
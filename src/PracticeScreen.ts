@@ -0,0 +1,272 @@
+import Konva from 'konva';
+import { AudioManager } from './AudioManager';
+import { InfoButton } from './ui/InfoButton';
+import { formatAmount, parseAmount, sameAmount } from './Measuring';
+import { LoggedMistake, MistakeLog } from './MistakeLog';
+import { Screen, ScreenResources } from './Screen';
+
+interface Panel {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Drill on problems missed in the minigames, outside the day loop. Nothing
+// is paid or charged here; answers only move problems through the review
+// schedule in MistakeLog.ts.
+export class PracticeScreen implements Screen {
+    private layer: Konva.Layer;
+    private stage: Konva.Stage;
+    private mistakeLog: MistakeLog;
+
+    private problems: LoggedMistake[] = [];
+    private currentIndex: number = 0;
+    private correctAnswers: number = 0;
+
+    private uiGroup: Konva.Group | null = null;
+    private progressText!: Konva.Text;
+    private questionText!: Konva.Text;
+    private inputText!: Konva.Text;
+    private feedbackText!: Konva.Text;
+
+    private userInput: string = '';
+    private waitingForNext = false;
+    private quizActive = false;
+
+    private onDone: () => void;
+    private keyboardHandler: (e: KeyboardEvent) => void;
+    private resources = new ScreenResources();
+
+    constructor(stage: Konva.Stage, layer: Konva.Layer, mistakeLog: MistakeLog, onDone: () => void) {
+        this.stage = stage;
+        this.layer = layer;
+        this.mistakeLog = mistakeLog;
+        this.onDone = onDone;
+        this.keyboardHandler = this.handleKeyPress.bind(this);
+    }
+
+    public mount(): void {
+        this.startRound();
+        this.resources.widget(new InfoButton(
+            this.stage,
+            this.layer,
+            'These are problems you missed while playing.\n\nGet one right and it comes back a few days later. Get it right every time and it leaves the list.'
+        ));
+    }
+
+    // Laid out once for the stage size it was mounted at; untimed
+    public resize(): void {}
+    public pause(): void {}
+    public resume(): void {}
+
+    private createButton(label: string, x: number, y: number, width: number, height: number, fill: string, hoverFill: string, onClick: () => void): Konva.Group {
+        const group = new Konva.Group({ x, y });
+        const rect = new Konva.Rect({ width, height, fill, cornerRadius: 10 });
+        const text = new Konva.Text({
+            width, height, text: label,
+            fontSize: Math.min(this.stage.width() * 0.015, 16),
+            fill: 'white', align: 'center', verticalAlign: 'middle',
+            fontFamily: '"Press Start 2P"', listening: false
+        });
+        group.add(rect, text);
+
+        group.on('click tap', () => {
+            AudioManager.getInstance().playSfx('click');
+            onClick();
+        });
+        group.on('mouseenter', () => {
+            this.stage.container().style.cursor = 'pointer';
+            rect.fill(hoverFill);
+            this.layer.batchDraw();
+        });
+        group.on('mouseleave', () => {
+            this.stage.container().style.cursor = 'default';
+            rect.fill(fill);
+            this.layer.batchDraw();
+        });
+        return group;
+    }
+
+    // Replaces whatever panel is showing with a fresh one
+    private newPanel(): Panel {
+        this.uiGroup?.destroy();
+        this.uiGroup = new Konva.Group({ name: 'practiceUI' });
+        this.layer.add(this.uiGroup);
+
+        const width = this.stage.width() * 0.7;
+        const height = this.stage.height() * 0.7;
+        const x = (this.stage.width() - width) / 2;
+        const y = (this.stage.height() - height) / 2;
+        this.uiGroup.add(new Konva.Rect({
+            x, y, width, height,
+            fill: '#FFFFFF', cornerRadius: 15, stroke: '#3498db', strokeWidth: 4,
+            shadowColor: 'black', shadowBlur: 10, shadowOpacity: 0.3, shadowOffset: { x: 3, y: 3 }
+        }));
+        this.uiGroup.add(new Konva.Text({
+            x, y: y + 25, width,
+            text: 'PRACTICE',
+            fontSize: Math.min(this.stage.width() * 0.03, 32),
+            fontFamily: '"Press Start 2P"', fill: '#3498db', align: 'center'
+        }));
+        return { x, y, width, height };
+    }
+
+    private addMessage(panel: Panel, text: string): void {
+        this.uiGroup!.add(new Konva.Text({
+            x: panel.x + panel.width * 0.1, y: panel.y + panel.height * 0.3, width: panel.width * 0.8,
+            text,
+            fontSize: Math.min(this.stage.width() * 0.022, 24),
+            fill: '#333', align: 'center', lineHeight: 1.6,
+            fontFamily: '"Nunito"', fontStyle: 'bold'
+        }));
+    }
+
+    private addButtons(panel: Panel, again: boolean): void {
+        const buttonWidth = panel.width * 0.25;
+        const buttonHeight = panel.height * 0.15;
+        const buttonY = panel.y + panel.height - buttonHeight - 40;
+        const centerX = panel.x + panel.width / 2;
+        if (again) {
+            this.uiGroup!.add(this.createButton(
+                'AGAIN', centerX - buttonWidth - panel.width * 0.05, buttonY, buttonWidth, buttonHeight,
+                '#4CAF50', '#45a049', () => this.startRound()
+            ));
+        }
+        this.uiGroup!.add(this.createButton(
+            'BACK', again ? centerX + panel.width * 0.05 : centerX - buttonWidth / 2, buttonY, buttonWidth, buttonHeight,
+            '#e74c3c', '#c0392b', () => this.finish()
+        ));
+    }
+
+    private startRound(): void {
+        this.problems = this.mistakeLog.due();
+        this.currentIndex = 0;
+        this.correctAnswers = 0;
+        if (this.problems.length === 0) {
+            this.showNothingDue();
+            return;
+        }
+
+        const stageWidth = this.stage.width();
+        const panel = this.newPanel();
+        this.progressText = new Konva.Text({
+            x: panel.x, y: panel.y + panel.height * 0.15, width: panel.width,
+            text: '', fontSize: Math.min(stageWidth * 0.018, 20),
+            fill: '#34495e', align: 'center', fontFamily: 'Nunito'
+        });
+        this.questionText = new Konva.Text({
+            x: panel.x + panel.width * 0.08, y: panel.y + panel.height * 0.28, width: panel.width * 0.84,
+            text: '', fontSize: Math.min(stageWidth * 0.026, 30),
+            fill: '#2c3e50', fontStyle: 'bold', align: 'center', lineHeight: 1.4, fontFamily: 'Nunito'
+        });
+        const inputY = panel.y + panel.height * 0.55;
+        const inputHeight = panel.height * 0.12;
+        const inputBox = new Konva.Rect({
+            x: panel.x + panel.width * 0.35, y: inputY, width: panel.width * 0.3, height: inputHeight,
+            fill: '#ecf0f1', stroke: '#3498db', strokeWidth: 3, cornerRadius: 5
+        });
+        this.inputText = new Konva.Text({
+            x: inputBox.x(), y: inputY + inputHeight * 0.2, width: panel.width * 0.3,
+            text: '', fontSize: Math.min(stageWidth * 0.03, 36), fill: '#2c3e50', align: 'center'
+        });
+        this.feedbackText = new Konva.Text({
+            x: panel.x, y: inputY + inputHeight + 25, width: panel.width,
+            text: '', fontSize: Math.min(stageWidth * 0.024, 28), fill: '#27ae60', align: 'center', fontFamily: 'Nunito'
+        });
+        const instructions = new Konva.Text({
+            x: panel.x, y: panel.y + panel.height - 50, width: panel.width,
+            text: 'No money at stake. Type your answer and press ENTER',
+            fontSize: Math.min(stageWidth * 0.016, 18), fill: '#7f8c8d', align: 'center', fontFamily: 'Nunito'
+        });
+        this.uiGroup!.add(this.progressText, this.questionText, inputBox, this.inputText, this.feedbackText, instructions);
+
+        this.quizActive = true;
+        this.userInput = '';
+        this.showProblem();
+        this.resources.listen('keydown', this.keyboardHandler);
+    }
+
+    private showNothingDue(): void {
+        const panel = this.newPanel();
+        const next = this.mistakeLog.describeNextDue();
+        this.addMessage(panel, next === null
+            ? 'No mistakes to practice yet.\n\nProblems you miss while playing will show up here.'
+            : `Nothing to review right now.\n\nNext review: ${next}.`);
+        this.addButtons(panel, false);
+        this.layer.draw();
+    }
+
+    private showProblem(): void {
+        this.progressText.text(`Question ${this.currentIndex + 1} of ${this.problems.length}`);
+        this.questionText.text(this.problems[this.currentIndex].question);
+        this.layer.draw();
+    }
+
+    private handleKeyPress(e: KeyboardEvent): void {
+        if (!this.quizActive || this.waitingForNext) return;
+        if (e.key === 'Enter') this.checkAnswer();
+        else if (e.key === 'Backspace') {
+            this.userInput = this.userInput.slice(0, -1);
+            this.inputText.text(this.userInput);
+            this.layer.draw();
+        } else if (/^[0-9./ ]$/.test(e.key) && this.userInput.length < 8) {
+            this.userInput += e.key;
+            this.inputText.text(this.userInput);
+            this.layer.draw();
+        }
+    }
+
+    private checkAnswer(): void {
+        const answer = parseAmount(this.userInput);
+        if (answer === null) return;
+        const problem = this.problems[this.currentIndex];
+        const correct = sameAmount(answer, problem.answer);
+        this.mistakeLog.review(problem.question, correct);
+
+        if (correct) {
+            this.correctAnswers++;
+            this.feedbackText.text('Right! ✓');
+            this.feedbackText.fill('#27ae60');
+        } else {
+            this.feedbackText.text(`Not quite: it's ${formatAmount(problem.answer)} ✗`);
+            this.feedbackText.fill('#e74c3c');
+        }
+        this.userInput = '';
+        this.inputText.text('');
+        this.layer.draw();
+
+        this.waitingForNext = true;
+        this.resources.timeout(() => {
+            this.waitingForNext = false;
+            if (!this.quizActive) return;
+            this.feedbackText.text('');
+            this.currentIndex++;
+            if (this.currentIndex >= this.problems.length) this.showResults();
+            else this.showProblem();
+        }, 1200);
+    }
+
+    private showResults(): void {
+        this.quizActive = false;
+        this.resources.unlisten('keydown', this.keyboardHandler);
+        const panel = this.newPanel();
+        const left = this.mistakeLog.getMistakes().length;
+        this.addMessage(panel, [
+            `${this.correctAnswers} of ${this.problems.length} right`,
+            left === 0 ? 'Your mistake list is empty!' : `${left} ${left === 1 ? 'problem' : 'problems'} still on your list.`,
+        ].join('\n\n'));
+        this.addButtons(panel, this.mistakeLog.due().length > 0);
+        this.layer.draw();
+    }
+
+    private finish(): void {
+        this.unmount();
+        this.onDone();
+    }
+
+    public unmount(): void {
+        this.quizActive = false;
+        this.resources.dispose();
+    }
+}
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PricingScreen } from "./PricingScreen";
+
+class FakeStage {
+  private readonly containerElement = { style: { cursor: "" } };
+
+  width() {
+    return 1000;
+  }
+
+  height() {
+    return 800;
+  }
+
+  container() {
+    return this.containerElement;
+  }
+}
+
+class FakeLayer {
+  readonly addedNodes: unknown[] = [];
+  readonly draw = vi.fn();
+
+  add(node: unknown) {
+    this.addedNodes.push(node);
+  }
+}
+
+const konvaState = vi.hoisted(() => ({
+  groups: [] as Array<{
+    children: unknown[];
+    handlers: Map<string, () => void>;
+    destroy: ReturnType<typeof vi.fn>;
+    trigger: (event: string) => void;
+  }>,
+}));
+
+vi.mock("./ui/ExitButton", () => ({
+  ExitButton: class {
+    destroy = vi.fn();
+  },
+}));
+
+vi.mock("./ui/InfoButton", () => ({
+  InfoButton: class {
+    destroy() {}
+  },
+}));
+
+vi.mock("konva", () => {
+  type Handler = () => void;
+
+  class FakeNode {
+    config: Record<string, unknown>;
+
+    constructor(config?: Record<string, unknown>) {
+      this.config = config ?? {};
+    }
+    destroy() {}
+
+    fill(color: string) {
+      this.config.fill = color;
+    }
+  }
+
+  class FakeGroup extends FakeNode {
+    children: unknown[] = [];
+    handlers = new Map<string, Handler>();
+    destroy = vi.fn();
+
+    constructor(config?: Record<string, unknown>) {
+      super(config);
+      konvaState.groups.push({
+        children: this.children,
+        handlers: this.handlers,
+        destroy: this.destroy,
+        trigger: (event: string) => this.handlers.get(event)?.call(this),
+      });
+    }
+
+    add(child: unknown) {
+      this.children.push(child);
+      return this;
+    }
+
+    on(event: string, handler: Handler) {
+      this.handlers.set(event, handler);
+    }
+  }
+
+  return {
+    default: {
+      Group: FakeGroup,
+      Rect: FakeNode,
+      Text: FakeNode,
+    },
+  };
+});
+
+const liveGroups = () => konvaState.groups.filter((group) => !group.destroy.mock.calls.length);
+const textsOf = (group: { children: unknown[] }) =>
+  group.children.map((child) => (child as { config?: { text?: string } }).config?.text);
+const liveTexts = () => liveGroups().flatMap(textsOf);
+const buttonLabelled = (label: string) => liveGroups().find((group) => textsOf(group).includes(label))!;
+
+describe("PricingScreen", () => {
+  beforeEach(() => {
+    konvaState.groups.length = 0;
+    vi.stubGlobal("window", { location: { href: "about:blank" } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("shows list and today's prices and steps the price in 5% increments", () => {
+    new PricingScreen(new FakeStage() as never, new FakeLayer() as never, 1, vi.fn()).mount();
+
+    expect(liveTexts()).toContain("LIST PRICE");
+    expect(liveTexts()).toContain("Customers will want about 100% of their usual cookies");
+
+    for (let i = 0; i < 4; i++) buttonLabelled("+").trigger("click");
+    expect(liveTexts()).toContain("+20%");
+    // $15.00 chocolate chip and $8.00 sugar cookies
+    expect(liveTexts()).toContain("$18.00");
+    expect(liveTexts()).toContain("$9.60");
+    expect(liveTexts()).toContain("Customers will want about 76% of their usual cookies");
+  });
+
+  it("stays within the allowed range and reports the chosen price", () => {
+    const onConfirm = vi.fn();
+    new PricingScreen(new FakeStage() as never, new FakeLayer() as never, 0.55, onConfirm).mount();
+
+    buttonLabelled("-").trigger("click");
+    buttonLabelled("-").trigger("click");
+    expect(liveTexts()).toContain("-50%");
+
+    buttonLabelled("OPEN SHOP").trigger("click");
+    expect(onConfirm).toHaveBeenCalledWith(0.5);
+  });
+});
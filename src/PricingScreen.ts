@@ -0,0 +1,221 @@
+import Konva from 'konva';
+import { AudioManager } from './AudioManager';
+import { ExitButton } from './ui/ExitButton';
+import { InfoButton } from './ui/InfoButton';
+import { CatalogManager } from './catalog';
+import {
+    clampPriceRatio,
+    demandMultiplier,
+    describePriceChange,
+    PRICE_RATIO_STEP,
+    todayPrice,
+} from './Demand';
+import { Screen, ScreenResources } from './Screen';
+
+// Lets the player set today's price, as a percentage of the list price,
+// before the customers arrive
+export class PricingScreen implements Screen {
+    private layer: Konva.Layer;
+    private stage: Konva.Stage;
+    private onConfirm: (priceRatio: number) => void;
+    private priceRatio: number;
+    private screenGroup: Konva.Group;
+    private detailGroup: Konva.Group | null = null;
+    private exitButtonInstance: ExitButton | null = null;
+    private resources = new ScreenResources();
+
+    private catalog = CatalogManager.getInstance();
+
+    constructor(
+        stage: Konva.Stage,
+        layer: Konva.Layer,
+        priceRatio: number,
+        onConfirm: (priceRatio: number) => void
+    ) {
+        this.stage = stage;
+        this.layer = layer;
+        this.priceRatio = clampPriceRatio(priceRatio);
+        this.onConfirm = onConfirm;
+        this.screenGroup = new Konva.Group();
+    }
+
+    public mount(): void {
+        this.layer.add(this.screenGroup);
+        this.setupUI();
+    }
+
+    // Laid out once for the stage size it was mounted at
+    public resize(): void {}
+    public pause(): void {}
+    public resume(): void {}
+
+    private setupUI(): void {
+        const stageWidth = this.stage.width();
+        const stageHeight = this.stage.height();
+
+        const modalW = stageWidth * 0.6;
+        const modalH = stageHeight * 0.75;
+        const modalX = (stageWidth - modalW) / 2;
+        const modalY = (stageHeight - modalH) / 2;
+
+        this.screenGroup.add(new Konva.Rect({
+            x: modalX, y: modalY, width: modalW, height: modalH,
+            fill: '#F5F1E8', cornerRadius: 15,
+            shadowColor: 'rgba(0,0,0,0.5)', shadowBlur: 20,
+            shadowOffset: { x: 5, y: 10 }, shadowOpacity: 0.5
+        }));
+
+        this.screenGroup.add(new Konva.Text({
+            x: modalX, y: modalY + modalH * 0.05, width: modalW,
+            text: "Set Today's Price",
+            fontSize: Math.min(stageWidth * 0.03, 40),
+            fontStyle: 'bold', fontFamily: 'Schoolbell', fill: '#333', align: 'center'
+        }));
+
+        const buttonY = modalY + modalH * 0.17;
+        this.createStepButton('-', modalX + modalW * 0.25, buttonY, -1, modalX, modalY, modalW, modalH);
+        this.createStepButton('+', modalX + modalW * 0.75, buttonY, 1, modalX, modalY, modalW, modalH);
+
+        this.drawDetails(modalX, modalY, modalW, modalH);
+        this.createOpenButton(stageWidth, stageHeight, modalX, modalY, modalW, modalH);
+
+        this.exitButtonInstance = new ExitButton(this.stage, this.layer, () => {
+            this.unmount();
+            window.location.href = '/login.html';
+        });
+        this.resources.widget(new InfoButton(this.stage, this.layer));
+
+        this.layer.draw();
+    }
+
+    // Everything that changes with the price, redrawn on every step
+    private drawDetails(modalX: number, modalY: number, modalW: number, modalH: number): void {
+        if (this.detailGroup) this.detailGroup.destroy();
+        const details = new Konva.Group();
+        this.detailGroup = details;
+        this.screenGroup.add(details);
+
+        const stageWidth = this.stage.width();
+        const baseFontSize = Math.min(stageWidth * 0.018, 22);
+
+        details.add(new Konva.Text({
+            x: modalX, y: modalY + modalH * 0.18, width: modalW,
+            text: describePriceChange(this.priceRatio).toUpperCase(),
+            fontSize: baseFontSize * 1.4, fontFamily: 'Press Start 2P', fill: '#d62828', align: 'center'
+        }));
+
+        const col1X = modalX + modalW * 0.12;
+        const colWidth = modalW * 0.25;
+        const col2X = col1X + modalW * 0.3;
+        const col3X = col2X + colWidth;
+        let currentY = modalY + modalH * 0.32;
+
+        [['FLAVOR', col1X], ['LIST', col2X], ['TODAY', col3X]].forEach(([label, x]) => {
+            details.add(new Konva.Text({
+                x: x as number, y: currentY, width: colWidth, text: label as string,
+                fontSize: baseFontSize, fontStyle: 'bold', fill: '#555', fontFamily: 'Schoolbell'
+            }));
+        });
+        currentY += baseFontSize * 1.8;
+
+        this.catalog.getRecipes().forEach(recipe => {
+            const listPrice = this.catalog.getSalePrice(recipe);
+            const price = todayPrice(listPrice, this.priceRatio);
+            details.add(new Konva.Text({
+                x: col1X, y: currentY, width: modalW * 0.3, text: recipe.name,
+                fontSize: baseFontSize, fill: 'black', fontFamily: 'Schoolbell'
+            }));
+            details.add(new Konva.Text({
+                x: col2X, y: currentY, width: colWidth, text: `$${listPrice.toFixed(2)}`,
+                fontSize: baseFontSize, fill: 'black', fontFamily: 'Schoolbell'
+            }));
+            details.add(new Konva.Text({
+                x: col3X, y: currentY, width: colWidth, text: `$${price.toFixed(2)}`,
+                fontSize: baseFontSize, fontStyle: 'bold', fontFamily: 'Schoolbell',
+                fill: price > listPrice ? '#27ae60' : price < listPrice ? '#e74c3c' : 'black'
+            }));
+            currentY += baseFontSize * 1.6;
+        });
+
+        const demandPercent = Math.round(demandMultiplier(this.priceRatio) * 100);
+        details.add(new Konva.Text({
+            x: modalX, y: modalY + modalH * 0.68, width: modalW,
+            text: `Customers will want about ${demandPercent}% of their usual cookies`,
+            fontSize: baseFontSize * 0.9, fontFamily: 'Schoolbell', fill: '#333', align: 'center'
+        }));
+
+        this.layer.draw();
+    }
+
+    private createStepButton(
+        label: string, x: number, y: number, step: number,
+        modalX: number, modalY: number, modalW: number, modalH: number
+    ): void {
+        const size = Math.min(this.stage.width() * 0.04, 48);
+        const button = new Konva.Group({ x: x - size / 2, y });
+        const rect = new Konva.Rect({ width: size, height: size, fill: '#f77f00', cornerRadius: 8 });
+        button.add(rect);
+        button.add(new Konva.Text({
+            width: size, height: size, text: label,
+            fontSize: size * 0.5, fontFamily: 'Press Start 2P', fill: 'white', align: 'center', verticalAlign: 'middle'
+        }));
+        button.on('click', () => {
+            AudioManager.getInstance().playSfx('click');
+            const next = clampPriceRatio(this.priceRatio + step * PRICE_RATIO_STEP);
+            if (next === this.priceRatio) return;
+            this.priceRatio = next;
+            this.drawDetails(modalX, modalY, modalW, modalH);
+        });
+        button.on('mouseenter', () => { this.stage.container().style.cursor = 'pointer'; });
+        button.on('mouseleave', () => { this.stage.container().style.cursor = 'default'; });
+        this.screenGroup.add(button);
+    }
+
+    private createOpenButton(
+        stageWidth: number, stageHeight: number,
+        modalX: number, modalY: number, modalW: number, modalH: number
+    ): void {
+        const buttonWidth = Math.min(stageWidth * 0.25, 300);
+        const buttonHeight = Math.min(stageHeight * 0.08, 60);
+
+        const buttonGroup = new Konva.Group({
+            x: modalX + (modalW - buttonWidth) / 2,
+            y: modalY + modalH - buttonHeight - (modalH * 0.05),
+        });
+        const rect = new Konva.Rect({ width: buttonWidth, height: buttonHeight, fill: '#d62828', cornerRadius: 10 });
+        const text = new Konva.Text({
+            width: buttonWidth, height: buttonHeight,
+            text: 'OPEN SHOP',
+            fontSize: Math.min(stageWidth * 0.022, 24),
+            fontFamily: 'Press Start 2P', fill: 'white', align: 'center', verticalAlign: 'middle', fontStyle: 'bold'
+        });
+        buttonGroup.add(rect);
+        buttonGroup.add(text);
+
+        buttonGroup.on('click', () => {
+            AudioManager.getInstance().playSfx('click');
+            this.unmount();
+            this.onConfirm(this.priceRatio);
+        });
+        buttonGroup.on('mouseenter', () => {
+            this.stage.container().style.cursor = 'pointer';
+            rect.fill('#f77f00');
+            this.layer.draw();
+        });
+        buttonGroup.on('mouseleave', () => {
+            this.stage.container().style.cursor = 'default';
+            rect.fill('#d62828');
+            this.layer.draw();
+        });
+        this.screenGroup.add(buttonGroup);
+    }
+
+    public unmount(): void {
+        this.resources.dispose();
+        this.screenGroup.destroy();
+        if (this.exitButtonInstance) {
+            this.exitButtonInstance.destroy();
+            this.exitButtonInstance = null;
+        }
+    }
+}
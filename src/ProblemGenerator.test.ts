@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  additionProblem,
+  decimalProblem,
+  divisionProblem,
+  factForProblem,
+  conversionProblem,
+  fractionProblem,
+  generateProblem,
+  measuringProblem,
+  moneyProblem,
+  multiplicationProblem,
+  problemForFact,
+  scalingProblem,
+  Skill,
+  subtractionProblem,
+} from "./ProblemGenerator";
+import { getDifficulty } from "./Difficulty";
+
+// Returns the given values in turn, then keeps returning the last one
+const sequence = (...values: number[]) => () => (values.length > 1 ? values.shift()! : values[0]);
+
+describe("ProblemGenerator", () => {
+  it("builds division problems that divide evenly unless remainders are allowed", () => {
+    const even = divisionProblem({ divisors: { min: 2, max: 10 }, quotients: { min: 1, max: 12 }, remainders: false }, () => 0);
+    expect(even).toEqual({ operands: [2, 2], operator: "÷", answer: 1, display: "2 ÷ 2", skill: "division" });
+
+    const withRemainder = divisionProblem(
+      { divisors: { min: 3, max: 12 }, quotients: { min: 5, max: 25 }, remainders: true },
+      () => 0.5
+    );
+    expect(withRemainder.operands).toEqual([124, 8]);
+    expect(withRemainder.answer).toBe(15);
+    expect(withRemainder.display).toBe("124 ÷ 8 = ? R 4");
+  });
+
+  it("builds multiplication, addition and subtraction problems", () => {
+    const range = { left: { min: 2, max: 9 }, right: { min: 2, max: 9 } };
+    expect(multiplicationProblem(range, sequence(0.99, 0))).toMatchObject({ operands: [9, 2], answer: 18, display: "9 × 2" });
+    expect(additionProblem(range, sequence(0.5, 0.99))).toMatchObject({ answer: 15, display: "6 + 9", operator: "+" });
+    // The larger number always comes first
+    expect(subtractionProblem(range, sequence(0, 0.99))).toMatchObject({ operands: [9, 2], answer: 7, display: "9 − 2" });
+  });
+
+  it("builds fraction-of-a-whole problems with whole answers", () => {
+    const problem = fractionProblem({ denominators: { min: 4, max: 4 }, multiples: { min: 5, max: 5 } }, () => 0.99);
+    expect(problem).toMatchObject({ operands: [3, 4, 20], answer: 15, display: "3/4 of 20", skill: "fractions" });
+  });
+
+  it("keeps decimal and money answers to the cent", () => {
+    const decimal = decimalProblem({ hundredths: { min: 10, max: 10 } }, sequence(0, 0));
+    expect(decimal).toMatchObject({ answer: 0.2, display: "0.10 + 0.10", skill: "decimals" });
+
+    // $5 paid for a price of 65 nickels ($3.25)
+    const money = moneyProblem({ paid: { min: 5, max: 5 } }, sequence(0, 64 / 99));
+    expect(money).toMatchObject({ operands: [5, 3.25], answer: 1.75, display: "$5.00 − $3.25", skill: "money" });
+  });
+
+  it("builds recipe scaling and unit conversion problems", () => {
+    const butter = { name: "Butter", quantity: 6, unit: "tbsp", unitPlural: "tbsp" };
+    expect(scalingProblem(butter, 1.5)).toMatchObject({ answer: 9, display: "1½ batches: 6 tbsp Butter → ? tbsp", skill: "measuring" });
+    expect(conversionProblem(0.5, "cup", "tbsp")).toMatchObject({ operands: [0.5, 16], operator: "×", answer: 8, display: "½ cup = ? tbsp" });
+    expect(conversionProblem(9, "tsp", "tbsp")).toMatchObject({ operands: [9, 3], operator: "÷", answer: 3, display: "9 tsp = ? tbsp" });
+
+    // A draw of 0.5 or more converts instead of scaling
+    const flour = { ingredients: [{ name: "Flour", quantity: 3, unit: "cup", unitPlural: "cups" }], batches: [0.5] };
+    expect(measuringProblem(flour, () => 0).display).toBe("½ batch: 3 cups Flour → ? cups");
+    expect(measuringProblem(flour, sequence(0.5, 0, 0)).display).toBe("1 tbsp = ? tsp");
+    expect(measuringProblem({ ingredients: [], batches: [] }, () => 0.99).display).toBe("48 tbsp = ? cups");
+  });
+
+  it("produces a well-formed problem for every skill", () => {
+    const skills: Skill[] = ["division", "multiplication", "addition", "subtraction", "fractions", "decimals", "money", "measuring"];
+    const tier = getDifficulty("standard");
+    skills.forEach((skill, i) => {
+      const problem = generateProblem(skill, tier, () => (i + 1) / 10);
+      expect(problem.skill).toBe(skill);
+      expect(Number.isFinite(problem.answer)).toBe(true);
+      expect(problem.answer).toBeGreaterThanOrEqual(0);
+      expect(problem.display.length).toBeGreaterThan(0);
+    });
+  });
+
+  it("converts between problems and adaptive engine facts", () => {
+    const problem = problemForFact({ kind: "division", a: 59, b: 8 });
+    expect(problem).toMatchObject({ answer: 7, display: "59 ÷ 8 = ? R 3" });
+    expect(factForProblem(problem)).toEqual({ kind: "division", a: 59, b: 8 });
+    expect(factForProblem(problemForFact({ kind: "multiplication", a: 7, b: 8 }))).toEqual({ kind: "multiplication", a: 7, b: 8 });
+    expect(factForProblem(additionProblem())).toBeNull();
+  });
+});
@@ -0,0 +1,245 @@
+import { DifficultyTier, OperandRange, pickOperand } from './Difficulty';
+import { MathFact } from './AdaptiveEngine';
+import {
+    BATCH_SIZES,
+    convertAmount,
+    formatAmount,
+    KitchenUnit,
+    MeasuredIngredient,
+    MeasuringOptions,
+    unitLabel,
+} from './Measuring';
+
+export type Operator = '+' | '−' | '×' | '÷';
+
+export type Skill =
+    | 'division'
+    | 'multiplication'
+    | 'addition'
+    | 'subtraction'
+    | 'fractions'
+    | 'decimals'
+    | 'money'
+    | 'measuring';
+
+export interface Problem {
+    operands: number[];
+    operator: Operator;
+    answer: number;
+    display: string; // what the player sees, e.g. "56 ÷ 8" or "3/4 of 20"
+    skill: Skill;
+}
+
+export interface DivisionOptions {
+    divisors: OperandRange;
+    quotients: OperandRange;
+    remainders: boolean;
+}
+
+export interface PairOptions {
+    left: OperandRange;
+    right: OperandRange;
+}
+
+export interface FractionOptions {
+    denominators: OperandRange;
+    // The whole is this many times the denominator, so the answer is a whole number
+    multiples: OperandRange;
+}
+
+export interface DecimalOptions {
+    // Operands are picked in hundredths, e.g. { min: 10, max: 500 } is 0.10 to 5.00
+    hundredths: OperandRange;
+}
+
+// Defaults for skills the difficulty tiers do not cover yet
+export const ADDITION_OPTIONS: PairOptions = { left: { min: 10, max: 99 }, right: { min: 1, max: 99 } };
+export const SUBTRACTION_OPTIONS: PairOptions = { left: { min: 10, max: 99 }, right: { min: 1, max: 99 } };
+export const FRACTION_OPTIONS: FractionOptions = { denominators: { min: 2, max: 10 }, multiples: { min: 1, max: 10 } };
+export const DECIMAL_OPTIONS: DecimalOptions = { hundredths: { min: 10, max: 999 } };
+// Amounts paid are whole dollars, prices are in nickels
+export const MONEY_OPTIONS = { paid: { min: 1, max: 20 } as OperandRange };
+// Used when no recipe is given; the measuring minigame scales the day's recipe
+export const MEASURING_OPTIONS: MeasuringOptions = {
+    ingredients: [
+        { name: 'Flour', quantity: 2, unit: 'cup', unitPlural: 'cups' },
+        { name: 'Butter', quantity: 6, unit: 'tbsp', unitPlural: 'tbsp' },
+        { name: 'Baking Soda', quantity: 1, unit: 'tsp', unitPlural: 'tsp' },
+    ],
+    batches: BATCH_SIZES,
+};
+
+// Unit conversions asked by the measuring minigame, with the amounts they
+// start from. Every answer comes out whole.
+const CONVERSIONS: Array<{ from: KitchenUnit; to: KitchenUnit; amounts: number[] }> = [
+    { from: 'tbsp', to: 'tsp', amounts: [1, 2, 3, 4, 5, 6] },
+    { from: 'tsp', to: 'tbsp', amounts: [3, 6, 9, 12, 15, 18] },
+    { from: 'cup', to: 'tbsp', amounts: [0.25, 0.5, 0.75, 1, 1.5, 2] },
+    { from: 'tbsp', to: 'cup', amounts: [16, 32, 48] },
+];
+
+// Two decimal places, avoiding floating point leftovers like 0.30000000000000004
+function toCents(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function formatMoney(value: number): string {
+    return `$${value.toFixed(2)}`;
+}
+
+// Dividends that do not split evenly show the remainder; the answer is the whole quotient
+export function divisionProblem(options: DivisionOptions, random: () => number = Math.random): Problem {
+    const divisor = pickOperand(options.divisors, random);
+    const quotient = pickOperand(options.quotients, random);
+    const remainder = options.remainders ? Math.floor(random() * divisor) : 0;
+    return divisionOf(divisor * quotient + remainder, divisor);
+}
+
+function divisionOf(dividend: number, divisor: number): Problem {
+    const remainder = dividend % divisor;
+    return {
+        operands: [dividend, divisor],
+        operator: '÷',
+        answer: Math.floor(dividend / divisor),
+        display: remainder > 0 ? `${dividend} ÷ ${divisor} = ? R ${remainder}` : `${dividend} ÷ ${divisor}`,
+        skill: 'division',
+    };
+}
+
+export function multiplicationProblem(options: PairOptions, random: () => number = Math.random): Problem {
+    return multiplicationOf(pickOperand(options.left, random), pickOperand(options.right, random));
+}
+
+function multiplicationOf(left: number, right: number): Problem {
+    return {
+        operands: [left, right],
+        operator: '×',
+        answer: left * right,
+        display: `${left} × ${right}`,
+        skill: 'multiplication',
+    };
+}
+
+export function additionProblem(options: PairOptions = ADDITION_OPTIONS, random: () => number = Math.random): Problem {
+    const left = pickOperand(options.left, random);
+    const right = pickOperand(options.right, random);
+    return { operands: [left, right], operator: '+', answer: left + right, display: `${left} + ${right}`, skill: 'addition' };
+}
+
+// The larger number always comes first so answers are never negative
+export function subtractionProblem(options: PairOptions = SUBTRACTION_OPTIONS, random: () => number = Math.random): Problem {
+    const first = pickOperand(options.left, random);
+    const second = pickOperand(options.right, random);
+    const left = Math.max(first, second);
+    const right = Math.min(first, second);
+    return { operands: [left, right], operator: '−', answer: left - right, display: `${left} − ${right}`, skill: 'subtraction' };
+}
+
+// "3/4 of 20": a fraction of a whole number, always coming out whole
+export function fractionProblem(options: FractionOptions = FRACTION_OPTIONS, random: () => number = Math.random): Problem {
+    const denominator = pickOperand(options.denominators, random);
+    const numerator = pickOperand({ min: 1, max: denominator - 1 }, random);
+    const whole = denominator * pickOperand(options.multiples, random);
+    return {
+        operands: [numerator, denominator, whole],
+        operator: '×',
+        answer: (whole / denominator) * numerator,
+        display: `${numerator}/${denominator} of ${whole}`,
+        skill: 'fractions',
+    };
+}
+
+export function decimalProblem(options: DecimalOptions = DECIMAL_OPTIONS, random: () => number = Math.random): Problem {
+    const left = pickOperand(options.hundredths, random) / 100;
+    const right = pickOperand(options.hundredths, random) / 100;
+    return {
+        operands: [left, right],
+        operator: '+',
+        answer: toCents(left + right),
+        display: `${left.toFixed(2)} + ${right.toFixed(2)}`,
+        skill: 'decimals',
+    };
+}
+
+// Making change: whole dollars paid for a price in nickels
+export function moneyProblem(options = MONEY_OPTIONS, random: () => number = Math.random): Problem {
+    const paid = pickOperand(options.paid, random);
+    const nickels = pickOperand({ min: 1, max: paid * 20 - 1 }, random);
+    const price = nickels / 20;
+    return {
+        operands: [paid, price],
+        operator: '−',
+        answer: toCents(paid - price),
+        display: `${formatMoney(paid)} − ${formatMoney(price)}`,
+        skill: 'money',
+    };
+}
+
+function pickFrom<T>(items: T[], random: () => number): T {
+    return items[Math.min(items.length - 1, Math.floor(random() * items.length))];
+}
+
+// "1½ batches: 3 cups Flour → ? cups"
+export function scalingProblem(ingredient: MeasuredIngredient, batch: number): Problem {
+    const answer = ingredient.quantity * batch;
+    const batches = `${formatAmount(batch)} ${batch > 1 ? 'batches' : 'batch'}`;
+    const amount = `${formatAmount(ingredient.quantity)} ${unitLabel(ingredient.quantity, ingredient.unit, ingredient.unitPlural)}`;
+    return {
+        operands: [ingredient.quantity, batch],
+        operator: '×',
+        answer,
+        display: `${batches}: ${amount} ${ingredient.name} → ? ${ingredient.unitPlural}`,
+        skill: 'measuring',
+    };
+}
+
+// "2 tbsp = ? tsp" or "48 tbsp = ? cups"
+export function conversionProblem(amount: number, from: KitchenUnit, to: KitchenUnit): Problem {
+    const answer = convertAmount(amount, from, to);
+    const factor = answer > amount ? answer / amount : amount / answer;
+    return {
+        operands: [amount, factor],
+        operator: answer > amount ? '×' : '÷',
+        answer,
+        display: `${formatAmount(amount)} ${unitLabel(amount, from)} = ? ${unitLabel(2, to)}`,
+        skill: 'measuring',
+    };
+}
+
+// Scales one of the recipe's ingredients half the time, otherwise converts
+// between tsp, tbsp and cups
+export function measuringProblem(options: MeasuringOptions = MEASURING_OPTIONS, random: () => number = Math.random): Problem {
+    if (options.ingredients.length > 0 && random() < 0.5) {
+        return scalingProblem(pickFrom(options.ingredients, random), pickFrom(options.batches, random));
+    }
+    const conversion = pickFrom(CONVERSIONS, random);
+    return conversionProblem(pickFrom(conversion.amounts, random), conversion.from, conversion.to);
+}
+
+export type ProblemGenerator = (tier: DifficultyTier, random: () => number) => Problem;
+
+// One generator per skill; division and multiplication follow the tier
+const GENERATORS: Record<Skill, ProblemGenerator> = {
+    division: (tier, random) => divisionProblem(tier.division, random),
+    multiplication: (tier, random) => multiplicationProblem(tier.multiplication, random),
+    addition: (_tier, random) => additionProblem(ADDITION_OPTIONS, random),
+    subtraction: (_tier, random) => subtractionProblem(SUBTRACTION_OPTIONS, random),
+    fractions: (_tier, random) => fractionProblem(FRACTION_OPTIONS, random),
+    decimals: (_tier, random) => decimalProblem(DECIMAL_OPTIONS, random),
+    money: (_tier, random) => moneyProblem(MONEY_OPTIONS, random),
+    measuring: (_tier, random) => measuringProblem(MEASURING_OPTIONS, random),
+};
+
+export function generateProblem(skill: Skill, tier: DifficultyTier, random: () => number = Math.random): Problem {
+    return GENERATORS[skill](tier, random);
+}
+
+// The adaptive engine tracks division and multiplication facts
+export function problemForFact(fact: MathFact): Problem {
+    return fact.kind === 'division' ? divisionOf(fact.a, fact.b) : multiplicationOf(fact.a, fact.b);
+}
+
+export function factForProblem(problem: Problem): MathFact | null {
+    if (problem.skill !== 'division' && problem.skill !== 'multiplication') return null;
+    return { kind: problem.skill, a: problem.operands[0], b: problem.operands[1] };
+}
@@ -0,0 +1,126 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ProfileStore } from "./ProfileStore";
+import { GamePhase } from "./types";
+
+const snapshotFor = (username: string, day: number) => ({
+  phase: GamePhase.ORDER,
+  player: {
+    username,
+    funds: 200,
+    ingredients: new Map<string, number>(),
+    ingredientBatches: [],
+    breadInventory: [],
+    maxBreadCapacity: 20,
+    currentDay: day,
+    dishesToClean: 0,
+    reputation: 1,
+    currentDayDemand: 0,
+  },
+  customerOrders: [],
+  daySales: 0,
+  dayExpenses: 0,
+  dayTips: 0,
+  fulfillment: [],
+  spoilage: [],
+  production: { baked: 0, stale: 0, quality: null },
+  priceRatio: 1,
+  measuringPenalty: 0,
+  wordProblemDiscount: null,
+  difficulty: "standard" as const,
+  seed: 1,
+  market: null,
+  report: [],
+});
+
+describe("ProfileStore", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("creates profiles once per name, case-insensitively, and persists them", () => {
+    const store = new ProfileStore();
+    store.ensureProfile("Sam");
+    store.ensureProfile("sam ");
+    store.ensureProfile("Alex");
+
+    const reloaded = new ProfileStore();
+    expect(reloaded.listProfiles().map((p) => p.username).sort()).toEqual(["Alex", "Sam"]);
+    expect(reloaded.getProfile("SAM")?.username).toBe("Sam");
+  });
+
+  it("keeps each profile's saved run separate", () => {
+    const store = new ProfileStore();
+    store.ensureProfile("Sam");
+    store.ensureProfile("Alex");
+    store.getSaveManager("Sam").save(snapshotFor("Sam", 3));
+    store.getSaveManager("Alex").save(snapshotFor("Alex", 7));
+
+    expect(store.getSaveManager("Sam").load()?.player.currentDay).toBe(3);
+    expect(store.getSaveManager("Alex").load()?.player.currentDay).toBe(7);
+  });
+
+  it("records minigame history and best score per profile", () => {
+    const store = new ProfileStore();
+    store.ensureProfile("Sam");
+    store.ensureProfile("Alex");
+
+    store.recordMinigame("Sam", { minigame: "baking", day: 1, correctAnswers: 4, totalProblems: 5, skipped: false });
+    store.recordRun("Sam", { won: false, finalFunds: 120, daysPlayed: 4 });
+    store.recordRun("Sam", { won: true, finalFunds: 1050, daysPlayed: 9 });
+    store.recordRun("Sam", { won: false, finalFunds: 80, daysPlayed: 2 });
+
+    const sam = new ProfileStore().getProfile("Sam")!;
+    expect(sam.minigameHistory).toHaveLength(1);
+    expect(sam.minigameHistory[0].correctAnswers).toBe(4);
+    expect(sam.bestScore).toBe(1050);
+    expect(sam.runHistory).toHaveLength(3);
+
+    const alex = new ProfileStore().getProfile("Alex")!;
+    expect(alex.minigameHistory).toHaveLength(0);
+    expect(alex.bestScore).toBe(0);
+  });
+
+  it("keeps each student's adaptive practice state across sessions", () => {
+    const store = new ProfileStore();
+    store.ensureProfile("Sam");
+    expect(store.getAdaptiveState("Sam")).toEqual({ levels: { division: 0, multiplication: 0 }, facts: {} });
+
+    const fact = { kind: "multiplication" as const, a: 7, b: 8, attempts: 2, correct: 0, totalResponseMs: 9000, streak: 0 };
+    store.saveAdaptiveState("Sam", { levels: { division: 1, multiplication: -1 }, facts: { "7 × 8": fact } });
+
+    const reloaded = new ProfileStore();
+    expect(reloaded.getAdaptiveState("sam").levels).toEqual({ division: 1, multiplication: -1 });
+    expect(reloaded.getAdaptiveState("Sam").facts["7 × 8"]).toEqual(fact);
+    expect(reloaded.getAdaptiveState("Nobody")).toEqual({ levels: { division: 0, multiplication: 0 }, facts: {} });
+  });
+
+  it("keeps each student's missed problems for practice", () => {
+    const store = new ProfileStore();
+    store.ensureProfile("Sam");
+    expect(store.getMistakeLog("Sam")).toEqual([]);
+
+    const mistake = { question: "7 × 8", answer: 56, skill: "multiplication" as const, box: 1, dueAt: 99, misses: 2, lastMissedAt: 50 };
+    store.saveMistakeLog("Sam", [mistake]);
+
+    expect(new ProfileStore().getMistakeLog("sam")).toEqual([mistake]);
+    expect(new ProfileStore().getMistakeLog("Nobody")).toEqual([]);
+  });
+
+  it("deletes a profile together with its saved run", () => {
+    const store = new ProfileStore();
+    store.ensureProfile("Sam");
+    store.getSaveManager("Sam").save(snapshotFor("Sam", 2));
+
+    store.deleteProfile("Sam");
+    expect(store.getProfile("Sam")).toBeNull();
+    expect(store.getSaveManager("Sam").load()).toBeNull();
+  });
+
+  it("ignores corrupt profile data", () => {
+    localStorage.setItem("cookieTrailerTycoon.profiles", "{broken");
+    expect(new ProfileStore().listProfiles()).toEqual([]);
+  });
+});
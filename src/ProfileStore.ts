@@ -0,0 +1,167 @@
+import { SaveManager } from './SaveManager';
+import { AdaptiveState, emptyAdaptiveState, parseAdaptiveState } from './AdaptiveEngine';
+import { LoggedMistake, parseMistakeLog } from './MistakeLog';
+
+const PROFILES_KEY = 'cookieTrailerTycoon.profiles';
+const SAVE_KEY_PREFIX = 'cookieTrailerTycoon.save.';
+
+const MAX_HISTORY_ENTRIES = 200;
+
+export interface MinigameRecord {
+    minigame: 'wordProblems' | 'measuring' | 'baking' | 'cleaning';
+    day: number;
+    correctAnswers: number;
+    totalProblems: number;
+    skipped: boolean;
+    playedAt: number;
+}
+
+export interface RunRecord {
+    won: boolean;
+    finalFunds: number;
+    daysPlayed: number;
+    endedAt: number;
+}
+
+export interface PlayerProfile {
+    username: string;
+    createdAt: number;
+    lastPlayedAt: number;
+    bestScore: number; // highest final balance of any finished run
+    runHistory: RunRecord[];
+    minigameHistory: MinigameRecord[];
+    adaptive: AdaptiveState; // per-fact accuracy and minigame levels, see AdaptiveEngine.ts
+    mistakes: LoggedMistake[]; // missed problems for the practice screen, see MistakeLog.ts
+}
+
+// Profiles are keyed case-insensitively so "Sam" and "sam" share one profile
+function profileKey(username: string): string {
+    return username.trim().toLowerCase();
+}
+
+export class ProfileStore {
+    private profiles: Record<string, PlayerProfile> = {};
+
+    constructor() {
+        this.profiles = this.read();
+    }
+
+    public listProfiles(): PlayerProfile[] {
+        return Object.values(this.profiles)
+            .sort((a, b) => b.lastPlayedAt - a.lastPlayedAt);
+    }
+
+    public getProfile(username: string): PlayerProfile | null {
+        return this.profiles[profileKey(username)] ?? null;
+    }
+
+    // Returns the existing profile for this name, or creates a new one
+    public ensureProfile(username: string): PlayerProfile {
+        const key = profileKey(username);
+        const now = Date.now();
+        if (!this.profiles[key]) {
+            this.profiles[key] = {
+                username: username.trim(),
+                createdAt: now,
+                lastPlayedAt: now,
+                bestScore: 0,
+                runHistory: [],
+                minigameHistory: [],
+                adaptive: emptyAdaptiveState(),
+                mistakes: [],
+            };
+        } else {
+            this.profiles[key].lastPlayedAt = now;
+        }
+        this.write();
+        return this.profiles[key];
+    }
+
+    public deleteProfile(username: string): void {
+        const key = profileKey(username);
+        if (!this.profiles[key]) return;
+        this.getSaveManager(username).clear();
+        delete this.profiles[key];
+        this.write();
+    }
+
+    // Each profile keeps its own save slot
+    public getSaveManager(username: string): SaveManager {
+        return new SaveManager(SAVE_KEY_PREFIX + profileKey(username));
+    }
+
+    public recordMinigame(username: string, record: Omit<MinigameRecord, 'playedAt'>): void {
+        const profile = this.getProfile(username);
+        if (!profile) return;
+        profile.minigameHistory.push({ ...record, playedAt: Date.now() });
+        if (profile.minigameHistory.length > MAX_HISTORY_ENTRIES) {
+            profile.minigameHistory.splice(0, profile.minigameHistory.length - MAX_HISTORY_ENTRIES);
+        }
+        this.write();
+    }
+
+    public getAdaptiveState(username: string): AdaptiveState {
+        return parseAdaptiveState(this.getProfile(username)?.adaptive);
+    }
+
+    public saveAdaptiveState(username: string, state: AdaptiveState): void {
+        const profile = this.getProfile(username);
+        if (!profile) return;
+        profile.adaptive = state;
+        this.write();
+    }
+
+    public getMistakeLog(username: string): LoggedMistake[] {
+        return parseMistakeLog(this.getProfile(username)?.mistakes);
+    }
+
+    public saveMistakeLog(username: string, mistakes: LoggedMistake[]): void {
+        const profile = this.getProfile(username);
+        if (!profile) return;
+        profile.mistakes = mistakes;
+        this.write();
+    }
+
+    public recordRun(username: string, record: Omit<RunRecord, 'endedAt'>): void {
+        const profile = this.getProfile(username);
+        if (!profile) return;
+        profile.runHistory.push({ ...record, endedAt: Date.now() });
+        profile.bestScore = Math.max(profile.bestScore, record.finalFunds);
+        this.write();
+    }
+
+    private read(): Record<string, PlayerProfile> {
+        try {
+            const raw = localStorage.getItem(PROFILES_KEY);
+            if (!raw) return {};
+            const parsed = JSON.parse(raw);
+            if (!parsed || typeof parsed !== 'object' || !parsed.profiles) return {};
+            const profiles: Record<string, PlayerProfile> = {};
+            Object.values(parsed.profiles as Record<string, PlayerProfile>).forEach(p => {
+                if (!p || typeof p.username !== 'string' || p.username.trim() === '') return;
+                profiles[profileKey(p.username)] = {
+                    username: p.username,
+                    createdAt: p.createdAt ?? Date.now(),
+                    lastPlayedAt: p.lastPlayedAt ?? p.createdAt ?? Date.now(),
+                    bestScore: p.bestScore ?? 0,
+                    runHistory: Array.isArray(p.runHistory) ? p.runHistory : [],
+                    minigameHistory: Array.isArray(p.minigameHistory) ? p.minigameHistory : [],
+                    adaptive: parseAdaptiveState(p.adaptive),
+                    mistakes: parseMistakeLog(p.mistakes),
+                };
+            });
+            return profiles;
+        } catch (error) {
+            console.warn('Could not read player profiles, starting fresh:', error);
+            return {};
+        }
+    }
+
+    private write(): void {
+        try {
+            localStorage.setItem(PROFILES_KEY, JSON.stringify({ profiles: this.profiles }));
+        } catch (error) {
+            console.warn('Could not save player profiles:', error);
+        }
+    }
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import {
+  AnswerRecorder,
+  parseDayReports,
+  reportFileName,
+  reportToCsv,
+  reportToJson,
+  RunReport,
+  shoppingAccuracy,
+  shoppingLines,
+} from "./ProgressReport";
+import type { Problem } from "./ProblemGenerator";
+
+const problem = (display: string, answer: number): Problem => ({
+  operands: [],
+  operator: "×",
+  answer,
+  display,
+  skill: "multiplication",
+});
+
+const sampleReport = () => {
+  const run = new RunReport();
+  run.recordShopping(1, [
+    { ingredient: "Flour", needed: 6, bought: 6 },
+    { ingredient: "Butter", needed: 8, bought: 4 },
+  ]);
+  run.recordMinigame(1, {
+    minigame: "cleaning",
+    correctAnswers: 1,
+    totalProblems: 2,
+    skipped: false,
+    problems: [
+      { question: "3 × 4", skill: "multiplication", correct: true, responseMs: 2100 },
+      { question: 'Customer 1 wants 2 cookies (Sugar Cookie). How many "cups", all told?', skill: "multiplication", correct: false, responseMs: 4000 },
+    ],
+  });
+  run.recordTotals(1, 40, 15.5, 5, 129.5);
+  return run.build("Ann Lee", 4242, Date.UTC(2026, 0, 2));
+};
+
+describe("AnswerRecorder", () => {
+  it("times each answer from when its problem was shown", () => {
+    let now = 1000;
+    const answers = new AnswerRecorder(() => now);
+    answers.start();
+    now += 2500;
+    answers.record(problem("3 × 4", 12), true);
+    answers.start();
+    now += 800;
+    answers.record(problem("6 × 7", 42), false);
+
+    expect(answers.getAttempts()).toEqual([
+      { question: "3 × 4", skill: "multiplication", correct: true, responseMs: 2500 },
+      { question: "6 × 7", skill: "multiplication", correct: false, responseMs: 800 },
+    ]);
+  });
+});
+
+describe("RunReport", () => {
+  it("keeps days in order and replaces a replayed round instead of counting it twice", () => {
+    const run = new RunReport();
+    const round = (correctAnswers: number) => ({ minigame: "baking" as const, correctAnswers, totalProblems: 3, skipped: false, problems: [] });
+    run.recordMinigame(2, round(1));
+    run.recordMinigame(1, round(2));
+    run.recordMinigame(2, round(3));
+
+    const days = run.getDays();
+    expect(days.map((d) => d.day)).toEqual([1, 2]);
+    expect(days[1].minigames).toEqual([round(3)]);
+    expect(days[1].endingFunds).toBeNull();
+  });
+
+  it("hands out copies, so a saved report is not changed by later play", () => {
+    const run = new RunReport();
+    run.recordShopping(1, [{ ingredient: "Flour", needed: 1, bought: 1 }]);
+    const saved = run.getDays();
+    run.recordShopping(1, []);
+    expect(saved[0].shopping).toHaveLength(1);
+    expect(new RunReport(saved).getDays()[0].shopping).toHaveLength(1);
+  });
+});
+
+describe("shopping accuracy", () => {
+  it("lists needed and extra ingredients and scores the needed ones bought in full", () => {
+    const lines = shoppingLines(
+      new Map([["Flour", 6], ["Butter", 8], ["Sugar", 0]]),
+      new Map([["Flour", 7], ["Butter", 2], ["Chocolate", 1]])
+    );
+    expect(lines).toEqual([
+      { ingredient: "Flour", needed: 6, bought: 7 },
+      { ingredient: "Butter", needed: 8, bought: 2 },
+      { ingredient: "Chocolate", needed: 0, bought: 1 },
+    ]);
+    expect(shoppingAccuracy(lines)).toBe(0.5);
+    expect(shoppingAccuracy([{ ingredient: "Chocolate", needed: 0, bought: 1 }])).toBeNull();
+  });
+});
+
+describe("report export", () => {
+  it("writes one CSV table per section, quoting cells that need it", () => {
+    const lines = reportToCsv(sampleReport()).split("\r\n");
+
+    expect(lines.slice(0, 4)).toEqual(["Student,Ann Lee", "Generated,2026-01-02T00:00:00.000Z", "Seed,4242", ""]);
+    expect(lines).toContain("Day,Sales,Expenses,Tips,Profit,Ending funds,Shopping accuracy");
+    expect(lines).toContain("1,40.00,15.50,5.00,29.50,129.50,50%");
+    expect(lines).toContain("1,cleaning,1,2,no");
+    expect(lines).toContain("1,cleaning,3 × 4,multiplication,yes,2.1");
+    expect(lines).toContain('1,cleaning,"Customer 1 wants 2 cookies (Sugar Cookie). How many ""cups"", all told?",multiplication,no,4.0');
+    expect(lines).toContain("1,Butter,8,4");
+  });
+
+  it("writes the same report as JSON", () => {
+    const json = JSON.parse(reportToJson(sampleReport()));
+    expect(json.student).toBe("Ann Lee");
+    expect(json.generatedAt).toBe("2026-01-02T00:00:00.000Z");
+    expect(json.days[0].minigames[0].problems[0]).toEqual({ question: "3 × 4", skill: "multiplication", correct: true, responseMs: 2100 });
+  });
+
+  it("names the file after the student and the last day", () => {
+    expect(reportFileName(sampleReport(), "csv")).toBe("Ann_Lee-report-day-1.csv");
+    expect(reportFileName({ student: "", generatedAt: 0, seed: 1, days: [] }, "json")).toBe("student-report-day-0.json");
+  });
+
+  it("reads back a saved report and drops anything malformed", () => {
+    expect(parseDayReports("nope")).toEqual([]);
+    expect(parseDayReports([null, { day: 3, sales: "12", minigames: [{ minigame: "baking", problems: [] }, 5] }])).toEqual([
+      { day: 3, sales: 12, expenses: 0, tips: 0, endingFunds: null, minigames: [{ minigame: "baking", correctAnswers: 0, totalProblems: 0, skipped: false, problems: [] }], shopping: [] },
+    ]);
+  });
+});
@@ -0,0 +1,251 @@
+import { Problem, Skill } from './ProblemGenerator';
+import { MinigameRecord } from './ProfileStore';
+
+// Progress report for teachers
+// ----------------------------
+// Everything a student did in a run, one entry per day:
+//     the day's sales, expenses and tips
+//     each minigame round, with every problem answered and how long it took
+//     what was bought against what the day's orders needed
+// The report is kept with the saved run and downloaded as CSV and JSON from
+// the day summary, victory and lose screens.
+export type ReportFormat = 'csv' | 'json';
+export type MinigameName = MinigameRecord['minigame'];
+
+export interface ProblemAttempt {
+    question: string;
+    skill: Skill;
+    correct: boolean;
+    responseMs: number;
+}
+
+export interface MinigameRound {
+    minigame: MinigameName;
+    correctAnswers: number;
+    totalProblems: number;
+    skipped: boolean;
+    problems: ProblemAttempt[];
+}
+
+export interface ShoppingLine {
+    ingredient: string;
+    needed: number; // still to buy for the day's orders, after what was on hand
+    bought: number;
+}
+
+export interface DayReport {
+    day: number;
+    sales: number;
+    expenses: number;
+    tips: number;
+    endingFunds: number | null; // null until the day is over
+    minigames: MinigameRound[];
+    shopping: ShoppingLine[];
+}
+
+export interface ProgressReport {
+    student: string;
+    generatedAt: number;
+    seed: number;
+    days: DayReport[];
+}
+
+// Times and collects one round's answers, as the minigames announce them
+// on the event bus
+export class AnswerRecorder {
+    private attempts: ProblemAttempt[] = [];
+    private shownAt: number;
+    private now: () => number;
+
+    constructor(now: () => number = Date.now) {
+        this.now = now;
+        this.shownAt = now();
+    }
+
+    // A new problem is on screen
+    public start(): void {
+        this.shownAt = this.now();
+    }
+
+    public record(problem: Problem, correct: boolean): void {
+        this.attempts.push({
+            question: problem.display,
+            skill: problem.skill,
+            correct,
+            responseMs: Math.max(0, this.now() - this.shownAt),
+        });
+    }
+
+    public getAttempts(): ProblemAttempt[] {
+        return this.attempts.map((a) => ({ ...a }));
+    }
+}
+
+function emptyDay(day: number): DayReport {
+    return { day, sales: 0, expenses: 0, tips: 0, endingFunds: null, minigames: [], shopping: [] };
+}
+
+// Rebuilds the days read back from a save, dropping anything malformed
+export function parseDayReports(data: any): DayReport[] {
+    if (!Array.isArray(data)) return [];
+    return data
+        .filter((d: any) => d && typeof d.day === 'number')
+        .map((d: any) => ({
+            day: d.day,
+            sales: Number(d.sales) || 0,
+            expenses: Number(d.expenses) || 0,
+            tips: Number(d.tips) || 0,
+            endingFunds: typeof d.endingFunds === 'number' ? d.endingFunds : null,
+            minigames: Array.isArray(d.minigames)
+                ? d.minigames.filter((m: any) => m && typeof m.minigame === 'string').map((m: any) => ({
+                    minigame: m.minigame,
+                    correctAnswers: Number(m.correctAnswers) || 0,
+                    totalProblems: Number(m.totalProblems) || 0,
+                    skipped: m.skipped === true,
+                    problems: Array.isArray(m.problems) ? m.problems.filter((p: any) => p && typeof p.question === 'string') : [],
+                }))
+                : [],
+            shopping: Array.isArray(d.shopping) ? d.shopping.filter((s: any) => s && typeof s.ingredient === 'string') : [],
+        }));
+}
+
+// The run so far. Each record replaces what was there for that day, so a
+// phase replayed after resuming a save is not counted twice.
+export class RunReport {
+    private days: DayReport[];
+
+    constructor(days: DayReport[] = []) {
+        this.days = days.map(copyDay);
+    }
+
+    public getDays(): DayReport[] {
+        return this.days.map(copyDay);
+    }
+
+    private dayFor(day: number): DayReport {
+        let entry = this.days.find((d) => d.day === day);
+        if (!entry) {
+            entry = emptyDay(day);
+            this.days.push(entry);
+            this.days.sort((a, b) => a.day - b.day);
+        }
+        return entry;
+    }
+
+    public recordMinigame(day: number, round: MinigameRound): void {
+        const entry = this.dayFor(day);
+        entry.minigames = entry.minigames.filter((m) => m.minigame !== round.minigame);
+        entry.minigames.push({ ...round, problems: round.problems.map((p) => ({ ...p })) });
+    }
+
+    public recordShopping(day: number, lines: ShoppingLine[]): void {
+        this.dayFor(day).shopping = lines.map((l) => ({ ...l }));
+    }
+
+    public recordTotals(day: number, sales: number, expenses: number, tips: number, endingFunds: number): void {
+        Object.assign(this.dayFor(day), { sales, expenses, tips, endingFunds });
+    }
+
+    public build(student: string, seed: number, generatedAt: number = Date.now()): ProgressReport {
+        return { student, generatedAt, seed, days: this.getDays() };
+    }
+}
+
+function copyDay(day: DayReport): DayReport {
+    return {
+        ...day,
+        minigames: day.minigames.map((m) => ({ ...m, problems: m.problems.map((p) => ({ ...p })) })),
+        shopping: day.shopping.map((s) => ({ ...s })),
+    };
+}
+
+// Bought vs needed for every ingredient the orders called for or the
+// student bought anyway
+export function shoppingLines(needed: Map<string, number>, purchases: Map<string, number>): ShoppingLine[] {
+    const names = [...needed.keys(), ...[...purchases.keys()].filter((name) => !needed.has(name))];
+    return names
+        .map((ingredient) => ({ ingredient, needed: needed.get(ingredient) ?? 0, bought: purchases.get(ingredient) ?? 0 }))
+        .filter((line) => line.needed > 0 || line.bought > 0);
+}
+
+// Share of the needed ingredients bought in full, or null if nothing was needed
+export function shoppingAccuracy(lines: ShoppingLine[]): number | null {
+    const needed = lines.filter((line) => line.needed > 0);
+    if (needed.length === 0) return null;
+    return needed.filter((line) => line.bought >= line.needed).length / needed.length;
+}
+
+export function reportToJson(report: ProgressReport): string {
+    return JSON.stringify({ ...report, generatedAt: new Date(report.generatedAt).toISOString() }, null, 2);
+}
+
+function csvCell(value: string | number | boolean | null): string {
+    const text = value === null ? '' : typeof value === 'boolean' ? (value ? 'yes' : 'no') : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRows(rows: Array<Array<string | number | boolean | null>>): string[] {
+    return rows.map((row) => row.map(csvCell).join(','));
+}
+
+const money = (amount: number) => amount.toFixed(2);
+
+// One table per section, separated by a blank line, so it opens cleanly
+// in a spreadsheet
+export function reportToCsv(report: ProgressReport): string {
+    const sections = [
+        csvRows([
+            ['Student', report.student],
+            ['Generated', new Date(report.generatedAt).toISOString()],
+            ['Seed', report.seed],
+        ]),
+        csvRows([
+            ['Day', 'Sales', 'Expenses', 'Tips', 'Profit', 'Ending funds', 'Shopping accuracy'],
+            ...report.days.map((d) => {
+                const accuracy = shoppingAccuracy(d.shopping);
+                return [
+                    d.day, money(d.sales), money(d.expenses), money(d.tips), money(d.sales + d.tips - d.expenses),
+                    d.endingFunds === null ? null : money(d.endingFunds),
+                    accuracy === null ? null : `${Math.round(accuracy * 100)}%`,
+                ];
+            }),
+        ]),
+        csvRows([
+            ['Day', 'Minigame', 'Correct', 'Total', 'Skipped'],
+            ...report.days.flatMap((d) => d.minigames.map((m) => [d.day, m.minigame, m.correctAnswers, m.totalProblems, m.skipped])),
+        ]),
+        csvRows([
+            ['Day', 'Minigame', 'Question', 'Skill', 'Correct', 'Seconds'],
+            ...report.days.flatMap((d) => d.minigames.flatMap((m) => m.problems.map((p) => [
+                d.day, m.minigame, p.question, p.skill, p.correct, (p.responseMs / 1000).toFixed(1),
+            ]))),
+        ]),
+        csvRows([
+            ['Day', 'Ingredient', 'Needed', 'Bought'],
+            ...report.days.flatMap((d) => d.shopping.map((s) => [d.day, s.ingredient, s.needed, s.bought])),
+        ]),
+    ];
+    return sections.map((rows) => rows.join('\r\n')).join('\r\n\r\n') + '\r\n';
+}
+
+// "alice-report-day-4.csv"
+export function reportFileName(report: ProgressReport, format: ReportFormat): string {
+    const student = report.student.replace(/[^a-z0-9_-]+/gi, '_') || 'student';
+    const lastDay = report.days.length > 0 ? report.days[report.days.length - 1].day : 0;
+    return `${student}-report-day-${lastDay}.${format}`;
+}
+
+// Saves the report through a temporary download link
+export function downloadReport(report: ProgressReport, format: ReportFormat): void {
+    const text = format === 'csv' ? reportToCsv(report) : reportToJson(report);
+    const blob = new Blob([text], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = reportFileName(report, format);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // The browser may still be reading the blob after click() returns
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { gradeFor, MAX_MEASURING_PENALTY, measuringPenalty, reputationChangeFor, scoreBatch, SKIPPED_QUALITY } from "./Quality";
+
+describe("scoreBatch", () => {
+  it("gives full marks for a fast, accurate round", () => {
+    // 60 seconds at 5 seconds per problem is 12 problems
+    expect(scoreBatch({ correctAnswers: 12, totalProblems: 12, timeRemaining: 0 }, false, 60)).toBe(100);
+  });
+
+  it("weighs accuracy and speed", () => {
+    // 75% accuracy (22.5 points) and half the target pace (10 points)
+    expect(scoreBatch({ correctAnswers: 6, totalProblems: 8, timeRemaining: 0 }, false, 60)).toBe(83);
+    expect(scoreBatch({ correctAnswers: 0, totalProblems: 0, timeRemaining: 0 }, false, 60)).toBe(50);
+  });
+
+  it("gives skipped rounds an average batch", () => {
+    expect(scoreBatch({ correctAnswers: 0, totalProblems: 3, timeRemaining: 40 }, true, 60)).toBe(SKIPPED_QUALITY);
+  });
+
+  it("takes measuring mistakes off the batch", () => {
+    expect(scoreBatch({ correctAnswers: 12, totalProblems: 12, timeRemaining: 0 }, false, 60, 6)).toBe(94);
+    expect(scoreBatch({ correctAnswers: 0, totalProblems: 3, timeRemaining: 40 }, true, 60, 6)).toBe(SKIPPED_QUALITY - 6);
+  });
+});
+
+describe("measuringPenalty", () => {
+  it("grows with the share of amounts measured wrong", () => {
+    expect(measuringPenalty({ correctAnswers: 5, totalProblems: 5, timeRemaining: 0 }, false)).toBe(0);
+    expect(measuringPenalty({ correctAnswers: 3, totalProblems: 5, timeRemaining: 0 }, false)).toBe(6);
+    expect(measuringPenalty({ correctAnswers: 0, totalProblems: 5, timeRemaining: 0 }, false)).toBe(MAX_MEASURING_PENALTY);
+  });
+
+  it("charges half for eyeballing the amounts", () => {
+    expect(measuringPenalty({ correctAnswers: 0, totalProblems: 0, timeRemaining: 0 }, true)).toBe(8);
+  });
+});
+
+describe("quality effects", () => {
+  it("grades quality scores", () => {
+    expect(gradeFor(100)).toBe("A");
+    expect(gradeFor(85)).toBe("B");
+    expect(gradeFor(65)).toBe("C");
+    expect(gradeFor(50)).toBe("D");
+  });
+
+  it("moves reputation up for good batches and down for poor ones", () => {
+    expect(reputationChangeFor(100)).toBe(0.05);
+    expect(reputationChangeFor(75)).toBe(0);
+    expect(reputationChangeFor(50)).toBe(-0.05);
+  });
+});
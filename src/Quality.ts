@@ -0,0 +1,58 @@
+import { MinigameResult } from './types';
+
+// A batch whose baking minigame was skipped comes out average
+export const SKIPPED_QUALITY = 70;
+// Quality before accuracy and speed are added
+const BASE_QUALITY = 50;
+const ACCURACY_POINTS = 30;
+const SPEED_POINTS = 20;
+// Solving one problem this often for the whole round earns every speed point
+export const TARGET_SECONDS_PER_PROBLEM = 5;
+
+// Quality at which a batch leaves reputation unchanged, and the change for
+// each point above or below it
+const NEUTRAL_QUALITY = 75;
+const REPUTATION_PER_POINT = 0.002;
+
+// Points a batch loses when every ingredient was measured wrong. Skipping
+// the measuring minigame means eyeballing the amounts, which costs half.
+export const MAX_MEASURING_PENALTY = 15;
+
+export type QualityGrade = 'A' | 'B' | 'C' | 'D';
+
+const GRADE_THRESHOLDS: Array<[number, QualityGrade]> = [
+    [90, 'A'],
+    [80, 'B'],
+    [65, 'C'],
+];
+
+// Scores today's batch from 50 to 100. Accuracy is the share of attempted
+// problems answered correctly; speed compares the number solved with what
+// the time limit allows at TARGET_SECONDS_PER_PROBLEM. Mistakes made while
+// measuring the ingredients come off the end.
+export function scoreBatch(result: MinigameResult, skipped: boolean, timeLimit: number, measuringPenalty: number = 0): number {
+    if (skipped) return Math.max(0, SKIPPED_QUALITY - measuringPenalty);
+    const accuracy = result.totalProblems > 0 ? result.correctAnswers / result.totalProblems : 0;
+    const target = Math.max(1, timeLimit / TARGET_SECONDS_PER_PROBLEM);
+    const speed = Math.min(1, result.correctAnswers / target);
+    return Math.max(0, Math.round(BASE_QUALITY + ACCURACY_POINTS * accuracy + SPEED_POINTS * speed) - measuringPenalty);
+}
+
+// Quality points lost to the measuring minigame, in proportion to the
+// share of amounts measured wrong
+export function measuringPenalty(result: MinigameResult, skipped: boolean): number {
+    if (skipped || result.totalProblems === 0) return Math.round(MAX_MEASURING_PENALTY / 2);
+    const wrong = result.totalProblems - result.correctAnswers;
+    return Math.round((MAX_MEASURING_PENALTY * wrong) / result.totalProblems);
+}
+
+export function gradeFor(quality: number): QualityGrade {
+    const match = GRADE_THRESHOLDS.find(([min]) => quality >= min);
+    return match ? match[1] : 'D';
+}
+
+// Customers talk about good batches: better cookies bring more customers
+// the next day, worse ones fewer
+export function reputationChangeFor(quality: number): number {
+    return Math.round((quality - NEUTRAL_QUALITY) * REPUTATION_PER_POINT * 100) / 100;
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { createRandom, hashSeed, parseSeed, SeededRandom, seedFromUrl } from "./Random";
+
+const draw = (random: () => number, n: number) => Array.from({ length: n }, () => random());
+
+describe("seeded random numbers", () => {
+  it("repeats the same sequence for the same seed", () => {
+    expect(draw(createRandom(42), 5)).toEqual(draw(createRandom(42), 5));
+    expect(draw(createRandom(42), 5)).not.toEqual(draw(createRandom(43), 5));
+    draw(createRandom(7), 100).forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it("gives every day and stream its own sequence", () => {
+    const run = new SeededRandom(2024);
+    expect(draw(run.stream(1, "orders"), 3)).toEqual(draw(new SeededRandom(2024).stream(1, "orders"), 3));
+    expect(draw(run.stream(1, "orders"), 3)).not.toEqual(draw(run.stream(2, "orders"), 3));
+    expect(draw(run.stream(1, "orders"), 3)).not.toEqual(draw(run.stream(1, "prices"), 3));
+  });
+
+  it("parses numeric and text seeds", () => {
+    expect(parseSeed("12345")).toBe(12345);
+    expect(parseSeed(" room-12 ")).toBe(hashSeed("room-12"));
+    expect(parseSeed(99.7)).toBe(99);
+    expect(parseSeed("")).toBeNull();
+    expect(parseSeed(undefined)).toBeNull();
+    expect(parseSeed(Number.NaN)).toBeNull();
+  });
+
+  it("reads the seed from the page address", () => {
+    expect(seedFromUrl("?seed=77&debug=1")).toBe(77);
+    expect(seedFromUrl("?debug=1")).toBeNull();
+    expect(seedFromUrl("")).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+// Seeded random numbers, so a run can be replayed exactly.
+// Each day draws orders, prices and problems from its own stream, derived
+// from the run's seed, the day and the stream name. Two players on the same
+// seed therefore get the same Day 1 even if they answer a different number of
+// problems or spend longer in the shop.
+
+export type RandomSource = () => number;
+
+export type RandomStream = 'orders' | 'prices' | 'wordProblems' | 'measuring' | 'baking' | 'cleaning';
+
+// 32-bit FNV-1a, used to turn any text into a seed
+export function hashSeed(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// mulberry32: small, fast and good enough for a game
+export function createRandom(seed: number): RandomSource {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Whole numbers are used as they are; any other text ("room-12") is hashed.
+// Returns null when there is no seed to use.
+export function parseSeed(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? Math.floor(Math.abs(value)) >>> 0 : null;
+    if (typeof value !== 'string') return null;
+    const trimmed = value.trim();
+    if (trimmed === '') return null;
+    return /^\d+$/.test(trimmed) ? Number(trimmed) >>> 0 : hashSeed(trimmed);
+}
+
+// Reads ?seed= from a query string such as window.location.search
+export function seedFromUrl(search: string): number | null {
+    return parseSeed(new URLSearchParams(search).get('seed'));
+}
+
+// A fresh seed for runs that were not given one
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+export class SeededRandom {
+    private seed: number;
+
+    constructor(seed: number) {
+        this.seed = seed >>> 0;
+    }
+
+    public getSeed(): number {
+        return this.seed;
+    }
+
+    // A new generator for one kind of draw on one day; asking again for the
+    // same day and stream starts the same sequence over
+    public stream(day: number, name: RandomStream): RandomSource {
+        return createRandom(hashSeed(`${this.seed}:${day}:${name}`));
+    }
+}
@@ -173,6 +173,7 @@ describe("RecipeBookScreen", () => {
       ingredients,
       onClose
     );
+    screen.mount();
 
     expect(layer.addedNodes.length).toBeGreaterThan(0);
     const buttonGroupEntry = konvaState.groups.find((group) =>
@@ -196,11 +197,35 @@ describe("RecipeBookScreen", () => {
     exitButtonState.lastCallback?.();
     expect(exitButtonState.destroyMock).toHaveBeenCalledTimes(1);
     expect(konvaState.groups[0].destroy).toHaveBeenCalledTimes(1);
-    expect(window.location.href).toBe("/login.hmtl");
+    expect(window.location.href).toBe("/login.html");
 
-    screen.cleanup();
+    screen.unmount();
     expect(konvaState.groups[0].destroy).toHaveBeenCalledTimes(2);
     expect(exitButtonState.destroyMock).toHaveBeenCalledTimes(1);
     expect(layer.draw).toHaveBeenCalled();
   });
+
+  it("opens on the first ordered flavor and pages through every recipe", () => {
+    const stage = new FakeStage(1000, 800);
+    const layer = new FakeLayer();
+
+    new RecipeBookScreen(stage as never, layer as never, new Map(), vi.fn(), [
+      { customerNum: 1, cookieCount: 2, recipeId: "sugar" },
+      { customerNum: 2, cookieCount: 3, recipeId: "sugar" },
+    ]).mount();
+
+    const liveGroups = () => konvaState.groups.filter((group) => !group.destroy.mock.calls.length);
+    const textsOf = (group: { children: unknown[] }) =>
+      group.children.map((child) => (child as { config?: { text?: string } }).config?.text);
+    const pageTitle = () =>
+      liveGroups().flatMap(textsOf).find((text) => typeof text === "string" && text.includes(" each"));
+    expect(pageTitle()).toBe("Sugar Cookie - $8.00 each (5 ordered today)");
+
+    const nextArrow = () => liveGroups().find((group) => textsOf(group).includes(">"))!;
+    nextArrow().trigger("click");
+    expect(pageTitle()).toBe("Double Chocolate - $18.00 each");
+
+    nextArrow().trigger("click");
+    expect(pageTitle()).toBe("Chocolate Chip - $15.00 each");
+  });
 });
@@ -1,7 +1,12 @@
 import Konva from 'konva';
+import { AudioManager } from './AudioManager';
 import { ExitButton } from './ui/ExitButton'; 
+import { CatalogManager } from './catalog';
+import { CustomerOrder, Recipe } from './types';
+import { describeFreshness, Freshness } from './Inventory';
+import { Screen } from './Screen';
 
-export class RecipeBookScreen {
+export class RecipeBookScreen implements Screen {
     private layer: Konva.Layer;
     private stage: Konva.Stage;
     private onClose: () => void;
@@ -9,30 +14,44 @@ export class RecipeBookScreen {
     private bookGroup: Konva.Group;
     private exitButtonInstance: ExitButton | null = null; 
 
-    // --- UPDATED ORDER: Flour, Butter, Sugar ---
-    private recipe: Map<string, number> = new Map([
-        ['Flour', 3],
-        ['Butter', 8], // Moved up
-        ['Sugar', 1],  // Moved down
-        ['Chocolate', 1],
-        ['Baking Soda', 2]
-    ]);
+    private catalog = CatalogManager.getInstance();
+    private recipes: Recipe[] = this.catalog.getRecipes();
+    private pageIndex: number = 0;
+    private pageGroup: Konva.Group | null = null;
+    private orderedCounts: Map<string, number> = new Map(); // recipe id -> cookies ordered today
+    private freshness: Map<string, Freshness>;
 
     constructor(
         stage: Konva.Stage,
         layer: Konva.Layer,
         playerIngredients: Map<string, number>,
-        onClose: () => void
+        onClose: () => void,
+        customerOrders: CustomerOrder[] = [],
+        freshness: Map<string, Freshness> = new Map()
     ) {
         this.stage = stage;
         this.layer = layer;
         this.ingredients = playerIngredients;
         this.onClose = onClose;
+        this.freshness = freshness;
+        customerOrders.forEach(order => {
+            this.orderedCounts.set(order.recipeId, (this.orderedCounts.get(order.recipeId) || 0) + order.cookieCount);
+        });
+        // Open on the first flavor someone actually ordered
+        this.pageIndex = Math.max(0, this.recipes.findIndex(r => this.orderedCounts.has(r.id)));
         this.bookGroup = new Konva.Group();
+    }
+
+    public mount(): void {
         this.layer.add(this.bookGroup);
         this.setupUI();
     }
 
+    // Laid out once for the stage size it was mounted at
+    public resize(): void {}
+    public pause(): void {}
+    public resume(): void {}
+
     private setupUI(): void {
         const stageWidth = this.stage.width();
         const stageHeight = this.stage.height();
@@ -76,16 +95,79 @@ export class RecipeBookScreen {
         // Title
         this.bookGroup.add(new Konva.Text({
             x: modalX, y: modalY + modalH * 0.05, width: modalW,
-            text: "Owl's Top-Secret Recipe",
+            text: "Owl's Top-Secret Recipes",
             fontSize: Math.min(stageWidth * 0.035, 48),
             fontStyle: 'bold', fontFamily: 'Schoolbell', fill: '#333', align: 'center'
         }));
-        
-        // Data Content
+
+        // "BUY INGREDIENTS" Button
+        const buttonWidth = Math.min(stageWidth * 0.25, 300);
+        const buttonHeight = Math.min(stageHeight * 0.08, 60);
+
+        const buttonGroup = new Konva.Group({
+            x: modalX + (modalW - buttonWidth) / 2,
+            y: modalY + modalH - buttonHeight - (modalH * 0.05),
+        });
+
+        const rect = new Konva.Rect({ width: buttonWidth, height: buttonHeight, fill: '#d62828', cornerRadius: 10 });
+
+        const text = new Konva.Text({
+            width: buttonWidth, height: buttonHeight,
+            text: 'BUY INGREDIENTS',
+            fontSize: Math.min(stageWidth * 0.022, 24),
+            fontFamily: 'Press Start 2P', fill: 'white', align: 'center', verticalAlign: 'middle', fontStyle: 'bold'
+        });
+
+        buttonGroup.add(rect);
+        buttonGroup.add(text);
+        buttonGroup.on('click', () => {
+            AudioManager.getInstance().playSfx('click');
+            this.onClose();
+        });
+        buttonGroup.on('mouseenter', () => {
+            this.stage.container().style.cursor = 'pointer';
+            rect.fill('#f77f00'); 
+            this.layer.draw();
+        });
+        buttonGroup.on('mouseleave', () => {
+            this.stage.container().style.cursor = 'default';
+            rect.fill('#d62828'); 
+            this.layer.draw();
+        });
+
+        this.bookGroup.add(buttonGroup);
+
+        this.exitButtonInstance = new ExitButton(this.stage, this.layer, () => {
+            this.unmount();
+            window.location.href = '/login.html';
+        });
+
+        this.drawPage(modalX, modalY, modalW, modalH);
+        this.layer.draw();
+    }
+
+    // One page per recipe: name, sale price, amounts needed vs. owned, and page arrows
+    private drawPage(modalX: number, modalY: number, modalW: number, modalH: number): void {
+        if (this.pageGroup) this.pageGroup.destroy();
+        const page = new Konva.Group();
+        this.pageGroup = page;
+        this.bookGroup.add(page);
+
+        const stageWidth = this.stage.width();
+        const stageHeight = this.stage.height();
+        const recipe = this.recipes[this.pageIndex];
         const contentLeftMargin = modalX + modalW * 0.15;
         const contentWidth = modalW * 0.75; 
         const baseFontSize = Math.min(stageWidth * 0.015, 20);
 
+        const ordered = this.orderedCounts.get(recipe.id) || 0;
+        page.add(new Konva.Text({
+            x: modalX, y: modalY + modalH * 0.13, width: modalW,
+            text: `${recipe.name} - $${this.catalog.getSalePrice(recipe).toFixed(2)} each`
+                + (ordered > 0 ? ` (${ordered} ordered today)` : ''),
+            fontSize: baseFontSize * 1.2, fontFamily: 'Schoolbell', fill: '#d62828', align: 'center'
+        }));
+
         const col1Width = contentWidth * 0.5; // GOODIES
         const col3Width = contentWidth * 0.25; // NEED
         const col4Width = contentWidth * 0.25; // HAVE
@@ -96,93 +178,89 @@ export class RecipeBookScreen {
         
         const headerY = modalY + modalH * 0.22;
 
-        this.bookGroup.add(new Konva.Text({
+        page.add(new Konva.Text({
             x: col1X, y: headerY, text: 'GOODIES',
             fontSize: baseFontSize, fontStyle: 'bold', fill: '#555', fontFamily: 'Schoolbell'
         }));
-        this.bookGroup.add(new Konva.Text({
+        page.add(new Konva.Text({
             x: col3X, y: headerY, text: 'NEED',
             fontSize: baseFontSize, fontStyle: 'bold', fill: '#555', fontFamily: 'Schoolbell', width: col3Width, align: 'right'
         }));
-        this.bookGroup.add(new Konva.Text({
+        page.add(new Konva.Text({
             x: col4X, y: headerY, text: 'HAVE',
             fontSize: baseFontSize, fontStyle: 'bold', fill: '#555', fontFamily: 'Arial, sans-serif', width: col4Width, align: 'right'
         }));
 
         let currentY = modalY + modalH * 0.30;
 
-        this.recipe.forEach((needed, ingredient) => {
+        this.catalog.getRecipeAmounts(recipe).forEach((needed, ingredient) => {
             const has = this.ingredients.get(ingredient) || 0;
             const hasColor = has >= needed ? '#27ae60' : '#e74c3c';
 
-            let ingredientDisplay = ingredient;
-            if (ingredient === 'Flour') ingredientDisplay = 'Flour (cups)';
-            else if (ingredient === 'Sugar') ingredientDisplay = 'Sugar (cups)';
-            else if (ingredient === 'Butter') ingredientDisplay = 'Butter (tbsp)';
-            else if (ingredient === 'Chocolate') ingredientDisplay = 'Chocolate (cups)';
-            else if (ingredient === 'Baking Soda') ingredientDisplay = 'Baking Soda (tsp)';
+            const unitLabel = this.catalog.getIngredient(ingredient)?.unitPlural;
+            const ingredientDisplay = unitLabel ? `${ingredient} (${unitLabel})` : ingredient;
 
-            this.bookGroup.add(new Konva.Text({
+            page.add(new Konva.Text({
                 x: col1X, y: currentY, text: ingredientDisplay,
                 fontSize: baseFontSize, fill: 'black', fontFamily: 'Schoolbell'
             }));
             
-            this.bookGroup.add(new Konva.Text({
+            page.add(new Konva.Text({
                 x: col3X, y: currentY, text: String(needed),
                 fontSize: baseFontSize, fill: 'black', fontFamily: 'Schoolbell', width: col3Width, align: 'right'
             }));
             
-            this.bookGroup.add(new Konva.Text({
+            page.add(new Konva.Text({
                 x: col4X, y: currentY, text: String(has),
                 fontSize: baseFontSize, fill: hasColor, fontStyle: 'bold', fontFamily: 'Arial, sans-serif', width: col4Width, align: 'right'
             }));
+
+            const fresh = this.freshness.get(ingredient);
+            const freshLabel = describeFreshness(fresh);
+            if (freshLabel) {
+                page.add(new Konva.Text({
+                    x: col4X, y: currentY + baseFontSize * 1.1, text: freshLabel,
+                    fontSize: baseFontSize * 0.6, fill: fresh && fresh.expiringQuantity > 0 ? '#e67e22' : '#777',
+                    fontFamily: 'Arial, sans-serif', width: col4Width, align: 'right'
+                }));
+            }
             
             currentY += stageHeight * 0.06;
         });
 
-        // "BUY INGREDIENTS" Button
-        const buttonWidth = Math.min(stageWidth * 0.25, 300);
-        const buttonHeight = Math.min(stageHeight * 0.08, 60);
-
-        const buttonGroup = new Konva.Group({
-            x: modalX + (modalW - buttonWidth) / 2,
-            y: modalY + modalH - buttonHeight - (modalH * 0.05),
-        });
-
-        const rect = new Konva.Rect({ width: buttonWidth, height: buttonHeight, fill: '#d62828', cornerRadius: 10 });
-
-        const text = new Konva.Text({
-            width: buttonWidth, height: buttonHeight,
-            text: 'BUY INGREDIENTS',
-            fontSize: Math.min(stageWidth * 0.022, 24),
-            fontFamily: 'Press Start 2P', fill: 'white', align: 'center', verticalAlign: 'middle', fontStyle: 'bold'
-        });
-
-        buttonGroup.add(rect);
-        buttonGroup.add(text);
-        buttonGroup.on('click', this.onClose); 
-        buttonGroup.on('mouseenter', () => {
-            this.stage.container().style.cursor = 'pointer';
-            rect.fill('#f77f00'); 
-            this.layer.draw();
-        });
-        buttonGroup.on('mouseleave', () => {
-            this.stage.container().style.cursor = 'default';
-            rect.fill('#d62828'); 
-            this.layer.draw();
-        });
-
-        this.bookGroup.add(buttonGroup);
+        if (this.recipes.length > 1) {
+            const arrowY = modalY + modalH * 0.13;
+            this.createPageArrow(page, '<', modalX + modalW * 0.1, arrowY, -1, () => this.drawPage(modalX, modalY, modalW, modalH));
+            this.createPageArrow(page, '>', modalX + modalW * 0.9, arrowY, 1, () => this.drawPage(modalX, modalY, modalW, modalH));
+            page.add(new Konva.Text({
+                x: modalX, y: modalY + modalH * 0.72, width: modalW,
+                text: `Recipe ${this.pageIndex + 1} of ${this.recipes.length}`,
+                fontSize: baseFontSize * 0.8, fontFamily: 'Schoolbell', fill: '#555', align: 'center'
+            }));
+        }
+        this.layer.draw();
+    }
 
-        this.exitButtonInstance = new ExitButton(this.stage, this.layer, () => {
-            this.cleanup();
-            window.location.href = '/login.hmtl';
+    private createPageArrow(page: Konva.Group, label: string, x: number, y: number, step: number, redraw: () => void): void {
+        const size = Math.min(this.stage.width() * 0.03, 36);
+        const arrow = new Konva.Group({ x: x - size / 2, y });
+        const rect = new Konva.Rect({ width: size, height: size, fill: '#f77f00', cornerRadius: 6 });
+        arrow.add(rect);
+        arrow.add(new Konva.Text({
+            width: size, height: size, text: label,
+            fontSize: size * 0.5, fontFamily: 'Press Start 2P', fill: 'white', align: 'center', verticalAlign: 'middle'
+        }));
+        arrow.on('click', () => {
+            AudioManager.getInstance().playSfx('click');
+            this.pageIndex = (this.pageIndex + step + this.recipes.length) % this.recipes.length;
+            redraw();
         });
-
-        this.layer.draw();
+        arrow.on('mouseenter', () => { this.stage.container().style.cursor = 'pointer'; });
+        arrow.on('mouseleave', () => { this.stage.container().style.cursor = 'default'; });
+        page.add(arrow);
     }
     
-    public cleanup(): void {
+    public unmount(): void {
         if (this.bookGroup) this.bookGroup.destroy();
         if (this.exitButtonInstance) {
             this.exitButtonInstance.destroy();
@@ -0,0 +1,160 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { SaveManager, SAVE_VERSION, isResumablePhase, type GameSnapshot } from "./SaveManager";
+import { GamePhase } from "./types";
+
+const makeSnapshot = (overrides: Partial<GameSnapshot> = {}): GameSnapshot => ({
+  phase: GamePhase.SHOPPING,
+  player: {
+    username: "Tester",
+    funds: 321.5,
+    ingredients: new Map([
+      ["Flour", 6],
+      ["Butter", 16],
+    ]),
+    ingredientBatches: [
+      { name: "Flour", quantity: 6, purchasedDay: 2, unitCost: 0.5 },
+      { name: "Butter", quantity: 16, purchasedDay: 3, unitCost: 0.25 },
+    ],
+    breadInventory: [{ recipeId: "sugar", quantity: 2, quality: 75, bakedDay: 2 }],
+    maxBreadCapacity: 25,
+    currentDay: 3,
+    dishesToClean: 2,
+    reputation: 1.1,
+    currentDayDemand: 9,
+  },
+  customerOrders: [
+    { customerNum: 1, cookieCount: 4, recipeId: "sugar" },
+    { customerNum: 2, cookieCount: 5, recipeId: "chocolate-chip" },
+  ],
+  daySales: 10,
+  dayExpenses: 4,
+  dayTips: 5,
+  fulfillment: [],
+  spoilage: [{ name: "Butter", quantity: 4, value: 1 }],
+  production: { baked: 9, stale: 0, quality: 85 },
+  priceRatio: 1.2,
+  measuringPenalty: 6,
+  wordProblemDiscount: 0.1,
+  difficulty: "challenge",
+  seed: 424242,
+  market: {
+    day: 3,
+    prices: [["Flour", 0.45]],
+    previousPrices: [["Flour", 0.55]],
+  },
+  report: [
+    {
+      day: 2,
+      sales: 30,
+      expenses: 12,
+      tips: 5,
+      endingFunds: 321.5,
+      minigames: [{
+        minigame: "cleaning",
+        correctAnswers: 1,
+        totalProblems: 2,
+        skipped: false,
+        problems: [
+          { question: "3 × 4", skill: "multiplication", correct: true, responseMs: 2100 },
+          { question: "6 × 7", skill: "multiplication", correct: false, responseMs: 4000 },
+        ],
+      }],
+      shopping: [{ ingredient: "Flour", needed: 6, bought: 4 }],
+    },
+  ],
+  ...overrides,
+});
+
+describe("SaveManager", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("round-trips the full game state including the ingredients Map and phase", () => {
+    const manager = new SaveManager("test.save");
+    manager.save(makeSnapshot());
+
+    const restored = manager.load();
+    expect(restored).not.toBeNull();
+    expect(restored!.phase).toBe(GamePhase.SHOPPING);
+    expect(restored!.player.ingredients).toBeInstanceOf(Map);
+    expect(restored!.player.ingredients.get("Butter")).toBe(16);
+    expect(restored!.player.funds).toBe(321.5);
+    expect(restored!.customerOrders).toEqual([
+      { customerNum: 1, cookieCount: 4, recipeId: "sugar" },
+      { customerNum: 2, cookieCount: 5, recipeId: "chocolate-chip" },
+    ]);
+    expect(restored!.dayTips).toBe(5);
+    expect(restored!.market?.prices).toEqual([["Flour", 0.45]]);
+    expect(restored!.player.ingredientBatches[1]).toEqual({ name: "Butter", quantity: 16, purchasedDay: 3, unitCost: 0.25 });
+    expect(restored!.spoilage).toEqual([{ name: "Butter", quantity: 4, value: 1 }]);
+    expect(restored!.player.breadInventory).toEqual([{ recipeId: "sugar", quantity: 2, quality: 75, bakedDay: 2 }]);
+    expect(restored!.player.maxBreadCapacity).toBe(25);
+    expect(restored!.production).toEqual({ baked: 9, stale: 0, quality: 85 });
+    expect(restored!.priceRatio).toBe(1.2);
+    expect(restored!.measuringPenalty).toBe(6);
+    expect(restored!.wordProblemDiscount).toBe(0.1);
+    expect(restored!.difficulty).toBe("challenge");
+    expect(restored!.seed).toBe(424242);
+    expect(restored!.report).toEqual(makeSnapshot().report);
+    expect(manager.hasSave()).toBe(true);
+  });
+
+  it("stores the phase by name and the current schema version", () => {
+    const manager = new SaveManager("test.save");
+    manager.save(makeSnapshot({ phase: GamePhase.DAY_SUMMARY }));
+
+    const raw = JSON.parse(localStorage.getItem("test.save")!);
+    expect(raw.version).toBe(SAVE_VERSION);
+    expect(raw.phase).toBe("DAY_SUMMARY");
+  });
+
+  it("rejects saves from another schema version, without a version, or that are corrupt", () => {
+    const manager = new SaveManager("test.save");
+
+    localStorage.setItem("test.save", JSON.stringify({ version: SAVE_VERSION + 1, phase: "ORDER" }));
+    expect(manager.load()).toBeNull();
+
+    manager.save(makeSnapshot());
+    const raw = JSON.parse(localStorage.getItem("test.save")!);
+    localStorage.setItem("test.save", JSON.stringify({ ...raw, version: SAVE_VERSION - 1 }));
+    expect(manager.load()).toBeNull();
+
+    localStorage.setItem("test.save", JSON.stringify({ phase: "ORDER" }));
+    expect(manager.load()).toBeNull();
+
+    localStorage.setItem("test.save", "{not json");
+    expect(manager.load()).toBeNull();
+    expect(manager.hasSave()).toBe(false);
+  });
+
+  it("rejects saves whose phase is unknown or not resumable", () => {
+    const manager = new SaveManager("test.save");
+    manager.save(makeSnapshot({ phase: GamePhase.VICTORY }));
+    expect(manager.load()).toBeNull();
+
+    const raw = JSON.parse(localStorage.getItem("test.save")!);
+    raw.phase = "NOT_A_PHASE";
+    localStorage.setItem("test.save", JSON.stringify(raw));
+    expect(manager.load()).toBeNull();
+  });
+
+  it("clears the stored run", () => {
+    const manager = new SaveManager("test.save");
+    manager.save(makeSnapshot());
+    manager.clear();
+    expect(localStorage.getItem("test.save")).toBeNull();
+  });
+
+  it("only treats in-day phases as resumable", () => {
+    expect(isResumablePhase(GamePhase.ORDER)).toBe(true);
+    expect(isResumablePhase(GamePhase.MEASURING)).toBe(true);
+    expect(isResumablePhase(GamePhase.WORD_PROBLEMS)).toBe(true);
+    expect(isResumablePhase(GamePhase.NEW_DAY_ANIMATION)).toBe(true);
+    expect(isResumablePhase(GamePhase.LOGIN)).toBe(false);
+    expect(isResumablePhase(GamePhase.DEFEAT)).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+import { GamePhase, PlayerState, CustomerOrder, DifficultyId } from './types';
+import { MarketState } from './Market';
+import { CustomerFulfillment } from './Fulfillment';
+import { SpoiledStock } from './Inventory';
+import { DayProduction } from './Oven';
+import { DEFAULT_DIFFICULTY, parseDifficulty } from './Difficulty';
+import { parseSeed, randomSeed } from './Random';
+import { DayReport, parseDayReports } from './ProgressReport';
+
+// Bump this whenever the shape of SaveData changes; saves written under any
+// other version are discarded.
+export const SAVE_VERSION = 1;
+
+// Live game state handed to / returned from the SaveManager
+export interface GameSnapshot {
+    phase: GamePhase;
+    player: PlayerState;
+    customerOrders: CustomerOrder[];
+    daySales: number;
+    dayExpenses: number;
+    dayTips: number;
+    fulfillment: CustomerFulfillment[];
+    spoilage: SpoiledStock[];
+    production: DayProduction;
+    priceRatio: number; // today's price compared with the list price
+    measuringPenalty: number; // quality points today's batch lost while measuring
+    wordProblemDiscount: number | null; // quiz discount on today's ingredients; null until the quiz is offered
+    difficulty: DifficultyId; // minigame tier picked for the run
+    seed: number; // seeds the run's random streams, see Random.ts
+    market: MarketState | null;
+    report: DayReport[]; // the run so far, for the teacher's progress report
+}
+
+// JSON-safe form written to storage (Maps become entry arrays, enums become names)
+export interface SaveData {
+    version: number;
+    savedAt: number;
+    phase: string;
+    player: Omit<PlayerState, 'ingredients'> & { ingredients: Array<[string, number]> };
+    customerOrders: CustomerOrder[];
+    daySales: number;
+    dayExpenses: number;
+    dayTips: number;
+    fulfillment: CustomerFulfillment[];
+    spoilage: SpoiledStock[];
+    production: DayProduction;
+    priceRatio: number; // today's price compared with the list price
+    measuringPenalty: number; // quality points today's batch lost while measuring
+    wordProblemDiscount: number | null; // quiz discount on today's ingredients; null until the quiz is offered
+    difficulty: DifficultyId; // minigame tier picked for the run
+    seed: number; // seeds the run's random streams, see Random.ts
+    market: MarketState | null;
+    report: DayReport[]; // the run so far, for the teacher's progress report
+}
+
+// Phases a run can be resumed into. Intro screens are not worth saving,
+// and once the run has ended there is nothing left to continue.
+const RESUMABLE_PHASES: GamePhase[] = [
+    GamePhase.PRICING,
+    GamePhase.ORDER,
+    GamePhase.WORD_PROBLEMS,
+    GamePhase.RECIPE_BOOK,
+    GamePhase.SHOPPING,
+    GamePhase.MEASURING,
+    GamePhase.BAKING,
+    GamePhase.POST_BAKING_ANIMATION,
+    GamePhase.CLEANING,
+    GamePhase.DAY_SUMMARY,
+    GamePhase.NEW_DAY_ANIMATION,
+];
+
+export function isResumablePhase(phase: GamePhase): boolean {
+    return RESUMABLE_PHASES.includes(phase);
+}
+
+export class SaveManager {
+    private storageKey: string;
+
+    constructor(storageKey: string) {
+        this.storageKey = storageKey;
+    }
+
+    public save(snapshot: GameSnapshot): void {
+        const data: SaveData = {
+            version: SAVE_VERSION,
+            savedAt: Date.now(),
+            phase: GamePhase[snapshot.phase],
+            player: {
+                ...snapshot.player,
+                ingredients: Array.from(snapshot.player.ingredients.entries()),
+                ingredientBatches: snapshot.player.ingredientBatches.map(b => ({ ...b })),
+                breadInventory: snapshot.player.breadInventory.map(b => ({ ...b })),
+            },
+            customerOrders: snapshot.customerOrders.map(o => ({ ...o })),
+            daySales: snapshot.daySales,
+            dayExpenses: snapshot.dayExpenses,
+            dayTips: snapshot.dayTips,
+            fulfillment: snapshot.fulfillment.map(c => ({ ...c })),
+            spoilage: snapshot.spoilage.map(s => ({ ...s })),
+            production: { ...snapshot.production },
+            priceRatio: snapshot.priceRatio,
+            measuringPenalty: snapshot.measuringPenalty,
+            wordProblemDiscount: snapshot.wordProblemDiscount,
+            difficulty: snapshot.difficulty,
+            seed: snapshot.seed,
+            market: snapshot.market,
+            report: parseDayReports(snapshot.report),
+        };
+
+        try {
+            localStorage.setItem(this.storageKey, JSON.stringify(data));
+        } catch (error) {
+            console.warn('Could not save game progress:', error);
+        }
+    }
+
+    public load(): GameSnapshot | null {
+        let raw: string | null = null;
+        try {
+            raw = localStorage.getItem(this.storageKey);
+        } catch (error) {
+            console.warn('Could not read saved game:', error);
+            return null;
+        }
+        if (!raw) return null;
+
+        try {
+            const data = this.checkVersion(JSON.parse(raw));
+            return data ? this.deserialize(data) : null;
+        } catch (error) {
+            console.warn('Discarding unreadable saved game:', error);
+            return null;
+        }
+    }
+
+    public hasSave(): boolean {
+        return this.load() !== null;
+    }
+
+    public clear(): void {
+        try {
+            localStorage.removeItem(this.storageKey);
+        } catch (error) {
+            console.warn('Could not clear saved game:', error);
+        }
+    }
+
+    // Saves without a version, or written under another one, are rejected
+    private checkVersion(data: any): SaveData | null {
+        if (!data || typeof data.version !== 'number') return null;
+        if (data.version !== SAVE_VERSION) {
+            console.warn(`Saved game version ${data.version} is not supported version ${SAVE_VERSION}`);
+            return null;
+        }
+        return data as SaveData;
+    }
+
+    private deserialize(data: SaveData): GameSnapshot | null {
+        const phase = GamePhase[data.phase as keyof typeof GamePhase];
+        if (phase === undefined || !isResumablePhase(phase)) return null;
+
+        const p = data.player;
+        if (!p || typeof p.funds !== 'number' || typeof p.currentDay !== 'number' || !Array.isArray(p.ingredients)) {
+            return null;
+        }
+
+        return {
+            phase,
+            player: {
+                username: String(p.username ?? ''),
+                funds: p.funds,
+                ingredients: new Map(p.ingredients),
+                ingredientBatches: Array.isArray(p.ingredientBatches) ? p.ingredientBatches : [],
+                breadInventory: Array.isArray(p.breadInventory) ? p.breadInventory : [],
+                maxBreadCapacity: p.maxBreadCapacity,
+                currentDay: p.currentDay,
+                dishesToClean: p.dishesToClean ?? 0,
+                reputation: p.reputation ?? 1.0,
+                currentDayDemand: p.currentDayDemand ?? 0,
+            },
+            customerOrders: Array.isArray(data.customerOrders) ? data.customerOrders : [],
+            daySales: data.daySales ?? 0,
+            dayExpenses: data.dayExpenses ?? 0,
+            dayTips: data.dayTips ?? 0,
+            fulfillment: Array.isArray(data.fulfillment) ? data.fulfillment : [],
+            spoilage: Array.isArray(data.spoilage) ? data.spoilage : [],
+            production: {
+                baked: data.production?.baked ?? 0,
+                stale: data.production?.stale ?? 0,
+                quality: typeof data.production?.quality === 'number' ? data.production.quality : null,
+            },
+            priceRatio: typeof data.priceRatio === 'number' && data.priceRatio > 0 ? data.priceRatio : 1,
+            measuringPenalty: typeof data.measuringPenalty === 'number' && data.measuringPenalty > 0 ? data.measuringPenalty : 0,
+            wordProblemDiscount: typeof data.wordProblemDiscount === 'number'
+                ? Math.min(1, Math.max(0, data.wordProblemDiscount))
+                : null,
+            difficulty: parseDifficulty(data.difficulty) ?? DEFAULT_DIFFICULTY,
+            seed: parseSeed(data.seed) ?? randomSeed(),
+            market: this.isMarketState(data.market) ? data.market : null,
+            report: parseDayReports(data.report),
+        };
+    }
+
+    private isMarketState(market: any): market is MarketState {
+        return !!market && typeof market.day === 'number'
+            && Array.isArray(market.prices) && Array.isArray(market.previousPrices);
+    }
+}
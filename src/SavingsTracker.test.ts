@@ -66,6 +66,7 @@ function createKonvaMock() {
       // bounce across thresholds to flip direction
       [5, 1000, 6000].forEach((timeDiff) => this.cb?.({ timeDiff }));
     }
+    stop = vi.fn();
   }
   return {
     default: {
@@ -138,5 +139,16 @@ describe("SavingsTracker coverage", () => {
     // ensure text updates
     expect(tracker.labelText.text()).toContain("Savings:");
     expect(layer.batchDraw).toHaveBeenCalled();
+
+    // follows the game's funds until destroyed
+    const { EventBus } = await import("./EventBus");
+    EventBus.getInstance().emit("fundsChanged", { funds: 25, change: 35 });
+    expect(tracker.labelText.text()).toBe("Savings: $25.00 / $50");
+    expect(tracker.progressBarFill.width()).toBeCloseTo(tracker.progressBarBG.width() / 2);
+    const bounce = tracker.bounceAnim;
+    tracker.destroy();
+    EventBus.getInstance().emit("fundsChanged", { funds: 40, change: 15 });
+    expect(tracker.labelText.text()).toBe("Savings: $25.00 / $50");
+    expect(bounce.stop).toHaveBeenCalled();
   });
 });
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { ScreenResources } from "./Screen";
+import { EventBus } from "./EventBus";
+
+describe("ScreenResources", () => {
+  let listeners: Map<string, Set<Function>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    listeners = new Map();
+    vi.stubGlobal("window", {
+      addEventListener: vi.fn((type: string, handler: Function) => {
+        listeners.set(type, (listeners.get(type) ?? new Set()).add(handler));
+      }),
+      removeEventListener: vi.fn((type: string, handler: Function) => listeners.get(type)?.delete(handler)),
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps one copy of a listener and removes it on dispose", () => {
+    const resources = new ScreenResources();
+    const onKey = vi.fn();
+    resources.listen("keydown", onKey);
+    resources.listen("keydown", onKey);
+    expect(listeners.get("keydown")?.size).toBe(1);
+
+    resources.dispose();
+    expect(listeners.get("keydown")?.size).toBe(0);
+  });
+
+  it("unsubscribes from the event bus on dispose", () => {
+    const bus = new EventBus();
+    EventBus.setInstance(bus);
+    const resources = new ScreenResources();
+    const onFunds = vi.fn();
+    const onVolume = vi.fn();
+    resources.subscribe("fundsChanged", onFunds);
+    const unsubscribe = resources.subscribe("volumeChanged", onVolume);
+    unsubscribe();
+
+    bus.emit("fundsChanged", { funds: 50, change: 5 });
+    bus.emit("volumeChanged", { bus: "music", volume: 1, muted: false });
+    expect(onFunds).toHaveBeenCalledWith({ funds: 50, change: 5 });
+    expect(onVolume).not.toHaveBeenCalled();
+
+    resources.dispose();
+    bus.emit("fundsChanged", { funds: 40, change: -10 });
+    expect(onFunds).toHaveBeenCalledTimes(1);
+    expect(bus.listenerCount("fundsChanged")).toBe(0);
+  });
+
+  it("stops timers and animations on dispose", () => {
+    const resources = new ScreenResources();
+    const tick = vi.fn();
+    const later = vi.fn();
+    const animation = { stop: vi.fn() };
+    resources.interval(tick, 100);
+    resources.timeout(later, 500);
+    resources.animation(animation as never);
+
+    vi.advanceTimersByTime(250);
+    resources.dispose();
+    vi.advanceTimersByTime(1000);
+
+    expect(tick).toHaveBeenCalledTimes(2);
+    expect(later).not.toHaveBeenCalled();
+    expect(animation.stop).toHaveBeenCalled();
+  });
+
+  it("destroys its widgets on dispose", () => {
+    const resources = new ScreenResources();
+    const button = { destroy: vi.fn() };
+    expect(resources.widget(button)).toBe(button);
+
+    resources.dispose();
+    resources.dispose();
+    expect(button.destroy).toHaveBeenCalledTimes(1);
+  });
+
+  it("clears a single timer and ignores one that is not running", () => {
+    const resources = new ScreenResources();
+    const tick = vi.fn();
+    const id = resources.interval(tick, 100);
+    resources.clear(id);
+    resources.clear(null);
+    vi.advanceTimersByTime(500);
+    expect(tick).not.toHaveBeenCalled();
+  });
+});
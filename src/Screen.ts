@@ -0,0 +1,108 @@
+import Konva from 'konva';
+import { EventBus, GameEventHandler, GameEventName } from './EventBus';
+
+// Screen lifecycle
+// ----------------
+// Every screen and minigame GameManager shows goes through the same steps:
+//     constructor   keeps its arguments; nothing is drawn yet
+//     mount         draws the screen and starts its listeners and timers
+//     resize        the stage has just been resized to width × height
+//     pause/resume  the game is hidden and shown again (timers stop counting)
+//     unmount       stops everything mount started and removes what it drew
+// Screens register their window listeners, event bus subscriptions, timers,
+// Konva animations and widgets with a ScreenResources, so unmount cannot leave
+// any of them running.
+export interface Screen {
+    mount(): void;
+    resize(width: number, height: number): void;
+    pause(): void;
+    resume(): void;
+    unmount(): void;
+}
+
+export type TimerId = ReturnType<typeof setTimeout>;
+
+// A UI piece that cleans up after itself, e.g. an InfoButton and its popup
+export interface Widget {
+    destroy(): void;
+}
+
+interface Listener {
+    type: string;
+    handler: EventListener;
+}
+
+export class ScreenResources {
+    private listeners: Listener[] = [];
+    private intervals = new Set<TimerId>();
+    private timeouts = new Set<TimerId>();
+    private animations = new Set<Konva.Animation>();
+    private subscriptions: (() => void)[] = []; // unsubscribes from the event bus
+    private widgets = new Set<Widget>();
+
+    // A window listener; adding the same handler twice keeps a single one
+    public listen<K extends keyof WindowEventMap>(type: K, handler: (e: WindowEventMap[K]) => void): void {
+        this.unlisten(type, handler);
+        window.addEventListener(type, handler);
+        this.listeners.push({ type, handler: handler as EventListener });
+    }
+
+    public unlisten<K extends keyof WindowEventMap>(type: K, handler: (e: WindowEventMap[K]) => void): void {
+        window.removeEventListener(type, handler);
+        this.listeners = this.listeners.filter((l) => !(l.type === type && l.handler === handler));
+    }
+
+    // An event bus handler, unsubscribed on dispose
+    public subscribe<K extends GameEventName>(event: K, handler: GameEventHandler<K>): () => void {
+        const unsubscribe = EventBus.getInstance().on(event, handler);
+        this.subscriptions.push(unsubscribe);
+        return unsubscribe;
+    }
+
+    public interval(callback: () => void, ms: number): TimerId {
+        const id = setInterval(callback, ms);
+        this.intervals.add(id);
+        return id;
+    }
+
+    public timeout(callback: () => void, ms: number): TimerId {
+        const id = setTimeout(() => {
+            this.timeouts.delete(id);
+            callback();
+        }, ms);
+        this.timeouts.add(id);
+        return id;
+    }
+
+    // Stops an interval or timeout started here
+    public clear(id: TimerId | null): void {
+        if (id === null) return;
+        if (this.intervals.delete(id)) clearInterval(id);
+        if (this.timeouts.delete(id)) clearTimeout(id);
+    }
+
+    public animation(animation: Konva.Animation): Konva.Animation {
+        this.animations.add(animation);
+        return animation;
+    }
+
+    public widget<T extends Widget>(widget: T): T {
+        this.widgets.add(widget);
+        return widget;
+    }
+
+    public dispose(): void {
+        this.listeners.forEach((l) => window.removeEventListener(l.type, l.handler));
+        this.listeners = [];
+        this.subscriptions.forEach((unsubscribe) => unsubscribe());
+        this.subscriptions = [];
+        this.intervals.forEach((id) => clearInterval(id));
+        this.intervals.clear();
+        this.timeouts.forEach((id) => clearTimeout(id));
+        this.timeouts.clear();
+        this.animations.forEach((animation) => animation.stop());
+        this.animations.clear();
+        this.widgets.forEach((widget) => widget.destroy());
+        this.widgets.clear();
+    }
+}
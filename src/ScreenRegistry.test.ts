@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from "vitest";
+import { ScreenRegistry } from "./ScreenRegistry";
+import { GamePhase } from "./types";
+
+const fakeScreen = () => ({
+  mount: vi.fn(),
+  resize: vi.fn(),
+  pause: vi.fn(),
+  resume: vi.fn(),
+  unmount: vi.fn(),
+});
+
+describe("ScreenRegistry", () => {
+  it("unmounts the screen that is up before mounting the next one", () => {
+    const registry = new ScreenRegistry();
+    const pricing = fakeScreen();
+    const order = fakeScreen();
+    registry.register(GamePhase.PRICING, () => pricing);
+    registry.register(GamePhase.ORDER, () => order);
+
+    expect(registry.show(GamePhase.PRICING)).toBe(pricing);
+    expect(pricing.mount).toHaveBeenCalledTimes(1);
+    registry.show(GamePhase.ORDER);
+    expect(pricing.unmount).toHaveBeenCalledTimes(1);
+    expect(order.mount).toHaveBeenCalledTimes(1);
+    expect(registry.getCurrent()).toBe(order);
+
+    registry.unmount();
+    registry.unmount();
+    expect(order.unmount).toHaveBeenCalledTimes(1);
+    expect(registry.getCurrent()).toBeNull();
+  });
+
+  it("passes resizes and tab switches to the current screen only", () => {
+    const registry = new ScreenRegistry();
+    const screen = fakeScreen();
+    registry.register(GamePhase.BAKING, () => screen);
+
+    registry.resize(800, 600);
+    registry.show(GamePhase.BAKING);
+    registry.resize(640, 480);
+    registry.pause();
+    registry.resume();
+
+    expect(screen.resize).toHaveBeenCalledTimes(1);
+    expect(screen.resize).toHaveBeenCalledWith(640, 480);
+    expect(screen.pause).toHaveBeenCalledTimes(1);
+    expect(screen.resume).toHaveBeenCalledTimes(1);
+  });
+
+  it("shows nothing for a phase without a factory", () => {
+    const registry = new ScreenRegistry();
+    const screen = fakeScreen();
+    registry.register(GamePhase.VICTORY, () => screen);
+    registry.show(GamePhase.VICTORY);
+
+    expect(registry.has(GamePhase.GAME_OVER)).toBe(false);
+    expect(registry.show(GamePhase.GAME_OVER)).toBeNull();
+    expect(screen.unmount).toHaveBeenCalled();
+  });
+
+  it("keeps the screen a factory moved on to", () => {
+    const registry = new ScreenRegistry();
+    const shopping = fakeScreen();
+    registry.register(GamePhase.SHOPPING, () => shopping);
+    // No problems today: the quiz goes straight on to the shop
+    registry.register(GamePhase.WORD_PROBLEMS, () => {
+      registry.show(GamePhase.SHOPPING);
+      return null;
+    });
+
+    expect(registry.show(GamePhase.WORD_PROBLEMS)).toBe(shopping);
+    expect(registry.getCurrent()).toBe(shopping);
+    expect(shopping.mount).toHaveBeenCalledTimes(1);
+    expect(shopping.unmount).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+import { GamePhase } from './types';
+import { Screen } from './Screen';
+
+// Screen registry
+// ---------------
+// One factory per phase. show() unmounts whatever is up, builds the new
+// phase's screen and mounts it, so exactly one screen is live at a time and
+// each is unmounted before the next appears. A factory may return null when
+// its phase has nothing to show (the quiz on a day without problems, or
+// GAME_OVER), usually after moving straight on to another phase.
+export type ScreenFactory = () => Screen | null;
+
+export class ScreenRegistry {
+    private factories = new Map<GamePhase, ScreenFactory>();
+    private current: Screen | null = null;
+    private shown: number = 0; // counts show() calls, to notice a factory that moved on
+
+    public register(phase: GamePhase, factory: ScreenFactory): void {
+        this.factories.set(phase, factory);
+    }
+
+    public has(phase: GamePhase): boolean {
+        return this.factories.has(phase);
+    }
+
+    public getCurrent(): Screen | null {
+        return this.current;
+    }
+
+    public show(phase: GamePhase): Screen | null {
+        this.unmount();
+        const shown = ++this.shown;
+        const screen = this.factories.get(phase)?.() ?? null;
+        // The factory went on to another phase itself; that one is up now
+        if (shown !== this.shown) return this.current;
+        this.current = screen;
+        screen?.mount();
+        return screen;
+    }
+
+    public resize(width: number, height: number): void {
+        this.current?.resize(width, height);
+    }
+
+    public pause(): void {
+        this.current?.pause();
+    }
+
+    public resume(): void {
+        this.current?.resume();
+    }
+
+    public unmount(): void {
+        const screen = this.current;
+        this.current = null;
+        screen?.unmount();
+    }
+}
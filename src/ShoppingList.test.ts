@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { describeShortfall, explainNeed, findShortfalls, needFor, needsForOrders } from "./ShoppingList";
+import { CatalogManager } from "./catalog";
+
+const catalog = CatalogManager.getInstance();
+const recipes = catalog.getRecipes();
+const ingredients = catalog.getIngredients();
+
+const orders = [
+  { customerNum: 1, cookieCount: 2, recipeId: "chocolate-chip" },
+  { customerNum: 2, cookieCount: 1, recipeId: "sugar" },
+  { customerNum: 3, cookieCount: 4, recipeId: "sugar" },
+];
+
+describe("ShoppingList", () => {
+  it("adds up each flavor and takes off what is on hand", () => {
+    const flour = needFor(catalog.getIngredient("Flour")!, orders, recipes, 5);
+    // 2 chocolate chip x 3 cups + 5 sugar x 2 cups
+    expect(flour.flavors.map((f) => f.amount)).toEqual([6, 10]);
+    expect(flour.needed).toBe(16);
+    expect(flour.toBuy).toBe(11);
+    expect(needFor(catalog.getIngredient("Flour")!, orders, recipes, 20).toBuy).toBe(0);
+  });
+
+  it("only lists the ingredients today's orders use", () => {
+    const needs = needsForOrders(
+      [{ customerNum: 1, cookieCount: 3, recipeId: "sugar" }],
+      recipes,
+      ingredients,
+      new Map([["Butter", 4]])
+    );
+    expect(needs.map((n) => n.name)).toEqual(["Flour", "Butter", "Sugar", "Baking Soda"]);
+    expect(needs.find((n) => n.name === "Butter")?.toBuy).toBe(8);
+  });
+
+  it("explains the calculation step by step", () => {
+    const flour = needFor(catalog.getIngredient("Flour")!, orders, recipes, 5);
+    expect(explainNeed(flour)).toEqual([
+      "Chocolate Chip: 2 cookies × 3 cups = 6 cups",
+      "Sugar Cookie: 5 cookies × 2 cups = 10 cups",
+      "Needed: 6 + 10 = 16 cups",
+      "On hand: 5 cups",
+      "To buy: 16 − 5 = 11 cups",
+    ]);
+
+    const soda = needFor(catalog.getIngredient("Baking Soda")!, [orders[1]], recipes, 3);
+    expect(explainNeed(soda)).toEqual([
+      "Sugar Cookie: 1 cookie × 1 tsp = 1 tsp",
+      "Needed: 1 tsp",
+      "On hand: 3 tsp",
+      "To buy: nothing, you have enough",
+    ]);
+  });
+
+  it("finds what the basket leaves short", () => {
+    const needs = needsForOrders(orders, recipes, ingredients, new Map([["Flour", 5]]));
+    const shortfalls = findShortfalls(needs, new Map([["Flour", 8], ["Butter", 36], ["Sugar", 12], ["Chocolate", 2]]));
+    expect(shortfalls.map(describeShortfall)).toEqual(["Flour: 3 cups short", "Baking Soda: 9 tsp short"]);
+    expect(describeShortfall({ name: "Sugar", unit: "cup", unitPlural: "cups", short: 0.5 })).toBe("Sugar: ½ cup short");
+  });
+});
@@ -0,0 +1,113 @@
+import { CustomerOrder, IngredientDefinition, Recipe } from './types';
+import { formatAmount, unitLabel } from './Measuring';
+
+// Shopping list for the day's orders
+// -----------------------------------
+// For each ingredient:
+//     needed = Σ (cookies ordered of a flavor × amount in one cookie)
+//     to buy = needed − on hand
+// The shopping screen sells a worked hint for one ingredient and checks
+// the basket against this list before the purchase goes through.
+export const HINT_COST = 0.5;
+
+export interface FlavorNeed {
+    recipeName: string;
+    cookies: number;
+    perCookie: number;
+    amount: number;
+}
+
+export interface IngredientNeed {
+    name: string;
+    unit: string;
+    unitPlural: string;
+    flavors: FlavorNeed[];
+    needed: number;
+    onHand: number;
+    toBuy: number;
+}
+
+export interface Shortfall {
+    name: string;
+    unit: string;
+    unitPlural: string;
+    short: number;
+}
+
+export function needFor(
+    ingredient: IngredientDefinition,
+    orders: CustomerOrder[],
+    recipes: Recipe[],
+    onHand: number
+): IngredientNeed {
+    const flavors = recipes
+        .map((recipe) => {
+            const cookies = orders.filter((o) => o.recipeId === recipe.id).reduce((sum, o) => sum + o.cookieCount, 0);
+            const perCookie = recipe.ingredients[ingredient.name] ?? 0;
+            return { recipeName: recipe.name, cookies, perCookie, amount: cookies * perCookie };
+        })
+        .filter((flavor) => flavor.amount > 0);
+    const needed = flavors.reduce((sum, flavor) => sum + flavor.amount, 0);
+    return {
+        name: ingredient.name,
+        unit: ingredient.unit,
+        unitPlural: ingredient.unitPlural,
+        flavors,
+        needed,
+        onHand,
+        toBuy: Math.max(0, needed - onHand),
+    };
+}
+
+// Every ingredient today's orders use, in catalog order
+export function needsForOrders(
+    orders: CustomerOrder[],
+    recipes: Recipe[],
+    ingredients: IngredientDefinition[],
+    pantry: Map<string, number>
+): IngredientNeed[] {
+    return ingredients
+        .map((ingredient) => needFor(ingredient, orders, recipes, pantry.get(ingredient.name) ?? 0))
+        .filter((need) => need.needed > 0);
+}
+
+function describeAmount(amount: number, need: IngredientNeed): string {
+    return `${formatAmount(amount)} ${unitLabel(amount, need.unit, need.unitPlural)}`;
+}
+
+// The hint, one line per step:
+//     Chocolate Chip: 2 cookies × 3 cups = 6 cups
+//     Sugar Cookie: 5 cookies × 2 cups = 10 cups
+//     Needed: 6 + 10 = 16 cups
+//     On hand: 5 cups
+//     To buy: 16 − 5 = 11 cups
+export function explainNeed(need: IngredientNeed): string[] {
+    const lines = need.flavors.map((flavor) =>
+        `${flavor.recipeName}: ${flavor.cookies} ${flavor.cookies === 1 ? 'cookie' : 'cookies'} × ` +
+        `${describeAmount(flavor.perCookie, need)} = ${describeAmount(flavor.amount, need)}`
+    );
+    const sum = need.flavors.length > 1 ? `${need.flavors.map((f) => formatAmount(f.amount)).join(' + ')} = ` : '';
+    lines.push(`Needed: ${sum}${describeAmount(need.needed, need)}`);
+    lines.push(`On hand: ${describeAmount(need.onHand, need)}`);
+    lines.push(need.toBuy > 0
+        ? `To buy: ${formatAmount(need.needed)} − ${formatAmount(need.onHand)} = ${describeAmount(need.toBuy, need)}`
+        : 'To buy: nothing, you have enough');
+    return lines;
+}
+
+// What the basket still leaves short once it is added to the pantry
+export function findShortfalls(needs: IngredientNeed[], purchases: Map<string, number>): Shortfall[] {
+    return needs
+        .map((need) => ({
+            name: need.name,
+            unit: need.unit,
+            unitPlural: need.unitPlural,
+            short: need.toBuy - (purchases.get(need.name) ?? 0),
+        }))
+        .filter((shortfall) => shortfall.short > 0);
+}
+
+// "Flour: 3 cups short"
+export function describeShortfall(shortfall: Shortfall): string {
+    return `${shortfall.name}: ${formatAmount(shortfall.short)} ${unitLabel(shortfall.short, shortfall.unit, shortfall.unitPlural)} short`;
+}
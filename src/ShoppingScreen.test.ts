@@ -101,6 +101,16 @@ function createKonvaMock() {
   };
 }
 
+// Clicks a button on the latest modal layer, e.g. the shortfall check
+function clickModalButton(stage: any, label: string) {
+  const modal = stage.getChildren()[stage.getChildren().length - 1];
+  const panel = modal?.getChildren().find((n: any) => n.getChildren?.().length);
+  panel
+    ?.getChildren()
+    .find((n: any) => n.getChildren?.().some((c: any) => c.text?.() === label))
+    ?.fire("click");
+}
+
 describe("ShoppingScreen full coverage", () => {
   beforeEach(() => {
     vi.restoreAllMocks();
@@ -160,10 +170,11 @@ describe("ShoppingScreen full coverage", () => {
       20,
       1,
       5,
-      [{ customerNum: 1, cookieCount: 2 }],
+      [{ customerNum: 1, cookieCount: 2, recipeId: "chocolate-chip" }],
       onPurchaseComplete,
       onViewRecipe
     );
+    screen.mount();
 
     // cover early return in handleKeyPress
     screen.handleKeyPress(new KeyboardEvent("keydown", { key: "1" }));
@@ -203,12 +214,17 @@ describe("ShoppingScreen full coverage", () => {
         );
     }
     expect(purchaseButton).toBeDefined();
+    // leaving the screen removes the keyboard listener
+    const removeSpy = vi.spyOn(window, "removeEventListener");
     purchaseButton?.fire("mouseenter");
     purchaseButton?.fire("mouseleave");
     purchaseButton?.fire("click");
+    // one cup of flour is short of two chocolate chip cookies
+    expect(onPurchaseComplete).not.toHaveBeenCalled();
+    clickModalButton(stage, "BUY ANYWAY");
     expect(onPurchaseComplete).toHaveBeenCalled();
 
-    // View recipe button hover + click triggers cleanup/onViewRecipe
+    // View recipe button hover + click triggers unmount/onViewRecipe
     const viewRecipeButton = layer
       .getChildren()
       .find((c: any) =>
@@ -225,7 +241,7 @@ describe("ShoppingScreen full coverage", () => {
         c.getChildren?.().some((n: any) => n.text?.() === "VIEW ORDERS")
       );
     viewOrdersButton?.fire("click");
-    const modalLayer = stage.getChildren().find((n: any) => n.getChildren?.().length);
+    const modalLayer = stage.getChildren()[stage.getChildren().length - 1];
     const closeCircle = modalLayer
       ?.getChildren()
       .find((n: any) => n.handlers?.has("click"));
@@ -240,12 +256,139 @@ describe("ShoppingScreen full coverage", () => {
     purchaseButton?.fire("click");
     expect(window.alert).toHaveBeenCalled();
 
-    // cleanup removes listener
-    const removeSpy = vi.spyOn(window, "removeEventListener");
-    screen.cleanup();
+    screen.unmount();
     expect(removeSpy).toHaveBeenCalledWith("keydown", expect.any(Function));
   });
 
+  it("takes the quiz discount off the total", async () => {
+    stubImages();
+    const konvaMock = createKonvaMock();
+    vi.doMock("konva", () => konvaMock);
+    const { ShoppingScreen } = await import("./ShoppingScreen");
+    const Konva = (await import("konva")).default as any;
+    const stage = new Konva.Stage({ width: 1000, height: 800, container: {} });
+    const layer = new Konva.Layer();
+    const onPurchaseComplete = vi.fn();
+
+    const screen: any = new ShoppingScreen(
+      stage, layer, 20, 1, 5,
+      [{ customerNum: 1, cookieCount: 2, recipeId: "chocolate-chip" }],
+      onPurchaseComplete, vi.fn(),
+      undefined, undefined, new Map(), undefined,
+      0.1
+    );
+    screen.mount();
+
+    // 10 cups of flour at $0.50, less 10%
+    screen.ingredients[0].inputValue = "10";
+    screen.totalCostText = new Konva.Text();
+    screen.updateTotalCost();
+    expect(screen.totalCostText.text()).toBe("Total Cost: $4.50 (10% off)");
+
+    screen.createPurchaseButton(stage.width(), 0);
+    const purchaseButton = layer
+      .getChildren()
+      .find((c: any) => c.getChildren?.().some((n: any) => n.text?.() === "PURCHASE"));
+    purchaseButton?.fire("click");
+    clickModalButton(stage, "BUY ANYWAY");
+    expect(onPurchaseComplete).toHaveBeenCalledWith(new Map([["Flour", 10]]), 4.5);
+  });
+
+  it("lists shortfalls before buying and sells a worked hint", async () => {
+    stubImages();
+    const konvaMock = createKonvaMock();
+    vi.doMock("konva", () => konvaMock);
+    const { AudioManager, SilentAudioManager } = await import("./AudioManager");
+    const audio = new SilentAudioManager();
+    audio.unlock();
+    AudioManager.setInstance(audio);
+    const { ShoppingScreen } = await import("./ShoppingScreen");
+    const Konva = (await import("konva")).default as any;
+    const stage = new Konva.Stage({ width: 1000, height: 800, container: {} });
+    const layer = new Konva.Layer();
+    const { EventBus } = await import("./EventBus");
+    const onPurchaseComplete = vi.fn();
+    // the game takes the money and announces the new balance
+    const paid = new Set<string>();
+    const onHint = vi.fn((ingredient: string) => {
+      paid.add(ingredient);
+      EventBus.getInstance().emit("fundsChanged", { funds: 9.5, change: -0.5 });
+    });
+    const pantry = new Map([["Flour", { quantity: 2, expiringQuantity: 0, daysLeft: 5 }]]);
+
+    // 2 sugar cookies: 4 cups flour, 8 tbsp butter, 4 cups sugar, 2 tsp baking soda
+    const screen: any = new ShoppingScreen(
+      stage, layer, 10, 1, 2,
+      [{ customerNum: 1, cookieCount: 2, recipeId: "sugar" }],
+      onPurchaseComplete, vi.fn(),
+      undefined, undefined, pantry, undefined, 0,
+      { cost: 0.5, paid, onHint }
+    );
+    screen.mount();
+    const findButton = (label: string) =>
+      layer.getChildren().find((c: any) => c.getChildren?.().some((n: any) => n.text?.()?.startsWith(label)));
+    const modalText = () =>
+      stage.getChildren()[stage.getChildren().length - 1]
+        .getChildren()[1]
+        .getChildren()
+        .map((n: any) => n.text?.())
+        .filter(Boolean);
+
+    // the hint works through the selected ingredient and is paid once
+    screen.focusInput("Flour", new Konva.Rect(), new Konva.Text());
+    findButton("HINT ($0.50)")?.fire("click");
+    expect(modalText()).toEqual([
+      "HINT: FLOUR",
+      "Sugar Cookie: 2 cookies × 2 cups = 4 cups",
+      "Needed: 4 cups",
+      "On hand: 2 cups",
+      "To buy: 4 − 2 = 2 cups",
+    ]);
+    expect(onHint).toHaveBeenCalledWith("Flour");
+    expect(screen.currentFunds).toBe(9.5);
+    expect(audio.played).toEqual(["cash_sound.wav"]);
+    clickModalButton(stage, "GOT IT");
+    findButton("HINT")?.fire("click");
+    expect(onHint).toHaveBeenCalledTimes(1);
+    // buttons that spend nothing click instead of ringing the till
+    expect(audio.played).toEqual(["cash_sound.wav", "click_sound.wav", "click_sound.wav"]);
+
+    // purchases that leave an ingredient short are held until confirmed
+    screen.ingredients.find((i: any) => i.name === "Flour").inputValue = "2";
+    screen.ingredients.find((i: any) => i.name === "Butter").inputValue = "8";
+    screen.ingredients.find((i: any) => i.name === "Sugar").inputValue = "3";
+    findButton("PURCHASE")?.fire("click");
+    expect(modalText()).toEqual([
+      "NOT ENOUGH FOR TODAY'S ORDERS",
+      "Sugar: 1 cup short",
+      "Baking Soda: 2 tsp short",
+    ]);
+    clickModalButton(stage, "BUY MORE");
+    expect(onPurchaseComplete).not.toHaveBeenCalled();
+    expect(audio.played.filter((file) => file === "cash_sound.wav")).toHaveLength(1);
+    expect(audio.played.slice(-2)).toEqual(["click_sound.wav", "click_sound.wav"]);
+
+    // with nothing short the purchase goes straight through
+    screen.ingredients.find((i: any) => i.name === "Sugar").inputValue = "4";
+    screen.ingredients.find((i: any) => i.name === "Baking Soda").inputValue = "2";
+    findButton("PURCHASE")?.fire("click");
+    expect(onPurchaseComplete).toHaveBeenCalledWith(
+      new Map([["Flour", 2], ["Butter", 8], ["Sugar", 4], ["Baking Soda", 2]]),
+      expect.any(Number)
+    );
+    // the purchase rings the till without a click alongside it
+    expect(audio.played).toHaveLength(6);
+    expect(audio.played[5]).toBe("cash_sound.wav");
+
+    // no money for a hint on another ingredient
+    window.alert = vi.fn();
+    screen.currentFunds = 0;
+    screen.focusInput("Butter", new Konva.Rect(), new Konva.Text());
+    findButton("HINT")?.fire("click");
+    expect(window.alert).toHaveBeenCalledWith("Not enough funds for a hint!");
+    expect(onHint).toHaveBeenCalledTimes(1);
+  });
+
   it("uses saved values and price-tag fallback branch", async () => {
     stubImages({ priceTagError: true });
     const konvaMock = createKonvaMock();
@@ -266,11 +409,12 @@ describe("ShoppingScreen full coverage", () => {
       50,
       2,
       8,
-      [{ customerNum: 1, cookieCount: 3 }],
+      [{ customerNum: 1, cookieCount: 3, recipeId: "chocolate-chip" }],
       onPurchaseComplete,
       onViewRecipe,
       saved
     );
+    screen.mount();
 
     // ensure saved values restored
     expect(screen.ingredients.find((i: any) => i.name === "Flour")?.inputValue).toBe("7");
@@ -288,6 +432,6 @@ describe("ShoppingScreen full coverage", () => {
     exitGroup?.fire("mouseleave");
     exitGroup?.fire("click");
 
-    screen.cleanup();
+    screen.unmount();
   });
 });
@@ -2,6 +2,14 @@ import Konva from "konva";
 import { ExitButton } from "./ui/ExitButton";
 import { InfoButton } from "./ui/InfoButton";
 import { getAssetPath } from "./utils";
+import { CatalogManager } from "./catalog";
+import { CustomerOrder } from "./types";
+import { describeFreshness, Freshness } from "./Inventory";
+import { OVEN_UPGRADE_STEP } from "./Oven";
+import { describeDiscount } from "./WordProblems";
+import { describeShortfall, explainNeed, findShortfalls, IngredientNeed, needsForOrders } from "./ShoppingList";
+import { Screen, ScreenResources } from "./Screen";
+import { AudioManager } from "./AudioManager";
 
 interface IngredientItem {
   name: string;
@@ -10,7 +18,38 @@ interface IngredientItem {
   unit: string;
 }
 
-export class ShoppingScreen {
+// Today's market prices plus yesterday's, used for the change arrows
+export interface ShoppingPrices {
+  today: Map<string, number>;
+  yesterday: Map<string, number>;
+}
+
+// Oven size and the upgrade offer shown next to the shelves
+export interface ShoppingOven {
+  capacity: number;    // cookies per day
+  onShelf: number;     // cookies carried over from earlier days
+  upgradeCost: number;
+  onUpgrade: () => void;
+}
+
+// Price of a worked hint; paid here and booked by the caller, who keeps
+// the day's paid ingredients across visits to the shop
+export interface ShoppingHint {
+  cost: number;
+  paid: ReadonlySet<string>; // ingredients already paid for today, shown again for free
+  onHint: (ingredient: string) => void;
+}
+
+interface ModalButton {
+  label: string;
+  fill: string;
+  hoverFill: string;
+  onClick: () => void;
+  // Set when the button spends money, so the till rings instead of a click
+  pays?: boolean;
+}
+
+export class ShoppingScreen implements Screen {
   private stage: Konva.Stage;
   private layer: Konva.Layer;
   private onPurchaseComplete: (
@@ -22,7 +61,7 @@ export class ShoppingScreen {
   private currentFunds: number;
   private currentDayDemand: number;
   private currentDay: number;
-  private customerOrders: Array<{customerNum: number, cookieCount: number}>;
+  private customerOrders: CustomerOrder[];
 
   private focusedInput: string | null = null;
   private focusedInputBox: Konva.Rect | null = null;
@@ -32,24 +71,30 @@ export class ShoppingScreen {
   private priceTagImageObj: HTMLImageElement | null = null; 
 
   // Resize Handling
-  private resizeHandler: () => void;
   private animationFrameId: number | null = null;
   private currentRenderId: number = 0;
   
 
-  // --- UPDATED ORDER: Flour, Butter, Sugar, Chocolate, Baking Soda ---
-  private ingredients: IngredientItem[] = [
-    { name: "Flour", price: 0.5, inputValue: "0", unit: "cup" },
-    { name: "Butter", price: 0.25, inputValue: "0", unit: "tbsp" }, // Moved up (Index 1)
-    { name: "Sugar", price: 0.75, inputValue: "0", unit: "cup" },   // Moved down (Index 2)
-    { name: "Chocolate", price: 3, inputValue: "0", unit: "cup" },
-    { name: "Baking Soda", price: 0.5, inputValue: "0", unit: "tsp" },
-  ];
+  // Shelf order and base prices come from the catalog
+  private ingredients: IngredientItem[] = CatalogManager.getInstance().getIngredients().map((ingredient) => ({
+    name: ingredient.name,
+    price: ingredient.price,
+    inputValue: "0",
+    unit: ingredient.unit,
+  }));
 
   
+  private previousPrices: Map<string, number> = new Map();
+  private freshness: Map<string, Freshness>;
+  private oven: ShoppingOven | undefined;
+  private discount: number; // share taken off the total, earned in the word-problem quiz
+  private hint: ShoppingHint | undefined;
+  private modalLayer: Konva.Layer | null = null;
   private inputTexts: Map<string, Konva.Text> = new Map();
   private totalCostText: Konva.Text | null = null;
   private keyboardHandler: (e: KeyboardEvent) => void;
+  private resources = new ScreenResources();
+  private audio = AudioManager.getInstance();
 
   constructor(
     stage: Konva.Stage,
@@ -57,13 +102,18 @@ export class ShoppingScreen {
     currentFunds: number,
     currentDay: number,
     currentDayDemand: number,
-    customerOrders: Array<{customerNum: number, cookieCount: number}>,
+    customerOrders: CustomerOrder[],
     onPurchaseComplete: (
       purchases: Map<string, number>,
       totalCost: number
     ) => void,
     onViewRecipe: () => void,
-    savedInputValues: Map<string, string> | undefined = undefined
+    savedInputValues: Map<string, string> | undefined = undefined,
+    prices: ShoppingPrices | undefined = undefined,
+    freshness: Map<string, Freshness> = new Map(),
+    oven: ShoppingOven | undefined = undefined,
+    discount: number = 0,
+    hint: ShoppingHint | undefined = undefined
   ) {
     this.stage = stage;
     this.layer = layer;
@@ -73,9 +123,20 @@ export class ShoppingScreen {
     this.customerOrders = customerOrders;
     this.onPurchaseComplete = onPurchaseComplete;
     this.onViewRecipe = onViewRecipe;
+    this.freshness = freshness;
+    this.oven = oven ? { ...oven } : undefined;
+    this.discount = Math.min(1, Math.max(0, discount));
+    this.hint = hint;
     
     this.keyboardHandler = this.handleKeyPress.bind(this);
-    this.resizeHandler = this.handleResize.bind(this);
+
+    if (prices) {
+      this.ingredients.forEach(ingredient => {
+        const todayPrice = prices.today.get(ingredient.name);
+        if (todayPrice !== undefined) ingredient.price = todayPrice;
+      });
+      this.previousPrices = new Map(prices.yesterday);
+    }
 
     if(savedInputValues){
       this.ingredients.forEach(ingredient => {
@@ -86,13 +147,16 @@ export class ShoppingScreen {
       });
     }
 
+  }
+
+  public mount(): void {
     this.setupUI();
     this.setupKeyboardInput();
-
-    window.addEventListener('resize', this.resizeHandler);
+    // Upgrades and hints are paid for by the game; the balance follows
+    this.resources.subscribe("fundsChanged", ({ funds }) => this.showFunds(funds));
   }
 
-  private handleResize(): void {
+  public resize(): void {
     if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
 
     this.animationFrameId = requestAnimationFrame(() => {
@@ -101,6 +165,10 @@ export class ShoppingScreen {
     });
   }
 
+  // Nothing here is timed
+  public pause(): void {}
+  public resume(): void {}
+
   // ... (Rest of the class methods remain exactly the same) ...
 
   private setupUI(): void {
@@ -171,6 +239,8 @@ export class ShoppingScreen {
     const stageHeight = this.stage.height();
 
     this.createBalanceGroup(stageWidth, stageHeight);
+    this.createPantryPanel(stageWidth, stageHeight);
+    this.createOvenPanel(stageWidth, stageHeight);
 
     const itemXPercentages = [0.22, 0.363, 0.5, 0.637, 0.77]; 
     const inputY = stageHeight * 0.68;
@@ -190,12 +260,13 @@ export class ShoppingScreen {
     this.createViewRecipeButton(stageWidth, stageHeight); 
     this.createViewOrdersButton(stageWidth, stageHeight);
     this.createPurchaseButton(stageWidth, 0); 
+    this.createHintButton(stageWidth, stageHeight);
 
     new ExitButton(this.stage, this.layer, () => {
-      this.cleanup();
+      this.unmount();
       window.location.href = "/login.html";
     });
-    new InfoButton(this.stage, this.layer);
+    this.resources.widget(new InfoButton(this.stage, this.layer));
   }
 
   private createBalanceGroup(stageWidth: number, stageHeight: number): void {
@@ -237,7 +308,7 @@ export class ShoppingScreen {
         y: balanceBoxHeight / 2,
         width: balanceBoxWidth * 0.9,
         height: balanceBoxHeight / 2,
-        text: `Total Cost: $${(0).toFixed(2)}`,
+        text: this.describeTotal(0),
         fontSize: balanceFontSize,
         fill: "white",
         fontFamily: "Press Start 2P",
@@ -249,6 +320,152 @@ export class ShoppingScreen {
     this.layer.add(balanceGroup);
   }
 
+  // Stock already on hand, flagging anything that spoils tonight
+  private createPantryPanel(stageWidth: number, stageHeight: number): void {
+    const stocked = this.ingredients.filter(ingredient => (this.freshness.get(ingredient.name)?.quantity ?? 0) > 0);
+    if (stocked.length === 0) return;
+
+    const panelWidth = stageWidth * 0.18;
+    const fontSize = Math.min(stageWidth * 0.008, 10);
+    const lineHeight = fontSize * 2;
+    const panelHeight = lineHeight * (stocked.length + 1) + fontSize;
+
+    const panelGroup = new Konva.Group({
+        x: stageWidth * 0.78,
+        y: stageHeight * 0.1,
+    });
+
+    panelGroup.add(new Konva.Rect({
+        width: panelWidth,
+        height: panelHeight,
+        fill: "rgba(255, 255, 255, 0.9)",
+        stroke: "#C94040",
+        strokeWidth: 2,
+        cornerRadius: 10,
+    }));
+
+    panelGroup.add(new Konva.Text({
+        x: fontSize,
+        y: fontSize,
+        width: panelWidth - fontSize * 2,
+        text: "PANTRY",
+        fontSize,
+        fill: "#C94040",
+        fontFamily: "Press Start 2P",
+    }));
+
+    stocked.forEach((ingredient, index) => {
+      const fresh = this.freshness.get(ingredient.name)!;
+      panelGroup.add(new Konva.Text({
+          x: fontSize,
+          y: fontSize + lineHeight * (index + 1),
+          width: panelWidth - fontSize * 2,
+          text: `${ingredient.name}: ${fresh.quantity} (${describeFreshness(fresh)})`,
+          fontSize: fontSize * 0.9,
+          fill: fresh.expiringQuantity > 0 ? "#B22222" : "#333",
+          fontFamily: "Press Start 2P",
+      }));
+    });
+
+    this.layer.add(panelGroup);
+  }
+
+  // Oven capacity, leftover cookies and an upgrade button. Upgrading pays
+  // straight away and keeps the player on this screen.
+  private createOvenPanel(stageWidth: number, stageHeight: number): void {
+    const oven = this.oven;
+    if (!oven) return;
+
+    const panelWidth = stageWidth * 0.18;
+    const fontSize = Math.min(stageWidth * 0.008, 10);
+    const lineHeight = fontSize * 2;
+
+    const panelGroup = new Konva.Group({
+        x: stageWidth * 0.04,
+        y: stageHeight * 0.2,
+    });
+
+    panelGroup.add(new Konva.Rect({
+        width: panelWidth,
+        height: lineHeight * 5,
+        fill: "rgba(255, 255, 255, 0.9)",
+        stroke: "#C94040",
+        strokeWidth: 2,
+        cornerRadius: 10,
+    }));
+
+    const capacityText = new Konva.Text({
+        x: fontSize,
+        y: fontSize,
+        width: panelWidth - fontSize * 2,
+        text: `OVEN: ${oven.capacity} cookies/day`,
+        fontSize,
+        fill: "#C94040",
+        fontFamily: "Press Start 2P",
+    });
+    panelGroup.add(capacityText);
+
+    panelGroup.add(new Konva.Text({
+        x: fontSize,
+        y: fontSize + lineHeight,
+        width: panelWidth - fontSize * 2,
+        text: `Left over: ${oven.onShelf} cookies`,
+        fontSize: fontSize * 0.9,
+        fill: "#333",
+        fontFamily: "Press Start 2P",
+    }));
+
+    const buttonWidth = panelWidth - fontSize * 2;
+    const buttonHeight = lineHeight * 1.5;
+    const upgradeButton = new Konva.Group({ x: fontSize, y: fontSize + lineHeight * 2.5 });
+    const buttonRect = new Konva.Rect({
+        width: buttonWidth,
+        height: buttonHeight,
+        fill: "#8e44ad",
+        cornerRadius: 8,
+    });
+    const buttonText = new Konva.Text({
+        width: buttonWidth,
+        height: buttonHeight,
+        text: `UPGRADE +${OVEN_UPGRADE_STEP} ($${oven.upgradeCost.toFixed(2)})`,
+        fontSize: fontSize * 0.9,
+        fill: "white",
+        align: "center",
+        verticalAlign: "middle",
+        fontFamily: "Press Start 2P",
+    });
+    buttonText.listening(false);
+    upgradeButton.add(buttonRect);
+    upgradeButton.add(buttonText);
+
+    buttonRect.on("click", () => {
+      if (oven.upgradeCost > this.currentFunds) {
+        this.audio.playSfx("click");
+        alert("Not enough funds to upgrade the oven!");
+        return;
+      }
+      oven.capacity += OVEN_UPGRADE_STEP;
+      oven.onUpgrade();
+      this.audio.playSfx("cash");
+
+      capacityText.text(`OVEN: ${oven.capacity} cookies/day`);
+      this.layer.draw();
+    });
+    buttonRect.on("mouseenter", () => {
+      this.stage.container().style.cursor = "pointer";
+      buttonRect.fill("#a569bd");
+      this.layer.draw();
+    });
+    buttonRect.on("mouseleave", () => {
+      this.stage.container().style.cursor = "default";
+      buttonRect.fill("#8e44ad");
+      this.layer.draw();
+    });
+
+    panelGroup.add(upgradeButton);
+    this.layer.add(panelGroup);
+  }
+
   private createPriceTagGroup(stageWidth: number, stageHeight: number, ingredient: IngredientItem, center_X: number): void {
     const desiredWidth = stageWidth * 0.09;
     let desiredHeight = stageHeight * 0.07;
@@ -293,6 +510,35 @@ export class ShoppingScreen {
     });
     priceTagGroup.add(priceText);
     this.layer.add(priceTagGroup);
+
+    this.createPriceChangeText(stageWidth, priceTagY + desiredHeight / 2, ingredient, center_X);
+  }
+
+  // Shows how today's price compares with yesterday's, e.g. "▲ $0.10"
+  private createPriceChangeText(stageWidth: number, y: number, ingredient: IngredientItem, center_X: number): void {
+    const yesterdayPrice = this.previousPrices.get(ingredient.name);
+    if (yesterdayPrice === undefined) return;
+
+    const change = ingredient.price - yesterdayPrice;
+    let text = "= SAME";
+    let fill = "white";
+    if (Math.abs(change) >= 0.005) {
+      text = `${change > 0 ? "▲" : "▼"} $${Math.abs(change).toFixed(2)}`;
+      fill = change > 0 ? "#ff6b6b" : "#7bed9f";
+    }
+
+    const changeText = new Konva.Text({
+      x: center_X,
+      y: y + 4,
+      text,
+      fontSize: Math.min(stageWidth * 0.008, 10),
+      fill,
+      fontFamily: "Press Start 2P",
+      align: 'center',
+      width: stageWidth * 0.1,
+      offsetX: stageWidth * 0.05,
+    });
+    this.layer.add(changeText);
   }
 
   private createViewRecipeButton(
@@ -333,8 +579,9 @@ export class ShoppingScreen {
     text.listening(false);
 
     rect.on("click", () => {
+      this.audio.playSfx("click");
       const currentValues = this.getIngredientValues();
-      this.cleanup();
+      this.unmount();
       this.onViewRecipe();
     });
     rect.on("mouseenter", () => {
@@ -388,6 +635,7 @@ export class ShoppingScreen {
     text.listening(false);
 
     rect.on("click", () => {
+      this.audio.playSfx("click");
       this.showReceiptModal();
     });
     rect.on("mouseenter", () => {
@@ -480,11 +728,12 @@ export class ShoppingScreen {
             });
             receiptGroup.add(customerName);
             
+            const recipe = CatalogManager.getInstance().getRecipe(order.recipeId);
             const cookieCountText = new Konva.Text({
                 x: X_PAD_RIGHT, 
                 y: currentY,
                 width: receiptWidth * 0.35, 
-                text: `${order.cookieCount} COOKIES`,
+                text: `${order.cookieCount} ${recipe ? recipe.shortName : "COOKIES"}`,
                 fontSize: fontSize, 
                 fill: 'black',
                 fontFamily: 'Doto',
@@ -553,6 +802,7 @@ export class ShoppingScreen {
         closeGroup.add(closeX);
 
         closeGroup.on('click', () => {
+            this.audio.playSfx("click");
             modalLayer.destroy();
         });
 
@@ -629,7 +879,7 @@ export class ShoppingScreen {
   }
 
   private setupKeyboardInput(): void {
-    window.addEventListener("keydown", this.keyboardHandler);
+    this.resources.listen("keydown", this.keyboardHandler);
   }
 
   private handleKeyPress(e: KeyboardEvent): void {
@@ -657,14 +907,32 @@ export class ShoppingScreen {
     }
   }
 
-  private updateTotalCost(): void {
-    const total = this.ingredients.reduce((sum, ing) => {
+  // Cost of everything entered, less any quiz discount, to the cent
+  private getTotalCost(): number {
+    const subtotal = this.ingredients.reduce((sum, ing) => {
       const qty = parseInt(ing.inputValue) || 0;
       return sum + qty * ing.price;
     }, 0);
+    return Math.round(subtotal * (1 - this.discount) * 100) / 100;
+  }
+
+  private describeTotal(total: number): string {
+    const text = `Total Cost: $${total.toFixed(2)}`;
+    return this.discount > 0 ? `${text} (${describeDiscount(this.discount)})` : text;
+  }
+
+  private showFunds(funds: number): void {
+    this.currentFunds = funds;
+    this.currentPriceText?.text(`Current Balance: $${funds.toFixed(2)}`);
+    this.updateTotalCost();
+    this.layer.draw();
+  }
+
+  private updateTotalCost(): void {
+    const total = this.getTotalCost();
 
     if (this.totalCostText) {
-      this.totalCostText.text(`Total Cost: $${total.toFixed(2)}`);
+      this.totalCostText.text(this.describeTotal(total));
       this.totalCostText.fill(total > this.currentFunds ? "red" : "white");
       this.layer.draw();
     }
@@ -704,33 +972,23 @@ export class ShoppingScreen {
     buttonGroup.add(label);
 
     buttonGroup.on("click", () => {
-      let totalCost = 0;
-
-      this.ingredients.forEach((ing) => {
-        const qty = parseInt(ing.inputValue) || 0;
-        totalCost += qty * ing.price;
-      });
-
-      if (totalCost > this.currentFunds) {
+      if (this.getTotalCost() > this.currentFunds) {
+        this.audio.playSfx("click");
         alert("Not enough funds!");
         return;
       }
 
-      this.currentFunds -= totalCost;
-
-      if (this.currentPriceText) {
-        this.currentPriceText.text(`Current Balance: $${this.currentFunds.toFixed(2)}`);
-        this.layer.draw();
+      // Show what the basket leaves short before any money changes hands
+      const shortfalls = findShortfalls(this.getNeeds(), this.getPurchases());
+      if (shortfalls.length === 0) {
+        this.completePurchase();
+        return;
       }
-
-      const purchases = new Map<string, number>();
-      this.ingredients.forEach((ing) => {
-        const qty = parseInt(ing.inputValue) || 0;
-        if (qty > 0) purchases.set(ing.name, qty);
-      });
-
-      this.cleanup();
-      this.onPurchaseComplete(purchases, totalCost);
+      this.audio.playSfx("click");
+      this.showModal("NOT ENOUGH FOR TODAY'S ORDERS", shortfalls.map(describeShortfall), [
+        { label: "BUY MORE", fill: "#3498db", hoverFill: "#5dade2", onClick: () => this.closeModal() },
+        { label: "BUY ANYWAY", fill: "#4CAF50", hoverFill: "#45a049", onClick: () => this.completePurchase(), pays: true },
+      ]);
     });
 
     buttonGroup.on("mouseenter", () => {
@@ -748,10 +1006,233 @@ export class ShoppingScreen {
     this.layer.add(buttonGroup);
   }
 
-  public cleanup(): void {
-    window.removeEventListener("keydown", this.keyboardHandler);
+  private getPurchases(): Map<string, number> {
+    const purchases = new Map<string, number>();
+    this.ingredients.forEach((ing) => {
+      const qty = parseInt(ing.inputValue) || 0;
+      if (qty > 0) purchases.set(ing.name, qty);
+    });
+    return purchases;
+  }
+
+  private completePurchase(): void {
+    const totalCost = this.getTotalCost();
+    this.currentFunds -= totalCost;
+
+    if (this.currentPriceText) {
+      this.currentPriceText.text(`Current Balance: $${this.currentFunds.toFixed(2)}`);
+      this.layer.draw();
+    }
+
+    this.audio.playSfx("cash");
+    this.unmount();
+    this.onPurchaseComplete(this.getPurchases(), totalCost);
+  }
+
+  // What today's orders need, less what is already in the pantry
+  private getNeeds(): IngredientNeed[] {
+    const catalog = CatalogManager.getInstance();
+    const pantry = new Map(Array.from(this.freshness, ([name, fresh]) => [name, fresh.quantity]));
+    return needsForOrders(this.customerOrders, catalog.getRecipes(), catalog.getIngredients(), pantry);
+  }
+
+  private createHintButton(stageWidth: number, stageHeight: number): void {
+    const hint = this.hint;
+    if (!hint) return;
+
+    const buttonWidth = stageWidth * 0.12;
+    const buttonHeight = stageWidth * 0.03;
+
+    const buttonGroup = new Konva.Group({
+      x: stageWidth * 0.5,
+      y: stageHeight * 0.75 + buttonHeight * 1.3,
+      offsetX: buttonWidth / 2,
+    });
+
+    const rect = new Konva.Rect({
+      width: buttonWidth,
+      height: buttonHeight,
+      fill: "#8e44ad",
+      cornerRadius: 10,
+    });
+
+    const label = new Konva.Text({
+      width: buttonWidth,
+      height: buttonHeight,
+      text: `HINT ($${hint.cost.toFixed(2)})`,
+      fontSize: Math.min(stageWidth * 0.01, 12),
+      fontFamily: "Press Start 2P",
+      fill: "white",
+      align: "center",
+      verticalAlign: "middle",
+      fontStyle: "bold",
+    });
+    label.listening(false);
+
+    buttonGroup.add(rect);
+    buttonGroup.add(label);
+
+    buttonGroup.on("click", () => this.showHint());
+    buttonGroup.on("mouseenter", () => {
+      this.stage.container().style.cursor = "pointer";
+      rect.fill("#a569bd");
+      this.layer.draw();
+    });
+    buttonGroup.on("mouseleave", () => {
+      this.stage.container().style.cursor = "default";
+      rect.fill("#8e44ad");
+      this.layer.draw();
+    });
+
+    this.layer.add(buttonGroup);
+  }
+
+  // Works through the selected ingredient, or else the first one the
+  // basket is still short of. Each ingredient is only paid for once.
+  private showHint(): void {
+    const hint = this.hint;
+    if (!hint) return;
+
+    const needs = this.getNeeds();
+    const short = findShortfalls(needs, this.getPurchases()).map((shortfall) => shortfall.name);
+    const need = needs.find((n) => n.name === this.focusedInput)
+      ?? needs.find((n) => short.includes(n.name))
+      ?? needs[0];
+    if (!need) {
+      this.audio.playSfx("click");
+      alert("Today's orders don't need any ingredients!");
+      return;
+    }
+
+    if (!hint.paid.has(need.name)) {
+      if (hint.cost > this.currentFunds) {
+        this.audio.playSfx("click");
+        alert("Not enough funds for a hint!");
+        return;
+      }
+      hint.onHint(need.name);
+      this.audio.playSfx("cash");
+    } else {
+      this.audio.playSfx("click");
+    }
+
+    this.showModal(`HINT: ${need.name.toUpperCase()}`, explainNeed(need), [
+      { label: "GOT IT", fill: "#4CAF50", hoverFill: "#45a049", onClick: () => this.closeModal() },
+    ]);
+  }
+
+  // Panel over the shelves with a title, a few lines and a row of buttons
+  private showModal(title: string, lines: string[], buttons: ModalButton[]): void {
+    this.closeModal();
+    const stageWidth = this.stage.width();
+    const stageHeight = this.stage.height();
+    const fontSize = Math.min(stageWidth * 0.012, 14);
+    const lineHeight = fontSize * 2.2;
+    const panelWidth = stageWidth * 0.6;
+    const panelHeight = lineHeight * (lines.length + 5);
+
+    const modalLayer = new Konva.Layer();
+    modalLayer.add(new Konva.Rect({
+      x: 0,
+      y: 0,
+      width: stageWidth,
+      height: stageHeight,
+      fill: "rgba(0, 0, 0, 0.7)",
+    }));
+
+    const panelGroup = new Konva.Group({
+      x: (stageWidth - panelWidth) / 2,
+      y: (stageHeight - panelHeight) / 2,
+    });
+    panelGroup.add(new Konva.Rect({
+      width: panelWidth,
+      height: panelHeight,
+      fill: "white",
+      stroke: "#C94040",
+      strokeWidth: 4,
+      cornerRadius: 10,
+    }));
+    panelGroup.add(new Konva.Text({
+      y: lineHeight * 0.75,
+      width: panelWidth,
+      text: title,
+      fontSize,
+      fill: "#C94040",
+      fontFamily: "Press Start 2P",
+      align: "center",
+    }));
+    lines.forEach((line, index) => {
+      panelGroup.add(new Konva.Text({
+        x: fontSize * 2,
+        y: lineHeight * (index + 2),
+        width: panelWidth - fontSize * 4,
+        text: line,
+        fontSize: fontSize * 0.8,
+        fill: "#333",
+        fontFamily: "Press Start 2P",
+      }));
+    });
+
+    const buttonWidth = panelWidth * 0.3;
+    const buttonHeight = lineHeight * 1.3;
+    const gap = (panelWidth - buttons.length * buttonWidth) / (buttons.length + 1);
+    buttons.forEach((button, index) => {
+      const buttonGroup = new Konva.Group({
+        x: gap + index * (buttonWidth + gap),
+        y: panelHeight - buttonHeight - lineHeight * 0.75,
+      });
+      const rect = new Konva.Rect({
+        width: buttonWidth,
+        height: buttonHeight,
+        fill: button.fill,
+        cornerRadius: 10,
+      });
+      const label = new Konva.Text({
+        width: buttonWidth,
+        height: buttonHeight,
+        text: button.label,
+        fontSize: fontSize * 0.8,
+        fontFamily: "Press Start 2P",
+        fill: "white",
+        align: "center",
+        verticalAlign: "middle",
+      });
+      label.listening(false);
+      buttonGroup.add(rect);
+      buttonGroup.add(label);
+
+      buttonGroup.on("click", () => {
+        if (!button.pays) this.audio.playSfx("click");
+        button.onClick();
+      });
+      buttonGroup.on("mouseenter", () => {
+        this.stage.container().style.cursor = "pointer";
+        rect.fill(button.hoverFill);
+        modalLayer.draw();
+      });
+      buttonGroup.on("mouseleave", () => {
+        this.stage.container().style.cursor = "default";
+        rect.fill(button.fill);
+        modalLayer.draw();
+      });
+      panelGroup.add(buttonGroup);
+    });
+
+    modalLayer.add(panelGroup);
+    this.stage.add(modalLayer);
+    this.modalLayer = modalLayer;
+    modalLayer.draw();
+  }
+
+  private closeModal(): void {
+    this.modalLayer?.destroy();
+    this.modalLayer = null;
+  }
+
+  public unmount(): void {
+    this.closeModal();
+    this.resources.dispose();
     if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
-    window.removeEventListener('resize', this.resizeHandler);
   }
 
   public getIngredientValues(): Map<string, string>{
@@ -101,6 +101,16 @@ function createKonvaMock() {
   };
 }
 
+// Clicks a button on the latest modal layer, e.g. the shortfall check
+function clickModalButton(stage: any, label: string) {
+  const modal = stage.getChildren()[stage.getChildren().length - 1];
+  const panel = modal?.getChildren().find((n: any) => n.getChildren?.().length);
+  panel
+    ?.getChildren()
+    .find((n: any) => n.getChildren?.().some((c: any) => c.text?.() === label))
+    ?.fire("click");
+}
+
 describe("ShoppingScreen targeted coverage", () => {
   beforeEach(() => {
     vi.restoreAllMocks();
@@ -156,7 +166,9 @@ describe("ShoppingScreen targeted coverage", () => {
       },
     }));
     vi.doMock("./ui/InfoButton", () => ({
-      InfoButton: class {},
+      InfoButton: class {
+        destroy() {}
+      },
     }));
     const { ShoppingScreen } = await import("./ShoppingScreen");
     const Konva = (await import("konva")).default as any;
@@ -172,10 +184,11 @@ describe("ShoppingScreen targeted coverage", () => {
       30,
       3,
       6,
-      [{ customerNum: 1, cookieCount: 2 }],
+      [{ customerNum: 1, cookieCount: 2, recipeId: "chocolate-chip" }],
       onPurchaseComplete,
       onViewRecipe
     );
+    screen.mount();
     // Directly re-run setup/draw to exercise internal callbacks
     screen.setupUI?.();
     screen.drawDynamicUI?.();
@@ -213,6 +226,7 @@ describe("ShoppingScreen targeted coverage", () => {
     purchaseBtnGroup?.fire("mouseenter");
     purchaseBtnGroup?.fire("mouseleave");
     purchaseBtnGroup?.fire("click");
+    clickModalButton(stage, "BUY ANYWAY");
     expect(onPurchaseComplete).toHaveBeenCalled();
     // insufficient funds branch
     window.alert = vi.fn();
@@ -229,7 +243,7 @@ describe("ShoppingScreen targeted coverage", () => {
     viewRecipeRect?.fire("click");
     expect(onViewRecipe).toHaveBeenCalledTimes(1);
 
-    screen.cleanup();
+    screen.unmount();
   });
 
   it("covers price tag error path and receipt modal close interactions", async () => {
@@ -243,10 +257,13 @@ describe("ShoppingScreen targeted coverage", () => {
           g.handlers.set("click", onExit);
           layer.add(g);
         }
+        destroy() {}
       },
     }));
     vi.doMock("./ui/InfoButton", () => ({
-      InfoButton: class {},
+      InfoButton: class {
+        destroy() {}
+      },
     }));
     const { ShoppingScreen } = await import("./ShoppingScreen");
     const Konva = (await import("konva")).default as any;
@@ -263,11 +280,12 @@ describe("ShoppingScreen targeted coverage", () => {
       40,
       4,
       8,
-      [{ customerNum: 2, cookieCount: 3 }],
+      [{ customerNum: 2, cookieCount: 3, recipeId: "chocolate-chip" }],
       onPurchaseComplete,
       onViewRecipe,
       saved
     );
+    screen.mount();
 
     // Explicitly hit loadPriceTagImage error branch
     screen.loadPriceTagImage(() => {});
@@ -282,6 +300,6 @@ describe("ShoppingScreen targeted coverage", () => {
     closeCircle?.fire("mouseleave");
     closeCircle?.fire("click");
 
-    screen.cleanup();
+    screen.unmount();
   });
 });
@@ -5,6 +5,7 @@
 // - Each line below carries an explanation so the TA can follow the intent behind every step.
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"; // Pull in vitest helpers for assertions, spies, and timer control.
 import { StoryScreen } from "./StoryScreen"; // Import the screen we are validating so we can exercise its branches.
+import { AudioManager, SilentAudioManager } from "./AudioManager"; // Silent audio so volume changes can be read back.
 
 type LabelStub = { trigger: (event: string) => void }; // Minimal label stub to fire Konva-like events.
 
@@ -230,8 +231,7 @@ vi.mock("./ui/VolumeButton", () => ({ // Stub VolumeButton so tests can observe
       this.volume = initialVolume;
       const cb = (v: number) => {
         this.volume = v;
-        const setter = (window as any).setGlobalBgmVolume;
-        if (typeof setter === "function") setter(v);
+        AudioManager.getInstance().setVolume("music", v);
       };
       volumeState.lastCallback = cb;
       volumeState.callbacks.push(cb);
@@ -263,6 +263,7 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
     volumeState.callbacks.length = 0; // Reset captured callbacks to isolate each test.
     volumeState.lastCallback = null; // Clear last callback reference for the new run.
     volumeState.lastSetVolume.mockClear(); // Reset VolumeSlider.setVolume spy state.
+    AudioManager.setInstance(new SilentAudioManager()); // Fresh default audio settings for every test.
     vi.useFakeTimers(); // Use fake timers so setInterval/setTimeout are controllable.
     (window as any).setInterval = setInterval; // Point window.setInterval at the fake-timer-backed function.
     (window as any).clearInterval = clearInterval; // Point window.clearInterval at the fake-timer-backed function.
@@ -285,7 +286,7 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
     const layer = new FakeLayer(); // Capture how many nodes get added.
     const onComplete = vi.fn(); // Spy to ensure the completion callback fires.
 
-    new StoryScreen(stage as never, layer as never, onComplete); // Build the screen under test.
+    new StoryScreen(stage as never, layer as never, onComplete).mount(); // Build the screen under test.
     vi.runAllTimers(); // Flush typing interval so the button is created.
 
     expect(layer.addedNodes.length).toBeGreaterThan(0); // Confirm elements were added to the layer.
@@ -304,12 +305,31 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
     expect(stage.container().style.cursor).toBe("default"); // Cursor should reset after hover/click.
   });
 
+  it("holds the typing and the rain while paused", () => { // Cover pause/resume.
+    const stage = new FakeStage(1000, 600); // Stage sizing.
+    const layer = new FakeLayer(); // Fake layer.
+    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen and start typing.
+    const stopSpy = vi.spyOn(screen.rainAnimation, "stop"); // Watch the rain animation.
+
+    screen.pause(); // Hide the game.
+    vi.advanceTimersByTime(60000); // Long enough to type the whole story.
+    expect(createdLabels).toHaveLength(0); // Typing has not finished, so no button yet.
+    expect(stopSpy).toHaveBeenCalled(); // Rain stops while paused.
+
+    screen.resume(); // Show the game again.
+    vi.advanceTimersByTime(60000); // Typing carries on.
+    expect(createdLabels.length).toBeGreaterThan(0); // The button appears once typing ends.
+    screen.unmount(); // Tear down.
+  });
+
   it("handles resize by rebuilding the scene with destroyed children", () => { // Cover resize debounce path when no animation frame existed yet.
     const stage = new FakeStage(500, 400); // Smaller stage to vary geometry.
     const layer = new FakeLayer(); // Track destroyChildren call.
-    const screen = new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen to get a resize handler.
+    const screen = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen to get a resize handler.
 
-    (screen as any).handleResize(); // Manually trigger resize handler.
+    screen.resize(); // Manually trigger resize handler.
     vi.runAllTimers(); // Flush the scheduled requestAnimationFrame callback.
 
     expect(layer.destroyChildren).toHaveBeenCalled(); // Scene should be cleared before rebuilding.
@@ -318,11 +338,12 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
   it("cancels a pending animation frame when resizing twice quickly", () => { // Force the cancelAnimationFrame branch to run.
     const stage = new FakeStage(400, 300); // Provide stage dimensions (unused here).
     const layer = new FakeLayer(); // Provide fake layer.
-    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen.
+    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen.
     screen.animationFrameId = 99; // Pretend a previous rAF was queued.
     const cancelSpy = vi.spyOn(globalThis as any, "cancelAnimationFrame"); // Watch for cancellation.
 
-    screen.handleResize(); // Trigger resize while animationFrameId is set.
+    screen.resize(); // Trigger resize while animationFrameId is set.
     expect(cancelSpy).toHaveBeenCalledWith(99); // Ensure previous frame was cancelled.
     vi.runAllTimers(); // Flush the newly scheduled rebuild.
   });
@@ -339,12 +360,11 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
 
     const stage = new FakeStage(300, 200); // Small stage to keep calculations simple.
     const layer = new FakeLayer(); // Layer to observe whether anything was added.
-    const setGlobalSpy = vi.fn(); // Spy to ensure the first VolumeSlider callback propagates volume.
-    (window as any).setGlobalBgmVolume = setGlobalSpy; // Provide setter so callback can succeed.
-    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen.
+    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen.
     if (volumeState.callbacks.length > 0) {
       volumeState.callbacks.at(0)?.(0.9); // Invoke the initial VolumeSlider callback before the image load completes.
-      expect(setGlobalSpy).toHaveBeenCalledWith(0.9); // Confirm callback path executed on first slider instance.
+      expect(AudioManager.getInstance().getVolume("music")).toBe(0.9); // Confirm callback path executed on first slider instance.
     }
     screen.currentRenderId++; // Simulate a resize happening before the image finishes loading.
     (storedOnload as (() => void) | null)?.(); // Trigger the delayed onload callback.
@@ -353,7 +373,7 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
     (globalThis as any).Image = originalImage; // Restore original Image stub for other tests.
   });
 
-  it("calls the initial slider callback without a global setter present", () => { // Cover the false branch inside the first VolumeSlider callback.
+  it("calls the initial slider callback before the image loads", () => { // Cover the first VolumeSlider callback.
     const originalImage = (globalThis as any).Image; // Preserve the existing Image stub.
     let storedOnload: (() => void) | null = null; // Capture onload for manual control.
     (globalThis as any).Image = class { // Override Image to pause rendering until we manually trigger onload.
@@ -364,28 +384,27 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
     }; // End override.
     const stage = new FakeStage(320, 240); // Stage sizing for this scenario.
     const layer = new FakeLayer(); // Fake layer capture.
-    (window as any).setGlobalBgmVolume = undefined; // Remove global setter to exercise the false branch.
 
-    new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen so the initial slider callback exists.
+    new StoryScreen(stage as never, layer as never, vi.fn()).mount(); // Build screen so the initial slider callback exists.
     if (volumeState.callbacks.length > 0) {
-      volumeState.callbacks.at(0)?.(0.6); // Invoke the initial slider callback with setter missing.
+      volumeState.callbacks.at(0)?.(0.6); // Invoke the initial slider callback.
+      expect(AudioManager.getInstance().getVolume("music")).toBe(0.6); // Music bus follows the slider.
     }
-    expect(setTimeout).toBeDefined(); // Trivial assertion to keep test aligned with documented steps.
 
     (storedOnload as (() => void) | null)?.(); // Trigger onload to avoid side effects for later tests.
     (globalThis as any).Image = originalImage; // Restore Image stub.
   });
 
-  it("updates global volume via slider callback and exercises rain reset branch", () => { // Drive rain animation and volume propagation.
-    const setGlobalSpy = vi.fn(); // Spy on the global setter path.
-    (window as any).setGlobalBgmVolume = setGlobalSpy; // Provide setter used by StoryScreen callback.
-    (window as any).getGlobalBgmVolume = () => 0.8; // Provide getter so initial volume path uses stored value.
+  it("updates the music volume via slider callback and exercises rain reset branch", () => { // Drive rain animation and volume propagation.
+    AudioManager.getInstance().setVolume("music", 0.8); // Stored volume the screen should start from.
     const stage = new FakeStage(700, 500); // Stage size for rain creation.
     const layer = new FakeLayer(); // Layer to hold raindrops and UI.
-    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen to gain access to raindrops.
+    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen to gain access to raindrops.
+    expect(screen.volume).toBe(0.8); // Initial volume comes from the music bus.
 
-    (volumeState.lastCallback ?? ((v: number) => setGlobalSpy(v)))(0.3); // Invoke slider callback to propagate volume.
-    expect(setGlobalSpy).toHaveBeenCalledWith(0.3); // Ensure the setter branch was taken when available.
+    volumeState.lastCallback?.(0.3); // Invoke slider callback to propagate volume.
+    expect(AudioManager.getInstance().getVolume("music")).toBe(0.3); // Music bus should follow the slider.
 
     screen.createRain(100, 50); // Force raindrop creation with tight bounds.
     const firstDrop = screen.raindrops[0]; // Inspect the first raindrop for reset logic.
@@ -401,29 +420,31 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
   it("stops existing rain animation when recreating rain", () => { // Cover the branch that stops an existing animation instance.
     const stage = new FakeStage(640, 360); // Stage setup for StoryScreen constructor.
     const layer = new FakeLayer(); // Fake layer.
-    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen.
+    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen.
     const stopSpy = vi.fn(); // Spy to ensure stop is called.
     screen.rainAnimation = { stop: stopSpy }; // Pretend an animation is already running.
     screen.createRain(200, 120); // Recreate rain, which should stop the existing animation.
     expect(stopSpy).toHaveBeenCalled(); // Confirm stop branch executed.
   });
 
-  it("stops rain animation and listeners on cleanup", () => { // Ensure cleanup covers all teardown paths.
+  it("stops rain animation and typing on unmount", () => { // Ensure unmount covers all teardown paths.
     const stage = new FakeStage(800, 500); // Stage dimensions.
     const layer = new FakeLayer(); // Fake layer to hold raindrops.
-    const screen = new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen.
+    const screen = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen.
 
     (screen as any).createRain(800, 500); // Create raindrops to ensure cleanup has work to do.
     expect(layer.addedNodes.length).toBeGreaterThan(0); // Sanity check that rain exists.
     (screen as any).animationFrameId = 42; // Seed an animation frame id so cleanup hits cancellation path.
-    const stopSpy = vi.fn(); // Spy on rainAnimation.stop to confirm the branch executes.
-    (screen as any).rainAnimation = { stop: stopSpy }; // Replace animation with a spyable stub.
+    const stopSpy = vi.spyOn((screen as any).rainAnimation, "stop"); // Spy on the running rain animation.
     const cancelSpy = vi.spyOn(globalThis as any, "cancelAnimationFrame"); // Spy on cancelAnimationFrame for coverage.
+    const clearSpy = vi.spyOn(globalThis as any, "clearInterval"); // Spy on clearInterval for the typing loop.
 
-    screen.cleanup(); // Invoke cleanup logic.
-    expect(window.removeEventListener).toHaveBeenCalled(); // Resize listener should be removed.
+    screen.unmount(); // Invoke unmount logic.
+    expect(clearSpy).toHaveBeenCalled(); // Typing interval should be stopped.
     expect(cancelSpy).toHaveBeenCalledWith(42); // Pending animation frame should be cancelled.
-    expect(stopSpy).toHaveBeenCalled(); // Rain animation should be stopped during cleanup.
+    expect(stopSpy).toHaveBeenCalled(); // Rain animation should be stopped during unmount.
   });
 
   it("completes the typing loop and clears the interval once finished", () => { // Drive the typing interval to its end to cover completion branch.
@@ -439,7 +460,7 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
     (window as any).clearInterval = clearSpy; // Use spy for clearing intervals.
     (globalThis as any).clearInterval = clearSpy; // Mirror spy on globalThis.
 
-    new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen to register the typing interval.
+    new StoryScreen(stage as never, layer as never, vi.fn()).mount(); // Build screen to register the typing interval.
     for (let i = 0; i < 1200; i++) { // Step through enough characters to exhaust the full text string.
       (intervalCb as (() => void) | null)?.(); // Invoke the stored interval callback.
     }
@@ -465,7 +486,8 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
     (window as any).clearInterval = clearSpy; // Attach spy to window clearInterval.
     (globalThis as any).clearInterval = clearSpy; // Attach spy to global clearInterval.
 
-    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen to start typing interval.
+    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen to start typing interval.
 
     layer.batchDraw.mockClear?.(); // Ignore any initial draws before the mismatch tick.
     screen.currentRenderId++; // Force render id mismatch before the next interval tick.
@@ -475,30 +497,33 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
     clearSpy.mockRestore(); // Restore clearInterval implementation.
   });
 
-  it("uses global getter when recreating rain to seed the volume", () => { // Cover the volume lookup branch inside createRain.
+  it("reads the music volume again when recreating rain", () => { // Cover the volume lookup inside createRain.
     const stage = new FakeStage(500, 400); // Stage sizing.
     const layer = new FakeLayer(); // Fake layer.
-    (window as any).getGlobalBgmVolume = () => 0.25; // Provide getter returning a clamped value.
-    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen.
+    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen.
+    AudioManager.getInstance().setVolume("music", 0.25); // Change the music volume after the first render.
 
     screen.createRain(120, 120); // Recreate rain to rerun the volume lookup logic.
-    expect(screen.volume).toBeCloseTo(0.25, 5); // Volume should reflect the getter value.
+    expect(screen.volume).toBeCloseTo(0.25, 5); // Volume should reflect the music bus.
   });
 
-  it("ignores invalid global volume when recreating rain", () => { // Exercise the NaN guard inside createRain.
+  it("ignores an invalid music volume when recreating rain", () => { // Exercise the NaN guard on the music bus.
     const stage = new FakeStage(480, 320); // Stage sizing.
     const layer = new FakeLayer(); // Fake layer.
-    (window as any).getGlobalBgmVolume = () => Number.NaN; // Return NaN to force fallback to default.
-    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen.
+    AudioManager.getInstance().setVolume("music", Number.NaN); // NaN is ignored, keeping the default.
+    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen.
 
-    screen.createRain(90, 90); // Recreate rain with invalid getter output.
-    expect(screen.volume).toBeCloseTo(0.2, 5); // Volume should remain at implementation default when getter is invalid.
+    screen.createRain(90, 90); // Recreate rain after the invalid volume.
+    expect(screen.volume).toBeCloseTo(0.5, 5); // Volume should remain at the default music volume.
   });
 
   it("updates volume even when no slider is present", () => { // Cover setVolume branch when volumeSlider is undefined.
     const stage = new FakeStage(640, 360); // Stage sizing.
     const layer = new FakeLayer(); // Fake layer.
-    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen.
+    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen.
     screen.volumeSlider = undefined; // Remove slider to hit the guard.
     screen.setVolume(0.2); // Call setVolume without a slider to forward the false branch.
     expect(screen.volume).toBe(0.2); // Volume should still update.
@@ -508,9 +533,10 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
     const stage = new FakeStage(500, 300); // Stage sizing.
     const layer = new FakeLayer(); // Fake layer.
     const clearSpy = vi.spyOn(globalThis as any, "clearInterval"); // Spy on clearInterval to ensure it is not called.
-    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen.
+    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen.
     screen.typingInterval = null; // Ensure no interval is set.
-    screen.handleResize(); // Trigger resize logic.
+    screen.resize(); // Trigger resize logic.
     expect(clearSpy).not.toHaveBeenCalled(); // With no interval, clearInterval should not run.
     clearSpy.mockRestore(); // Restore clearInterval.
   });
@@ -519,7 +545,8 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
     const stage = new FakeStage(420, 280); // Stage sizing.
     const layer = new FakeLayer(); // Fake layer.
     const clearSpy = vi.spyOn(globalThis as any, "clearInterval"); // Spy on clearInterval.
-    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen to schedule typing interval.
+    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen to schedule typing interval.
     layer.batchDraw.mockClear?.(); // Reset draw spy to observe the mismatch tick.
     screen.currentRenderId++; // Force mismatch.
     vi.runOnlyPendingTimers(); // Run the interval once.
@@ -527,13 +554,14 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
     clearSpy.mockRestore(); // Restore clearInterval.
   });
 
-  it("runs cleanup even when no rain animation exists", () => { // Cover the false branch of the rainAnimation check inside cleanup.
+  it("runs unmount even when no rain animation exists", () => { // Cover unmount without an active animation.
     const stage = new FakeStage(380, 240); // Stage sizing.
     const layer = new FakeLayer(); // Fake layer.
-    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen.
+    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen.
     screen.rainAnimation = null; // Remove rain animation to hit the false branch.
-    screen.cleanup(); // Call cleanup without an active animation.
-    expect(window.removeEventListener).toHaveBeenCalled(); // Cleanup should still detach listeners.
+    screen.unmount(); // Call unmount without an active animation.
+    expect(screen.raindrops).toEqual([]); // Raindrops should still be removed.
   });
 
   it("avoids clearing interval when it is already null during a render mismatch", () => { // Cover the false branch for typingInterval within the mismatch guard.
@@ -547,14 +575,15 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
     const clearSpy = vi.fn(); // Spy on clearInterval.
     (window as any).clearInterval = clearSpy; // Attach spy to window.
     (globalThis as any).clearInterval = clearSpy; // Attach spy to globalThis.
-    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen.
+    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen.
     screen.typingInterval = null; // Null out typingInterval before invoking the callback.
     screen.currentRenderId++; // Force render mismatch.
     (savedInterval as (() => void) | null)?.(); // Invoke the interval callback manually.
     expect(clearSpy).not.toHaveBeenCalled(); // With a null interval, clearInterval should not run.
   });
 
-  it("clears typing interval and old raindrops on resize", () => { // Cover both branches inside handleResize callback.
+  it("clears typing interval and old raindrops on resize", () => { // Cover both branches inside the resize callback.
     const stage = new FakeStage(600, 400); // Stage values.
     const layer = new FakeLayer(); // Fake layer.
     const intervalSpy = vi.spyOn(globalThis, "setInterval").mockImplementation((cb: any) => { // Mock setInterval so no timers actually run.
@@ -564,10 +593,11 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
     const clearSpy = vi.fn(); // Spy on clearInterval to confirm it is invoked.
     (window as any).clearInterval = clearSpy; // Keep window and globalThis in sync for clearing logic.
     (globalThis as any).clearInterval = clearSpy; // Mirror the spy on globalThis.
-    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen so typingInterval is set to a non-null value.
+    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen so typingInterval is set to a non-null value.
     screen.typingInterval = 7; // Seed typingInterval explicitly so the clear branch fires.
 
-    screen.handleResize(); // Trigger resize logic which should clear the previous typing interval.
+    screen.resize(); // Trigger resize logic which should clear the previous typing interval.
     expect(clearSpy).toHaveBeenCalled(); // Typing interval should have been cleared without running timers.
 
     const destroySpy = vi.fn(); // Spy on raindrop destroy to ensure old drops are removed.
@@ -578,11 +608,9 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
     clearSpy.mockRestore?.(); // Restore original clearInterval implementation for later tests when available.
   });
 
-  it("aborts typing when render id changes and handles missing global volume setter", () => { // Cover render-id mismatch inside typing interval and the missing global setter branch.
+  it("aborts typing when render id changes and keeps slider changes off the slider", () => { // Cover render-id mismatch inside typing interval and the slider callback.
     const stage = new FakeStage(500, 300); // Stage setup.
     const layer = new FakeLayer(); // Fake layer.
-    (window as any).setGlobalBgmVolume = undefined; // Force slider callback to skip global setter.
-    (window as any).getGlobalBgmVolume = undefined; // Force initial volume fallback.
     let savedInterval: (() => void) | null = null; // Capture the interval callback for manual execution.
     const clearSpy = vi.fn(); // Spy on clearInterval.
     (window as any).setInterval = (cb: () => void) => { // Override setInterval to capture callback without scheduling.
@@ -592,9 +620,10 @@ describe("StoryScreen", () => { // Group StoryScreen branch coverage tests toget
     (window as any).clearInterval = clearSpy; // Use spy for both window and global contexts.
     (globalThis as any).clearInterval = clearSpy; // Mirror spy on globalThis.
 
-    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn()); // Build screen to set up interval with override.
+    const screen: any = new StoryScreen(stage as never, layer as never, vi.fn());
+    screen.mount(); // Build screen to set up interval with override.
 
-    volumeState.lastCallback?.(0.4); // Trigger slider callback; without global setter it should be a no-op aside from state update.
+    volumeState.lastCallback?.(0.4); // Trigger slider callback; it only updates the music bus.
     expect(volumeState.lastSetVolume).not.toHaveBeenCalled(); // setVolume on slider should not run through callback path.
 
     layer.batchDraw.mockClear?.(); // Reset draw spy before forcing mismatch.
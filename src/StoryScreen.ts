@@ -1,8 +1,10 @@
 import Konva from "konva";
 import { ConfigManager } from "./config"; // Import ConfigManager
 import { VolumeButton } from './ui/VolumeButton';
+import { AudioManager } from './AudioManager';
+import { Screen, ScreenResources, TimerId } from './Screen';
 
-export class StoryScreen {
+export class StoryScreen implements Screen {
   private stage: Konva.Stage;
   private layer: Konva.Layer;
   private onComplete: () => void;
@@ -18,9 +20,10 @@ export class StoryScreen {
   }
   
   // Resizing & State variables
-  private resizeHandler: () => void;
   private animationFrameId: number | null = null;
-  private typingInterval: number | null = null;
+  private typingInterval: TimerId | null = null;
+  private paused: boolean = false; // typing waits and the rain stops while hidden
+  private resources = new ScreenResources();
   private currentRenderId: number = 0;
   private rainAnimation: Konva.Animation | null = null;
   private raindrops: Konva.Line[] = [];
@@ -29,28 +32,34 @@ export class StoryScreen {
     this.stage = stage;
     this.layer = layer;
     this.onComplete = onComplete;
+  }
 
-    // Bind resize handler
-    this.resizeHandler = this.handleResize.bind(this);
-
+  public mount(): void {
     this.setupUI();
-
-    // Add listener
-    window.addEventListener('resize', this.resizeHandler);
   }
 
-  private handleResize(): void {
+  public resize(): void {
     if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
 
     this.animationFrameId = requestAnimationFrame(() => {
         // Stop typing immediately on resize
-        if (this.typingInterval) clearInterval(this.typingInterval);
+        this.resources.clear(this.typingInterval);
         
         this.layer.destroyChildren();
         this.setupUI();
     });
   }
 
+  public pause(): void {
+    this.paused = true;
+    this.rainAnimation?.stop();
+  }
+
+  public resume(): void {
+    this.paused = false;
+    this.rainAnimation?.start();
+  }
+
   private setupUI(): void {
     this.currentRenderId++;
     const myRenderId = this.currentRenderId;
@@ -60,17 +69,7 @@ export class StoryScreen {
     const bgSrc = "/Storyline.png";
 
 
-    const getGlobalBgmVolume = (window as any).getGlobalBgmVolume;
-    const setGlobalBgmVolume = (window as any).setGlobalBgmVolume;
-
-    let initialVolume = 0.2;
-    if (typeof getGlobalBgmVolume === 'function') {
-      const v = getGlobalBgmVolume();
-      if (typeof v === 'number' && !Number.isNaN(v)) {
-        initialVolume = Math.max(0, Math.min(1, v));
-      }
-    }
-
+    const initialVolume = AudioManager.getInstance().getVolume("music");
     this.volume = initialVolume;
 
     const stageWidth = this.stage.width();
@@ -185,21 +184,22 @@ export class StoryScreen {
       let index = 0;
       
       // Clear any existing interval
-      if (this.typingInterval) clearInterval(this.typingInterval);
+      this.resources.clear(this.typingInterval);
 
-      this.typingInterval = window.setInterval(() => {
+      this.typingInterval = this.resources.interval(() => {
         // Safety check inside interval
         if (this.currentRenderId !== myRenderId) {
-            if (this.typingInterval) clearInterval(this.typingInterval);
+            this.resources.clear(this.typingInterval);
             return;
         }
+        if (this.paused) return;
 
         text.text(fullText.slice(0, index));
         this.layer.batchDraw();
         index++;
 
         if (index > fullText.length) {
-          if (this.typingInterval) clearInterval(this.typingInterval);
+          this.resources.clear(this.typingInterval);
           this.typingInterval = null;
 
           // ---------------------------
@@ -264,7 +264,8 @@ export class StoryScreen {
           });
 
           button.on("click", () => {
-            this.cleanup(); // Clean listeners
+            AudioManager.getInstance().playSfx("click");
+            this.unmount(); // Clean listeners
             this.layer.destroyChildren();
             this.onComplete();
           });
@@ -303,7 +304,7 @@ export class StoryScreen {
     // Animate rain
     if (this.rainAnimation) this.rainAnimation.stop();
     
-    this.rainAnimation = new Konva.Animation(() => {
+    this.rainAnimation = this.resources.animation(new Konva.Animation(() => {
       this.raindrops.forEach((drop) => {
         const speed = (drop as any).speed;
         drop.y(drop.y() + speed);
@@ -315,30 +316,18 @@ export class StoryScreen {
           drop.x(Math.random() * (stageWidth + 100) - 50);
         }
       });
-    }, this.layer);
+    }, this.layer));
     
-    this.rainAnimation.start();
-    const getGlobalBgmVolume = (window as any).getGlobalBgmVolume;
-    const setGlobalBgmVolume = (window as any).setGlobalBgmVolume;
-
-    let initialVolume = 0.2;
-    if (typeof getGlobalBgmVolume === 'function') {
-      const v = getGlobalBgmVolume();
-      if (typeof v === 'number' && !Number.isNaN(v)) {
-        initialVolume = Math.max(0, Math.min(1, v));
-      }
-    }
-
-    this.volume = initialVolume;
+    if (!this.paused) this.rainAnimation.start();
+    this.volume = AudioManager.getInstance().getVolume("music");
   }
 
-  public cleanup() {
-    if (this.typingInterval) clearInterval(this.typingInterval);
+  public unmount() {
+    this.resources.dispose();
+    this.typingInterval = null;
     if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
-    if (this.rainAnimation) this.rainAnimation.stop();
     if (this.volumeButton) this.volumeButton.destroy();
     this.raindrops.forEach(drop => drop.destroy());
     this.raindrops = [];
-    window.removeEventListener('resize', this.resizeHandler);
   }
 }
\ No newline at end of file
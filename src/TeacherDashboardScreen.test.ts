@@ -0,0 +1,319 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TeacherDashboardScreen } from "./TeacherDashboardScreen";
+import type { PlayerProfile } from "./ProfileStore";
+
+class FakeStage {
+  private readonly widthValue: number;
+  private readonly heightValue: number;
+  private readonly containerElement = { style: { cursor: "default" } };
+
+  constructor(widthValue: number, heightValue: number) {
+    this.widthValue = widthValue;
+    this.heightValue = heightValue;
+  }
+
+  width() {
+    return this.widthValue;
+  }
+
+  height() {
+    return this.heightValue;
+  }
+
+  container() {
+    return this.containerElement;
+  }
+}
+
+class FakeLayer {
+  readonly addedNodes: unknown[] = [];
+  readonly draw = vi.fn();
+  readonly batchDraw = vi.fn();
+
+  add(node: unknown) {
+    this.addedNodes.push(node);
+  }
+}
+
+type RectEntry = {
+  node: any;
+  config: Record<string, unknown>;
+  fillHistory: string[];
+  trigger: (event: string, evt?: { cancelBubble?: boolean }) => void;
+};
+
+const konvaState = vi.hoisted(() => ({
+  groups: [] as Array<{
+    config: Record<string, unknown>;
+    visible: () => boolean;
+    trigger: (event: string, evt?: { cancelBubble?: boolean }) => void;
+    handlers: Map<string, (evt?: { cancelBubble?: boolean }) => void>;
+    children: unknown[];
+  }>,
+  rects: [] as RectEntry[],
+  texts: [] as Array<{ config: Record<string, unknown> }>,
+}));
+
+vi.mock("./ui/InfoButton", () => ({
+  InfoButton: class {
+    constructor(
+      _stage: unknown,
+      _layer: unknown,
+      _message: string
+    ) {
+      // noop
+    }
+    destroy() {}
+  },
+}));
+
+vi.mock("konva", () => {
+  type Handler = (evt?: { cancelBubble?: boolean }) => void;
+
+  class FakeNode {
+    config: Record<string, unknown>;
+    constructor(config?: Record<string, unknown>) {
+      this.config = { ...(config ?? {}) };
+    }
+  }
+
+  class FakeGroup extends FakeNode {
+    private visibleState: boolean;
+    children: unknown[] = [];
+    private handlers = new Map<string, Handler>();
+
+    constructor(config?: Record<string, unknown>) {
+      super(config);
+      this.visibleState = (config?.visible as boolean) ?? true;
+      konvaState.groups.push({
+        config: this.config,
+        visible: () => this.visible(),
+        trigger: (event: string, evt?: { cancelBubble?: boolean }) => this.trigger(event, evt),
+        handlers: this.handlers,
+        children: this.children,
+      });
+    }
+
+    add(...children: unknown[]) {
+      this.children.push(...children);
+      return this;
+    }
+
+    visible(value?: boolean) {
+      if (typeof value === "boolean") {
+        this.visibleState = value;
+      }
+      return this.visibleState;
+    }
+
+    destroyChildren() {
+      this.children = [];
+    }
+
+    destroy() {
+      this.config.destroyed = true;
+    }
+    moveToTop() {}
+
+    on(event: string, handler: Handler) {
+      this.handlers.set(event, handler);
+    }
+
+    trigger(event: string, evt?: { cancelBubble?: boolean }) {
+      const handler = this.handlers.get(event);
+      handler?.(evt);
+    }
+  }
+
+  class FakeRect extends FakeNode {
+    private handlers = new Map<string, Handler>();
+    fillHistory: string[] = [];
+    x(val?: number) {
+      if (typeof val === "number") this.config.x = val;
+      return (this.config.x as number) ?? 0;
+    }
+    y(val?: number) {
+      if (typeof val === "number") this.config.y = val;
+      return (this.config.y as number) ?? 0;
+    }
+
+    constructor(config?: Record<string, unknown>) {
+      super(config);
+      konvaState.rects.push({
+        node: this,
+        config: this.config,
+        fillHistory: this.fillHistory,
+        trigger: (event: string, evt?: { cancelBubble?: boolean }) =>
+          this.trigger(event, evt),
+      });
+    }
+
+    fill(color: string) {
+      this.fillHistory.push(color);
+      this.config.fill = color;
+    }
+
+    on(event: string, handler: Handler) {
+      this.handlers.set(event, handler);
+    }
+
+    trigger(event: string, evt: { cancelBubble?: boolean } = {}) {
+      const handler = this.handlers.get(event);
+      handler?.(evt);
+    }
+  }
+
+  class FakeCircle extends FakeNode {}
+  class FakeLine extends FakeNode {}
+
+  class FakeText extends FakeNode {
+    constructor(config?: Record<string, unknown>) {
+      super(config);
+      konvaState.texts.push({ config: this.config });
+    }
+
+    width() {
+      return (this.config.width as number) ?? 10;
+    }
+
+    text(value: string) {
+      this.config.text = value;
+    }
+
+    fill(color: string) {
+      this.config.fill = color;
+    }
+
+    y() {
+      return (this.config.y as number) ?? 0;
+    }
+
+    height() {
+      return (this.config.height as number) ?? 10;
+    }
+
+    offsetX(value: number) {
+      this.config.offsetX = value;
+    }
+
+    offsetY(value: number) {
+      this.config.offsetY = value;
+    }
+  }
+
+  return {
+    default: {
+      Group: FakeGroup,
+      Rect: FakeRect,
+      Circle: FakeCircle,
+      Line: FakeLine,
+      Text: FakeText,
+    },
+  };
+});
+
+const profile = (username: string, overrides: Partial<PlayerProfile> = {}): PlayerProfile => ({
+  username,
+  createdAt: 0,
+  lastPlayedAt: 0,
+  bestScore: 0,
+  runHistory: [],
+  minigameHistory: [],
+  adaptive: { levels: { division: 0, multiplication: 0 }, facts: {} },
+  mistakes: [],
+  ...overrides,
+});
+
+const fact = (kind: "division" | "multiplication", a: number, b: number, attempts: number, correct: number) => ({
+  kind, a, b, attempts, correct, totalResponseMs: 0, streak: 0,
+});
+
+const classProfiles = [
+  profile("Ann", {
+    runHistory: [{ won: true, finalFunds: 1200, daysPlayed: 6, endedAt: 1 }],
+    adaptive: {
+      levels: { division: 0, multiplication: 0 },
+      facts: { "7 × 8": fact("multiplication", 7, 8, 4, 1), "56 ÷ 7": fact("division", 56, 7, 2, 2) },
+    },
+  }),
+  profile("Ben", {
+    runHistory: [{ won: false, finalFunds: -20, daysPlayed: 3, endedAt: 2 }],
+    adaptive: {
+      levels: { division: 0, multiplication: 0 },
+      facts: { "7 × 8": fact("multiplication", 8, 7, 2, 0) },
+    },
+  }),
+];
+
+describe("TeacherDashboardScreen", () => {
+  let keydownHandler: ((evt: Partial<KeyboardEvent>) => void) | null;
+
+  const clickButton = (fill: string) => {
+    const rect = [...konvaState.rects].reverse().find((entry) => entry.config.fill === fill);
+    konvaState.groups.find((group) => group.children.includes(rect?.node as any))?.trigger("click tap", {});
+  };
+
+  const type = (text: string) => {
+    [...text, "Enter"].forEach((key) => keydownHandler!({ key }));
+  };
+
+  const texts = () => konvaState.texts.map((text) => text.config.text);
+
+  beforeEach(() => {
+    konvaState.groups.length = 0;
+    konvaState.rects.length = 0;
+    konvaState.texts.length = 0;
+    keydownHandler = null;
+
+    vi.stubGlobal("window", {
+      addEventListener: vi.fn((event: string, handler: (evt: any) => void) => {
+        if (event === "keydown") keydownHandler = handler;
+      }),
+      removeEventListener: vi.fn((event: string, handler: (evt: any) => void) => {
+        if (event === "keydown" && keydownHandler === handler) {
+          keydownHandler = null;
+        }
+      }),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps the class data behind the password", () => {
+    new TeacherDashboardScreen(new FakeStage(1000, 800) as never, new FakeLayer() as never, classProfiles, "owls", vi.fn()).mount();
+
+    expect(texts()).toContain("Enter the teacher password");
+    ["o", "w", "l"].forEach((key) => keydownHandler!({ key }));
+    expect(texts()).toContain("•••");
+    keydownHandler!({ key: "Enter" });
+    expect(texts()).toContain("Wrong password, try again");
+    expect(texts()).not.toContain("CLASS DASHBOARD");
+  });
+
+  it("charts accuracy by skill, most-missed facts, runs and days to win", () => {
+    new TeacherDashboardScreen(new FakeStage(1000, 800) as never, new FakeLayer() as never, classProfiles, "owls", vi.fn()).mount();
+    type("owls");
+
+    expect(keydownHandler).toBeNull();
+    expect(texts()).toContain("CLASS DASHBOARD");
+    expect(texts()).toContain("2 students, 2 finished runs");
+    expect(texts()).toContain("100% (2/2)");
+    expect(texts()).toContain("17% (1/6)");
+    expect(texts()).toContain("7 × 8");
+    expect(texts()).toContain("5 missed, 2 students");
+    expect(texts()).toContain("1 (1 student)");
+    expect(texts()).toContain("AVERAGE DAYS TO WIN\n\n6.0");
+  });
+
+  it("says when there are no profiles and goes back", () => {
+    const onBack = vi.fn();
+    new TeacherDashboardScreen(new FakeStage(1000, 800) as never, new FakeLayer() as never, [], "owls", onBack).mount();
+    type("owls");
+
+    expect(texts()).toContain("No student profiles on this computer yet.");
+    clickButton("#e74c3c");
+    expect(onBack).toHaveBeenCalledTimes(1);
+  });
+});
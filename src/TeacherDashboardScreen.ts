@@ -0,0 +1,309 @@
+import Konva from 'konva';
+import { AudioManager } from './AudioManager';
+import { InfoButton } from './ui/InfoButton';
+import { PlayerProfile } from './ProfileStore';
+import { accuracyOf, ClassStats, classStatsFor } from './ClassStats';
+import { Screen, ScreenResources } from './Screen';
+
+interface Panel {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface Bar {
+    label: string;
+    value: number; // 0 to 1, how much of the bar is filled
+    text: string;
+    color: string;
+}
+
+const MAX_PASSWORD_LENGTH = 20;
+
+// Password-protected class overview, opened from the login screen. Reads
+// every profile on this machine, so it works without a network.
+export class TeacherDashboardScreen implements Screen {
+    private layer: Konva.Layer;
+    private stage: Konva.Stage;
+    private profiles: PlayerProfile[];
+    private password: string;
+
+    private uiGroup: Konva.Group | null = null;
+    private inputText!: Konva.Text;
+    private feedbackText!: Konva.Text;
+
+    private userInput: string = '';
+    private promptActive = false;
+
+    private onBack: () => void;
+    private keyboardHandler: (e: KeyboardEvent) => void;
+    private resources = new ScreenResources();
+
+    constructor(stage: Konva.Stage, layer: Konva.Layer, profiles: PlayerProfile[], password: string, onBack: () => void) {
+        this.stage = stage;
+        this.layer = layer;
+        this.profiles = profiles;
+        this.password = password;
+        this.onBack = onBack;
+        this.keyboardHandler = this.handleKeyPress.bind(this);
+    }
+
+    public mount(): void {
+        this.showPasswordPrompt();
+    }
+
+    // Laid out once for the stage size it was mounted at
+    public resize(): void {}
+    public pause(): void {}
+    public resume(): void {}
+
+    private createButton(label: string, x: number, y: number, width: number, height: number, fill: string, hoverFill: string, onClick: () => void): Konva.Group {
+        const group = new Konva.Group({ x, y });
+        const rect = new Konva.Rect({ width, height, fill, cornerRadius: 10 });
+        const text = new Konva.Text({
+            width, height, text: label,
+            fontSize: Math.min(this.stage.width() * 0.015, 16),
+            fill: 'white', align: 'center', verticalAlign: 'middle',
+            fontFamily: '"Press Start 2P"', listening: false
+        });
+        group.add(rect, text);
+
+        group.on('click tap', () => {
+            AudioManager.getInstance().playSfx('click');
+            onClick();
+        });
+        group.on('mouseenter', () => {
+            this.stage.container().style.cursor = 'pointer';
+            rect.fill(hoverFill);
+            this.layer.batchDraw();
+        });
+        group.on('mouseleave', () => {
+            this.stage.container().style.cursor = 'default';
+            rect.fill(fill);
+            this.layer.batchDraw();
+        });
+        return group;
+    }
+
+    // Replaces whatever panel is showing with a fresh one
+    private newPanel(title: string, scale: number): Panel {
+        this.uiGroup?.destroy();
+        this.uiGroup = new Konva.Group({ name: 'teacherUI' });
+        this.layer.add(this.uiGroup);
+
+        const width = this.stage.width() * scale;
+        const height = this.stage.height() * scale;
+        const x = (this.stage.width() - width) / 2;
+        const y = (this.stage.height() - height) / 2;
+        this.uiGroup.add(new Konva.Rect({
+            x, y, width, height,
+            fill: '#FFFFFF', cornerRadius: 15, stroke: '#8e44ad', strokeWidth: 4,
+            shadowColor: 'black', shadowBlur: 10, shadowOpacity: 0.3, shadowOffset: { x: 3, y: 3 }
+        }));
+        this.uiGroup.add(new Konva.Text({
+            x, y: y + 25, width,
+            text: title,
+            fontSize: Math.min(this.stage.width() * 0.028, 30),
+            fontFamily: '"Press Start 2P"', fill: '#8e44ad', align: 'center'
+        }));
+        return { x, y, width, height };
+    }
+
+    private addBackButton(panel: Panel): void {
+        const buttonWidth = panel.width * 0.22;
+        const buttonHeight = Math.min(panel.height * 0.1, 50);
+        this.uiGroup!.add(this.createButton(
+            'BACK', panel.x + (panel.width - buttonWidth) / 2, panel.y + panel.height - buttonHeight - 25,
+            buttonWidth, buttonHeight, '#e74c3c', '#c0392b', () => this.finish()
+        ));
+    }
+
+    private showPasswordPrompt(): void {
+        const stageWidth = this.stage.width();
+        const panel = this.newPanel('TEACHER', 0.6);
+
+        this.uiGroup!.add(new Konva.Text({
+            x: panel.x, y: panel.y + panel.height * 0.25, width: panel.width,
+            text: 'Enter the teacher password',
+            fontSize: Math.min(stageWidth * 0.022, 24),
+            fill: '#333', align: 'center', fontFamily: '"Nunito"', fontStyle: 'bold'
+        }));
+        const inputY = panel.y + panel.height * 0.4;
+        const inputHeight = panel.height * 0.14;
+        const inputBox = new Konva.Rect({
+            x: panel.x + panel.width * 0.25, y: inputY, width: panel.width * 0.5, height: inputHeight,
+            fill: '#ecf0f1', stroke: '#8e44ad', strokeWidth: 3, cornerRadius: 5
+        });
+        this.inputText = new Konva.Text({
+            x: inputBox.x(), y: inputY, width: panel.width * 0.5, height: inputHeight,
+            text: '', fontSize: Math.min(stageWidth * 0.03, 32), fill: '#2c3e50',
+            align: 'center', verticalAlign: 'middle'
+        });
+        this.feedbackText = new Konva.Text({
+            x: panel.x, y: inputY + inputHeight + 20, width: panel.width,
+            text: '', fontSize: Math.min(stageWidth * 0.02, 22), fill: '#e74c3c', align: 'center', fontFamily: 'Nunito'
+        });
+        this.uiGroup!.add(inputBox, this.inputText, this.feedbackText);
+        this.addBackButton(panel);
+
+        this.resources.widget(new InfoButton(
+            this.stage,
+            this.layer,
+            'The teacher password is set with TEACHER_PASSWORD in the configuration file.'
+        ));
+
+        this.promptActive = true;
+        this.resources.listen('keydown', this.keyboardHandler);
+        this.layer.draw();
+    }
+
+    private handleKeyPress(e: KeyboardEvent): void {
+        if (!this.promptActive) return;
+        if (e.key === 'Enter') this.checkPassword();
+        else if (e.key === 'Backspace') {
+            this.userInput = this.userInput.slice(0, -1);
+            this.updateInputDisplay();
+        } else if (e.key.length === 1 && this.userInput.length < MAX_PASSWORD_LENGTH) {
+            this.userInput += e.key;
+            this.updateInputDisplay();
+        }
+    }
+
+    private updateInputDisplay(): void {
+        this.inputText.text('•'.repeat(this.userInput.length));
+        this.feedbackText.text('');
+        this.layer.draw();
+    }
+
+    private checkPassword(): void {
+        if (this.userInput !== this.password) {
+            this.userInput = '';
+            this.inputText.text('');
+            this.feedbackText.text('Wrong password, try again');
+            this.layer.draw();
+            return;
+        }
+        this.promptActive = false;
+        this.resources.unlisten('keydown', this.keyboardHandler);
+        this.showDashboard();
+    }
+
+    private showDashboard(): void {
+        const stats = classStatsFor(this.profiles);
+        const panel = this.newPanel('CLASS DASHBOARD', 0.9);
+        const fontSize = Math.min(this.stage.width() * 0.016, 18);
+
+        if (stats.students === 0) {
+            this.uiGroup!.add(new Konva.Text({
+                x: panel.x, y: panel.y + panel.height * 0.4, width: panel.width,
+                text: 'No student profiles on this computer yet.',
+                fontSize: fontSize * 1.2, fill: '#333', align: 'center', fontFamily: '"Nunito"', fontStyle: 'bold'
+            }));
+            this.addBackButton(panel);
+            this.layer.draw();
+            return;
+        }
+
+        this.uiGroup!.add(new Konva.Text({
+            x: panel.x, y: panel.y + panel.height * 0.12, width: panel.width,
+            text: `${stats.students} ${stats.students === 1 ? 'student' : 'students'}, ${stats.runs} finished ${stats.runs === 1 ? 'run' : 'runs'}`,
+            fontSize, fill: '#34495e', align: 'center', fontFamily: 'Nunito', fontStyle: 'bold'
+        }));
+
+        const margin = panel.width * 0.05;
+        const chartWidth = (panel.width - margin * 3) / 2;
+        const topY = panel.y + panel.height * 0.2;
+        const bottomY = panel.y + panel.height * 0.52;
+        const chartHeight = panel.height * 0.28;
+
+        this.addBarChart('ACCURACY BY SKILL', panel.x + margin, topY, chartWidth, chartHeight, stats.skills.map((skill) => {
+            const accuracy = accuracyOf(skill);
+            return {
+                label: skill.skill === 'division' ? 'Division' : 'Multiplication',
+                value: accuracy ?? 0,
+                text: accuracy === null ? 'no answers yet' : `${Math.round(accuracy * 100)}% (${skill.correct}/${skill.attempts})`,
+                color: skill.skill === 'division' ? '#3498db' : '#e67e22',
+            };
+        }));
+        this.addBarChart('MOST-MISSED FACTS', panel.x + margin * 2 + chartWidth, topY, chartWidth, chartHeight, this.missedBars(stats));
+        this.addBarChart('RUNS', panel.x + margin, bottomY, chartWidth, chartHeight, [
+            { label: 'Wins', value: stats.runs > 0 ? stats.wins / stats.runs : 0, text: String(stats.wins), color: '#27ae60' },
+            {
+                label: 'Bankruptcies', value: stats.runs > 0 ? stats.bankruptcies / stats.runs : 0,
+                text: `${stats.bankruptcies} (${stats.bankruptStudents} ${stats.bankruptStudents === 1 ? 'student' : 'students'})`,
+                color: '#c0392b',
+            },
+        ]);
+
+        this.uiGroup!.add(new Konva.Text({
+            x: panel.x + margin * 2 + chartWidth, y: bottomY + chartHeight * 0.3, width: chartWidth,
+            text: stats.averageDaysToWin === null
+                ? 'AVERAGE DAYS TO WIN\n\nno wins yet'
+                : `AVERAGE DAYS TO WIN\n\n${stats.averageDaysToWin.toFixed(1)}`,
+            fontSize: fontSize * 1.1, fill: '#8e44ad', align: 'center', lineHeight: 1.3, fontFamily: '"Press Start 2P"'
+        }));
+
+        this.addBackButton(panel);
+        this.layer.draw();
+    }
+
+    private missedBars(stats: ClassStats): Bar[] {
+        const most = stats.mostMissed[0]?.misses ?? 0;
+        return stats.mostMissed.map((missed) => ({
+            label: missed.fact,
+            value: most > 0 ? missed.misses / most : 0,
+            text: `${missed.misses} missed, ${missed.students} ${missed.students === 1 ? 'student' : 'students'}`,
+            color: '#9b59b6',
+        }));
+    }
+
+    // Horizontal bars, one row each: label, bar, value
+    private addBarChart(title: string, x: number, y: number, width: number, height: number, bars: Bar[]): void {
+        const fontSize = Math.min(this.stage.width() * 0.013, 15);
+        this.uiGroup!.add(new Konva.Text({
+            x, y, width, text: title,
+            fontSize: fontSize * 0.9, fontFamily: '"Press Start 2P"', fill: '#2c3e50'
+        }));
+        if (bars.length === 0) {
+            this.uiGroup!.add(new Konva.Text({
+                x, y: y + height * 0.3, width, text: 'Nothing yet',
+                fontSize, fill: '#7f8c8d', align: 'center', fontFamily: 'Nunito'
+            }));
+            return;
+        }
+
+        const rowHeight = Math.min((height - fontSize * 2) / bars.length, fontSize * 2.4);
+        const labelWidth = width * 0.3;
+        const barWidth = width * 0.4;
+        bars.forEach((bar, i) => {
+            const rowY = y + fontSize * 2 + i * rowHeight;
+            const barHeight = rowHeight * 0.7;
+            this.uiGroup!.add(
+                new Konva.Text({
+                    x, y: rowY, width: labelWidth - 8, height: barHeight, text: bar.label,
+                    fontSize, fill: '#333', align: 'right', verticalAlign: 'middle', fontFamily: 'Nunito', fontStyle: 'bold'
+                }),
+                new Konva.Rect({ x: x + labelWidth, y: rowY, width: barWidth, height: barHeight, fill: '#ecf0f1', cornerRadius: 4 }),
+                new Konva.Rect({
+                    x: x + labelWidth, y: rowY, width: barWidth * Math.max(0, Math.min(1, bar.value)), height: barHeight,
+                    fill: bar.color, cornerRadius: 4
+                }),
+                new Konva.Text({
+                    x: x + labelWidth + barWidth + 8, y: rowY, width: width - labelWidth - barWidth - 8, height: barHeight,
+                    text: bar.text, fontSize: fontSize * 0.9, fill: '#555', verticalAlign: 'middle', fontFamily: 'Nunito'
+                })
+            );
+        });
+    }
+
+    private finish(): void {
+        this.unmount();
+        this.onBack();
+    }
+
+    public unmount(): void {
+        this.promptActive = false;
+        this.resources.dispose();
+    }
+}
@@ -115,6 +115,7 @@ describe("VictoryScreen", () => {
       cashBalance: 3000,
       onReturnHome: onReturn,
     });
+    screen.mount();
 
     // trigger button handler from the layer tree
     const button = layer.getChildren().find((c: any) => c.handlers?.has("click"));
@@ -123,4 +124,16 @@ describe("VictoryScreen", () => {
     expect(onReturn).toHaveBeenCalledTimes(1);
     expect(layer.draw).toHaveBeenCalled();
   });
+
+  it("offers the teacher's report only when it can be downloaded", () => {
+    new VictoryScreen(stage as any, layer as any, { totalDaysPlayed: 5, cashBalance: 3000, onReturnHome: onReturn }).mount();
+    const findReports = () => layer.getChildren().filter((c: any) => c.config?.name === "reportButton");
+    expect(findReports()).toHaveLength(0);
+
+    const onDownloadReport = vi.fn();
+    new VictoryScreen(stage as any, layer as any, { totalDaysPlayed: 5, cashBalance: 3000, onReturnHome: onReturn, onDownloadReport }).mount();
+    findReports().forEach((button: any) => button.handlers.get("click tap")?.());
+    expect(onDownloadReport.mock.calls).toEqual([["csv"], ["json"]]);
+    expect(onReturn).not.toHaveBeenCalled();
+  });
 });
@@ -1,10 +1,15 @@
 import Konva from "konva";
+import { AudioManager } from "./AudioManager";
+import { ReportButton } from "./ui/ReportButton";
+import { ReportFormat } from "./ProgressReport";
+import { Screen, ScreenResources } from "./Screen";
 
 
 interface VictoryScreenOptions {
   cashBalance: number;
   totalDaysPlayed: number;
   onReturnHome: () => void;
+  onDownloadReport?: (format: ReportFormat) => void; // teacher's progress report for the run
 }
 
 interface ConfettiParticle {
@@ -15,21 +20,44 @@ interface ConfettiParticle {
   angle: number;
 }
 
-export class VictoryScreen {
+export class VictoryScreen implements Screen {
   private stage: Konva.Stage;
   private layer: Konva.Layer;
   private opts: VictoryScreenOptions;
 
   private anim: Konva.Animation | null = null;
   private particles: ConfettiParticle[] = [];
+  private resources = new ScreenResources();
+  private mounted = false;
 
   constructor(stage: Konva.Stage, layer: Konva.Layer, opts: VictoryScreenOptions) {
     this.stage = stage;
     this.layer = layer;
     this.opts = opts;
+  }
+
+  public mount(): void {
+    this.mounted = true;
     this.setupUI();
   }
 
+  // Laid out once for the stage size it was mounted at
+  public resize(): void {}
+
+  public pause(): void {
+    this.anim?.stop();
+  }
+
+  public resume(): void {
+    this.anim?.start();
+  }
+
+  public unmount(): void {
+    this.mounted = false;
+    this.resources.dispose();
+    this.anim = null;
+  }
+
   private setupUI(): void {
     this.layer.destroyChildren();
 
@@ -38,6 +66,7 @@ export class VictoryScreen {
 
     const imageObj = new Image();
     imageObj.onload = () => {
+      if (!this.mounted) return;
       const bg = new Konva.Image({
         x: 0,
         y: 0,
@@ -120,6 +149,7 @@ export class VictoryScreen {
     returnGroup.add(returnText);
 
     returnGroup.on("click", () => {
+      AudioManager.getInstance().playSfx("click");
       if (this.anim) {
         this.anim.stop();
       }
@@ -145,6 +175,21 @@ export class VictoryScreen {
     });
 
     this.layer.add(returnGroup);
+
+    const onDownloadReport = this.opts.onDownloadReport;
+    if (onDownloadReport) {
+      // CSV and JSON side by side, together as wide as the button above
+      const gap = stageWidth * 0.01;
+      const reportWidth = (buttonWidth - gap) / 2;
+      const formats: ReportFormat[] = ["csv", "json"];
+      formats.forEach((format, i) => {
+        new ReportButton(
+          this.stage, this.layer, onDownloadReport, format,
+          (stageWidth - buttonWidth) / 2 + i * (reportWidth + gap), stageHeight * 0.72 + buttonHeight + stageHeight * 0.03,
+          reportWidth, buttonHeight * 0.7
+        );
+      });
+    }
     this.layer.draw();
   }
 
@@ -177,7 +222,7 @@ export class VictoryScreen {
       });
     }
 
-    this.anim = new Konva.Animation((frame) => {
+    this.anim = this.resources.animation(new Konva.Animation((frame) => {
       if (!frame) return;
 
       const timeDiff = frame.timeDiff;
@@ -198,7 +243,7 @@ export class VictoryScreen {
           p.node.x(Math.random() * stageWidth);
         }
       });
-    }, this.layer);
+    }, this.layer));
 
     this.anim.start();
   }
@@ -0,0 +1,304 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WordProblemScreen } from "./WordProblemScreen";
+import { EventBus } from "./EventBus";
+import type { Problem } from "./ProblemGenerator";
+
+class FakeStage {
+  private readonly widthValue: number;
+  private readonly heightValue: number;
+  private readonly containerElement = { style: { cursor: "default" } };
+
+  constructor(widthValue: number, heightValue: number) {
+    this.widthValue = widthValue;
+    this.heightValue = heightValue;
+  }
+
+  width() {
+    return this.widthValue;
+  }
+
+  height() {
+    return this.heightValue;
+  }
+
+  container() {
+    return this.containerElement;
+  }
+}
+
+class FakeLayer {
+  readonly addedNodes: unknown[] = [];
+  readonly draw = vi.fn();
+  readonly batchDraw = vi.fn();
+
+  add(node: unknown) {
+    this.addedNodes.push(node);
+  }
+}
+
+type RectEntry = {
+  node: any;
+  config: Record<string, unknown>;
+  fillHistory: string[];
+  trigger: (event: string, evt?: { cancelBubble?: boolean }) => void;
+};
+
+const konvaState = vi.hoisted(() => ({
+  groups: [] as Array<{
+    config: Record<string, unknown>;
+    visible: () => boolean;
+    trigger: (event: string, evt?: { cancelBubble?: boolean }) => void;
+    handlers: Map<string, (evt?: { cancelBubble?: boolean }) => void>;
+    children: unknown[];
+  }>,
+  rects: [] as RectEntry[],
+  texts: [] as Array<{ config: Record<string, unknown> }>,
+}));
+
+vi.mock("./ui/InfoButton", () => ({
+  InfoButton: class {
+    constructor(
+      _stage: unknown,
+      _layer: unknown,
+      _message: string
+    ) {
+      // noop
+    }
+    destroy() {}
+  },
+}));
+
+vi.mock("konva", () => {
+  type Handler = (evt?: { cancelBubble?: boolean }) => void;
+
+  class FakeNode {
+    config: Record<string, unknown>;
+    constructor(config?: Record<string, unknown>) {
+      this.config = { ...(config ?? {}) };
+    }
+  }
+
+  class FakeGroup extends FakeNode {
+    private visibleState: boolean;
+    children: unknown[] = [];
+    private handlers = new Map<string, Handler>();
+
+    constructor(config?: Record<string, unknown>) {
+      super(config);
+      this.visibleState = (config?.visible as boolean) ?? true;
+      konvaState.groups.push({
+        config: this.config,
+        visible: () => this.visible(),
+        trigger: (event: string, evt?: { cancelBubble?: boolean }) => this.trigger(event, evt),
+        handlers: this.handlers,
+        children: this.children,
+      });
+    }
+
+    add(...children: unknown[]) {
+      this.children.push(...children);
+      return this;
+    }
+
+    visible(value?: boolean) {
+      if (typeof value === "boolean") {
+        this.visibleState = value;
+      }
+      return this.visibleState;
+    }
+
+    destroyChildren() {
+      this.children = [];
+    }
+
+    destroy() {
+      this.config.destroyed = true;
+    }
+    moveToTop() {}
+
+    on(event: string, handler: Handler) {
+      this.handlers.set(event, handler);
+    }
+
+    trigger(event: string, evt?: { cancelBubble?: boolean }) {
+      const handler = this.handlers.get(event);
+      handler?.(evt);
+    }
+  }
+
+  class FakeRect extends FakeNode {
+    private handlers = new Map<string, Handler>();
+    fillHistory: string[] = [];
+    x(val?: number) {
+      if (typeof val === "number") this.config.x = val;
+      return (this.config.x as number) ?? 0;
+    }
+    y(val?: number) {
+      if (typeof val === "number") this.config.y = val;
+      return (this.config.y as number) ?? 0;
+    }
+
+    constructor(config?: Record<string, unknown>) {
+      super(config);
+      konvaState.rects.push({
+        node: this,
+        config: this.config,
+        fillHistory: this.fillHistory,
+        trigger: (event: string, evt?: { cancelBubble?: boolean }) =>
+          this.trigger(event, evt),
+      });
+    }
+
+    fill(color: string) {
+      this.fillHistory.push(color);
+      this.config.fill = color;
+    }
+
+    on(event: string, handler: Handler) {
+      this.handlers.set(event, handler);
+    }
+
+    trigger(event: string, evt: { cancelBubble?: boolean } = {}) {
+      const handler = this.handlers.get(event);
+      handler?.(evt);
+    }
+  }
+
+  class FakeCircle extends FakeNode {}
+  class FakeLine extends FakeNode {}
+
+  class FakeText extends FakeNode {
+    constructor(config?: Record<string, unknown>) {
+      super(config);
+      konvaState.texts.push({ config: this.config });
+    }
+
+    width() {
+      return (this.config.width as number) ?? 10;
+    }
+
+    text(value: string) {
+      this.config.text = value;
+    }
+
+    fill(color: string) {
+      this.config.fill = color;
+    }
+
+    y() {
+      return (this.config.y as number) ?? 0;
+    }
+
+    height() {
+      return (this.config.height as number) ?? 10;
+    }
+
+    offsetX(value: number) {
+      this.config.offsetX = value;
+    }
+
+    offsetY(value: number) {
+      this.config.offsetY = value;
+    }
+  }
+
+  return {
+    default: {
+      Group: FakeGroup,
+      Rect: FakeRect,
+      Circle: FakeCircle,
+      Line: FakeLine,
+      Text: FakeText,
+    },
+  };
+});
+
+const problems: Problem[] = [
+  { operands: [4, 2], operator: "×", answer: 8, display: "Customer 3 wants 4 cookies (Sugar Cookie). How many cups of Flour is that?", skill: "multiplication" },
+  { operands: [16, 20], operator: "+", answer: 36, display: "How many tbsp of Butter do you need in all?", skill: "addition" },
+];
+
+describe("WordProblemScreen", () => {
+  let keydownHandler: ((evt: Partial<KeyboardEvent>) => void) | null;
+
+  const clickButton = (fill: string) => {
+    const rect = [...konvaState.rects].reverse().find((entry) => entry.config.fill === fill);
+    konvaState.groups.find((group) => group.children.includes(rect?.node as any))?.trigger("click tap", {});
+  };
+
+  const type = (answer: string) => {
+    [...answer, "Enter"].forEach((key) => keydownHandler!({ key }));
+    vi.advanceTimersByTime(1200);
+  };
+
+  const texts = () => konvaState.texts.map((text) => text.config.text);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    konvaState.groups.length = 0;
+    konvaState.rects.length = 0;
+    konvaState.texts.length = 0;
+    keydownHandler = null;
+
+    vi.stubGlobal("window", {
+      addEventListener: vi.fn((event: string, handler: (evt: any) => void) => {
+        if (event === "keydown") keydownHandler = handler;
+      }),
+      removeEventListener: vi.fn((event: string, handler: (evt: any) => void) => {
+        if (event === "keydown" && keydownHandler === handler) {
+          keydownHandler = null;
+        }
+      }),
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("can be skipped", () => {
+    const onComplete = vi.fn();
+    new WordProblemScreen(new FakeStage(800, 600) as never, new FakeLayer() as never, problems, onComplete).mount();
+
+    clickButton("#e74c3c");
+    expect(onComplete).toHaveBeenCalledWith({ correctAnswers: 0, totalProblems: 0, timeRemaining: 0 }, true);
+  });
+
+  it("asks each question and reports the discount earned", () => {
+    const onComplete = vi.fn();
+    new WordProblemScreen(new FakeStage(900, 700) as never, new FakeLayer() as never, problems, onComplete).mount();
+    clickButton("#4CAF50");
+
+    expect(texts()).toContain("Question 1 of 2");
+    expect(texts()).toContain(problems[0].display);
+    type("8");
+    expect(texts()).toContain("Question 2 of 2");
+    type("30");
+
+    expect(texts()).toContain("1 of 2 right");
+    expect(texts()).toContain("You earned 5% off today's ingredients!");
+    clickButton("#4CAF50");
+    expect(onComplete).toHaveBeenCalledWith({ correctAnswers: 1, totalProblems: 2, timeRemaining: 0 }, false);
+    expect(keydownHandler).toBeNull();
+  });
+
+  it("announces every problem and answer for the teacher's report", () => {
+    const events = new EventBus();
+    EventBus.setInstance(events);
+    const shown = vi.fn();
+    const submitted = vi.fn();
+    events.on("problemShown", shown);
+    events.on("answerSubmitted", submitted);
+    new WordProblemScreen(new FakeStage(800, 600) as never, new FakeLayer() as never, problems, vi.fn()).mount();
+    clickButton("#4CAF50");
+    type("8");
+    type("30");
+
+    expect(shown.mock.calls.map(([event]) => event.problem)).toEqual([problems[0], problems[1]]);
+    expect(submitted.mock.calls).toEqual([
+      [{ minigame: "wordProblems", problem: problems[0], correct: true }],
+      [{ minigame: "wordProblems", problem: problems[1], correct: false }],
+    ]);
+  });
+});
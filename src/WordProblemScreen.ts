@@ -0,0 +1,281 @@
+import Konva from 'konva';
+import { AudioManager } from './AudioManager';
+import { MinigameResult } from './types';
+import { InfoButton } from './ui/InfoButton';
+import { Problem } from './ProblemGenerator';
+import { formatAmount, parseAmount, sameAmount } from './Measuring';
+import { DISCOUNT_PER_CORRECT, describeDiscount, discountFor } from './WordProblems';
+import { EventBus } from './EventBus';
+import { Screen, ScreenResources } from './Screen';
+
+// Optional quiz before shopping: word problems about today's orders, see
+// WordProblems.ts. Right answers earn a discount on today's ingredients.
+export class WordProblemScreen implements Screen {
+    private layer: Konva.Layer;
+    private stage: Konva.Stage;
+    private problems: Problem[];
+    private events = EventBus.getInstance(); // problems and answers go out for the teacher's report
+
+    private currentIndex: number = 0;
+    private correctAnswers: number = 0;
+
+    private choiceUIGroup: Konva.Group;
+    private quizUIGroup: Konva.Group;
+    private resultsUIGroup: Konva.Group | null = null;
+
+    private progressText!: Konva.Text;
+    private questionText!: Konva.Text;
+    private inputText!: Konva.Text;
+    private feedbackText!: Konva.Text;
+
+    private userInput: string = '';
+    private waitingForNext = false;
+
+    private onComplete: (result: MinigameResult, skipped: boolean) => void;
+    private keyboardHandler: (e: KeyboardEvent) => void;
+    private resources = new ScreenResources();
+
+    constructor(
+        stage: Konva.Stage,
+        layer: Konva.Layer,
+        problems: Problem[],
+        onComplete: (result: MinigameResult, skipped: boolean) => void
+    ) {
+        this.stage = stage;
+        this.layer = layer;
+        this.problems = problems;
+        this.onComplete = onComplete;
+        this.keyboardHandler = this.handleKeyPress.bind(this);
+
+        this.choiceUIGroup = new Konva.Group({ name: 'choiceUI' });
+        this.quizUIGroup = new Konva.Group({ visible: false, name: 'quizUI' });
+    }
+
+    public mount(): void {
+        this.layer.add(this.choiceUIGroup);
+        this.layer.add(this.quizUIGroup);
+        this.showChoice();
+    }
+
+    // Laid out once for the stage size it was mounted at; untimed
+    public resize(): void {}
+    public pause(): void {}
+    public resume(): void {}
+
+    private createButton(label: string, x: number, y: number, width: number, height: number, fill: string, hoverFill: string, onClick: () => void): Konva.Group {
+        const group = new Konva.Group({ x, y });
+        const rect = new Konva.Rect({ width, height, fill, cornerRadius: 10 });
+        const text = new Konva.Text({
+            width, height, text: label,
+            fontSize: Math.min(this.stage.width() * 0.015, 16),
+            fill: 'white', align: 'center', verticalAlign: 'middle',
+            fontFamily: '"Press Start 2P"', listening: false
+        });
+        group.add(rect, text);
+
+        group.on('click tap', () => {
+            AudioManager.getInstance().playSfx('click');
+            onClick();
+        });
+        group.on('mouseenter', () => {
+            this.stage.container().style.cursor = 'pointer';
+            rect.fill(hoverFill);
+            this.layer.batchDraw();
+        });
+        group.on('mouseleave', () => {
+            this.stage.container().style.cursor = 'default';
+            rect.fill(fill);
+            this.layer.batchDraw();
+        });
+        return group;
+    }
+
+    private addPanel(group: Konva.Group): { x: number; y: number; width: number; height: number } {
+        const width = this.stage.width() * 0.7;
+        const height = this.stage.height() * 0.7;
+        const x = (this.stage.width() - width) / 2;
+        const y = (this.stage.height() - height) / 2;
+        group.add(new Konva.Rect({
+            x, y, width, height,
+            fill: '#FFFFFF', cornerRadius: 15, stroke: '#da5552', strokeWidth: 4,
+            shadowColor: 'black', shadowBlur: 10, shadowOpacity: 0.3, shadowOffset: { x: 3, y: 3 }
+        }));
+        return { x, y, width, height };
+    }
+
+    private showChoice(): void {
+        const stageWidth = this.stage.width();
+        const panel = this.addPanel(this.choiceUIGroup);
+
+        this.choiceUIGroup.add(new Konva.Text({
+            x: panel.x, y: panel.y + panel.height * 0.1, width: panel.width,
+            text: 'SHOPPING QUIZ',
+            fontSize: Math.min(stageWidth * 0.035, 36),
+            fontFamily: '"Press Start 2P"', fill: '#F39C12', align: 'center',
+            stroke: '#da5552', strokeWidth: 2
+        }));
+        this.choiceUIGroup.add(new Konva.Text({
+            x: panel.x + panel.width * 0.1, y: panel.y + panel.height * 0.3, width: panel.width * 0.8,
+            text: [
+                `Answer ${this.problems.length} questions about today's orders.`,
+                `Each right answer takes ${describeDiscount(DISCOUNT_PER_CORRECT)} today's ingredients!`,
+                'Use the recipe book amounts for each flavor.'
+            ].join('\n\n'),
+            fontSize: Math.min(stageWidth * 0.022, 24),
+            fill: '#333', align: 'center', lineHeight: 1.6,
+            fontFamily: '"Nunito"', fontStyle: 'bold'
+        }));
+
+        const buttonWidth = panel.width * 0.25;
+        const buttonHeight = panel.height * 0.15;
+        const buttonY = panel.y + panel.height - buttonHeight - 40;
+        const centerX = panel.x + panel.width / 2;
+        this.choiceUIGroup.add(this.createButton(
+            'TAKE QUIZ', centerX - buttonWidth - panel.width * 0.05, buttonY, buttonWidth, buttonHeight,
+            '#4CAF50', '#45a049', () => this.startQuiz()
+        ));
+        this.choiceUIGroup.add(this.createButton(
+            'SKIP', centerX + panel.width * 0.05, buttonY, buttonWidth, buttonHeight,
+            '#e74c3c', '#c0392b', () => this.finish(true)
+        ));
+        this.layer.batchDraw();
+    }
+
+    private startQuiz(): void {
+        this.choiceUIGroup.visible(false);
+        this.quizUIGroup.visible(true);
+        const stageWidth = this.stage.width();
+        const panel = this.addPanel(this.quizUIGroup);
+
+        this.progressText = new Konva.Text({
+            x: panel.x, y: panel.y + 30, width: panel.width,
+            text: '', fontSize: Math.min(stageWidth * 0.018, 20),
+            fill: '#34495e', align: 'center', fontFamily: 'Nunito'
+        });
+        this.questionText = new Konva.Text({
+            x: panel.x + panel.width * 0.08, y: panel.y + panel.height * 0.18, width: panel.width * 0.84,
+            text: '', fontSize: Math.min(stageWidth * 0.026, 30),
+            fill: '#2c3e50', fontStyle: 'bold', align: 'center', lineHeight: 1.4, fontFamily: 'Nunito'
+        });
+        const inputY = panel.y + panel.height * 0.55;
+        const inputHeight = panel.height * 0.12;
+        const inputBox = new Konva.Rect({
+            x: panel.x + panel.width * 0.35, y: inputY, width: panel.width * 0.3, height: inputHeight,
+            fill: '#ecf0f1', stroke: '#3498db', strokeWidth: 3, cornerRadius: 5
+        });
+        this.inputText = new Konva.Text({
+            x: inputBox.x(), y: inputY + inputHeight * 0.2, width: panel.width * 0.3,
+            text: '', fontSize: Math.min(stageWidth * 0.03, 36), fill: '#2c3e50', align: 'center'
+        });
+        this.feedbackText = new Konva.Text({
+            x: panel.x, y: inputY + inputHeight + 25, width: panel.width,
+            text: '', fontSize: Math.min(stageWidth * 0.024, 28), fill: '#27ae60', align: 'center', fontFamily: 'Nunito'
+        });
+        const instructions = new Konva.Text({
+            x: panel.x, y: panel.y + panel.height - 50, width: panel.width,
+            text: 'Type your answer and press ENTER',
+            fontSize: Math.min(stageWidth * 0.016, 18), fill: '#7f8c8d', align: 'center', fontFamily: 'Nunito'
+        });
+        this.quizUIGroup.add(this.progressText, this.questionText, inputBox, this.inputText, this.feedbackText, instructions);
+
+        this.resources.widget(new InfoButton(
+            this.stage,
+            this.layer,
+            'Find how much of the ingredient the cookies need.\n\nMultiply the number of cookies by the amount in one cookie of that flavor. For the whole day, add up every flavor.'
+        ));
+
+        this.showProblem();
+        this.resources.listen('keydown', this.keyboardHandler);
+    }
+
+    private showProblem(): void {
+        this.progressText.text(`Question ${this.currentIndex + 1} of ${this.problems.length}`);
+        this.questionText.text(this.problems[this.currentIndex].display);
+        this.events.emit('problemShown', { minigame: 'wordProblems', problem: this.problems[this.currentIndex] });
+        this.layer.draw();
+    }
+
+    private handleKeyPress(e: KeyboardEvent): void {
+        if (!this.quizUIGroup.visible() || this.waitingForNext || this.resultsUIGroup) return;
+        if (e.key === 'Enter') this.checkAnswer();
+        else if (e.key === 'Backspace') {
+            this.userInput = this.userInput.slice(0, -1);
+            this.inputText.text(this.userInput);
+            this.layer.draw();
+        } else if (/^[0-9./ ]$/.test(e.key) && this.userInput.length < 8) {
+            this.userInput += e.key;
+            this.inputText.text(this.userInput);
+            this.layer.draw();
+        }
+    }
+
+    private checkAnswer(): void {
+        const answer = parseAmount(this.userInput);
+        if (answer === null) return;
+        const problem = this.problems[this.currentIndex];
+        const correct = sameAmount(answer, problem.answer);
+        this.events.emit('answerSubmitted', { minigame: 'wordProblems', problem, correct });
+
+        if (correct) {
+            this.correctAnswers++;
+            this.feedbackText.text(`Right! ${describeDiscount(DISCOUNT_PER_CORRECT)} ✓`);
+            this.feedbackText.fill('#27ae60');
+        } else {
+            this.feedbackText.text(`Not quite: it's ${formatAmount(problem.answer)} ✗`);
+            this.feedbackText.fill('#e74c3c');
+        }
+        this.userInput = '';
+        this.inputText.text('');
+        this.layer.draw();
+
+        this.waitingForNext = true;
+        this.resources.timeout(() => {
+            this.waitingForNext = false;
+            this.feedbackText.text('');
+            this.currentIndex++;
+            if (this.currentIndex >= this.problems.length) this.showResults();
+            else this.showProblem();
+        }, 1200);
+    }
+
+    private getResult(): MinigameResult {
+        return { correctAnswers: this.correctAnswers, totalProblems: this.currentIndex, timeRemaining: 0 };
+    }
+
+    private showResults(): void {
+        this.resources.unlisten('keydown', this.keyboardHandler);
+        this.quizUIGroup.visible(false);
+        this.resultsUIGroup = new Konva.Group();
+        const panel = this.addPanel(this.resultsUIGroup);
+        const discount = discountFor(this.getResult(), false);
+
+        this.resultsUIGroup.add(new Konva.Text({
+            x: panel.x, y: panel.y + panel.height * 0.2, width: panel.width,
+            text: `${this.correctAnswers} of ${this.problems.length} right`,
+            fontSize: Math.min(this.stage.width() * 0.03, 28), fontFamily: 'Press Start 2P', fill: '#E67E22', align: 'center'
+        }));
+        this.resultsUIGroup.add(new Konva.Text({
+            x: panel.x, y: panel.y + panel.height * 0.4, width: panel.width,
+            text: discount > 0 ? `You earned ${describeDiscount(discount)} today's ingredients!` : 'No discount today. Check the recipe book next time!',
+            fontSize: Math.min(this.stage.width() * 0.022, 24), fontFamily: 'Nunito', fontStyle: 'bold', fill: '#333', align: 'center'
+        }));
+
+        const buttonWidth = panel.width * 0.3;
+        const buttonHeight = panel.height * 0.15;
+        this.resultsUIGroup.add(this.createButton(
+            'GO SHOPPING', panel.x + (panel.width - buttonWidth) / 2, panel.y + panel.height - buttonHeight - 40,
+            buttonWidth, buttonHeight, '#4CAF50', '#45a049', () => this.finish(false)
+        ));
+        this.layer.add(this.resultsUIGroup);
+        this.layer.draw();
+    }
+
+    private finish(skipped: boolean): void {
+        this.unmount();
+        this.onComplete(skipped ? { correctAnswers: 0, totalProblems: 0, timeRemaining: 0 } : this.getResult(), skipped);
+    }
+
+    public unmount(): void {
+        this.resources.dispose();
+    }
+}
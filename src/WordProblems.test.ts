@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import {
+  customerProblem,
+  describeDiscount,
+  discountFor,
+  totalProblem,
+  WORD_PROBLEM_COUNT,
+  wordProblemsForOrders,
+} from "./WordProblems";
+import { CatalogManager } from "./catalog";
+
+const catalog = CatalogManager.getInstance();
+const recipes = catalog.getRecipes();
+const ingredients = catalog.getIngredients();
+const flour = catalog.getIngredient("Flour")!;
+const butter = catalog.getIngredient("Butter")!;
+
+const orders = [
+  { customerNum: 1, cookieCount: 2, recipeId: "chocolate-chip" },
+  { customerNum: 2, cookieCount: 1, recipeId: "sugar" },
+  { customerNum: 3, cookieCount: 4, recipeId: "sugar" },
+];
+
+describe("WordProblems", () => {
+  it("asks how much of an ingredient one customer's cookies need", () => {
+    const problem = customerProblem(orders[2], catalog.getRecipe("sugar")!, flour);
+    expect(problem.display).toBe("Customer 3 wants 4 cookies (Sugar Cookie). How many cups of Flour is that?");
+    expect(problem.answer).toBe(8);
+    expect(customerProblem(orders[1], catalog.getRecipe("sugar")!, flour).display).toContain("wants 1 cookie (");
+  });
+
+  it("adds an ingredient up across every flavor ordered today", () => {
+    const problem = totalProblem(orders, recipes, butter);
+    // 2 chocolate chip x 8 tbsp + 5 sugar x 4 tbsp
+    expect(problem.operands).toEqual([16, 20]);
+    expect(problem.answer).toBe(36);
+    expect(problem.display).toBe(
+      "Today's customers want 2 Chocolate Chip and 5 Sugar Cookie. How many tbsp of Butter do you need in all?"
+    );
+  });
+
+  it("picks customer questions and ends with the whole day", () => {
+    const problems = wordProblemsForOrders(orders, recipes, ingredients, WORD_PROBLEM_COUNT, () => 0);
+    expect(problems).toHaveLength(WORD_PROBLEM_COUNT);
+    expect(problems[0].display).toContain("Customer 1 wants 2 cookies (Chocolate Chip)");
+    expect(problems[WORD_PROBLEM_COUNT - 1].display).toContain("in all?");
+
+    expect(wordProblemsForOrders([], recipes, ingredients)).toEqual([]);
+    expect(wordProblemsForOrders([{ customerNum: 1, cookieCount: 1, recipeId: "unknown" }], recipes, ingredients)).toEqual([]);
+  });
+
+  it("turns right answers into a discount", () => {
+    expect(discountFor({ correctAnswers: 3, totalProblems: 3, timeRemaining: 0 }, false)).toBe(0.15);
+    expect(discountFor({ correctAnswers: 0, totalProblems: 0, timeRemaining: 0 }, true)).toBe(0);
+    expect(describeDiscount(0.15)).toBe("15% off");
+  });
+});
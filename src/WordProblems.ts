@@ -0,0 +1,83 @@
+import { CustomerOrder, IngredientDefinition, MinigameResult, Recipe } from './types';
+import { Problem } from './ProblemGenerator';
+
+// Word problems built from the day's real orders, asked before shopping.
+// Each right answer takes DISCOUNT_PER_CORRECT off today's ingredients.
+export const WORD_PROBLEM_COUNT = 3;
+export const DISCOUNT_PER_CORRECT = 0.05;
+
+// "Customer 3 wants 4 cookies (Sugar Cookie). How many cups of Flour is that?"
+export function customerProblem(order: CustomerOrder, recipe: Recipe, ingredient: IngredientDefinition): Problem {
+    const perCookie = recipe.ingredients[ingredient.name] ?? 0;
+    const cookies = order.cookieCount === 1 ? '1 cookie' : `${order.cookieCount} cookies`;
+    return {
+        operands: [order.cookieCount, perCookie],
+        operator: '×',
+        answer: order.cookieCount * perCookie,
+        display: `Customer ${order.customerNum} wants ${cookies} (${recipe.name}). ` +
+            `How many ${ingredient.unitPlural} of ${ingredient.name} is that?`,
+        skill: 'multiplication',
+    };
+}
+
+// The shopping sum itself: one ingredient across every order of the day
+export function totalProblem(orders: CustomerOrder[], recipes: Recipe[], ingredient: IngredientDefinition): Problem {
+    const counts = recipes
+        .map((recipe) => ({
+            recipe,
+            cookies: orders.filter((o) => o.recipeId === recipe.id).reduce((sum, o) => sum + o.cookieCount, 0),
+        }))
+        .filter(({ cookies }) => cookies > 0);
+    const amounts = counts.map(({ recipe, cookies }) => cookies * (recipe.ingredients[ingredient.name] ?? 0));
+    const listed = counts.map(({ recipe, cookies }) => `${cookies} ${recipe.name}`);
+    const wanted = listed.length > 1 ? `${listed.slice(0, -1).join(', ')} and ${listed[listed.length - 1]}` : listed[0];
+    return {
+        operands: amounts,
+        operator: '+',
+        answer: amounts.reduce((sum, amount) => sum + amount, 0),
+        display: `Today's customers want ${wanted}. ` +
+            `How many ${ingredient.unitPlural} of ${ingredient.name} do you need in all?`,
+        skill: 'addition',
+    };
+}
+
+function takeRandom<T>(items: T[], random: () => number): T {
+    return items.splice(Math.min(items.length - 1, Math.floor(random() * items.length)), 1)[0];
+}
+
+// Questions about single customers, ending with one about the whole day.
+// Answers come from the catalog recipes, so they match the recipe book.
+export function wordProblemsForOrders(
+    orders: CustomerOrder[],
+    recipes: Recipe[],
+    ingredients: IngredientDefinition[],
+    count: number = WORD_PROBLEM_COUNT,
+    random: () => number = Math.random
+): Problem[] {
+    const usedBy = (recipe: Recipe) => ingredients.filter((i) => (recipe.ingredients[i.name] ?? 0) > 0);
+    const customerCandidates = orders.flatMap((order) => {
+        const recipe = recipes.find((r) => r.id === order.recipeId);
+        return recipe ? usedBy(recipe).map((ingredient) => customerProblem(order, recipe, ingredient)) : [];
+    });
+    const ordered = recipes.filter((recipe) => orders.some((o) => o.recipeId === recipe.id && o.cookieCount > 0));
+    const totalCandidates = ingredients
+        .filter((ingredient) => ordered.some((recipe) => (recipe.ingredients[ingredient.name] ?? 0) > 0))
+        .map((ingredient) => totalProblem(orders, ordered, ingredient));
+
+    const problems: Problem[] = [];
+    while (problems.length < count - 1 && customerCandidates.length > 0) {
+        problems.push(takeRandom(customerCandidates, random));
+    }
+    if (totalCandidates.length > 0) problems.push(takeRandom(totalCandidates, random));
+    return problems.slice(0, count);
+}
+
+export function discountFor(result: MinigameResult, skipped: boolean): number {
+    if (skipped) return 0;
+    return Math.round(result.correctAnswers * DISCOUNT_PER_CORRECT * 100) / 100;
+}
+
+// "15% off" for the quiz results and the shopping total
+export function describeDiscount(discount: number): string {
+    return `${Math.round(discount * 100)}% off`;
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CatalogManager } from './catalog';
+
+const mockCatalogResponse = (data: unknown) => {
+  globalThis.fetch = vi.fn().mockResolvedValue({
+    json: vi.fn().mockResolvedValue(data)
+  }) as any;
+};
+
+describe('CatalogManager', () => {
+
+  beforeEach(() => {
+    (CatalogManager as any).instance = undefined;
+    vi.restoreAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should return the same instance on multiple calls', () => {
+    expect(CatalogManager.getInstance()).toBe(CatalogManager.getInstance());
+  });
+
+  it('should provide the default ingredients in shelf order', () => {
+    const catalog = CatalogManager.getInstance();
+    expect(catalog.getIngredients().map(i => i.name)).toEqual(['Flour', 'Butter', 'Sugar', 'Chocolate', 'Baking Soda']);
+    expect(catalog.getIngredient('Butter')).toEqual({ name: 'Butter', unit: 'tbsp', unitPlural: 'tbsp', price: 0.25, shelfLifeDays: 2 });
+    expect(catalog.getIngredient('Oats')).toBeNull();
+  });
+
+  it('should list recipe amounts in catalog order', () => {
+    const catalog = CatalogManager.getInstance();
+    const amounts = catalog.getRecipeAmounts(catalog.getDefaultRecipe());
+    expect(Array.from(amounts.entries())).toEqual([
+      ['Flour', 3], ['Butter', 8], ['Sugar', 1], ['Chocolate', 1], ['Baking Soda', 2],
+    ]);
+    expect(catalog.getBasePrices().get('Chocolate')).toBe(3);
+  });
+
+  it('should load a catalog file with new ingredients', async () => {
+    mockCatalogResponse({
+      ingredients: [
+        { name: 'Flour', unit: 'cup', unitPlural: 'cups', price: 0.5 },
+        { name: 'Oats', unit: 'cup', price: 1.25 },
+      ],
+      recipes: [{ id: 'oatmeal', name: 'Oatmeal', ingredients: { Flour: 2, Oats: 3 } }],
+    });
+
+    const catalog = CatalogManager.getInstance();
+    await catalog.loadCatalog();
+
+    expect(catalog.getIngredient('Oats')).toEqual({ name: 'Oats', unit: 'cup', unitPlural: 'cup', price: 1.25, shelfLifeDays: Infinity });
+    expect(catalog.getDefaultRecipe().id).toBe('oatmeal');
+    expect(catalog.getDefaultRecipe().shortName).toBe('OATMEAL');
+    expect(catalog.getRecipe('oatmeal')?.ingredients).toEqual({ Flour: 2, Oats: 3 });
+  });
+
+  it('should keep defaults when a recipe uses an unknown ingredient', async () => {
+    mockCatalogResponse({
+      ingredients: [{ name: 'Flour', unit: 'cup', price: 0.5 }],
+      recipes: [{ id: 'mystery', ingredients: { Flour: 1, Saffron: 1 } }],
+    });
+
+    const catalog = CatalogManager.getInstance();
+    await catalog.loadCatalog();
+
+    expect(catalog.getDefaultRecipe().id).toBe('chocolate-chip');
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('should keep defaults when the catalog cannot be fetched', async () => {
+    globalThis.fetch = vi.fn().mockRejectedValue(new Error('offline')) as any;
+
+    const catalog = CatalogManager.getInstance();
+    await catalog.loadCatalog();
+
+    expect(catalog.getIngredients()).toHaveLength(5);
+  });
+
+  it('should offer several flavors and fall back to COOKIE_PRICE for unpriced recipes', () => {
+    const catalog = CatalogManager.getInstance();
+    expect(catalog.getRecipes().map(r => r.id)).toEqual(['chocolate-chip', 'sugar', 'double-chocolate']);
+    expect(catalog.getSalePrice(catalog.getRecipe('sugar')!)).toBe(8);
+    expect(catalog.getSalePrice(catalog.getRecipe('chocolate-chip')!)).toBe(15);
+    expect(catalog.getRecipe('double-chocolate')?.shortName).toBe('DBL CHOC');
+  });
+
+  it('should reject recipes with a bad sale price', async () => {
+    mockCatalogResponse({
+      ingredients: [{ name: 'Flour', unit: 'cup', price: 0.5 }],
+      recipes: [{ id: 'plain', price: 'free', ingredients: { Flour: 1 } }],
+    });
+
+    const catalog = CatalogManager.getInstance();
+    await catalog.loadCatalog();
+
+    expect(catalog.getDefaultRecipe().id).toBe('chocolate-chip');
+  });
+
+  it('should not share recipe data between callers', () => {
+    const catalog = CatalogManager.getInstance();
+    catalog.getDefaultRecipe().ingredients.Flour = 99;
+    expect(catalog.getDefaultRecipe().ingredients.Flour).toBe(3);
+  });
+});
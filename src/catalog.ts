@@ -0,0 +1,119 @@
+import { Catalog, IngredientDefinition, Recipe } from './types';
+import { ConfigManager } from './config';
+import defaultCatalog from '../public/catalog.json';
+
+export class CatalogManager {
+    private static instance: CatalogManager;
+    private catalog: Catalog;
+
+    private constructor() {
+        // Built in from the same file loadCatalog fetches, so the two cannot drift
+        this.catalog = this.parseCatalog(defaultCatalog) ?? { ingredients: [], recipes: [] };
+    }
+
+    public static getInstance(): CatalogManager {
+        if (!CatalogManager.instance) {
+            CatalogManager.instance = new CatalogManager();
+        }
+        return CatalogManager.instance;
+    }
+
+    public async loadCatalog(): Promise<void> {
+        try {
+            const response = await fetch('/catalog.json');
+            const parsed = this.parseCatalog(await response.json());
+            if (parsed) {
+                this.catalog = parsed;
+            } else {
+                console.warn('Catalog file is invalid, using defaults');
+            }
+        } catch (error) {
+            console.warn('Could not load catalog file, using defaults:', error);
+        }
+    }
+
+    // Returns null unless every ingredient is well formed and every recipe
+    // only uses ingredients that exist in the catalog
+    private parseCatalog(data: any): Catalog | null {
+        if (!data || !Array.isArray(data.ingredients) || !Array.isArray(data.recipes)) return null;
+        if (data.ingredients.length === 0 || data.recipes.length === 0) return null;
+
+        const ingredients: IngredientDefinition[] = [];
+        for (const item of data.ingredients) {
+            if (!item || typeof item.name !== 'string' || typeof item.price !== 'number' || item.price < 0) return null;
+            const unit = typeof item.unit === 'string' ? item.unit : '';
+            ingredients.push({
+                name: item.name,
+                unit,
+                unitPlural: typeof item.unitPlural === 'string' ? item.unitPlural : unit,
+                price: item.price,
+                // Ingredients without a shelf life never spoil
+                shelfLifeDays: typeof item.shelfLifeDays === 'number' && item.shelfLifeDays > 0 ? item.shelfLifeDays : Infinity,
+            });
+        }
+
+        const known = new Set(ingredients.map(i => i.name));
+        const recipes: Recipe[] = [];
+        for (const item of data.recipes) {
+            if (!item || typeof item.id !== 'string' || !item.ingredients || typeof item.ingredients !== 'object') return null;
+            const amounts: Record<string, number> = {};
+            for (const [name, amount] of Object.entries(item.ingredients)) {
+                if (!known.has(name) || typeof amount !== 'number' || amount <= 0) return null;
+                amounts[name] = amount;
+            }
+            if (item.price !== undefined && (typeof item.price !== 'number' || item.price < 0)) return null;
+            const name = typeof item.name === 'string' ? item.name : item.id;
+            recipes.push({
+                id: item.id,
+                name,
+                shortName: typeof item.shortName === 'string' ? item.shortName : name.toUpperCase(),
+                ...(item.price !== undefined ? { price: item.price } : {}),
+                ingredients: amounts,
+            });
+        }
+
+        return { ingredients, recipes };
+    }
+
+    public getIngredients(): IngredientDefinition[] {
+        return this.catalog.ingredients.map(i => ({ ...i }));
+    }
+
+    public getIngredient(name: string): IngredientDefinition | null {
+        const found = this.catalog.ingredients.find(i => i.name === name);
+        return found ? { ...found } : null;
+    }
+
+    public getRecipes(): Recipe[] {
+        return this.catalog.recipes.map(r => ({ ...r, ingredients: { ...r.ingredients } }));
+    }
+
+    public getRecipe(id: string): Recipe | null {
+        return this.getRecipes().find(r => r.id === id) ?? null;
+    }
+
+    // Fallback flavor for orders that predate flavors (first recipe in the catalog)
+    public getDefaultRecipe(): Recipe {
+        return this.getRecipes()[0];
+    }
+
+    // Recipes without their own price sell at COOKIE_PRICE from the config
+    public getSalePrice(recipe: Recipe): number {
+        return recipe.price ?? ConfigManager.getInstance().getConfig().cookiePrice;
+    }
+
+    // Base price per unit for every ingredient, in catalog order
+    public getBasePrices(): Map<string, number> {
+        return new Map(this.catalog.ingredients.map(i => [i.name, i.price]));
+    }
+
+    // Recipe amounts in catalog ingredient order, for screens that list them
+    public getRecipeAmounts(recipe: Recipe): Map<string, number> {
+        const amounts = new Map<string, number>();
+        this.catalog.ingredients.forEach(i => {
+            const needed = recipe.ingredients[i.name];
+            if (needed) amounts.set(i.name, needed);
+        });
+        return amounts;
+    }
+}
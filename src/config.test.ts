@@ -38,14 +38,19 @@ describe('ConfigManager', () => {
       expect(config.startingFunds).toBe(500);
       expect(config.winThreshold).toBe(1000);
       expect(config.bankruptcyThreshold).toBe(0);
-      expect(config.flourPriceMin).toBe(5);
-      expect(config.flourPriceMax).toBe(15);
+      expect(config.flourPriceMin).toBe(0.4);
+      expect(config.flourPriceMax).toBe(0.6);
+      expect(config.ingredientPriceRanges.FLOUR).toEqual({ min: 0.4, max: 0.6 });
+      expect(config.ingredientPriceRanges.BAKING_SODA).toEqual({ min: 0.4, max: 0.6 });
       expect(config.bakingTime).toBe(60);
       expect(config.cleaningTime).toBe(45);
       expect(config.maxBreadCapacity).toBe(20);
       expect(config.divisionProblems).toBe(10);
       expect(config.multiplicationProblems).toBe(8);
-      expect(config.cookiePrice).toBe(15);
+      expect(config.measuringProblems).toBe(5);
+      expect(config.cookiePrice).toBe(15);
+      expect(config.difficulty).toBe('standard');
+      expect(config.teacherPassword).toBe('teacher');
     });
 
     it('should return a copy of config, not the original', () => {
@@ -368,6 +373,40 @@ BAKING_TIME=90
       expect(configManager.getConfig().flourPriceMax).toBe(25);
     });
 
+    it('should set FLOUR_PRICE_MIN/MAX into the flour price range', async () => {
+      const mockConfigText = 'FLOUR_PRICE_MIN=0.3\nFLOUR_PRICE_MAX=0.7';
+      
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        text: vi.fn().mockResolvedValue(mockConfigText)
+      });
+
+      const configManager = ConfigManager.getInstance();
+      await configManager.loadConfig();
+      
+      expect(configManager.getConfig().ingredientPriceRanges.FLOUR).toEqual({ min: 0.3, max: 0.7 });
+    });
+
+    it('should set per-ingredient price ranges, including new ingredients', async () => {
+      const mockConfigText = 'BAKING_SODA_PRICE_MIN=0.2\nBAKING_SODA_PRICE_MAX=0.8\nOATS_PRICE_MIN=1';
+      
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        text: vi.fn().mockResolvedValue(mockConfigText)
+      });
+
+      const configManager = ConfigManager.getInstance();
+      await configManager.loadConfig();
+      
+      const ranges = configManager.getConfig().ingredientPriceRanges;
+      expect(ranges.BAKING_SODA).toEqual({ min: 0.2, max: 0.8 });
+      expect(ranges.OATS).toEqual({ min: 1, max: 1 });
+    });
+
+    it('should not share price ranges between config copies', () => {
+      const configManager = ConfigManager.getInstance();
+      configManager.getConfig().ingredientPriceRanges.SUGAR.max = 99;
+      expect(configManager.getConfig().ingredientPriceRanges.SUGAR.max).toBe(0.9);
+    });
+
     it('should set BAKING_TIME', async () => {
       const mockConfigText = 'BAKING_TIME=100';
       
@@ -407,6 +446,19 @@ BAKING_TIME=90
       expect(configManager.getConfig().maxBreadCapacity).toBe(50);
     });
 
+    it('should set OVEN_UPGRADE_COST', async () => {
+      const mockConfigText = 'OVEN_UPGRADE_COST=75';
+      
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        text: vi.fn().mockResolvedValue(mockConfigText)
+      });
+
+      const configManager = ConfigManager.getInstance();
+      await configManager.loadConfig();
+      
+      expect(configManager.getConfig().ovenUpgradeCost).toBe(75);
+    });
+
     it('should set DIVISION_PROBLEMS', async () => {
       const mockConfigText = 'DIVISION_PROBLEMS=20';
       
@@ -445,6 +497,57 @@ BAKING_TIME=90
       
       expect(configManager.getConfig().cookiePrice).toBe(30);
     });
+
+    it('should set SEED and let ?seed= in the address override it', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        text: vi.fn().mockResolvedValue('SEED=12345')
+      });
+
+      const configManager = ConfigManager.getInstance();
+      await configManager.loadConfig();
+      expect(configManager.getConfig().seed).toBe(12345);
+
+      vi.stubGlobal('window', { location: { search: '?seed=99' } });
+      await configManager.loadConfig();
+      expect(configManager.getConfig().seed).toBe(99);
+      vi.unstubAllGlobals();
+    });
+
+    it('should set MEASURING_PROBLEMS', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        text: vi.fn().mockResolvedValue('MEASURING_PROBLEMS=3')
+      });
+
+      const configManager = ConfigManager.getInstance();
+      await configManager.loadConfig();
+      expect(configManager.getConfig().measuringProblems).toBe(3);
+    });
+
+    it('should set TEACHER_PASSWORD', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        text: vi.fn().mockResolvedValue('TEACHER_PASSWORD=owls4ever')
+      });
+
+      const configManager = ConfigManager.getInstance();
+      await configManager.loadConfig();
+      expect(configManager.getConfig().teacherPassword).toBe('owls4ever');
+    });
+
+    it('should set DIFFICULTY by tier name and ignore unknown tiers', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        text: vi.fn().mockResolvedValue('DIFFICULTY=Challenge')
+      });
+
+      const configManager = ConfigManager.getInstance();
+      await configManager.loadConfig();
+      expect(configManager.getConfig().difficulty).toBe('challenge');
+
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        text: vi.fn().mockResolvedValue('DIFFICULTY=impossible')
+      });
+      await configManager.loadConfig();
+      expect(configManager.getConfig().difficulty).toBe('challenge');
+    });
   });
 
   describe('Integration Tests', () => {
@@ -1,4 +1,6 @@
 import { GameConfig } from './types';
+import { DEFAULT_DIFFICULTY, parseDifficulty } from './Difficulty';
+import { parseSeed, seedFromUrl } from './Random';
 
 export class ConfigManager {
     private static instance: ConfigManager;
@@ -10,14 +12,26 @@ export class ConfigManager {
             startingFunds: 500,
             winThreshold: 1000, //change from 2000 to 1000
             bankruptcyThreshold: 0,
-            flourPriceMin: 5,
-            flourPriceMax: 15,
+            flourPriceMin: 0.4,
+            flourPriceMax: 0.6,
+            ingredientPriceRanges: {
+                FLOUR: { min: 0.4, max: 0.6 },
+                SUGAR: { min: 0.6, max: 0.9 },
+                BUTTER: { min: 0.2, max: 0.3 },
+                CHOCOLATE: { min: 2.5, max: 3.5 },
+                BAKING_SODA: { min: 0.4, max: 0.6 },
+            },
             bakingTime: 60,
             cleaningTime: 45,
             maxBreadCapacity: 20,
+            ovenUpgradeCost: 50,
             divisionProblems: 10,
             multiplicationProblems: 8,
-            cookiePrice: 15 
+            measuringProblems: 5,
+            cookiePrice: 15,
+            difficulty: DEFAULT_DIFFICULTY,
+            seed: null,
+            teacherPassword: 'teacher'
         };
     }
 
@@ -37,6 +51,11 @@ export class ConfigManager {
         } catch (error) {
             console.warn('Could not load config file, using defaults:', error);
         }
+        // ?seed= in the page address wins over SEED in the config file
+        if (typeof window !== 'undefined') {
+            const urlSeed = seedFromUrl(window.location.search);
+            if (urlSeed !== null) this.config.seed = urlSeed;
+        }
     }
 
     private parseConfig(text: string): void {
@@ -66,9 +85,11 @@ export class ConfigManager {
                 break;
             case 'FLOUR_PRICE_MIN':
                 this.config.flourPriceMin = numValue;
+                this.setPriceRangeValue('FLOUR', 'min', numValue);
                 break;
             case 'FLOUR_PRICE_MAX':
                 this.config.flourPriceMax = numValue;
+                this.setPriceRangeValue('FLOUR', 'max', numValue);
                 break;
             case 'BAKING_TIME':
                 this.config.bakingTime = numValue;
@@ -79,19 +100,55 @@ export class ConfigManager {
             case 'MAX_BREAD_CAPACITY':
                 this.config.maxBreadCapacity = numValue;
                 break;
+            case 'OVEN_UPGRADE_COST':
+                this.config.ovenUpgradeCost = numValue;
+                break;
             case 'DIVISION_PROBLEMS':
                 this.config.divisionProblems = numValue;
                 break;
             case 'MULTIPLICATION_PROBLEMS':
                 this.config.multiplicationProblems = numValue;
                 break;
+            case 'MEASURING_PROBLEMS':
+                this.config.measuringProblems = numValue;
+                break;
             case 'COOKIE_PRICE':
                 this.config.cookiePrice = numValue;
                 break;
+            case 'SEED':
+                this.config.seed = parseSeed(value);
+                break;
+            case 'TEACHER_PASSWORD':
+                this.config.teacherPassword = value;
+                break;
+            case 'DIFFICULTY': {
+                const difficulty = parseDifficulty(value);
+                if (difficulty) this.config.difficulty = difficulty;
+                break;
+            }
+            default: {
+                // <INGREDIENT>_PRICE_MIN / <INGREDIENT>_PRICE_MAX for any other ingredient
+                const match = key.match(/^([A-Z_]+)_PRICE_(MIN|MAX)$/);
+                if (match) {
+                    this.setPriceRangeValue(match[1], match[2] === 'MIN' ? 'min' : 'max', numValue);
+                }
+                break;
+            }
         }
     }
 
+    private setPriceRangeValue(ingredientKey: string, bound: 'min' | 'max', value: number): void {
+        if (Number.isNaN(value)) return;
+        const range = this.config.ingredientPriceRanges[ingredientKey] ?? { min: value, max: value };
+        range[bound] = value;
+        this.config.ingredientPriceRanges[ingredientKey] = range;
+    }
+
     public getConfig(): GameConfig {
-        return { ...this.config };
+        const ingredientPriceRanges: Record<string, { min: number; max: number }> = {};
+        Object.entries(this.config.ingredientPriceRanges).forEach(([key, range]) => {
+            ingredientPriceRanges[key] = { ...range };
+        });
+        return { ...this.config, ingredientPriceRanges };
     }
 }
\ No newline at end of file
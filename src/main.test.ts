@@ -5,6 +5,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest"; // vitest utiliti
 // Spies stored outside to assert after import.
 const loadConfigSpy = vi.fn().mockResolvedValue(undefined); // tracks config loading calls
 const gameManagerSpy = vi.fn(); // tracks GameManager construction
+const loadCatalogSpy = vi.fn().mockResolvedValue(undefined); // tracks catalog loading calls
 
 // Mock ConfigManager module before importing main.
 vi.mock("./config", () => ({
@@ -15,6 +16,15 @@ vi.mock("./config", () => ({
   },
 }));
 
+// Mock CatalogManager so no catalog.json fetch happens.
+vi.mock("./catalog", () => ({
+  CatalogManager: {
+    getInstance: () => ({
+      loadCatalog: loadCatalogSpy,
+    }),
+  },
+}));
+
 // Mock GameManager to prevent real game setup while counting invocations.
 vi.mock("./GameManager", () => {
   class FakeGameManager {
@@ -29,13 +39,16 @@ describe("main.ts bootstrap", () => {
   beforeEach(() => {
     loadConfigSpy.mockReset(); // clear call counts between tests
     gameManagerSpy.mockReset(); // clear constructor spy
+    loadCatalogSpy.mockReset(); // clear catalog spy
     document.body.innerHTML = '<div id="game-container"></div>'; // provide expected container element
   });
 
-  it("loads config then creates GameManager with the DOM container", async () => {
+  it("loads config and catalog then creates GameManager with the DOM container", async () => {
     await import("./main"); // importing triggers init immediately
     await Promise.resolve(); // let async loadConfig resolve
+    await Promise.resolve(); // let async loadCatalog resolve
     expect(loadConfigSpy).toHaveBeenCalledTimes(1); // verify config load happened
+    expect(loadCatalogSpy).toHaveBeenCalledTimes(1); // verify catalog load happened
     const container = document.getElementById("game-container"); // fetch the DOM node used
     expect(gameManagerSpy).toHaveBeenCalledWith(container); // GameManager receives the container
   });
@@ -1,10 +1,12 @@
 import { ConfigManager } from './config';
+import { CatalogManager } from './catalog';
 import { GameManager } from './GameManager';
 
 async function init() {
     // Load config first
     const configManager = ConfigManager.getInstance();
     await configManager.loadConfig();
+    await CatalogManager.getInstance().loadCatalog();
 
     // Start game
     const container = document.getElementById('game-container') as HTMLDivElement;
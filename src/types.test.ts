@@ -14,6 +14,7 @@ describe("types module", () => {
       username: "Tester", // username value for state tracking
       funds: 100, // starting funds sample
       ingredients: new Map(), // inventory map
+      ingredientBatches: [], // purchase batches for spoilage
       breadInventory: [], // bread list sample
       maxBreadCapacity: 10, // capacity bound
       currentDay: 1, // day marker
@@ -28,12 +29,18 @@ describe("types module", () => {
       bankruptcyThreshold: -50, // loss threshold
       flourPriceMin: 1, // config entry example
       flourPriceMax: 2, // price ceiling
+      ingredientPriceRanges: { FLOUR: { min: 1, max: 2 } }, // per-ingredient ranges
       bakingTime: 10, // timers example
       cleaningTime: 5, // cleaning duration
       maxBreadCapacity: 10, // capacity in config
+      ovenUpgradeCost: 50, // price of one oven upgrade
       divisionProblems: 3, // math count
       multiplicationProblems: 2, // math count
+      measuringProblems: 4, // amounts to measure
       cookiePrice: 5, // cookie price
+      difficulty: "standard", // minigame tier
+      seed: null, // new seed every run
+      teacherPassword: "teacher", // dashboard password
     };
 
     const result: MinigameResult = {
@@ -2,9 +2,12 @@ export enum GamePhase {
     LOGIN,
     STORYLINE,
     HOW_TO_PLAY,
+    PRICING,
     ORDER, 
+    WORD_PROBLEMS,
     SHOPPING,
     RECIPE_BOOK,
+    MEASURING,
     BAKING,
     POST_BAKING_ANIMATION,
     CLEANING,
@@ -12,7 +15,9 @@ export enum GamePhase {
     NEW_DAY_ANIMATION,
     GAME_OVER,
     VICTORY,
-    DEFEAT
+    DEFEAT,
+    PRACTICE, // mistake review, reached from the login and day summary screens
+    TEACHER_DASHBOARD // class overview behind the teacher password, reached from the login screen
 }
 
 export interface Ingredient {
@@ -24,32 +29,86 @@ export interface Ingredient {
 export interface PlayerState {
     username: string;
     funds: number;
-    ingredients: Map<string, number>;
-    breadInventory: Bread[]; 
-    maxBreadCapacity: number;
+    ingredients: Map<string, number>; // total on hand per ingredient
+    ingredientBatches: IngredientBatch[]; // the same stock, split by purchase day
+    breadInventory: Bread[]; // baked cookies on the shelf, see Oven.ts
+    maxBreadCapacity: number; // cookies the oven can bake per day
     currentDay: number;
     dishesToClean: number;
     reputation: number;
     currentDayDemand: number; // <-- ADDED THIS
 }
 
+export interface CustomerOrder {
+    customerNum: number;
+    cookieCount: number;
+    recipeId: string; // flavor, see Recipe.id
+}
+
+export interface IngredientBatch {
+    name: string;
+    quantity: number;
+    purchasedDay: number;
+    unitCost: number; // price paid per unit, used to value spoilage
+}
+
 export interface Bread { 
+    recipeId: string;
     quality: number; // 0-100
     quantity: number;
+    bakedDay: number;
+}
+
+// One purchasable ingredient as defined in public/catalog.json
+export interface IngredientDefinition {
+    name: string;
+    unit: string;       // singular, e.g. "cup"
+    unitPlural: string; // e.g. "cups"
+    price: number;      // base price per unit before daily market changes
+    shelfLifeDays: number; // a batch bought on day D is thrown out at the start of day D + shelfLifeDays
 }
 
+export interface Recipe {
+    id: string;
+    name: string;
+    shortName: string; // fits on the order receipts, e.g. "CHOC CHIP"
+    price?: number;    // sale price per cookie; falls back to COOKIE_PRICE
+    // Ingredient name -> units needed for one cookie
+    ingredients: Record<string, number>;
+}
+
+export interface Catalog {
+    ingredients: IngredientDefinition[]; // in display order
+    recipes: Recipe[];
+}
+
+export interface PriceRange {
+    min: number;
+    max: number;
+}
+
+// Named difficulty tiers for the math minigames, see Difficulty.ts
+export type DifficultyId = 'beginner' | 'standard' | 'challenge';
+
 export interface GameConfig {
     startingFunds: number;
     winThreshold: number;
     bankruptcyThreshold: number;
     flourPriceMin: number;
     flourPriceMax: number;
+    // Daily price range per ingredient, keyed like the config file (e.g. BAKING_SODA)
+    ingredientPriceRanges: Record<string, PriceRange>;
     bakingTime: number;
     cleaningTime: number;
     maxBreadCapacity: number;
+    ovenUpgradeCost: number;
     divisionProblems: number;
     multiplicationProblems: number;
+    measuringProblems: number; // amounts to measure before each bake
     cookiePrice: number;
+    difficulty: DifficultyId; // tier a new run starts on
+    seed: number | null; // fixed seed for every run, see Random.ts; null picks a new one per run
+    teacherPassword: string; // opens the teacher dashboard from the login screen
 }
 
 export interface MinigameResult {
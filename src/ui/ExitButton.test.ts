@@ -73,9 +73,13 @@ describe("ExitButton", () => {
     vi.clearAllMocks(); // reset spies
   });
 
-  it("changes colors and cursor on hover, triggers exit on click", async () => {
+  it("changes colors and cursor on hover, clicks and triggers exit on click", async () => {
     const Konva = (await import("konva")).default as any; // import mocked Konva
     const { ExitButton } = await import("./ExitButton"); // import after mocks
+    const { AudioManager, SilentAudioManager } = await import("../AudioManager"); // silent audio to hear the click
+    const audio = new SilentAudioManager(); // records what would have played
+    audio.unlock(); // as if the player had already clicked
+    AudioManager.setInstance(audio); // button plays through the shared manager
     const layer = new Konva.Layer(); // fake layer for draw spy
     const stage = new Konva.Stage({ width: 400, height: 300 }); // stage drives sizing
     const exitSpy = vi.fn(); // spy for exit callback
@@ -93,6 +97,7 @@ describe("ExitButton", () => {
 
     rect.fire("click"); // simulate click
     expect(exitSpy).toHaveBeenCalledTimes(1); // callback fired once
+    expect(audio.played).toEqual(["click_sound.wav"]); // one click sound
     expect(layer.draw).toHaveBeenCalled(); // draw invoked during setup
   });
 
@@ -1,4 +1,5 @@
 import Konva from 'konva';
+import { AudioManager } from '../AudioManager';
 
 export class ExitButton{
     private buttonGroup: Konva.Group;
@@ -69,6 +70,7 @@ export class ExitButton{
 
         //Add click event
         buttonRect.on('click', () => {
+            AudioManager.getInstance().playSfx('click');
             this.onExit();
         });
 
@@ -1,11 +1,13 @@
 // InfoButton test layout overview:
 // - Mock Konva primitives and browser APIs so the button and popup can be exercised without a DOM.
 // - Use fake stage/layer helpers to capture added nodes and cursor changes.
-// - Drive every branch: hover/click, popup guarded reopening, fetch success/failure, global volume callbacks, and custom text fallback.
+// - Drive every branch: hover/click, popup guarded reopening, fetch success/failure, music volume changes on the event bus, and custom text fallback.
 // - Every line is documented so you can explain the reasoning for each step to the TA.
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"; // Vitest helpers supply assertions, spies, and lifecycle hooks.
 import { InfoButton } from "./InfoButton"; // Subject under test for coverage improvements.
 import { VolumeSlider } from "./VolumeSlider"; // Import type so TypeScript is satisfied even when mocked.
+import { AudioManager, SilentAudioManager } from "../AudioManager"; // Silent audio so volume changes can be read back.
+import { EventBus } from "../EventBus"; // Fresh bus per test so volume announcements can be caught.
 
 class FakeStage { // Minimal Konva stage replacement for sizing and cursor checks.
   private readonly widthValue: number; // Store requested width for deterministic width() responses.
@@ -200,6 +202,11 @@ describe("InfoButton", () => { // Group InfoButton coverage tests.
     konvaState.groups.length = 0; // Reset tracked groups between tests.
     konvaState.circles.length = 0; // Reset tracked circles between tests.
     konvaState.texts.length = 0; // Reset tracked texts between tests.
+    volumeState.lastInitial = null; // Forget the previous slider's starting volume.
+    AudioManager.setInstance(new SilentAudioManager()); // Fresh default audio settings for every test.
+    EventBus.setInstance(new EventBus()); // No subscriptions left over from earlier tests.
+    volumeState.followed = null; // Forget which bus the previous slider followed.
+    volumeState.destroy.mockClear(); // Forget earlier slider teardowns.
     (globalThis.fetch as any) = vi.fn(() => // Stub fetch to resolve with default text unless overridden.
       Promise.resolve({ text: () => Promise.resolve("loaded text") })
     );
@@ -213,6 +220,8 @@ describe("InfoButton", () => { // Group InfoButton coverage tests.
   });
 
   it("opens popup with custom text and closes it", async () => { // Cover custom text path and close interactions.
+    const audio = AudioManager.getInstance() as SilentAudioManager; // Records the clicks.
+    audio.unlock(); // As if the player had already clicked.
     const stage = new FakeStage(1000, 800); // Stage large enough for modal sizing math.
     const layer = new FakeLayer(); // Layer to capture node additions.
 
@@ -239,16 +248,16 @@ describe("InfoButton", () => { // Group InfoButton coverage tests.
     closeGroup?.handlers.get("mouseleave")?.(); // Leave close button to reset cursor.
     expect(stage.container().style.cursor).toBe("default"); // Cursor should reset to default.
 
+    expect(volumeState.followed).toBe("music"); // The open slider follows the music bus.
     closeGroup?.handlers.get("click")?.(); // Click close to destroy modal.
     expect(stage.container().style.cursor).toBe("default"); // Cursor stays default after closing.
+    expect(volumeState.destroy).toHaveBeenCalledTimes(1); // Closing stops the slider following the bus.
+    expect(audio.played).toEqual(["click_sound.wav", "click_sound.wav"]); // Opening and closing each click.
   });
 
-  it("invokes global volume setter and event when slider callback fires", async () => { // Cover volume callback path with global setter present.
+  it("sets the music volume when the slider callback fires", async () => { // Cover volume callback path into the AudioManager.
     const stage = new FakeStage(800, 600); // Stage sizing for button placement.
     const layer = new FakeLayer(); // Layer for node capture.
-    const setGlobalSpy = vi.fn(); // Spy on global volume setter.
-    (window as any).setGlobalBgmVolume = setGlobalSpy; // Provide setter to InfoButton callback.
-    const dispatchSpy = vi.spyOn(window as any, "dispatchEvent"); // Spy on dispatchEvent to ensure event is emitted.
 
     const button = new InfoButton(stage as never, layer as never); // Build button without custom text (fetch path).
     const buttonGroup = konvaState.groups.find((entry) => entry.handlers.has("click")); // Find clickable group.
@@ -257,8 +266,8 @@ describe("InfoButton", () => { // Group InfoButton coverage tests.
     await Promise.resolve(); // Allow popup rendering to finish.
 
     volumeState.lastCallback?.(0.6); // Fire slider callback with new volume.
-    expect(setGlobalSpy).toHaveBeenCalledWith(0.6); // Global setter should be called with provided value.
-    expect(dispatchSpy).toHaveBeenCalled(); // Volume change event should be dispatched.
+    expect(AudioManager.getInstance().getVolume("music")).toBe(0.6); // Music bus should follow the slider.
+    expect(button.volume).toBe(0.6); // Button keeps its own copy in sync.
 
     const overlay = konvaState.rects.find((r) => r.handlers.has("click")); // Find overlay rect for close-on-background branch.
     overlay?.handlers.get("click")?.(); // Click overlay to close popup.
@@ -282,18 +291,47 @@ describe("InfoButton", () => { // Group InfoButton coverage tests.
     expect(button.isPopupOpen).toBe(true); // Popup should remain open (click ignored).
   });
 
-  it("handles volume callback when no global setter is present", async () => { // Cover branch where setGlobalBgmVolume is missing.
+  it("announces slider changes on the event bus", async () => { // Listeners hear about the change through volumeChanged.
     const stage = new FakeStage(750, 550); // Stage sizing.
     const layer = new FakeLayer(); // Layer capture.
-    const dispatchSpy = vi.spyOn(window as any, "dispatchEvent"); // Spy on event dispatch even without setter.
-    const button = new InfoButton(stage as never, layer as never); // Build button.
+    new InfoButton(stage as never, layer as never); // Build button.
+    const callbackSpy = vi.fn(); // Spy standing in for a screen that wants to hear about changes.
+    EventBus.getInstance().on("volumeChanged", callbackSpy); // Subscribe like any other listener.
     const buttonGroup = konvaState.groups.find((entry) => entry.handlers.has("click")); // Locate clickable group.
     buttonGroup?.handlers.get("click")?.(); // Open popup to create slider.
     await Promise.resolve(); // Wait for fetch resolution.
     await Promise.resolve(); // Wait for popup rendering completion.
 
-    volumeState.lastCallback?.(0.2); // Trigger slider callback without global setter present.
-    expect(dispatchSpy).toHaveBeenCalled(); // Event should still dispatch even when setter missing.
+    volumeState.lastCallback?.(0.2); // Trigger slider callback.
+    expect(callbackSpy).toHaveBeenCalledWith({ bus: "music", volume: 0.2, muted: false }); // Listener should receive the new volume.
+  });
+
+  it("takes an open popup down with it when destroyed", async () => { // Screens destroy the button on unmount.
+    const stage = new FakeStage(750, 550); // Stage sizing.
+    const layer = new FakeLayer(); // Layer capture.
+    const button: any = new InfoButton(stage as never, layer as never, "Custom info here"); // Custom text skips fetch.
+    konvaState.groups.find((entry) => entry.handlers.has("click"))?.handlers.get("click")?.(); // Open popup.
+    await Promise.resolve(); // Let popup build.
+    const modalLayer = button.modalLayer; // Layer the popup was drawn on.
+
+    button.destroy(); // What a screen's unmount does.
+    expect(volumeState.destroy).toHaveBeenCalledTimes(1); // Slider stops following the music bus.
+    expect(modalLayer.destroy).toHaveBeenCalled(); // Popup layer is removed from the stage.
+    expect(button.isPopupOpen).toBe(false); // Nothing left open.
+  });
+
+  it("does not open a popup whose instructions arrive after it was destroyed", async () => { // Fetch resolves late.
+    const stage = new FakeStage(750, 550); // Stage sizing.
+    const layer = new FakeLayer(); // Layer capture.
+    const button: any = new InfoButton(stage as never, layer as never); // No custom text: instructions are fetched.
+    konvaState.groups.find((entry) => entry.handlers.has("click"))?.handlers.get("click")?.(); // Start opening.
+    button.destroy(); // Screen unmounts before the fetch resolves.
+    await Promise.resolve(); // Let fetch resolve.
+    await Promise.resolve(); // Let text() resolve.
+    await Promise.resolve(); // Let showPopup continue.
+
+    expect(button.modalLayer).toBeUndefined(); // No popup was built.
+    expect(volumeState.followed).toBeNull(); // And no slider subscribed.
   });
 
   it("falls back to fetched instructions when custom text absent", async () => { // Cover fetch success path when no custom text provided.
@@ -313,27 +351,24 @@ describe("InfoButton", () => { // Group InfoButton coverage tests.
     expect(texts).toContain("loaded text"); // Loaded instructions should appear.
   });
 
-  it("uses global getter to seed initial volume and clamps invalid values", async () => { // Cover branch where getGlobalBgmVolume returns a number.
+  it("seeds the slider from the music bus, clamped to range", async () => { // Cover the initial volume lookup.
     const stage = new FakeStage(850, 650); // Stage sizing for popup math.
     const layer = new FakeLayer(); // Layer capture.
-    const getterSpy = vi.fn(() => 1.5); // Spy on getter so we can prove the branch executed.
-    (window as any).getGlobalBgmVolume = getterSpy; // Return out-of-range volume to exercise clamp.
-    const setGlobalSpy = vi.fn(); // Spy on setter so callback path is also covered.
-    (window as any).setGlobalBgmVolume = setGlobalSpy; // Provide setter to receive callback.
+    AudioManager.getInstance().setVolume("music", 1.5); // Out-of-range volume is clamped on the way in.
 
-    const button = new InfoButton(stage as never, layer as never); // Build button with global getter present.
+    const button = new InfoButton(stage as never, layer as never); // Build button.
     const buttonGroup = konvaState.groups.find((entry) => entry.handlers.has("click")); // Find clickable group.
-    buttonGroup?.handlers.get("click")?.(); // Open popup to construct slider using global getter value.
+    buttonGroup?.handlers.get("click")?.(); // Open popup to construct slider from the music volume.
     await Promise.resolve(); // Await potential fetch resolution.
     await Promise.resolve(); // Await popup construction.
+    expect(volumeState.lastInitial).toBe(1); // Slider should start at the clamped music volume.
 
-    volumeState.lastCallback?.(0.4); // Trigger slider callback to ensure setter still invoked.
-    expect(setGlobalSpy).toHaveBeenCalledWith(0.4); // Setter should receive callback volume.
+    volumeState.lastCallback?.(0.4); // Trigger slider callback.
+    expect(AudioManager.getInstance().getVolume("music")).toBe(0.4); // Music bus should receive callback volume.
     button.setVolume(0.8); // Call setVolume while slider exists to cover direct setter branch.
     expect(volumeState.lastSetVolume).toHaveBeenCalled(); // Slider proxy should receive forwarded volume.
     await (button as any).showPopup(); // Manually invoke showPopup again while open to hit early-return guard.
-    expect(getterSpy).toHaveBeenCalled(); // Getter should have been used when popup first opened.
-    expect(button.volume).toBeLessThanOrEqual(1); // Initial volume should have been clamped to <=1.
+    expect(button.volume).toBeLessThanOrEqual(1); // Volume should stay within range.
   });
 
   it("routes setVolume before popup open without a slider and after popup with a slider", async () => { // Cover both branches of setVolume and re-entry into showPopup.
@@ -354,38 +389,40 @@ describe("InfoButton", () => { // Group InfoButton coverage tests.
     await (button as any).showPopup(); // Call showPopup directly while open to exercise early return path.
   });
 
-  it("reads global volume when showing popup directly", async () => { // Explicitly drive the getGlobalBgmVolume branch inside showPopup.
+  it("reads the music volume when showing popup directly", async () => { // Drive the music lookup inside showPopup.
     const stage = new FakeStage(810, 610); // Stage sizing.
     const layer = new FakeLayer(); // Layer capture.
-    const getterSpy = vi.fn(() => 0.4); // Spy getter to verify usage.
-    (window as any).getGlobalBgmVolume = getterSpy; // Provide getter for showPopup.
+    AudioManager.getInstance().setVolume("music", 0.4); // Volume the slider should start from.
     const button: any = new InfoButton(stage as never, layer as never); // Build button.
 
     await button.showPopup(); // Call showPopup directly to avoid click indirection.
-    expect(getterSpy).toHaveBeenCalled(); // Getter should be invoked inside showPopup.
-    expect(button.volume).toBeLessThanOrEqual(1); // Volume remains clamped after reading the getter.
+    expect(volumeState.lastInitial).toBe(0.4); // Slider should start at the music volume.
   });
 
-  it("falls back to default volume when getter returns NaN", async () => { // Cover the invalid-value branch inside showPopup volume logic.
+  it("keeps the default volume when an invalid one is set", async () => { // Cover the NaN guard on the music bus.
     const stage = new FakeStage(800, 600); // Stage sizing.
     const layer = new FakeLayer(); // Layer capture.
-    (window as any).getGlobalBgmVolume = () => Number.NaN; // Getter returns NaN to trigger fallback.
+    AudioManager.getInstance().setVolume("music", Number.NaN); // NaN is ignored by the AudioManager.
     const button: any = new InfoButton(stage as never, layer as never); // Build button.
 
     await button.showPopup(); // Invoke showPopup directly.
-    expect(button.volume).toBeCloseTo(0.5, 5); // Default volume should be used when getter is invalid.
+    expect(volumeState.lastInitial).toBeCloseTo(0.5, 5); // Default music volume should be used.
   });
 });
 
 const volumeState = vi.hoisted(() => ({ // Shared VolumeSlider spies to drive callback branches.
   lastCallback: null as null | ((v: number) => void), // Store last callback so tests can invoke it.
+  lastInitial: null as null | number, // Starting volume of the last slider built.
   lastSetVolume: vi.fn(), // Spy on VolumeSlider.setVolume calls.
+  followed: null as null | string, // Bus the last slider follows.
+  destroy: vi.fn(), // Spy on VolumeSlider.destroy calls.
 }));
 vi.mock("./VolumeSlider", () => ({ // Mock VolumeSlider to avoid DOM and expose callback.
   VolumeSlider: class { // Minimal proxy matching the constructor and setVolume API.
     private width = 160;
-    constructor(_stage: any, _layer: any, _initial: number, cb: (v: number) => void) { // Capture callback when instantiated.
+    constructor(_stage: any, _layer: any, initial: number, cb: (v: number) => void) { // Capture callback when instantiated.
       volumeState.lastCallback = cb; // Save callback for later manual invocation.
+      volumeState.lastInitial = initial; // Save the starting volume for seeding assertions.
     }
     setVolume(v: number) { // Proxy setVolume that records calls.
       volumeState.lastSetVolume(v); // Record the value to assert clamping and updates.
@@ -393,6 +430,13 @@ vi.mock("./VolumeSlider", () => ({ // Mock VolumeSlider to avoid DOM and expose
     getWidth() { // Mirror VolumeSlider layout helper used by InfoButton.
       return this.width;
     }
+    follow(bus: string) { // Record which bus the slider keeps up with.
+      volumeState.followed = bus;
+      return this;
+    }
+    destroy() { // Record teardown when the popup closes.
+      volumeState.destroy();
+    }
     setPosition(_x: number, _y: number) {
       /* layout helper stub */
     }
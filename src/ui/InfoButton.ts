@@ -1,5 +1,6 @@
 import Konva from "konva";
 import { VolumeSlider } from './VolumeSlider';
+import { AudioManager } from '../AudioManager';
 
 
 export class InfoButton {
@@ -7,11 +8,12 @@ export class InfoButton {
     private stage: Konva.Stage;
     private layer: Konva.Layer;
     private isPopupOpen: boolean = false;
+    private destroyed: boolean = false;
     private customText?: string;
+    private modalLayer?: Konva.Layer;
 
     private volumeSlider?: VolumeSlider;
     public volume: number = 0.5;                         // 0–1
-    public volumeChangeCallback?: (v: number) => void;
 
     public setVolume(v: number): void {
     this.volume = Math.max(0, Math.min(1, v));
@@ -78,6 +80,7 @@ export class InfoButton {
         // Click handler
         this.group.on("click", () => {
             if (this.isPopupOpen) return; 
+            AudioManager.getInstance().playSfx('click');
             this.showPopup()
         });
     }
@@ -101,6 +104,8 @@ export class InfoButton {
                 instructions = "Instructions could not be loaded.";
             }
         }
+        // The screen went away while the instructions loaded
+        if (this.destroyed) return;
 
         // --- FIX 2: Paper Style Modal ---
         const modalWidth = Math.min(stageWidth * 0.8, 800);
@@ -109,6 +114,7 @@ export class InfoButton {
         const modalY = (stageHeight - modalHeight) / 2;
 
         const modalLayer = new Konva.Layer();
+        this.modalLayer = modalLayer;
         const modalGroup = new Konva.Group();
 
         // 1. Dark Overlay
@@ -118,11 +124,7 @@ export class InfoButton {
             fill: 'rgba(0,0,0,0.5)'
         });
         // Click background to close
-        overlay.on('click', () => {
-            modalLayer.destroy();
-            this.layer.draw();
-            this.isPopupOpen = false;
-        });
+        overlay.on('click', () => this.closePopup());
 
         // 2. Paper Background (Beige with Stroke)
         const paper = new Konva.Rect({
@@ -232,25 +234,16 @@ export class InfoButton {
 
         // Close action
         closeGroup.on("click", () => {
-            modalLayer.destroy();
-            this.layer.draw();
-            this.isPopupOpen = false;
+            AudioManager.getInstance().playSfx('click');
+            this.closePopup();
         });
 
         // Add everything to modal layer
         modalGroup.add(overlay, paper, highlight, crease, title, content, closeGroup);
         modalLayer.add(modalGroup);
-        const getGlobalBgmVolume = (window as any).getGlobalBgmVolume;
-        const setGlobalBgmVolume = (window as any).setGlobalBgmVolume;
-
-        // If GameManager already set a global volume, use that, otherwise fallback to 0.5
-        let initialVolume = 0.5;
-        if (typeof getGlobalBgmVolume === 'function') {
-            const v = getGlobalBgmVolume();
-            if (typeof v === 'number' && !Number.isNaN(v)) {
-            initialVolume = Math.max(0, Math.min(1, v));
-            }
-        }
+        // The slider shows and sets the music bus, and follows it while open
+        const audio = AudioManager.getInstance();
+        const initialVolume = audio.getVolume('music');
         // Add modal layer to stage
         this.stage.add(modalLayer);
         this.volumeSlider = new VolumeSlider(
@@ -259,17 +252,9 @@ export class InfoButton {
         initialVolume,
         (v: number) => {
             this.volume = v;
-
-            // Call per-instance callback if someone set it (optional)
-            if (typeof setGlobalBgmVolume === 'function') {
-                setGlobalBgmVolume(v);
-            }
-            // Global event so GameManager can react
-            window.dispatchEvent(
-            new CustomEvent<number>('bgm-volume-change', { detail: v })
-            );
+            audio.setVolume('music', v);
         }
-        );
+        ).follow('music');
 
         // Center the volume slider at bottom of modal
         this.volumeSlider.setPosition(
@@ -279,4 +264,21 @@ export class InfoButton {
 
         modalLayer.draw();
     }
+
+    // Takes the popup down and stops its slider following the music bus
+    private closePopup(): void {
+        this.volumeSlider?.destroy();
+        this.volumeSlider = undefined;
+        this.modalLayer?.destroy();
+        this.modalLayer = undefined;
+        this.layer.draw();
+        this.isPopupOpen = false;
+    }
+
+    // Removes the button along with its popup, if open; screens call this on unmount
+    public destroy(): void {
+        this.destroyed = true;
+        if (this.isPopupOpen) this.closePopup();
+        this.group.destroy();
+    }
 }
\ No newline at end of file
@@ -0,0 +1,122 @@
+// Layout note: sections cover Konva fakes, helpers, then behavior tests (hover, click, destroy) so each assertion is easy to explain.
+import { describe, it, expect, vi, beforeEach } from "vitest"; // vitest helpers
+
+type Handler = (...args: any[]) => void; // reusable handler signature
+
+// Simple Konva stand-ins with just enough API for ReportButton.
+class FakeNode {
+  config: Record<string, any>; // store config parameters
+  handlers = new Map<string, Handler>(); // events registry
+  constructor(config: Record<string, any> = {}) {
+    this.config = { ...config }; // shallow copy for isolation
+  }
+  on(event: string, handler: Handler) {
+    this.handlers.set(event, handler); // allow tests to trigger
+  }
+  fire(event: string) {
+    this.handlers.get(event)?.(); // invoke stored handler
+  }
+  destroy() {
+    this.config.destroyed = true; // mark destroyed for checks
+  }
+}
+
+class FakeStage extends FakeNode {
+  containerEl = { style: { cursor: "default" } }; // emulate DOM container style
+  width() {
+    return this.config.width ?? 800; // width reads
+  }
+  height() {
+    return this.config.height ?? 600; // height reads
+  }
+  container() {
+    return this.containerEl; // expose container for cursor assertions
+  }
+}
+
+class FakeLayer extends FakeNode {
+  draw = vi.fn(); // spy to ensure draw is invoked
+  batchDraw = vi.fn(); // hover redraws
+  add(node: any) {
+    this.config.added = [...(this.config.added ?? []), node]; // track added nodes for sanity
+  }
+}
+
+class FakeGroup extends FakeNode {
+  add(...nodes: any[]) {
+    this.config.children = [...(this.config.children ?? []), ...nodes]; // track children
+  }
+}
+
+class FakeRect extends FakeNode {
+  fill(value?: string) {
+    if (value) this.config.fill = value; // mutate fill color when called
+    return this.config.fill; // allow tests to read back
+  }
+}
+
+class FakeText extends FakeNode {}
+
+// Install the Konva mock before each test.
+vi.mock("konva", () => ({
+  default: {
+    Stage: FakeStage,
+    Layer: FakeLayer,
+    Group: FakeGroup,
+    Rect: FakeRect,
+    Text: FakeText,
+  },
+})); // hoisted Konva replacement so ReportButton uses fakes
+
+describe("ReportButton", () => {
+  beforeEach(() => {
+    vi.resetModules(); // clean module cache
+    vi.clearAllMocks(); // reset spies
+  });
+
+  it("sits where it is placed, highlights on hover and downloads its format on click", async () => {
+    const Konva = (await import("konva")).default as any; // import mocked Konva
+    const { ReportButton } = await import("./ReportButton"); // import after mocks
+    const { AudioManager, SilentAudioManager } = await import("../AudioManager"); // silent audio to hear the click
+    const audio = new SilentAudioManager(); // records what would have played
+    audio.unlock(); // as if the player had already clicked
+    AudioManager.setInstance(audio); // button plays through the shared manager
+    const layer = new Konva.Layer(); // fake layer for draw spy
+    const stage = new Konva.Stage({ width: 800, height: 600 }); // stage drives sizing
+    const downloadSpy = vi.fn(); // spy for download callback
+
+    const button = new ReportButton(stage, layer, downloadSpy, "json", 40, 500); // place in the bottom-left corner
+    const group = (button as any).buttonGroup as FakeGroup; // group holds the rect and label
+    const rect = group.config.children[0] as FakeRect; // first child is the rect
+    const text = group.config.children[1] as FakeText; // second child is the label
+
+    expect(group.config.x).toBe(40); // placed where asked
+    expect(group.config.y).toBe(500);
+    expect(text.config.text).toBe("DOWNLOAD\nJSON"); // label names the format
+
+    group.fire("mouseenter"); // simulate hover in
+    expect(stage.container().style.cursor).toBe("pointer"); // cursor switches to pointer
+    expect(rect.fill()).toBe("#9b59b6"); // hover fill color applied
+
+    group.fire("mouseleave"); // simulate hover out
+    expect(stage.container().style.cursor).toBe("default"); // cursor resets
+    expect(rect.fill()).toBe("#8e44ad"); // base color restored
+
+    group.fire("click tap"); // simulate click
+    expect(downloadSpy).toHaveBeenCalledTimes(1); // callback fired once
+    expect(downloadSpy).toHaveBeenCalledWith("json"); // with this button's format
+    expect(audio.played).toEqual(["click_sound.wav"]); // one click sound
+  });
+
+  it("destroys group and redraws when destroy is called", async () => {
+    const Konva = (await import("konva")).default as any; // mocked Konva access
+    const { ReportButton } = await import("./ReportButton"); // import after mocks
+    const layer = new Konva.Layer(); // layer spy
+    const stage = new Konva.Stage({ width: 300, height: 200 }); // stage for sizing
+
+    const button = new ReportButton(stage, layer, vi.fn(), "csv", 0, 0); // build button to exercise destroy
+    (button as any).destroy(); // call destroy explicitly
+    expect((button as any).buttonGroup.config.destroyed).toBe(true); // group flagged as destroyed
+    expect(layer.draw).toHaveBeenCalledTimes(2); // draw once for setup, once for destroy
+  });
+});
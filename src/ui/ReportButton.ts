@@ -0,0 +1,79 @@
+import Konva from 'konva';
+import { AudioManager } from '../AudioManager';
+import { ReportFormat } from '../ProgressReport';
+
+// Downloads the teacher's progress report in one format, see ProgressReport.ts
+export class ReportButton{
+    private buttonGroup: Konva.Group;
+
+    constructor(
+        private stage: Konva.Stage,
+        private layer: Konva.Layer,
+        private onDownload: (format: ReportFormat) => void,
+        private format: ReportFormat,
+        x: number,
+        y: number,
+        width: number = Math.min(stage.width()*0.2, 220),
+        height: number = Math.min(stage.height()*0.07, 50),
+    ){
+        this.buttonGroup = new Konva.Group({
+            x: x,
+            y: y,
+            name: 'reportButton',
+        });
+
+        //Button rectangle
+        const buttonRect = new Konva.Rect({
+            width: width,
+            height: height,
+            fill: '#8e44ad',
+            cornerRadius: 10,
+            shadowColor: 'black',
+            shadowBlur: 5,
+            shadowOpacity: 0.4,
+            shadowOffset: { x: 2, y: 2 },
+        });
+
+        //Button text
+        const text = new Konva.Text({
+            width: width,
+            height: height,
+            text: `DOWNLOAD\n${format.toUpperCase()}`,
+            fontSize: Math.min(this.stage.width()*0.012, 14),
+            fontFamily: 'Press Start 2P',
+            fill: '#FFFFFF',
+            align: 'center',
+            verticalAlign: 'middle',
+            lineHeight: 1.4,
+            listening: false,
+        });
+
+        this.buttonGroup.add(buttonRect);
+        this.buttonGroup.add(text);
+
+        this.buttonGroup.on('mouseenter', () => {
+            this.stage.container().style.cursor = 'pointer';
+            buttonRect.fill('#9b59b6');
+            this.layer.batchDraw();
+        });
+
+        this.buttonGroup.on('mouseleave', () => {
+            this.stage.container().style.cursor = 'default';
+            buttonRect.fill('#8e44ad');
+            this.layer.batchDraw();
+        });
+
+        this.buttonGroup.on('click tap', () => {
+            AudioManager.getInstance().playSfx('click');
+            this.onDownload(this.format);
+        });
+
+        this.layer.add(this.buttonGroup);
+        this.layer.draw();
+    }
+
+    public destroy(){
+        this.buttonGroup.destroy();
+        this.layer.draw();
+    }
+}
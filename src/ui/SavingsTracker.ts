@@ -1,7 +1,9 @@
 import Konva from "konva";
 import { ConfigManager } from '../config';
+import { EventBus } from '../EventBus';
 
 //Display progress bar to show player how close they are to reaching the win threshold
+//Follows fundsChanged on the event bus until destroy()
 export class SavingsTracker {
     private layer: Konva.Layer;
     private stage: Konva.Stage;
@@ -12,6 +14,9 @@ export class SavingsTracker {
     private progressBarFill!: Konva.Rect;
     private cookieIcon!: Konva.Image;
     private labelText !: Konva.Text;
+    private bounceAnim: Konva.Animation | null = null;
+    private unsubscribe: () => void;
+    private destroyed: boolean = false;
 
     //tracking values
     private savingsGoal: number; //stores win threshold pulled from config
@@ -28,6 +33,9 @@ export class SavingsTracker {
 
         // build UI elements
         this.setupUI();
+
+        //move the bar whenever money comes in or goes out
+        this.unsubscribe = EventBus.getInstance().on('fundsChanged', ({ funds }) => this.update(funds));
     }
 
     private setupUI() {
@@ -106,6 +114,7 @@ export class SavingsTracker {
         const img = new window.Image();
         img.src = "/cookie.png";
         img.onload = () => {
+            if (this.destroyed) return; //screen already gone
             this.cookieIcon.image(img);
             this.layer.batchDraw();
 
@@ -113,7 +122,7 @@ export class SavingsTracker {
             let bounceOffset = 0;
             let bounceDirection = 1;
 
-            const bounceAnim = new Konva.Animation((frame) => {
+            this.bounceAnim = new Konva.Animation((frame) => {
                 const bounceHeight = 2.5; //how far up/down icon moves
                 const bounceSpeed = 0.01; //speed of bounce
 
@@ -133,7 +142,7 @@ export class SavingsTracker {
 
             }, this.layer);
 
-            bounceAnim.start();
+            this.bounceAnim.start();
         };
 
         // Add to layer
@@ -167,4 +176,12 @@ export class SavingsTracker {
 
         this.layer.batchDraw();
     }
+
+    //stop following funds and bouncing; the screen removes the nodes
+    public destroy() {
+        this.destroyed = true;
+        this.unsubscribe();
+        this.bounceAnim?.stop();
+        this.bounceAnim = null;
+    }
 }
@@ -94,6 +94,10 @@ describe("ShuffleButton", () => {
   it("shows hover feedback only when shuffles remain and consumes clicks", async () => {
     const Konva = (await import("konva")).default as any; // import mocked Konva
     const { ShuffleButton } = await import("./ShuffleButton"); // import target after mocks
+    const { AudioManager, SilentAudioManager } = await import("../AudioManager"); // silent audio to hear the shuffles
+    const audio = new SilentAudioManager(); // records what would have played
+    audio.unlock(); // as if the player had already clicked
+    AudioManager.setInstance(audio); // button plays through the shared manager
     const stage = new Konva.Stage({ width: 600, height: 400 }); // stage for sizing and cursor
     const layer = new Konva.Layer(); // layer with draw spy
     const parent = new Konva.Group(); // parent group receives the button
@@ -120,6 +124,8 @@ describe("ShuffleButton", () => {
     expect(circle.fill()).toBe("#95a5a6"); // button visually disabled
     expect(circle.opacity()).toBe(0.6); // opacity lowered when out of shuffles
     expect(onShuffle).toHaveBeenCalledTimes(3); // callback fired for each allowed click
+    group.fire("click"); // no shuffles left, so nothing happens
+    expect(audio.played).toEqual(Array(3).fill("shuffle_sound.wav")); // one sound per shuffle
 
     stage.container().style.cursor = "default"; // reset cursor manually
     group.fire("mouseenter"); // hover after exhaustion
@@ -1,4 +1,5 @@
 import Konva from 'konva';
+import { AudioManager } from '../AudioManager';
 
 export class ShuffleButton {
     private buttonGroup: Konva.Group;
@@ -107,6 +108,7 @@ export class ShuffleButton {
         }
         
         this.layer.draw();
+        AudioManager.getInstance().playSfx('shuffle');
         
         // Call the callback to handle the actual shuffle logic
         this.onShuffle();
@@ -1,8 +1,10 @@
 // VolumeButton behavioral coverage:
-// - verifies popup creation/close, global volume propagation, and slider wiring
+// - verifies popup creation/close, per-bus volume propagation, and slider wiring
 // - exercises setVolume before/after popup to cover clamping and forwarding logic
+// - flips each bus's mute switch through the AudioManager
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { VolumeButton } from "./VolumeButton";
+import { AudioManager, SilentAudioManager } from "../AudioManager";
 
 type Handler = (...args: any[]) => void;
 
@@ -43,6 +45,10 @@ vi.mock("konva", () => {
       super(config);
       konvaState.rects.push({ config: this.config, handlers: this.handlers });
     }
+    fill(color?: string) {
+      if (color) this.config.fill = color;
+      return this.config.fill;
+    }
   }
   class Circle extends Node {
     fill(color?: string) {
@@ -50,7 +56,12 @@ vi.mock("konva", () => {
       return this.config.fill;
     }
   }
-  class Text extends Node {}
+  class Text extends Node {
+    text(value?: string) {
+      if (value !== undefined) this.config.text = value;
+      return this.config.text;
+    }
+  }
 
   class Layer extends Group {
     draw = vi.fn();
@@ -90,17 +101,19 @@ vi.mock("konva", () => {
 });
 
 const sliderState = vi.hoisted(() => ({
-  lastCallback: null as null | ((v: number) => void),
+  callbacks: [] as Array<(v: number) => void>,
+  initials: [] as number[],
   lastSetVolume: vi.fn(),
   lastSetPosition: vi.fn(),
-  lastInitial: null as null | number,
+  followed: [] as string[],
+  destroyed: 0,
 }));
 
 vi.mock("./VolumeSlider", () => ({
   VolumeSlider: class {
     constructor(_stage: any, _layer: any, initial: number, cb: (v: number) => void) {
-      sliderState.lastCallback = cb;
-      sliderState.lastInitial = initial;
+      sliderState.callbacks.push(cb);
+      sliderState.initials.push(initial);
     }
     getWidth() {
       return 160;
@@ -111,6 +124,13 @@ vi.mock("./VolumeSlider", () => ({
     setVolume(v: number) {
       sliderState.lastSetVolume(v);
     }
+    follow(bus: string) {
+      sliderState.followed.push(bus);
+      return this;
+    }
+    destroy() {
+      sliderState.destroyed++;
+    }
   },
 }));
 
@@ -129,10 +149,13 @@ describe("VolumeButton", () => {
     konvaState.groups.length = 0;
     konvaState.rects.length = 0;
     konvaState.layers.length = 0;
-    sliderState.lastCallback = null;
-    sliderState.lastInitial = null;
+    sliderState.callbacks.length = 0;
+    sliderState.initials.length = 0;
+    AudioManager.setInstance(new SilentAudioManager());
     sliderState.lastSetVolume.mockClear();
     sliderState.lastSetPosition.mockClear();
+    sliderState.followed.length = 0;
+    sliderState.destroyed = 0;
     vi.stubGlobal(
       "Image",
       class {
@@ -153,10 +176,11 @@ describe("VolumeButton", () => {
     vi.unstubAllGlobals();
   });
 
-  it("opens popup once, seeds volume from global getter, and routes slider callback", async () => {
-    const setGlobalSpy = vi.fn();
-    (window as any).setGlobalBgmVolume = setGlobalSpy;
-    (window as any).getGlobalBgmVolume = () => 2; // ensure clamp to 1
+  it("opens popup once, seeds a slider per bus, and routes slider callbacks", async () => {
+    const audio = AudioManager.getInstance() as SilentAudioManager;
+    audio.unlock();
+    audio.setVolume("music", 2); // ensure clamp to 1
+    audio.setVolume("sfx", 0.2);
 
     const { default: Konva } = await import("konva");
     const stage = new Konva.Stage({ width: 800, height: 600 });
@@ -165,22 +189,74 @@ describe("VolumeButton", () => {
 
     // trigger click to open popup
     button["group"].handlers.get("click")?.();
-    expect(sliderState.lastInitial).toBe(1); // clamped global getter value
-    sliderState.lastSetPosition.mock.calls.length === 1;
-    expect(sliderState.lastSetPosition).toHaveBeenCalled(); // slider positioned
+    expect(audio.played).toEqual(["click_sound.wav"]);
+    expect(sliderState.initials).toEqual([1, 0.2]); // music (clamped) then effects
+    expect(sliderState.lastSetPosition).toHaveBeenCalledTimes(2); // both sliders positioned
+    expect(sliderState.followed).toEqual(["music", "sfx"]); // each keeps up with its bus
 
-    // slider callback propagates to global setter and event
-    sliderState.lastCallback?.(0.3);
-    expect(setGlobalSpy).toHaveBeenCalledWith(0.3);
-    expect((window as any).dispatchEvent).toHaveBeenCalled();
+    // each slider drives its own bus
+    sliderState.callbacks[0](0.3);
+    expect(audio.getVolume("music")).toBe(0.3);
+    expect(button.volume).toBe(0.3);
+    sliderState.callbacks[1](0.9);
+    expect(audio.getVolume("sfx")).toBe(0.9);
+    expect(audio.getVolume("music")).toBe(0.3);
 
     // overlay click should close popup and redraw base layer
     const overlay = konvaState.rects.find((r) => r.config.fill?.toString().includes("rgba"));
     overlay?.handlers.get("click")?.();
     expect(button.isPopupOpen).toBe(false);
+    expect(sliderState.destroyed).toBe(2); // and stop both sliders following
     expect(layer.draw).toHaveBeenCalled();
   });
 
+  it("closes an open popup when the button is destroyed", async () => {
+    const { default: Konva } = await import("konva");
+    const stage = new Konva.Stage({ width: 800, height: 600 });
+    const layer = new Konva.Layer();
+    const button: any = new VolumeButton(stage as never, layer as never, 0.5);
+
+    button.destroy(); // nothing open yet
+    expect(sliderState.destroyed).toBe(0);
+
+    button["group"].handlers.get("click")?.();
+    const modalLayer = konvaState.layers[konvaState.layers.length - 1];
+    button.destroy();
+    expect(sliderState.destroyed).toBe(2);
+    expect(modalLayer.destroy).toHaveBeenCalled();
+    expect(button.isPopupOpen).toBe(false);
+  });
+
+  it("mutes and unmutes each bus from its switch", async () => {
+    const audio = AudioManager.getInstance() as SilentAudioManager;
+    audio.unlock();
+    audio.setMuted("music", true);
+
+    const { default: Konva } = await import("konva");
+    const stage = new Konva.Stage({ width: 800, height: 600 });
+    const layer = new Konva.Layer();
+    const button: any = new VolumeButton(stage as never, layer as never, 0.5);
+    button["group"].handlers.get("click")?.();
+    const toggle = (bus: string) => konvaState.rects.find((r) => r.config.name === `mute-${bus}`)!;
+    expect(toggle("music").config.fill).toBe("#95a5a6"); // starts as saved: off
+    expect(toggle("sfx").config.fill).toBe("#27ae60");
+
+    toggle("music").handlers.get("click")?.();
+    expect(audio.isMuted("music")).toBe(false);
+    expect(toggle("music").config.fill).toBe("#27ae60");
+
+    toggle("sfx").handlers.get("click")?.();
+    expect(audio.isMuted("sfx")).toBe(true);
+    expect(audio.isMuted("music")).toBe(false);
+    // the music switch clicks; the effects one goes quiet with its own bus
+    expect(audio.played).toEqual(["click_sound.wav", "click_sound.wav"]);
+
+    toggle("sfx").handlers.get("mouseenter")?.();
+    expect(stage.container().style.cursor).toBe("pointer");
+    toggle("sfx").handlers.get("mouseleave")?.();
+    expect(stage.container().style.cursor).toBe("default");
+  });
+
   it("clamps setVolume before and after popup creation", async () => {
     const { default: Konva } = await import("konva");
     const stage = new Konva.Stage({ width: 500, height: 400 });
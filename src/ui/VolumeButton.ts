@@ -1,5 +1,6 @@
 import Konva from 'konva';
 import { VolumeSlider } from './VolumeSlider';
+import { AudioBus, AudioManager } from '../AudioManager';
 
 export class VolumeButton {
   private group: Konva.Group;
@@ -7,6 +8,8 @@ export class VolumeButton {
   private layer: Konva.Layer;
   private isPopupOpen: boolean = false;
   private volumeSlider?: VolumeSlider;
+  private modalLayer?: Konva.Layer;
+  private sliders: VolumeSlider[] = []; // the open popup's sliders, one per bus
   public volume: number = 0.5;
 
   constructor(
@@ -73,6 +76,7 @@ export class VolumeButton {
     // Click handler
     this.group.on('click', () => {
       if (this.isPopupOpen) return;
+      AudioManager.getInstance().playSfx('click');
       this.showPopup();
     });
   }
@@ -86,7 +90,7 @@ export class VolumeButton {
 
     // Compact modal size
     const modalWidth = Math.min(stageWidth * 0.6, 600);
-    const modalHeight = Math.min(stageHeight * 0.2, 200);
+    const modalHeight = Math.min(stageHeight * 0.3, 280);
     const modalX = (stageWidth - modalWidth) / 2;
     const modalY = (stageHeight - modalHeight) / 2;
 
@@ -100,11 +104,7 @@ export class VolumeButton {
       fill: 'rgba(0,0,0,0.5)',
     });
 
-    overlay.on('click', () => {
-      modalLayer.destroy();
-      this.layer.draw();
-      this.isPopupOpen = false;
-    });
+    overlay.on('click', () => this.closePopup());
 
     // Paper background
     const paper = new Konva.Rect({
@@ -197,52 +197,124 @@ export class VolumeButton {
     });
 
     closeGroup.on('click', () => {
-      modalLayer.destroy();
-      this.layer.draw();
-      this.isPopupOpen = false;
+      AudioManager.getInstance().playSfx('click');
+      this.closePopup();
     });
 
     // Add all modal elements
     modalGroup.add(overlay, paper, highlight, title, closeGroup);
     modalLayer.add(modalGroup);
 
-    // Get global volume functions
-    const getGlobalBgmVolume = (window as any).getGlobalBgmVolume;
-    const setGlobalBgmVolume = (window as any).setGlobalBgmVolume;
-
-    let initialVolume = this.volume;
-    if (typeof getGlobalBgmVolume === 'function') {
-      const v = getGlobalBgmVolume();
-      if (typeof v === 'number' && !Number.isNaN(v)) {
-        initialVolume = Math.max(0, Math.min(1, v));
-      }
-    }
+    const audio = AudioManager.getInstance();
+    this.volume = audio.getVolume('music');
 
     this.stage.add(modalLayer);
+    this.modalLayer = modalLayer;
 
-    // Create volume slider in the modal layer
-    this.volumeSlider = new VolumeSlider(
-      this.stage,
-      modalLayer,
-      initialVolume,
-      (v: number) => {
-        this.volume = v;
+    // One slider per audio bus, music on top
+    this.volumeSlider = this.createBusSlider(modalLayer, 'music', 'MUSIC', modalY + modalHeight * 0.45, (v: number) => {
+      this.volume = v;
+    });
+    this.createBusSlider(modalLayer, 'sfx', 'EFFECTS', modalY + modalHeight * 0.75);
 
-        if (typeof setGlobalBgmVolume === 'function') {
-          setGlobalBgmVolume(v);
-        }
+    modalLayer.draw();
+  }
 
-        window.dispatchEvent(
-          new CustomEvent<number>('bgm-volume-change', { detail: v })
-        );
-      }
-    );
+  // Takes the popup down and stops its sliders following their buses
+  private closePopup(): void {
+    if (!this.isPopupOpen) return;
+    this.sliders.forEach((slider) => slider.destroy());
+    this.sliders = [];
+    this.volumeSlider = undefined;
+    this.modalLayer?.destroy();
+    this.modalLayer = undefined;
+    this.layer.draw();
+    this.isPopupOpen = false;
+  }
 
-    // Position the slider in the modal
-    const sliderY = modalY + modalHeight * 0.55;
-    this.volumeSlider.setPosition((stageWidth - this.volumeSlider.getWidth()) / 2, sliderY);
+  private createBusSlider(
+    modalLayer: Konva.Layer,
+    bus: AudioBus,
+    label: string,
+    y: number,
+    onChange?: (v: number) => void
+  ): VolumeSlider {
+    const stageWidth = this.stage.width();
+    const audio = AudioManager.getInstance();
+
+    const slider = new VolumeSlider(this.stage, modalLayer, audio.getVolume(bus), (v: number) => {
+      audio.setVolume(bus, v);
+      onChange?.(v);
+    }).follow(bus);
+    this.sliders.push(slider);
+    const sliderX = (stageWidth - slider.getWidth()) / 2;
+    slider.setPosition(sliderX, y);
+
+    modalLayer.add(new Konva.Text({
+      x: sliderX,
+      y: y - 18,
+      width: slider.getWidth(),
+      text: label,
+      fontSize: 10,
+      fontFamily: 'Press Start 2P',
+      fill: '#2C3E50',
+      align: 'center',
+    }));
+    this.createMuteToggle(modalLayer, bus, sliderX + slider.getWidth() + 30, y);
+    return slider;
+  }
 
-    modalLayer.draw();
+  // ON/OFF switch for a bus; the AudioManager saves the mute with the volume
+  private createMuteToggle(modalLayer: Konva.Layer, bus: AudioBus, x: number, y: number): void {
+    const audio = AudioManager.getInstance();
+    const width = 56;
+    const height = 20;
+
+    const toggleRect = new Konva.Rect({
+      x,
+      y,
+      width,
+      height,
+      name: `mute-${bus}`,
+      stroke: '#2C3E50',
+      strokeWidth: 1.5,
+      cornerRadius: height / 2,
+    });
+    const toggleText = new Konva.Text({
+      x,
+      y,
+      width,
+      height,
+      fontSize: 10,
+      fontFamily: 'Press Start 2P',
+      fill: 'white',
+      align: 'center',
+      verticalAlign: 'middle',
+      listening: false,
+    });
+
+    const show = () => {
+      const muted = audio.isMuted(bus);
+      toggleRect.fill(muted ? '#95a5a6' : '#27ae60');
+      toggleText.text(muted ? 'OFF' : 'ON');
+    };
+    show();
+
+    toggleRect.on('mouseenter', () => {
+      this.stage.container().style.cursor = 'pointer';
+    });
+    toggleRect.on('mouseleave', () => {
+      this.stage.container().style.cursor = 'default';
+    });
+    toggleRect.on('click', () => {
+      audio.setMuted(bus, !audio.isMuted(bus));
+      // after the switch, so unmuting effects is heard and muting them is not
+      audio.playSfx('click');
+      show();
+      modalLayer.draw();
+    });
+
+    modalLayer.add(toggleRect, toggleText);
   }
 
   public setVolume(v: number): void {
@@ -253,6 +325,7 @@ export class VolumeButton {
   }
 
   public destroy(): void {
+    this.closePopup();
     this.group.destroy();
   }
 }
\ No newline at end of file
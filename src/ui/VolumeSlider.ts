@@ -1,9 +1,12 @@
 import Konva from 'konva';
+import { AudioBus } from '../AudioManager';
+import { EventBus } from '../EventBus';
 
 export class VolumeSlider {
   private group: Konva.Group;
   private track: Konva.Rect;
   private knob: Konva.Circle;
+  private unfollow: (() => void) | null = null;
 
   private readonly sliderWidth = 160;
   private readonly sliderHeight = 8;
@@ -133,6 +136,22 @@ export class VolumeSlider {
     this.layer.batchDraw();
   }
 
+  // Moves the knob whenever the bus's volume changes, whichever slider
+  // changed it, until destroy()
+  public follow(bus: AudioBus): this {
+    this.unfollow?.();
+    this.unfollow = EventBus.getInstance().on('volumeChanged', (event) => {
+      if (event.bus === bus) this.setVolume(event.volume);
+    });
+    return this;
+  }
+
+  public destroy(): void {
+    this.unfollow?.();
+    this.unfollow = null;
+    this.group.destroy();
+  }
+
   //helper functions to get size and set position of slider for layout adjustments (used in InfoButton)
   public getWidth(): number {
     return this.sliderWidth;
@@ -57,6 +57,9 @@ class FakeGroup extends FakeNode {
   y() {
     return this.config.y ?? 0; // expose y for completeness
   }
+  destroy() {
+    this.config.destroyed = true; // record teardown
+  }
 }
 
 class FakeRect extends FakeNode {}
@@ -167,4 +170,24 @@ describe("VolumeSlider", () => {
     expect(changeSpy).toHaveBeenCalledTimes(1); // click invokes the callback once (constructor does not)
     expect(layer.batchDraw).toHaveBeenCalled(); // redraw after click
   });
+
+  it("follows its bus on the event bus until destroyed", async () => {
+    const Konva = (await import("konva")).default as any; // load mocked Konva
+    const { VolumeSlider } = await import("./VolumeSlider"); // import target after mocks
+    const { EventBus } = await import("../EventBus"); // fresh bus from the reset modules
+    const layer = new Konva.Layer(); // layer spy
+    const slider = new VolumeSlider(new Konva.Stage({ width: 320, height: 200 }), layer, 0.5, vi.fn()).follow("sfx");
+    const knob = (slider as any).knob as FakeCircle; // knob position reflects volume
+
+    EventBus.getInstance().emit("volumeChanged", { bus: "music", volume: 0, muted: false }); // other bus: ignored
+    expect(knob.x()).toBe(80); // still at 50% of 160
+    EventBus.getInstance().emit("volumeChanged", { bus: "sfx", volume: 0.25, muted: false }); // its bus moves the knob
+    expect(knob.x()).toBe(40);
+
+    slider.destroy(); // stop following and remove the slider
+    EventBus.getInstance().emit("volumeChanged", { bus: "sfx", volume: 1, muted: false });
+    expect(knob.x()).toBe(40);
+    expect((slider as any).group.config.destroyed).toBe(true);
+    expect(EventBus.getInstance().listenerCount("volumeChanged")).toBe(0);
+  });
 });
@@ -128,6 +128,16 @@ function createKonvaMock() {
   };
 }
 
+// Clicks a button on the latest modal layer, e.g. the shortfall check
+function clickModalButton(stage: any, label: string) {
+  const modal = stage.getChildren()[stage.getChildren().length - 1];
+  const panel = modal?.getChildren().find((n: any) => n.getChildren?.().length);
+  panel
+    ?.getChildren()
+    .find((n: any) => n.getChildren?.().some((c: any) => c.text?.() === label))
+    ?.fire("click");
+}
+
 describe("UI component coverage", () => {
   const baseImageStub = () =>
     vi.stubGlobal(
@@ -257,6 +267,7 @@ describe("UI component coverage", () => {
       cashBalance: 123.45,
       onReturnHome: onReturn,
     });
+    screen.mount();
 
     const button = layer
       .getChildren()
@@ -286,7 +297,7 @@ describe("UI component coverage", () => {
       cashBalance: 55.5,
       totalDaysPlayed: 4,
       onReturnHome: onReturn,
-    });
+    }).mount();
     const button = layer
       .getChildren()
       .find((c: any) =>
@@ -348,10 +359,11 @@ describe("UI component coverage", () => {
       10, // funds
       1,
       5,
-      [{ customerNum: 1, cookieCount: 2 }],
+      [{ customerNum: 1, cookieCount: 2, recipeId: "chocolate-chip" }],
       onPurchaseComplete,
       onViewRecipe
     );
+    screen.mount();
 
     // Ensure purchase button exists even if draw order changes
     screen.createPurchaseButton?.(stage.width(), 0);
@@ -400,6 +412,7 @@ describe("UI component coverage", () => {
         ) || layer.getChildren().find((c: any) => c.handlers?.has("click"));
     expect(purchaseButton).toBeDefined();
     purchaseButton?.fire("click");
+    clickModalButton(stage, "BUY ANYWAY");
     expect(onPurchaseComplete).toHaveBeenCalled();
 
     // Force insufficient funds branch
@@ -408,7 +421,7 @@ describe("UI component coverage", () => {
     window.alert = vi.fn();
     purchaseButton?.fire("click");
     expect(window.alert).toHaveBeenCalled();
-    screen.cleanup();
+    screen.unmount();
   });
 
   it("covers ShoppingScreen price tag fallback and receipt modal", async () => {
@@ -458,12 +471,13 @@ describe("UI component coverage", () => {
       2,
       10,
       [
-        { customerNum: 1, cookieCount: 2 },
-        { customerNum: 2, cookieCount: 3 },
+        { customerNum: 1, cookieCount: 2, recipeId: "chocolate-chip" },
+        { customerNum: 2, cookieCount: 3, recipeId: "chocolate-chip" },
       ],
       onPurchaseComplete,
       onViewRecipe
     );
+    screen.mount();
 
     // trigger view orders modal
     const viewOrdersButton = layer
@@ -478,6 +492,6 @@ describe("UI component coverage", () => {
       ?.getChildren()
       .find((n: any) => n.handlers?.has("click"));
     closeCircle?.fire("click");
-    screen.cleanup();
+    screen.unmount();
   });
 });